@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.5.0
+pragma solidity ^0.8.27;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title TLPForwarder
+ * @notice ERC-2771 forwarder used to relay gasless TLPStaking withdrawals and claims
+ */
+contract TLPForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("TLPForwarder") {}
+}
@@ -3,143 +3,75 @@ pragma solidity ^0.8.27;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
-import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
-import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {TLPStakingBase} from "./TLPStakingBase.sol";
 
 /**
  * @title TLPStaking
  * @notice Pool-based escrow contract for Timeleap compute providers
  * @dev All business logic (VM types, pricing, rentals) is handled off-chain.
  *      This contract is a simple escrow that:
- *      - Accepts user deposits (no signature required)
+ *      - Accepts user deposits (no signature required, optionally approved via EIP-2612 permit)
  *      - Executes withdrawals and claims with k-of-n EIP712 signatures
+ *      - Versions signer sets by epoch so rotations don't invalidate in-flight signatures
+ *      - Offers a timelocked escape-hatch withdrawal if signers are unavailable
  *      - Maintains provider staking for accountability
- *      - Rental IDs are included in events for audit trail only (no on-chain state)
+ *      - Lets token holders delegate stake to providers for a share of claim revenue
+ *      - Lets guardians pause deposits, withdrawals, claims and staking independently
+ *      - Accepts ERC-2771 meta-transactions from an admin-set trusted forwarder,
+ *        optionally charging a TLP relay fee
+ *      - Lets users optionally lock funds to a rental, capping claims under that rentalId
+ *      - Streams rental payments per second once a signer quorum opens a stream
+ *      - Rental IDs without a lock are included in events for audit trail only
+ *
+ *      Escape hatch, escrow, dispute, stream, delegation and police entry points live in
+ *      TLPStakingExtension; guardian, signer and admin entry points live in
+ *      TLPStakingAdminExtension. Both are deployed separately, passed to the constructor
+ *      and reached through delegatecall stubs, keeping every contract under the
+ *      EIP-170 size limit.
  */
-contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
+contract TLPStaking is TLPStakingBase {
     using SafeERC20 for IERC20;
 
-    // ============ Roles ============
-    bytes32 public constant POLICE_ROLE = keccak256("POLICE_ROLE");
-
-    // ============ EIP712 Type Hashes ============
-    bytes32 public constant WITHDRAWAL_TYPEHASH =
-        keccak256("Withdrawal(address user,uint256 amount,uint256 nonce,uint256 deadline)");
-    bytes32 public constant CLAIM_TYPEHASH =
-        keccak256("Claim(bytes32 rentalId,address user,address provider,uint256 amount,uint256 nonce,uint256 deadline)");
-
-    // ============ Custom Errors ============
-    error ZeroAddress();
-    error ZeroAmount();
-    error InsufficientStake();
-    error StakeLocked();
-    error AlreadyStaked();
-    error ProviderBanned();
-    error ProviderNotBanned();
-    error NotAProvider();
-    error InvalidDuration();
-    error DurationTooShort();
-    error InsufficientBalance();
-    error InvalidSlashAmount();
-    error SignerAlreadyAuthorized();
-    error SignerNotAuthorized();
-    error InsufficientSignatures();
-    error DuplicateSignature();
-    error InvalidSignature();
-    error InvalidRequiredSignatures();
-    error ArrayLengthMismatch();
-    error CommissionTooHigh();
-    error SignatureExpired();
-
-    // ============ Events ============
-    // Provider events
-    event Staked(address indexed provider, uint256 amount, uint256 unlockTime);
-    event StakeExtended(address indexed provider, uint256 newUnlockTime);
-    event StakeIncreased(address indexed provider, uint256 addedAmount, uint256 newTotal, uint256 newUnlockTime);
-    event StakeWithdrawn(address indexed provider, uint256 amount);
-    event ProviderSlashed(address indexed provider, uint256 slashedStake, bool banned);
-    event ProviderUnbanned(address indexed provider);
-
-    // User balance events
-    event Deposited(address indexed user, uint256 amount, uint256 newBalance);
-    event Withdrawn(address indexed user, uint256 amount, uint256 newBalance);
-
-    // Claim events (rentalId for audit trail)
-    event Claimed(
-        bytes32 indexed rentalId,
-        address indexed user,
-        address indexed provider,
-        uint256 amount,
-        uint256 commission
-    );
-
-    // Admin events
-    event MinStakeDurationUpdated(uint256 oldDuration, uint256 newDuration);
-    event TreasuryUpdated(address oldTreasury, address newTreasury);
-    event SignerAdded(address indexed signer);
-    event SignerRemoved(address indexed signer);
-    event RequiredSignaturesUpdated(uint256 oldRequired, uint256 newRequired);
-    event CommissionUpdated(uint256 oldCommission, uint256 newCommission);
-
-    // ============ Structs ============
-    struct ProviderInfo {
-        uint256 stakeAmount;
-        uint256 unlockTime;
-        bool isBanned;
-        uint256 slashCount;
-    }
-
-    struct ClaimRequest {
-        bytes32 rentalId;
-        address user;
-        uint256 amount;
-        uint256 deadline;
-    }
+    error InvalidExtension();
 
-    // ============ State Variables ============
-    IERC20 public immutable tlpToken;
-    address public treasury;
+    // Delegatecall target for the entry points in TLPStakingExtension
+    address public immutable extension;
 
-    uint256 public minStakeDuration = 30 days;
-    uint256 public commissionBps; // Commission in basis points (10000 = 100%)
-
-    // Provider staking
-    mapping(address => ProviderInfo) public providers;
-
-    // User balances in the pool
-    mapping(address => uint256) public userBalances;
-
-    // Single nonce per address for all operations
-    mapping(address => uint256) public nonces;
-
-    // Signer management
-    mapping(address => bool) public isSigner;
-    address[] public signers;
-    uint256 public requiredSignatures;
+    // Delegatecall target for the entry points in TLPStakingAdminExtension
+    address public immutable adminExtension;
 
     // ============ Constructor ============
+
     /**
      * @notice Initializes the staking contract
      * @param _tlpToken Address of the TLP token
      * @param _treasury Address where commission and slashed funds are sent
      * @param _admin Address that will have admin role
+     * @param _extension TLPStakingExtension deployed for the same TLP token
+     * @param _adminExtension TLPStakingAdminExtension deployed for the same TLP token
      */
     constructor(
         address _tlpToken,
         address _treasury,
-        address _admin
-    ) EIP712("TLPStaking", "1") {
-        if (_tlpToken == address(0)) revert ZeroAddress();
+        address _admin,
+        address _extension,
+        address _adminExtension
+    ) TLPStakingBase(_tlpToken) {
         if (_treasury == address(0)) revert ZeroAddress();
         if (_admin == address(0)) revert ZeroAddress();
+        if (_extension == address(0) || _adminExtension == address(0)) revert ZeroAddress();
+        if (
+            address(TLPStakingBase(_extension).tlpToken()) != _tlpToken ||
+            address(TLPStakingBase(_adminExtension).tlpToken()) != _tlpToken
+        ) revert InvalidExtension();
 
-        tlpToken = IERC20(_tlpToken);
         treasury = _treasury;
+        extension = _extension;
+        adminExtension = _adminExtension;
 
         _grantRole(DEFAULT_ADMIN_ROLE, _admin);
         _grantRole(POLICE_ROLE, _admin);
+        _grantRole(GUARDIAN_ROLE, _admin);
     }
 
     // ============ User Balance Functions ============
@@ -148,114 +80,224 @@ contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
      * @notice Deposit tokens to user's balance in the pool
      * @param amount Amount of tokens to deposit
      */
-    function deposit(uint256 amount) external nonReentrant {
-        if (amount == 0) revert ZeroAmount();
+    function deposit(uint256 amount) external whenNotPaused(PAUSE_DEPOSITS) nonReentrant {
+        _deposit(address(tlpToken), _msgSender(), amount);
+    }
+
+    /**
+     * @notice Deposit a payment token to user's balance in the pool
+     * @dev Balances are credited with the amount requested, so fee-on-transfer and
+     *      rebasing tokens must not be allowlisted
+     * @param token TLP or an allowlisted payment token
+     * @param amount Amount of tokens to deposit
+     */
+    function depositToken(address token, uint256 amount) external whenNotPaused(PAUSE_DEPOSITS) nonReentrant {
+        if (token != address(tlpToken) && !paymentTokens[token]) revert TokenNotAllowed();
+        _deposit(token, _msgSender(), amount);
+    }
+
+    /**
+     * @notice Deposit tokens to another address's balance in the pool
+     * @param beneficiary Address whose balance is credited
+     * @param amount Amount of tokens to deposit (pulled from the caller)
+     */
+    function depositFor(address beneficiary, uint256 amount) external whenNotPaused(PAUSE_DEPOSITS) nonReentrant {
+        _deposit(address(tlpToken), beneficiary, amount);
+    }
+
+    /**
+     * @notice Deposit tokens to many balances with a single transfer from the caller
+     * @param beneficiaries Addresses whose balances are credited
+     * @param amounts Amount credited to each beneficiary
+     */
+    function batchDepositFor(
+        address[] calldata beneficiaries,
+        uint256[] calldata amounts
+    ) external whenNotPaused(PAUSE_DEPOSITS) nonReentrant {
+        uint256 length = beneficiaries.length;
+        if (length != amounts.length) revert ArrayLengthMismatch();
+
+        uint256 total = 0;
+        for (uint256 i = 0; i < length; i++) {
+            _creditDeposit(address(tlpToken), beneficiaries[i], amounts[i]);
+            total += amounts[i];
+        }
 
-        userBalances[_msgSender()] += amount;
-        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+        tlpToken.safeTransferFrom(_msgSender(), address(this), total);
+    }
 
-        emit Deposited(_msgSender(), amount, userBalances[_msgSender()]);
+    /**
+     * @notice Deposit tokens using an EIP-2612 permit instead of a prior approve
+     * @param amount Amount of tokens to deposit (also the permit value)
+     * @param permitDeadline Permit expiration timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function depositWithPermit(
+        uint256 amount,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused(PAUSE_DEPOSITS) nonReentrant {
+        _permit(amount, permitDeadline, v, r, s);
+        _deposit(address(tlpToken), _msgSender(), amount);
     }
 
     /**
      * @notice Withdraw tokens from user's balance (requires k-of-n signatures)
+     * @dev On calls relayed through the trusted forwarder, the relay fee is charged to the
+     *      user's TLP balance, whatever the withdrawn token; direct calls pay no fee
+     * @param token Payment token to withdraw (TLP or a token deposited while allowlisted)
      * @param amount Amount to withdraw
+     * @param nonce Unused withdrawal nonce the signatures commit to (any order)
      * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
      * @param signatures Array of signatures from authorized signers
      */
     function withdraw(
+        address token,
         uint256 amount,
+        uint256 nonce,
         uint256 deadline,
+        uint256 epoch,
         bytes[] calldata signatures
-    ) external nonReentrant {
+    ) external whenNotPaused(PAUSE_WITHDRAWALS) nonReentrant {
         if (amount == 0) revert ZeroAmount();
         if (block.timestamp > deadline) revert SignatureExpired();
-        if (amount > userBalances[_msgSender()]) revert InsufficientBalance();
 
-        uint256 nonce = nonces[_msgSender()]++;
+        mapping(address => uint256) storage balances = _balances(token);
+        if (amount > balances[_msgSender()]) revert InsufficientBalance();
+
+        _useNonce(_msgSender(), nonce);
 
         _verifySignatures(
             _hashTypedDataV4(
-                keccak256(abi.encode(WITHDRAWAL_TYPEHASH, _msgSender(), amount, nonce, deadline))
+                keccak256(abi.encode(WITHDRAWAL_TYPEHASH, _msgSender(), token, amount, nonce, deadline, epoch))
             ),
-            signatures
+            signatures,
+            _requiredWithdrawalSignatures(amount),
+            epoch
         );
 
-        userBalances[_msgSender()] -= amount;
-        tlpToken.safeTransfer(_msgSender(), amount);
+        balances[_msgSender()] -= amount;
+        _chargeRelayFee(_relayFee());
+        IERC20(token).safeTransfer(_msgSender(), amount);
 
-        emit Withdrawn(_msgSender(), amount, userBalances[_msgSender()]);
+        emit Withdrawn(_msgSender(), token, amount, balances[_msgSender()]);
     }
 
     // ============ Provider Claim Functions ============
 
     /**
      * @notice Provider claims from a user's balance (requires k-of-n signatures)
-     * @param rentalId Rental ID for audit trail (not stored on-chain)
+     * @dev Signers sign the running total owed for (rentalId, provider); only the
+     *      difference to the amount already paid is transferred, so re-submitted
+     *      or out-of-order signatures can't pay twice. With a claim challenge period set,
+     *      the provider payout is held for the period instead of transferred. With a
+     *      holdback set, part of the payout vests over time instead (see releaseVested).
+     *      Claims in payment tokens other than TLP are paid from the user's balance in that
+     *      token, send commission to treasury in the same token, skip delegator rewards and
+     *      holdback, and charge any relay fee to the caller's TLP balance. They are rejected
+     *      while a claim cap applies to the caller, since the cap is accounted in TLP.
+     *      Commission is charged at the caller's override rate while one is active, otherwise
+     *      at the fee class rate, otherwise at commissionBps.
+     * @param rentalId Rental ID (audit trail, or the rental lock to claim against)
      * @param user Address of the user to claim from
-     * @param amount Amount to claim
+     * @param token Payment token to claim in (rental locks are TLP only)
+     * @param feeClass Commission tier to apply (0 = default rate)
+     * @param cumulativeAmount Total owed for the rental so far
      * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
      * @param signatures Array of signatures from authorized signers
      */
     function claim(
         bytes32 rentalId,
         address user,
-        uint256 amount,
+        address token,
+        uint256 feeClass,
+        uint256 cumulativeAmount,
         uint256 deadline,
+        uint256 epoch,
         bytes[] calldata signatures
-    ) external nonReentrant {
+    ) external whenNotPaused(PAUSE_CLAIMS) nonReentrant {
         _verifyActiveProvider();
 
-        (uint256 commission, uint256 providerAmount) = _processClaim(
-            rentalId, user, amount, deadline, signatures
+        (uint256 amount, uint256 commission, uint256 providerAmount, uint256 rate) = _processClaim(
+            ClaimRequest(rentalId, user, token, feeClass, cumulativeAmount, deadline, epoch), signatures
         );
-
-        if (commission > 0) {
-            tlpToken.safeTransfer(treasury, commission);
+        _consumeClaimCapacity(_msgSender(), token, amount);
+
+        _distributeFees(commissionSplit, token, commission);
+        uint256 fee = _payClaimRelayFee(token);
+        if (claimChallengePeriod > 0) {
+            if (fee > providerAmount) revert InsufficientBalance();
+            _holdClaim(rentalId, user, token, providerAmount, fee);
+        } else {
+            _payProvider(_msgSender(), token, providerAmount, fee);
         }
-        tlpToken.safeTransfer(_msgSender(), providerAmount);
 
-        emit Claimed(rentalId, user, _msgSender(), amount, commission);
+        emit Claimed(rentalId, user, _msgSender(), token, amount, commission, rate);
     }
 
     /**
      * @notice Provider claims from multiple users in a single transaction
+     * @dev All claims in a batch must use the same payment token
      * @param claims Array of claim requests
      * @param signatures Array of signature arrays for each claim
      */
     function batchClaim(
         ClaimRequest[] calldata claims,
         bytes[][] calldata signatures
-    ) external nonReentrant {
+    ) external whenNotPaused(PAUSE_CLAIMS) nonReentrant {
         uint256 length = claims.length;
         if (length != signatures.length) revert ArrayLengthMismatch();
 
         _verifyActiveProvider();
 
+        address token = length > 0 ? claims[0].token : address(tlpToken);
+        uint256 totalClaimed = 0;
         uint256 totalAmount = 0;
         uint256 totalCommission = 0;
+        uint256[] memory amounts = new uint256[](length);
         uint256[] memory commissions = new uint256[](length);
+        uint256[] memory payouts = new uint256[](length);
+        uint256[] memory rates = new uint256[](length);
 
         for (uint256 i = 0; i < length; i++) {
-            ClaimRequest calldata req = claims[i];
-            (uint256 commission, uint256 providerAmount) = _processClaim(
-                req.rentalId, req.user, req.amount, req.deadline, signatures[i]
+            if (claims[i].token != token) revert MixedPaymentTokens();
+            (uint256 amount, uint256 commission, uint256 providerAmount, uint256 rate) = _processClaim(
+                claims[i], signatures[i]
             );
+            amounts[i] = amount;
             commissions[i] = commission;
+            payouts[i] = providerAmount;
+            rates[i] = rate;
+            totalClaimed += amount;
             totalCommission += commission;
             totalAmount += providerAmount;
         }
 
-        if (totalCommission > 0) {
-            tlpToken.safeTransfer(treasury, totalCommission);
-        }
-        if (totalAmount > 0) {
-            tlpToken.safeTransfer(_msgSender(), totalAmount);
+        _consumeClaimCapacity(_msgSender(), token, totalClaimed);
+
+        _distributeFees(commissionSplit, token, totalCommission);
+        uint256 fee = _payClaimRelayFee(token);
+        if (claimChallengePeriod > 0) {
+            // The relay fee comes out of the first payouts it fits in, so they must cover it
+            if (fee > totalAmount) revert InsufficientBalance();
+            for (uint256 i = 0; i < length; i++) {
+                uint256 take = fee < payouts[i] ? fee : payouts[i];
+                fee -= take;
+                _holdClaim(claims[i].rentalId, claims[i].user, token, payouts[i], take);
+            }
+        } else {
+            _payProvider(_msgSender(), token, totalAmount, fee);
         }
 
         for (uint256 i = 0; i < length; i++) {
             ClaimRequest calldata req = claims[i];
-            emit Claimed(req.rentalId, req.user, _msgSender(), req.amount, commissions[i]);
+            emit Claimed(req.rentalId, req.user, _msgSender(), token, amounts[i], commissions[i], rates[i]);
         }
     }
 
@@ -263,317 +305,457 @@ contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
 
     /**
      * @notice Stake tokens as a provider
-     * @param amount Amount of tokens to stake
+     * @dev Previously slashed providers must also satisfy the re-entry rules (see getReentryStatus)
+     * @param amount Amount of tokens to stake (must be >= minProviderStake plus any re-entry premium)
      * @param duration Duration to lock the stake (must be >= minStakeDuration)
      */
-    function stake(uint256 amount, uint256 duration) external nonReentrant {
-        if (amount == 0) revert ZeroAmount();
-        if (duration < minStakeDuration) revert DurationTooShort();
-
-        ProviderInfo storage provider = providers[_msgSender()];
-        if (provider.isBanned) revert ProviderBanned();
-        if (provider.stakeAmount > 0) revert AlreadyStaked();
-
-        provider.stakeAmount = amount;
-        provider.unlockTime = block.timestamp + duration;
-
-        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
-
-        emit Staked(_msgSender(), amount, provider.unlockTime);
+    function stake(uint256 amount, uint256 duration) external whenNotPaused(PAUSE_STAKING) nonReentrant {
+        _stake(amount, duration);
     }
 
     /**
-     * @notice Extend the lock duration of existing stake
-     * @param newUnlockTime New unlock timestamp (must result in at least minStakeDuration from now)
+     * @notice Stake tokens as a provider using an EIP-2612 permit instead of a prior approve
+     * @param amount Amount of tokens to stake (also the permit value)
+     * @param duration Duration to lock the stake (must be >= minStakeDuration)
+     * @param permitDeadline Permit expiration timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
      */
-    function extendStakeDuration(uint256 newUnlockTime) external {
-        ProviderInfo storage provider = providers[_msgSender()];
-        if (provider.stakeAmount == 0) revert NotAProvider();
-        if (provider.isBanned) revert ProviderBanned();
-
-        uint256 minNewUnlock = block.timestamp + minStakeDuration;
-        if (newUnlockTime < minNewUnlock) revert DurationTooShort();
-        if (newUnlockTime <= provider.unlockTime) revert InvalidDuration();
-
-        provider.unlockTime = newUnlockTime;
-
-        emit StakeExtended(_msgSender(), newUnlockTime);
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 duration,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused(PAUSE_STAKING) nonReentrant {
+        _permit(amount, permitDeadline, v, r, s);
+        _stake(amount, duration);
     }
 
     /**
      * @notice Add more tokens to existing stake (extends duration by minStakeDuration)
      * @param amount Amount of tokens to add
      */
-    function increaseStake(uint256 amount) external nonReentrant {
+    function increaseStake(uint256 amount) external whenNotPaused(PAUSE_STAKING) nonReentrant {
+        _increaseStake(amount);
+    }
+
+    /**
+     * @notice Add more tokens to existing stake using an EIP-2612 permit
+     * @param amount Amount of tokens to add (also the permit value)
+     * @param permitDeadline Permit expiration timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function increaseStakeWithPermit(
+        uint256 amount,
+        uint256 permitDeadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused(PAUSE_STAKING) nonReentrant {
+        _permit(amount, permitDeadline, v, r, s);
+        _increaseStake(amount);
+    }
+
+    /**
+     * @notice Move part of the stake into the unbonding queue after unlock time
+     * @dev The amount stops counting as active stake immediately but remains
+     *      slashable until the entry matures after unbondingPeriod.
+     * @param amount Amount of stake to unbond
+     */
+    function requestUnstake(uint256 amount) external whenNotPaused(PAUSE_STAKING) {
         if (amount == 0) revert ZeroAmount();
 
         ProviderInfo storage provider = providers[_msgSender()];
         if (provider.stakeAmount == 0) revert NotAProvider();
-        if (provider.isBanned) revert ProviderBanned();
+        if (block.timestamp < provider.unlockTime) revert StakeLocked();
+        if (amount > provider.stakeAmount) revert InsufficientStake();
 
-        provider.stakeAmount += amount;
+        UnbondingEntry[] storage queue = unbondingQueue[_msgSender()];
+        if (queue.length >= MAX_UNBONDING_ENTRIES) revert TooManyUnbondingEntries();
 
-        uint256 newUnlockTime = block.timestamp + minStakeDuration;
-        if (newUnlockTime > provider.unlockTime) {
-            provider.unlockTime = newUnlockTime;
+        provider.stakeAmount -= amount;
+        if (provider.stakeAmount == 0) {
+            provider.unlockTime = 0;
         }
 
-        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+        uint256 releaseTime = block.timestamp + unbondingPeriod;
+        queue.push(UnbondingEntry({amount: amount, releaseTime: releaseTime}));
 
-        emit StakeIncreased(_msgSender(), amount, provider.stakeAmount, provider.unlockTime);
+        emit UnstakeRequested(_msgSender(), amount, releaseTime);
     }
 
     /**
-     * @notice Withdraw stake after unlock time
+     * @notice Withdraw all matured unbonding entries
      */
-    function withdrawStake() external nonReentrant {
-        ProviderInfo storage provider = providers[_msgSender()];
-        if (provider.stakeAmount == 0) revert NotAProvider();
-        if (block.timestamp < provider.unlockTime) revert StakeLocked();
+    function withdrawUnbonded() external whenNotPaused(PAUSE_STAKING) nonReentrant {
+        UnbondingEntry[] storage queue = unbondingQueue[_msgSender()];
+
+        uint256 amount = 0;
+        uint256 kept = 0;
+        for (uint256 i = 0; i < queue.length; i++) {
+            if (queue[i].releaseTime <= block.timestamp) {
+                amount += queue[i].amount;
+            } else {
+                queue[kept++] = queue[i];
+            }
+        }
+        if (amount == 0) revert NothingToWithdraw();
 
-        uint256 amount = provider.stakeAmount;
-        provider.stakeAmount = 0;
-        provider.unlockTime = 0;
+        while (queue.length > kept) {
+            queue.pop();
+        }
 
         tlpToken.safeTransfer(_msgSender(), amount);
 
         emit StakeWithdrawn(_msgSender(), amount);
     }
 
-    // ============ Police Functions ============
+    // ============ Extension Functions ============
+    // Implemented and documented in TLPStakingExtension.
 
-    /**
-     * @notice Slash and ban: Remove all stake and ban provider
-     * @param provider Address of the provider to slash
-     */
-    function slashAndBan(address provider) external onlyRole(POLICE_ROLE) nonReentrant {
-        ProviderInfo storage providerInfo = providers[provider];
-        if (providerInfo.stakeAmount == 0) revert NotAProvider();
-        if (providerInfo.isBanned) revert ProviderBanned();
+    function requestUnilateralWithdrawal(address /* token */, uint256 /* amount */) external {
+        _delegate(extension);
+    }
 
-        uint256 slashedAmount = providerInfo.stakeAmount;
-        providerInfo.stakeAmount = 0;
-        providerInfo.unlockTime = 0;
-        providerInfo.isBanned = true;
-        providerInfo.slashCount++;
+    function executeUnilateralWithdrawal() external {
+        _delegate(extension);
+    }
 
-        if (slashedAmount > 0) {
-            tlpToken.safeTransfer(treasury, slashedAmount);
-        }
+    function cancelUnilateralWithdrawal() external {
+        _delegate(extension);
+    }
 
-        emit ProviderSlashed(provider, slashedAmount, true);
+    function invalidateNonces(uint256 /* wordPos */, uint256 /* mask */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Slash partial stake without banning
-     * @param provider Address of the provider to slash
-     * @param slashAmount Amount to slash from stake
-     */
-    function slashPartial(address provider, uint256 slashAmount) external onlyRole(POLICE_ROLE) nonReentrant {
-        ProviderInfo storage providerInfo = providers[provider];
-        if (providerInfo.stakeAmount == 0) revert NotAProvider();
-        if (slashAmount == 0) revert ZeroAmount();
-        if (slashAmount > providerInfo.stakeAmount) revert InvalidSlashAmount();
+    function extendStakeDuration(uint256 /* newUnlockTime */) external {
+        _delegate(extension);
+    }
 
-        providerInfo.stakeAmount -= slashAmount;
-        providerInfo.slashCount++;
+    function openRental(
+        bytes32 /* rentalId */,
+        address /* provider */,
+        uint256 /* amount */,
+        uint256 /* expiresAt */
+    ) external {
+        _delegate(extension);
+    }
 
-        tlpToken.safeTransfer(treasury, slashAmount);
+    function closeRental(bytes32 /* rentalId */, address /* user */) external {
+        _delegate(extension);
+    }
 
-        emit ProviderSlashed(provider, slashAmount, false);
+    function releaseClaim(bytes32 /* rentalId */, address /* provider */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Unban a previously banned provider
-     * @param provider Address of the provider to unban
-     */
-    function unbanProvider(address provider) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        ProviderInfo storage providerInfo = providers[provider];
-        if (!providerInfo.isBanned) revert ProviderNotBanned();
+    function disputeClaim(bytes32 /* rentalId */, address /* provider */) external {
+        _delegate(extension);
+    }
 
-        providerInfo.isBanned = false;
+    function dismissDispute(
+        bytes32 /* rentalId */,
+        address /* provider */,
+        uint256 /* deadline */,
+        uint256 /* epoch */,
+        bytes[] calldata /* signatures */
+    ) external {
+        _delegate(extension);
+    }
 
-        emit ProviderUnbanned(provider);
+    function refund(
+        bytes32 /* rentalId */,
+        address /* user */,
+        address /* provider */,
+        address /* token */,
+        uint256 /* cumulativeAmount */,
+        uint256 /* deadline */,
+        uint256 /* epoch */,
+        bytes[] calldata /* signatures */
+    ) external {
+        _delegate(extension);
     }
 
-    // ============ Signer Management ============
+    function openStream(
+        bytes32 /* streamId */,
+        address /* user */,
+        address /* provider */,
+        uint256 /* ratePerSecond */,
+        uint256 /* maxDuration */,
+        uint256 /* deadline */,
+        uint256 /* epoch */,
+        bytes[] calldata /* signatures */
+    ) external {
+        _delegate(extension);
+    }
 
-    /**
-     * @notice Add an authorized signer
-     * @param signer Address to authorize as signer
-     */
-    function addSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (signer == address(0)) revert ZeroAddress();
-        if (isSigner[signer]) revert SignerAlreadyAuthorized();
+    function withdrawFromStream(bytes32 /* streamId */) external {
+        _delegate(extension);
+    }
 
-        isSigner[signer] = true;
-        signers.push(signer);
+    function releaseVested() external {
+        _delegate(extension);
+    }
 
-        emit SignerAdded(signer);
+    function withdrawFees(address /* token */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Remove an authorized signer
-     * @param signer Address to remove from signers
-     */
-    function removeSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (!isSigner[signer]) revert SignerNotAuthorized();
+    function fundInsurancePool(uint256 /* amount */) external {
+        _delegate(extension);
+    }
 
-        isSigner[signer] = false;
+    function payInsurance(
+        bytes32 /* incidentId */,
+        address /* user */,
+        uint256 /* cumulativeAmount */,
+        uint256 /* deadline */,
+        uint256 /* epoch */,
+        bytes[] calldata /* signatures */
+    ) external {
+        _delegate(extension);
+    }
 
-        // Remove from signers array
-        for (uint256 i = 0; i < signers.length; i++) {
-            if (signers[i] == signer) {
-                signers[i] = signers[signers.length - 1];
-                signers.pop();
-                break;
-            }
-        }
+    function stopStream(bytes32 /* streamId */) external {
+        _delegate(extension);
+    }
 
-        // Adjust required signatures if needed
-        if (requiredSignatures > signers.length) {
-            uint256 oldRequired = requiredSignatures;
-            requiredSignatures = signers.length;
-            emit RequiredSignaturesUpdated(oldRequired, requiredSignatures);
-        }
+    function stopStreamWithSignatures(
+        bytes32 /* streamId */,
+        uint256 /* deadline */,
+        uint256 /* epoch */,
+        bytes[] calldata /* signatures */
+    ) external {
+        _delegate(extension);
+    }
 
-        emit SignerRemoved(signer);
+    function delegate(address /* provider */, uint256 /* amount */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Set the number of required signatures
-     * @param _required Number of signatures required (k)
-     */
-    function setRequiredSignatures(uint256 _required) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (_required == 0) revert InvalidRequiredSignatures();
-        if (_required > signers.length) revert InvalidRequiredSignatures();
+    function undelegate(address /* provider */, uint256 /* amount */) external {
+        _delegate(extension);
+    }
 
-        uint256 oldRequired = requiredSignatures;
-        requiredSignatures = _required;
+    function withdrawUndelegated(address /* provider */) external {
+        _delegate(extension);
+    }
 
-        emit RequiredSignaturesUpdated(oldRequired, _required);
+    function claimDelegationRewards(address /* provider */) external {
+        _delegate(extension);
     }
 
-    // ============ Admin Functions ============
+    function setDelegationFee(uint256 /* newFeeBps */) external {
+        _delegate(extension);
+    }
 
-    /**
-     * @notice Update minimum stake duration
-     * @param newDuration New minimum stake duration in seconds
-     */
-    function setMinStakeDuration(uint256 newDuration) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (newDuration == 0) revert InvalidDuration();
+    function slashAndBan(address /* provider */, bytes32 /* reasonCode */, bytes32 /* evidenceHash */) external {
+        _delegate(extension);
+    }
 
-        uint256 oldDuration = minStakeDuration;
-        minStakeDuration = newDuration;
+    function slashPartial(
+        address /* provider */,
+        uint256 /* slashAmount */,
+        bytes32 /* reasonCode */,
+        bytes32 /* evidenceHash */
+    ) external {
+        _delegate(extension);
+    }
 
-        emit MinStakeDurationUpdated(oldDuration, newDuration);
+    function unbanProvider(address /* provider */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Update treasury address
-     * @param newTreasury New treasury address
-     */
-    function setTreasury(address newTreasury) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (newTreasury == address(0)) revert ZeroAddress();
+    function suspendProvider(address /* provider */, uint256 /* until */) external {
+        _delegate(extension);
+    }
 
-        address oldTreasury = treasury;
-        treasury = newTreasury;
+    function proposeSlash(
+        address /* provider */,
+        uint256 /* amount */,
+        bool /* ban */,
+        bytes32 /* reasonCode */,
+        bytes32 /* evidenceHash */,
+        uint256 /* deadline */,
+        bytes[] calldata /* signatures */
+    ) external returns (bytes32 /* proposalId */) {
+        _delegate(extension);
+    }
 
-        emit TreasuryUpdated(oldTreasury, newTreasury);
+    function appealSlash(bytes32 /* proposalId */) external {
+        _delegate(extension);
     }
 
-    /**
-     * @notice Set commission rate for provider claims
-     * @param newCommissionBps Commission in basis points (10000 = 100%, e.g., 500 = 5%)
-     */
-    function setCommission(uint256 newCommissionBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
-        if (newCommissionBps > 10000) revert CommissionTooHigh();
+    function resolveSlashAppeal(bytes32 /* proposalId */, bool /* uphold */) external {
+        _delegate(extension);
+    }
+
+    function executeSlash(bytes32 /* proposalId */) external {
+        _delegate(extension);
+    }
 
-        uint256 oldCommission = commissionBps;
-        commissionBps = newCommissionBps;
+    // ============ Admin Extension Functions ============
+    // Implemented and documented in TLPStakingAdminExtension.
 
-        emit CommissionUpdated(oldCommission, newCommissionBps);
+    function pause(uint256 /* scopes */, bytes32 /* reasonCode */) external {
+        _delegate(adminExtension);
     }
 
-    // ============ Internal Functions ============
+    function unpause(uint256 /* scopes */) external {
+        _delegate(adminExtension);
+    }
 
-    /**
-     * @notice Verify that the caller is an active provider (staked and not banned)
-     */
-    function _verifyActiveProvider() internal view {
-        ProviderInfo storage provider = providers[_msgSender()];
-        if (provider.stakeAmount == 0) revert NotAProvider();
-        if (provider.isBanned) revert ProviderBanned();
+    function addSigner(address /* signer */) external {
+        _delegate(adminExtension);
     }
 
-    /**
-     * @notice Process a single claim: validate, verify signatures, update balance
-     * @dev Does NOT emit event - caller must emit Claimed after token transfers
-     * @param rentalId Rental ID for audit trail
-     * @param user Address of the user to claim from
-     * @param amount Amount to claim
-     * @param deadline Signature expiration timestamp
-     * @param signatures Array of signatures from authorized signers
-     * @return commission The commission amount for treasury
-     * @return providerAmount The amount for the provider (amount - commission)
-     */
-    function _processClaim(
-        bytes32 rentalId,
-        address user,
-        uint256 amount,
-        uint256 deadline,
-        bytes[] calldata signatures
-    ) internal returns (uint256 commission, uint256 providerAmount) {
-        if (amount == 0) revert ZeroAmount();
-        if (block.timestamp > deadline) revert SignatureExpired();
-        if (user == address(0)) revert ZeroAddress();
-        if (amount > userBalances[user]) revert InsufficientBalance();
+    function removeSigner(address /* signer */) external {
+        _delegate(adminExtension);
+    }
 
-        uint256 nonce = nonces[_msgSender()]++;
+    function setRequiredWithdrawalSignatures(uint256 /* _required */) external {
+        _delegate(adminExtension);
+    }
 
-        _verifySignatures(
-            _hashTypedDataV4(
-                keccak256(abi.encode(CLAIM_TYPEHASH, rentalId, user, _msgSender(), amount, nonce, deadline))
-            ),
-            signatures
-        );
+    function setRequiredClaimSignatures(uint256 /* _required */) external {
+        _delegate(adminExtension);
+    }
 
-        userBalances[user] -= amount;
+    function setRequiredRefundSignatures(uint256 /* _required */) external {
+        _delegate(adminExtension);
+    }
 
-        commission = (amount * commissionBps) / 10000;
-        providerAmount = amount - commission;
+    function setLargeWithdrawalPolicy(uint256 /* threshold */, uint256 /* _required */) external {
+        _delegate(adminExtension);
     }
 
-    /**
-     * @notice Verify that enough valid signatures from authorized signers are provided
-     * @param digest The EIP712 digest to verify
-     * @param signatures Array of signatures
-     */
-    function _verifySignatures(bytes32 digest, bytes[] calldata signatures) internal view {
-        if (signatures.length < requiredSignatures) revert InsufficientSignatures();
+    function scheduleSignerRotation(
+        address[] calldata /* newSigners */,
+        uint256 /* activationTime */
+    ) external returns (uint256 /* epoch */) {
+        _delegate(adminExtension);
+    }
 
-        address[] memory usedSigners = new address[](signatures.length);
-        uint256 validCount = 0;
+    function cancelSignerRotation() external {
+        _delegate(adminExtension);
+    }
 
-        for (uint256 i = 0; i < signatures.length; i++) {
-            address recovered = ECDSA.recover(digest, signatures[i]);
+    function expireSignerEpoch(uint256 /* epoch */) external {
+        _delegate(adminExtension);
+    }
 
-            if (!isSigner[recovered]) revert InvalidSignature();
+    function setSignerEpochGracePeriod(uint256 /* newGracePeriod */) external {
+        _delegate(adminExtension);
+    }
 
-            // Check for duplicate signers
-            for (uint256 j = 0; j < validCount; j++) {
-                if (usedSigners[j] == recovered) revert DuplicateSignature();
-            }
+    function setMinStakeDuration(uint256 /* newDuration */) external {
+        _delegate(adminExtension);
+    }
 
-            usedSigners[validCount] = recovered;
-            validCount++;
+    function setTreasury(address /* newTreasury */) external {
+        _delegate(adminExtension);
+    }
 
-            if (validCount >= requiredSignatures) {
-                return;
-            }
-        }
+    function setPaymentToken(address /* token */, bool /* allowed */) external {
+        _delegate(adminExtension);
+    }
+
+    function setCommission(uint256 /* newCommissionBps */) external {
+        _delegate(adminExtension);
+    }
+
+    function setProviderCommission(
+        address /* provider */,
+        uint256 /* newCommissionBps */,
+        uint256 /* expiresAt */
+    ) external {
+        _delegate(adminExtension);
+    }
+
+    function setFeeClass(uint256 /* feeClass */, uint256 /* newCommissionBps */, bool /* enabled */) external {
+        _delegate(adminExtension);
+    }
+
+    function setUnilateralWithdrawalDelay(uint256 /* newDelay */) external {
+        _delegate(adminExtension);
+    }
+
+    function setUnbondingPeriod(uint256 /* newPeriod */) external {
+        _delegate(adminExtension);
+    }
+
+    function setMinProviderStake(uint256 /* newMinStake */) external {
+        _delegate(adminExtension);
+    }
+
+    function setReentryRules(
+        uint256 /* newCooldown */,
+        uint256 /* newStakePerSlash */,
+        uint256 /* newMaxSlashCount */
+    ) external {
+        _delegate(adminExtension);
+    }
+
+    function setStakeTiers(
+        bytes32[] calldata /* names */,
+        uint256[] calldata /* minStakes */,
+        uint256[] calldata /* capsBps */
+    ) external {
+        _delegate(adminExtension);
+    }
+
+    function setClaimCap(uint256 /* newClaimCapBps */, uint256 /* newWindow */) external {
+        _delegate(adminExtension);
+    }
+
+    function setClaimChallengePeriod(uint256 /* newPeriod */) external {
+        _delegate(adminExtension);
+    }
+
+    function setSlashGovernance(uint256 /* newRequiredApprovals */, uint256 /* newAppealWindow */) external {
+        _delegate(adminExtension);
+    }
+
+    function setHoldback(uint256 /* newHoldbackBps */, uint256 /* newVestingPeriod */) external {
+        _delegate(adminExtension);
+    }
+
+    function setTrustedForwarder(address /* newForwarder */) external {
+        _delegate(adminExtension);
+    }
+
+    function setRelayFee(uint256 /* newFee */, address /* recipient */) external {
+        _delegate(adminExtension);
+    }
+
+    function setCommissionSplit(address[] calldata /* recipients */, uint256[] calldata /* weights */) external {
+        _delegate(adminExtension);
+    }
+
+    function setSlashSplit(address[] calldata /* recipients */, uint256[] calldata /* weights */) external {
+        _delegate(adminExtension);
+    }
+
+    function setInsuranceShare(uint256 /* newShareBps */) external {
+        _delegate(adminExtension);
+    }
+
+    function setParameterChangeDelay(uint256 /* newDelay */) external {
+        _delegate(adminExtension);
+    }
+
+    function executeParameterChange(bytes32 /* changeId */) external {
+        _delegate(adminExtension);
+    }
 
-        revert InsufficientSignatures();
+    function cancelParameterChange(bytes32 /* changeId */) external {
+        _delegate(adminExtension);
     }
 
     // ============ View Functions ============
@@ -585,15 +767,248 @@ contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
      * @return unlockTime Time when stake can be withdrawn
      * @return isBanned Whether provider is banned
      * @return slashCount Number of times provider has been slashed
+     * @return suspendedUntil End of the provider's suspension (in the past if not suspended)
      */
     function getProviderInfo(address provider) external view returns (
         uint256 stakeAmount,
         uint256 unlockTime,
         bool isBanned,
-        uint256 slashCount
+        uint256 slashCount,
+        uint256 suspendedUntil
     ) {
         ProviderInfo storage info = providers[provider];
-        return (info.stakeAmount, info.unlockTime, info.isBanned, info.slashCount);
+        return (info.stakeAmount, info.unlockTime, info.isBanned, info.slashCount, info.suspendedUntil);
+    }
+
+    /**
+     * @notice Get all unbonding entries for a provider (matured and pending)
+     * @param provider Address of the provider
+     * @return Array of unbonding entries
+     */
+    function getUnbondingEntries(address provider) external view returns (UnbondingEntry[] memory) {
+        return unbondingQueue[provider];
+    }
+
+    /**
+     * @notice Get every slash of a provider, oldest first
+     * @param provider Address of the provider
+     * @return Slash records with reason code, evidence hash, amount, time, police and ban flag
+     */
+    function getSlashHistory(address provider) external view returns (SlashRecord[] memory) {
+        return slashHistory[provider];
+    }
+
+    /**
+     * @notice Check whether and when an address can stake under the re-entry rules
+     * @dev Does not check whether the address is already staked
+     * @param provider Address of the provider
+     * @return eligible False if banned or blacklisted after maxSlashCount slashes
+     * @return availableAt Earliest time the address may stake (0 if never unbanned)
+     * @return minStake Minimum initial stake, including the premium for past slashes
+     */
+    function getReentryStatus(address provider) external view returns (
+        bool eligible,
+        uint256 availableAt,
+        uint256 minStake
+    ) {
+        return _reentryStatus(provider);
+    }
+
+    /**
+     * @notice Get a slash proposal
+     * @param proposalId ID returned by proposeSlash
+     * @return Proposal with its slash parameters, end of appeal window and status
+     */
+    function getSlashProposal(bytes32 proposalId) external view returns (SlashProposal memory) {
+        return slashProposals[proposalId];
+    }
+
+    /**
+     * @notice Get one slash of a provider
+     * @param provider Address of the provider
+     * @param index Position in the history (0 = oldest, up to slashCount - 1)
+     * @return The slash record
+     */
+    function getSlashRecord(address provider, uint256 index) external view returns (SlashRecord memory) {
+        return slashHistory[provider][index];
+    }
+
+    /**
+     * @notice Get a provider's unbonding totals
+     * @param provider Address of the provider
+     * @return pending Amount still unbonding (slashable)
+     * @return withdrawable Amount matured and ready to withdraw
+     */
+    function getUnbondingBalance(address provider) external view returns (uint256 pending, uint256 withdrawable) {
+        UnbondingEntry[] storage queue = unbondingQueue[provider];
+        for (uint256 i = 0; i < queue.length; i++) {
+            if (queue[i].releaseTime > block.timestamp) {
+                pending += queue[i].amount;
+            } else {
+                withdrawable += queue[i].amount;
+            }
+        }
+    }
+
+    /**
+     * @notice Get a provider's effective stake (own stake plus active delegations)
+     * @param provider Address of the provider
+     * @return Effective stake amount
+     */
+    function getEffectiveStake(address provider) external view returns (uint256) {
+        return _effectiveStake(provider);
+    }
+
+    /**
+     * @notice Get the configured stake tiers
+     * @return Array of stake tiers, sorted by ascending minStake
+     */
+    function getStakeTiers() external view returns (StakeTier[] memory) {
+        return stakeTiers;
+    }
+
+    /**
+     * @notice Get the highest stake tier a provider currently meets
+     * @param provider Address of the provider
+     * @return found Whether the provider meets any tier
+     * @return index Index of the tier in getStakeTiers()
+     * @return name Name of the tier
+     */
+    function getProviderTier(address provider) external view returns (bool found, uint256 index, bytes32 name) {
+        (found, index) = _findTier(_effectiveStake(provider));
+        if (found) {
+            name = stakeTiers[index].name;
+        }
+    }
+
+    /**
+     * @notice Get how much a provider can still claim in the current window
+     * @param provider Address of the provider
+     * @return Remaining claim capacity (type(uint256).max if uncapped)
+     */
+    function getRemainingClaimCapacity(address provider) external view returns (uint256) {
+        uint256 cap = _claimCap(provider);
+        if (cap == type(uint256).max) return cap;
+
+        ClaimWindow storage window = claimWindows[provider];
+        if (block.timestamp >= window.start + claimCapWindow) return cap;
+        return window.claimed >= cap ? 0 : cap - window.claimed;
+    }
+
+    /**
+     * @notice Get a provider's negotiated commission override
+     * @param provider Address of the provider
+     * @return commissionBps Override rate in basis points
+     * @return expiresAt When the override stops applying (0 if none was set)
+     */
+    function getProviderCommission(address provider) external view returns (uint256 commissionBps, uint256 expiresAt) {
+        CommissionOverride storage o = providerCommissions[provider];
+        return (o.commissionBps, o.expiresAt);
+    }
+
+    /**
+     * @notice Get a fee class
+     * @param feeClass Fee class ID
+     * @return commissionBps Commission rate of the class in basis points
+     * @return enabled Whether claims can select the class
+     */
+    function getFeeClass(uint256 feeClass) external view returns (uint256 commissionBps, bool enabled) {
+        FeeClass storage fc = feeClasses[feeClass];
+        return (fc.commissionBps, fc.enabled);
+    }
+
+    /**
+     * @notice Get the commission rate a claim by a provider would be charged
+     * @dev Reverts with InvalidFeeClass for a disabled fee class, as the claim would
+     * @param provider Address of the provider
+     * @param feeClass Fee class of the claim (0 = default rate)
+     * @return Commission in basis points
+     */
+    function getCommissionRate(address provider, uint256 feeClass) external view returns (uint256) {
+        return _commissionRate(provider, feeClass);
+    }
+
+    /**
+     * @notice Get the recipients commission is split among
+     * @return recipients Split recipients (empty if commission goes to treasury)
+     * @return weights Relative weight of each recipient
+     */
+    function getCommissionSplit() external view returns (address[] memory recipients, uint256[] memory weights) {
+        return _feeSplit(commissionSplit);
+    }
+
+    /**
+     * @notice Get the recipients slashed funds are split among
+     * @return recipients Split recipients (empty if slashed funds go to treasury)
+     * @return weights Relative weight of each recipient
+     */
+    function getSlashSplit() external view returns (address[] memory recipients, uint256[] memory weights) {
+        return _feeSplit(slashSplit);
+    }
+
+    /**
+     * @notice Get all queued parameter changes, in no particular order
+     * @return changeIds IDs to pass to executeParameterChange or cancelParameterChange
+     * @return changes Setter selector, ETA and ABI-encoded arguments of each change
+     */
+    function getPendingParameterChanges() external view returns (
+        bytes32[] memory changeIds,
+        ParameterChange[] memory changes
+    ) {
+        changeIds = queuedParameterChanges;
+        changes = new ParameterChange[](changeIds.length);
+        for (uint256 i = 0; i < changeIds.length; i++) {
+            changes[i] = parameterChanges[changeIds[i]];
+        }
+    }
+
+    /**
+     * @notice Get a provider's delegation pool totals
+     * @param provider Address of the provider
+     * @return totalDelegated Active delegated stake
+     * @return unbondingAmount Undelegated stake still unbonding
+     * @return feeBps Provider's cut of delegator revenue in basis points
+     */
+    function getDelegationPool(address provider) external view returns (
+        uint256 totalDelegated,
+        uint256 unbondingAmount,
+        uint256 feeBps
+    ) {
+        DelegationPool storage pool = delegationPools[provider];
+        return (pool.totalDelegated, pool.unbondingAmount, pool.feeBps);
+    }
+
+    /**
+     * @notice Get a delegator's position with a provider
+     * @param provider Address of the provider
+     * @param delegator Address of the delegator
+     * @return amount Active delegated amount
+     * @return rewards Claimable rewards
+     * @return unbonding Amount currently unbonding
+     * @return releaseTime Time when the unbonding amount can be withdrawn
+     */
+    function getDelegation(address provider, address delegator) external view returns (
+        uint256 amount,
+        uint256 rewards,
+        uint256 unbonding,
+        uint256 releaseTime
+    ) {
+        DelegationPool storage pool = delegationPools[provider];
+        Delegation storage d = delegations[provider][delegator];
+
+        if (d.generation != pool.generation) {
+            rewards = d.rewards + (d.shares * wipedRewardPerShare[provider][d.generation]) / REWARD_PRECISION - d.rewardDebt;
+            return (0, rewards, 0, 0);
+        }
+
+        if (pool.totalShares > 0) {
+            amount = (d.shares * pool.totalDelegated) / pool.totalShares;
+        }
+        if (pool.unbondingShares > 0) {
+            unbonding = (d.unbondingShares * pool.unbondingAmount) / pool.unbondingShares;
+        }
+        rewards = d.rewards + (d.shares * pool.accRewardPerShare) / REWARD_PRECISION - d.rewardDebt;
+        releaseTime = d.releaseTime;
     }
 
     /**
@@ -606,38 +1021,208 @@ contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
     }
 
     /**
-     * @notice Get current nonce for an address
-     * @param account Address to get nonce for
-     * @return Current nonce
+     * @notice Get user's balance in the pool in a payment token
+     * @param user Address of the user
+     * @param token Payment token (TLP or an allowlisted token)
+     * @return User's balance in the token
+     */
+    function getUserTokenBalance(address user, address token) external view returns (uint256) {
+        return _balances(token)[user];
+    }
+
+    /**
+     * @notice Get a rental lock
+     * @param rentalId Rental ID
+     * @param lockUser User who opened the lock
+     * @return user User who locked the funds (zero if no lock exists)
+     * @return provider Provider allowed to claim
+     * @return amount Maximum claimable amount
+     * @return claimed Amount claimed so far
+     * @return expiresAt Expiry timestamp
+     * @return closed Whether the remainder has been returned
+     */
+    function getRentalLock(bytes32 rentalId, address lockUser) external view returns (
+        address user,
+        address provider,
+        uint256 amount,
+        uint256 claimed,
+        uint256 expiresAt,
+        bool closed
+    ) {
+        RentalLock storage lock = rentalLocks[rentalId][lockUser];
+        return (lock.user, lock.provider, lock.amount, lock.claimed, lock.expiresAt, lock.closed);
+    }
+
+    /**
+     * @notice Get a claim payout held for the challenge period
+     * @param rentalId Rental ID the claims were made under
+     * @param provider Address of the provider
+     * @return user User the claims were paid from
+     * @return token Payment token the payout is held in
+     * @return amount Held provider payout, after commission and before the relay fee (0 if none)
+     * @return fee Relay fees already paid out of the held payout
+     * @return releaseTime Time after which the payout can be released
+     * @return disputed Whether the user has disputed the payout
+     */
+    function getPendingClaim(bytes32 rentalId, address provider) external view returns (
+        address user,
+        address token,
+        uint256 amount,
+        uint256 fee,
+        uint256 releaseTime,
+        bool disputed
+    ) {
+        PendingClaim storage pending = pendingClaims[rentalId][provider];
+        return (pending.user, pending.token, pending.amount, pending.fee, pending.releaseTime, pending.disputed);
+    }
+
+    /**
+     * @notice Get a provider's held-back earnings, split into locked and vested parts
+     * @param provider Address of the provider
+     * @return locked Unvested earnings, still slashable
+     * @return vested Vested earnings releasable with releaseVested
+     * @return vestingEnd When the locked earnings are fully vested
+     */
+    function getHoldback(address provider) external view returns (
+        uint256 locked,
+        uint256 vested,
+        uint256 vestingEnd
+    ) {
+        Holdback storage h = holdbacks[provider];
+        uint256 newlyVested = _vestedSinceUpdate(h);
+        return (h.locked - newlyVested, h.vested + newlyVested, h.vestingEnd);
+    }
+
+    /**
+     * @notice Get a payment stream
+     * @param streamId Stream ID
+     * @return user User paying the stream (zero if no stream exists)
+     * @return provider Provider receiving the stream
+     * @return ratePerSecond Amount accrued per second
+     * @return startTime When the stream was opened
+     * @return endTime When accrual stops (the stop time if stopped early)
+     * @return withdrawn Amount already withdrawn by the provider
+     */
+    function getStream(bytes32 streamId) external view returns (
+        address user,
+        address provider,
+        uint256 ratePerSecond,
+        uint256 startTime,
+        uint256 endTime,
+        uint256 withdrawn
+    ) {
+        Stream storage stream = streams[streamId];
+        return (stream.user, stream.provider, stream.ratePerSecond, stream.startTime, stream.endTime, stream.withdrawn);
+    }
+
+    /**
+     * @notice Get how much a stream has accrued and how much the provider can withdraw now
+     * @param streamId Stream ID
+     * @return accrued Total accrued so far (including withdrawn amounts)
+     * @return withdrawable Accrued amount not yet withdrawn
+     */
+    function getStreamBalance(bytes32 streamId) external view returns (uint256 accrued, uint256 withdrawable) {
+        Stream storage stream = streams[streamId];
+        if (stream.user == address(0)) return (0, 0);
+
+        accrued = _streamAccrued(stream);
+        withdrawable = accrued - stream.withdrawn;
+    }
+
+    /**
+     * @notice Get a user's pending escape-hatch withdrawal
+     * @param user Address of the user
+     * @return token Payment token requested
+     * @return amount Requested amount (0 if none pending)
+     * @return releaseTime Time after which the withdrawal can be executed
      */
-    function getNonce(address account) external view returns (uint256) {
-        return nonces[account];
+    function getPendingWithdrawal(
+        address user
+    ) external view returns (address token, uint256 amount, uint256 releaseTime) {
+        PendingWithdrawal storage pending = pendingWithdrawals[user];
+        return (pending.token, pending.amount, pending.releaseTime);
+    }
+
+    /**
+     * @notice Check whether a withdrawal nonce has been used or invalidated
+     * @param account Address the nonce belongs to
+     * @param nonce Nonce to check
+     * @return True if the nonce can no longer be used
+     */
+    function isNonceUsed(address account, uint256 nonce) external view returns (bool) {
+        return nonceBitmap[account][nonce >> 8] & (1 << (nonce & 0xff)) != 0;
     }
 
     /**
      * @notice Check if a provider can currently receive claims
      * @param provider Address of the provider
-     * @return True if provider is active
+     * @return True if provider is active (staked, not banned or suspended, meets minimum stake)
      */
     function isProviderActive(address provider) external view returns (bool) {
         ProviderInfo storage info = providers[provider];
-        return info.stakeAmount > 0 && !info.isBanned;
+        return info.stakeAmount > 0 &&
+            !info.isBanned &&
+            info.suspendedUntil <= block.timestamp &&
+            _meetsStakeRequirements(_effectiveStake(provider));
     }
 
     /**
-     * @notice Get all authorized signers
+     * @notice Get all authorized signers in the current epoch
      * @return Array of signer addresses
      */
     function getSigners() external view returns (address[] memory) {
-        return signers;
+        return signerEpochs[currentSignerEpoch()].signers;
     }
 
     /**
-     * @notice Get the number of authorized signers
+     * @notice Get the number of authorized signers in the current epoch
      * @return Number of signers
      */
     function getSignerCount() external view returns (uint256) {
-        return signers.length;
+        return signerEpochs[currentSignerEpoch()].signers.length;
+    }
+
+    /**
+     * @notice Check if an address is a signer in the current epoch
+     * @param account Address to check
+     * @return True if account is a current signer
+     */
+    function isSigner(address account) external view returns (bool) {
+        return epochSigners[currentSignerEpoch()][account];
+    }
+
+    /**
+     * @notice Get a signer epoch's set and validity window
+     * @param epoch Epoch to query
+     * @return signers Signer addresses in the epoch
+     * @return activationTime When the epoch starts accepting signatures
+     * @return expiresAt When the epoch stops accepting signatures (0 = no expiry)
+     */
+    function getSignerEpoch(uint256 epoch) external view returns (
+        address[] memory signers,
+        uint256 activationTime,
+        uint256 expiresAt
+    ) {
+        SignerEpoch storage info = signerEpochs[epoch];
+        return (info.signers, info.activationTime, info.expiresAt);
+    }
+
+    /**
+     * @notice Check whether signatures committing to an epoch are accepted right now
+     * @param epoch Epoch to check
+     * @return True if the epoch is active or within its grace period
+     */
+    function isSignerEpochValid(uint256 epoch) external view returns (bool) {
+        return _isSignerEpochValid(epoch);
+    }
+
+    /**
+     * @notice Check whether any of the given scopes is paused
+     * @param scope Bitmask of PAUSE_* flags
+     * @return True if at least one of the scopes is paused
+     */
+    function isPaused(uint256 scope) external view returns (bool) {
+        return pausedScopes & scope != 0;
     }
 
     /**
@@ -647,4 +1232,42 @@ contract TLPStaking is AccessControl, ReentrancyGuard, EIP712 {
     function domainSeparator() external view returns (bytes32) {
         return _domainSeparatorV4();
     }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Copy a commission or slash split into parallel arrays
+     * @param split Split to read
+     * @return recipients Split recipients
+     * @return weights Relative weight of each recipient
+     */
+    function _feeSplit(FeeShare[] storage split) internal view returns (
+        address[] memory recipients,
+        uint256[] memory weights
+    ) {
+        recipients = new address[](split.length);
+        weights = new uint256[](split.length);
+        for (uint256 i = 0; i < split.length; i++) {
+            recipients[i] = split[i].recipient;
+            weights[i] = split[i].weight;
+        }
+    }
+
+    /**
+     * @notice Run the current call in an extension and return its result
+     * @dev Never returns to the caller; ends with the extension's return or revert data
+     * @param target Extension to delegatecall into
+     */
+    function _delegate(address target) internal {
+        assembly ("memory-safe") {
+            let ptr := mload(0x40)
+            calldatacopy(ptr, 0, calldatasize())
+            let ok := delegatecall(gas(), target, ptr, calldatasize(), 0, 0)
+            returndatacopy(ptr, 0, returndatasize())
+            if iszero(ok) {
+                revert(ptr, returndatasize())
+            }
+            return(ptr, returndatasize())
+        }
+    }
 }
@@ -0,0 +1,736 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {TLPStakingExtensionBase} from "./TLPStakingExtensionBase.sol";
+
+/**
+ * @title TLPStakingAdminExtension
+ * @notice Guardian, signer management and admin configuration entry points of TLPStaking
+ * @dev Reached only through TLPStaking's delegatecall stubs, so every function here
+ *      runs against TLPStaking's storage and roles.
+ */
+contract TLPStakingAdminExtension is TLPStakingExtensionBase {
+    // ============ Constructor ============
+
+    /**
+     * @param _tlpToken Address of the TLP token (must match TLPStaking's)
+     */
+    constructor(address _tlpToken) TLPStakingExtensionBase(_tlpToken) {}
+
+    // ============ Guardian Functions ============
+
+    /**
+     * @notice Pause one or more scopes in an emergency (e.g. compromised signer backend)
+     * @dev Only DEFAULT_ADMIN_ROLE can unpause. Police slashing is never paused.
+     * @param scopes Bitmask of PAUSE_* flags to pause
+     * @param reasonCode Reason code recorded in the event
+     */
+    function pause(uint256 scopes, bytes32 reasonCode) external onlyDelegateCall onlyRole(GUARDIAN_ROLE) {
+        _validatePauseScopes(scopes);
+
+        pausedScopes |= scopes;
+
+        emit ScopesPaused(_msgSender(), scopes, reasonCode);
+    }
+
+    /**
+     * @notice Lift a pause on one or more scopes
+     * @param scopes Bitmask of PAUSE_* flags to unpause
+     */
+    function unpause(uint256 scopes) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validatePauseScopes(scopes);
+
+        pausedScopes &= ~scopes;
+
+        emit ScopesUnpaused(_msgSender(), scopes);
+    }
+
+    // ============ Signer Management ============
+
+    /**
+     * @notice Add an authorized signer to the current epoch
+     * @dev Reverts while a signer rotation is scheduled; cancel it or wait for it to activate.
+     * @param signer Address to authorize as signer
+     */
+    function addSigner(address signer) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 epoch = currentSignerEpoch();
+        if (epoch != latestSignerEpoch) revert SignerRotationPending();
+
+        _addEpochSigner(epoch, signer);
+
+        emit SignerAdded(signer);
+    }
+
+    /**
+     * @notice Remove a signer from the current epoch, effective immediately
+     * @dev Use for compromised keys. Signatures issued by the signer under the
+     *      current epoch stop verifying at once; for routine changes prefer
+     *      scheduleSignerRotation, which keeps the old set valid for a grace period.
+     *      Reverts while a rotation is scheduled; cancel it first, then remove the key.
+     * @param signer Address to remove from signers
+     */
+    function removeSigner(address signer) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 epoch = currentSignerEpoch();
+        if (epoch != latestSignerEpoch) revert SignerRotationPending();
+        if (!epochSigners[epoch][signer]) revert SignerNotAuthorized();
+
+        epochSigners[epoch][signer] = false;
+
+        // Remove from signers array
+        address[] storage signers = signerEpochs[epoch].signers;
+        for (uint256 i = 0; i < signers.length; i++) {
+            if (signers[i] == signer) {
+                signers[i] = signers[signers.length - 1];
+                signers.pop();
+                break;
+            }
+        }
+
+        // Adjust required signatures if needed
+        uint256 remaining = signers.length;
+        if (requiredWithdrawalSignatures > remaining) {
+            emit RequiredWithdrawalSignaturesUpdated(requiredWithdrawalSignatures, remaining);
+            requiredWithdrawalSignatures = remaining;
+        }
+        if (requiredClaimSignatures > remaining) {
+            emit RequiredClaimSignaturesUpdated(requiredClaimSignatures, remaining);
+            requiredClaimSignatures = remaining;
+        }
+        if (requiredRefundSignatures > remaining) {
+            emit RequiredRefundSignaturesUpdated(requiredRefundSignatures, remaining);
+            requiredRefundSignatures = remaining;
+        }
+        if (requiredLargeWithdrawalSignatures > remaining) {
+            requiredLargeWithdrawalSignatures = remaining;
+            emit LargeWithdrawalPolicyUpdated(largeWithdrawalThreshold, remaining);
+        }
+
+        emit SignerRemoved(signer);
+    }
+
+    /**
+     * @notice Set the number of signatures required for user withdrawals
+     * @param _required Number of signatures required (k)
+     */
+    function setRequiredWithdrawalSignatures(uint256 _required) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateRequiredSignatures(_required);
+
+        uint256 oldRequired = requiredWithdrawalSignatures;
+        requiredWithdrawalSignatures = _required;
+
+        emit RequiredWithdrawalSignaturesUpdated(oldRequired, _required);
+    }
+
+    /**
+     * @notice Set the number of signatures required for provider claims
+     * @param _required Number of signatures required (k)
+     */
+    function setRequiredClaimSignatures(uint256 _required) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateRequiredSignatures(_required);
+
+        uint256 oldRequired = requiredClaimSignatures;
+        requiredClaimSignatures = _required;
+
+        emit RequiredClaimSignaturesUpdated(oldRequired, _required);
+    }
+
+    /**
+     * @notice Set the number of signatures required for user refunds
+     * @param _required Number of signatures required (k)
+     */
+    function setRequiredRefundSignatures(uint256 _required) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateRequiredSignatures(_required);
+
+        uint256 oldRequired = requiredRefundSignatures;
+        requiredRefundSignatures = _required;
+
+        emit RequiredRefundSignaturesUpdated(oldRequired, _required);
+    }
+
+    /**
+     * @notice Require more signatures for withdrawals above a given size
+     * @dev Escalation only ever raises the requirement: withdrawals above `threshold`
+     *      need max(requiredWithdrawalSignatures, _required) signatures.
+     * @param threshold Amount above which escalation applies (0 disables escalation)
+     * @param _required Number of signatures required for large withdrawals
+     */
+    function setLargeWithdrawalPolicy(uint256 threshold, uint256 _required) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (threshold != 0) _validateRequiredSignatures(_required);
+
+        largeWithdrawalThreshold = threshold;
+        requiredLargeWithdrawalSignatures = _required;
+
+        emit LargeWithdrawalPolicyUpdated(threshold, _required);
+    }
+
+    /**
+     * @notice Schedule a switch to a new signer set
+     * @dev The new set takes over atomically at activationTime. The current set keeps
+     *      accepting signatures until activationTime + signerEpochGracePeriod, so
+     *      signatures issued before the rotation remain usable. Only one rotation can
+     *      be pending at a time.
+     * @param newSigners Signer set for the new epoch
+     * @param activationTime When the new set becomes current (>= block.timestamp)
+     * @return epoch The new epoch number
+     */
+    function scheduleSignerRotation(
+        address[] calldata newSigners,
+        uint256 activationTime
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) returns (uint256 epoch) {
+        if (activationTime < block.timestamp) revert InvalidDuration();
+        if (currentSignerEpoch() != latestSignerEpoch) revert SignerRotationPending();
+
+        uint256 previousEpoch = latestSignerEpoch;
+        epoch = ++latestSignerEpoch;
+        signerEpochs[epoch].activationTime = activationTime;
+        for (uint256 i = 0; i < newSigners.length; i++) {
+            _addEpochSigner(epoch, newSigners[i]);
+        }
+
+        uint256 count = newSigners.length;
+        if (
+            count < requiredWithdrawalSignatures ||
+            count < requiredClaimSignatures ||
+            count < requiredRefundSignatures ||
+            count < requiredLargeWithdrawalSignatures
+        ) revert InvalidRequiredSignatures();
+
+        uint256 expiresAt = activationTime + signerEpochGracePeriod;
+        signerEpochs[previousEpoch].expiresAt = expiresAt;
+
+        emit SignerRotationScheduled(epoch, activationTime, expiresAt);
+    }
+
+    /**
+     * @notice Cancel a scheduled signer rotation that has not activated yet
+     */
+    function cancelSignerRotation() external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 epoch = latestSignerEpoch;
+        if (epoch == 0 || signerEpochs[epoch].activationTime <= block.timestamp) {
+            revert NoPendingSignerRotation();
+        }
+
+        address[] storage signers = signerEpochs[epoch].signers;
+        for (uint256 i = 0; i < signers.length; i++) {
+            epochSigners[epoch][signers[i]] = false;
+        }
+        delete signerEpochs[epoch];
+
+        latestSignerEpoch = epoch - 1;
+        signerEpochs[epoch - 1].expiresAt = 0;
+
+        emit SignerRotationCancelled(epoch);
+    }
+
+    /**
+     * @notice End the grace period of a superseded signer epoch immediately
+     * @dev Use when a key in an older set is compromised after a rotation
+     * @param epoch Superseded epoch to expire
+     */
+    function expireSignerEpoch(uint256 epoch) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (epoch >= currentSignerEpoch()) revert InvalidSignerEpoch();
+
+        signerEpochs[epoch].expiresAt = block.timestamp;
+
+        emit SignerEpochExpired(epoch);
+    }
+
+    /**
+     * @notice Set how long a superseded signer set stays valid after a rotation
+     * @dev Applies to rotations scheduled after the change
+     * @param newGracePeriod New grace period in seconds (0 = old set invalid at activation)
+     */
+    function setSignerEpochGracePeriod(uint256 newGracePeriod) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 oldGracePeriod = signerEpochGracePeriod;
+        signerEpochGracePeriod = newGracePeriod;
+
+        emit SignerEpochGracePeriodUpdated(oldGracePeriod, newGracePeriod);
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Update minimum stake duration
+     * @dev Timelocked: queued for parameterChangeDelay when one is set
+     * @param newDuration New minimum stake duration in seconds
+     */
+    function setMinStakeDuration(uint256 newDuration) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newDuration == 0) revert InvalidDuration();
+
+        _scheduleParameterChange(this.setMinStakeDuration.selector, abi.encode(newDuration));
+    }
+
+    /**
+     * @notice Update treasury address
+     * @dev Timelocked: queued for parameterChangeDelay when one is set
+     * @param newTreasury New treasury address
+     */
+    function setTreasury(address newTreasury) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newTreasury == address(0)) revert ZeroAddress();
+
+        _scheduleParameterChange(this.setTreasury.selector, abi.encode(newTreasury));
+    }
+
+    /**
+     * @notice Split commission among weighted recipients instead of sending it to treasury
+     * @dev Timelocked like setTreasury. Recipients accrue their share and pull it with
+     *      withdrawFees; amounts already accrued are unaffected by later changes.
+     * @param recipients Recipients of the split (empty = send commission to treasury)
+     * @param weights Relative weight of each recipient (non-zero)
+     */
+    function setCommissionSplit(
+        address[] calldata recipients,
+        uint256[] calldata weights
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateFeeSplit(recipients, weights);
+
+        _scheduleParameterChange(this.setCommissionSplit.selector, abi.encode(recipients, weights));
+    }
+
+    /**
+     * @notice Split slashed stake among weighted recipients instead of sending it to treasury
+     * @dev Timelocked like setTreasury; see setCommissionSplit
+     * @param recipients Recipients of the split (empty = send slashed funds to treasury)
+     * @param weights Relative weight of each recipient (non-zero)
+     */
+    function setSlashSplit(
+        address[] calldata recipients,
+        uint256[] calldata weights
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _validateFeeSplit(recipients, weights);
+
+        _scheduleParameterChange(this.setSlashSplit.selector, abi.encode(recipients, weights));
+    }
+
+    /**
+     * @notice Set the share of slashed funds kept in the insurance pool
+     * @dev Timelocked like setSlashSplit. The remainder goes to the slash split (or treasury).
+     * @param newShareBps Share in basis points (10000 = everything to the pool)
+     */
+    function setInsuranceShare(uint256 newShareBps) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newShareBps > 10000) revert InvalidInsuranceShare();
+
+        _scheduleParameterChange(this.setInsuranceShare.selector, abi.encode(newShareBps));
+    }
+
+    /**
+     * @notice Allow or disallow an ERC-20 token for deposits
+     * @dev TLP is always accepted. Delisting only blocks new deposits; existing
+     *      balances in the token can still be claimed and withdrawn.
+     * @param token Payment token
+     * @param allowed Whether deposits in the token are accepted
+     */
+    function setPaymentToken(address token, bool allowed) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        if (token == address(tlpToken)) revert InvalidPaymentToken();
+
+        paymentTokens[token] = allowed;
+
+        emit PaymentTokenUpdated(token, allowed);
+    }
+
+    /**
+     * @notice Set commission rate for provider claims
+     * @dev Timelocked: queued for parameterChangeDelay when one is set
+     * @param newCommissionBps Commission in basis points (10000 = 100%, e.g., 500 = 5%)
+     */
+    function setCommission(uint256 newCommissionBps) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newCommissionBps > 10000) revert CommissionTooHigh();
+
+        _scheduleParameterChange(this.setCommission.selector, abi.encode(newCommissionBps));
+    }
+
+    /**
+     * @notice Set a negotiated commission rate for one provider
+     * @dev The override applies to all of the provider's claims and stream withdrawals,
+     *      whatever their fee class, until it expires. Timelocked like setCommission; the
+     *      expiry is checked when the change is queued.
+     * @param provider Address of the provider
+     * @param newCommissionBps Commission in basis points (10000 = 100%)
+     * @param expiresAt When the override stops applying (0 removes it)
+     */
+    function setProviderCommission(
+        address provider,
+        uint256 newCommissionBps,
+        uint256 expiresAt
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (provider == address(0)) revert ZeroAddress();
+        if (newCommissionBps > 10000) revert CommissionTooHigh();
+        if (expiresAt != 0 && expiresAt <= block.timestamp) revert InvalidDuration();
+
+        _scheduleParameterChange(
+            this.setProviderCommission.selector,
+            abi.encode(provider, newCommissionBps, expiresAt)
+        );
+    }
+
+    /**
+     * @notice Configure a commission tier that signed claims can select by fee class
+     * @dev Fee class 0 is reserved for the default commissionBps. Disabling a class makes
+     *      claims signed for it revert until re-signed. Timelocked like setCommission.
+     * @param feeClass Fee class ID (non-zero)
+     * @param newCommissionBps Commission in basis points (10000 = 100%)
+     * @param enabled Whether claims can select the class
+     */
+    function setFeeClass(
+        uint256 feeClass,
+        uint256 newCommissionBps,
+        bool enabled
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (feeClass == 0) revert InvalidFeeClass();
+        if (newCommissionBps > 10000) revert CommissionTooHigh();
+
+        _scheduleParameterChange(this.setFeeClass.selector, abi.encode(feeClass, newCommissionBps, enabled));
+    }
+
+    /**
+     * @notice Set the challenge window for escape-hatch withdrawals
+     * @param newDelay New delay in seconds between request and execution
+     */
+    function setUnilateralWithdrawalDelay(uint256 newDelay) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newDelay == 0) revert InvalidDuration();
+
+        uint256 oldDelay = unilateralWithdrawalDelay;
+        unilateralWithdrawalDelay = newDelay;
+
+        emit UnilateralWithdrawalDelayUpdated(oldDelay, newDelay);
+    }
+
+    /**
+     * @notice Set the unbonding period for unstake requests
+     * @param newPeriod New period in seconds during which unbonding stake stays slashable
+     */
+    function setUnbondingPeriod(uint256 newPeriod) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newPeriod == 0) revert InvalidDuration();
+
+        uint256 oldPeriod = unbondingPeriod;
+        unbondingPeriod = newPeriod;
+
+        emit UnbondingPeriodUpdated(oldPeriod, newPeriod);
+    }
+
+    /**
+     * @notice Set the minimum effective stake required to be an active provider
+     * @param newMinStake New minimum stake amount
+     */
+    function setMinProviderStake(uint256 newMinStake) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 oldMinStake = minProviderStake;
+        minProviderStake = newMinStake;
+
+        emit MinProviderStakeUpdated(oldMinStake, newMinStake);
+    }
+
+    /**
+     * @notice Set the rules for previously slashed providers staking again
+     * @dev Checked in stake only; providers already staked keep their stake
+     * @param newCooldown Cooling-off period after an unban before the provider can stake
+     * @param newStakePerSlash Extra minimum initial stake per past slash
+     * @param newMaxSlashCount Slash count at which a provider can never stake again (0 = never)
+     */
+    function setReentryRules(
+        uint256 newCooldown,
+        uint256 newStakePerSlash,
+        uint256 newMaxSlashCount
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        reentryCooldown = newCooldown;
+        reentryStakePerSlash = newStakePerSlash;
+        maxSlashCount = newMaxSlashCount;
+
+        emit ReentryRulesUpdated(newCooldown, newStakePerSlash, newMaxSlashCount);
+    }
+
+    /**
+     * @notice Replace the stake tier table
+     * @dev When tiers are set, a provider must meet at least the first tier to be
+     *      active, and its claim cap comes from the highest tier it meets.
+     *      Pass empty arrays to disable tiering.
+     * @param names Tier names
+     * @param minStakes Minimum effective stake per tier (strictly ascending)
+     * @param capsBps Claim cap per window per tier, in bps of effective stake (0 = uncapped)
+     */
+    function setStakeTiers(
+        bytes32[] calldata names,
+        uint256[] calldata minStakes,
+        uint256[] calldata capsBps
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 length = names.length;
+        if (length != minStakes.length || length != capsBps.length) revert ArrayLengthMismatch();
+        if (length > MAX_STAKE_TIERS) revert InvalidStakeTiers();
+
+        delete stakeTiers;
+        for (uint256 i = 0; i < length; i++) {
+            if (i > 0 && minStakes[i] <= minStakes[i - 1]) revert InvalidStakeTiers();
+            stakeTiers.push(StakeTier({name: names[i], minStake: minStakes[i], claimCapBps: capsBps[i]}));
+        }
+
+        emit StakeTiersUpdated(length);
+    }
+
+    /**
+     * @notice Set the default claim cap used when no stake tiers are configured
+     * @param newClaimCapBps Cap per window in bps of effective stake (0 = uncapped)
+     * @param newWindow Length of the claim cap window in seconds
+     */
+    function setClaimCap(uint256 newClaimCapBps, uint256 newWindow) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newWindow == 0) revert InvalidDuration();
+
+        claimCapBps = newClaimCapBps;
+        claimCapWindow = newWindow;
+
+        emit ClaimCapUpdated(newClaimCapBps, newWindow);
+    }
+
+    /**
+     * @notice Set how long claim payouts are held before release
+     * @dev Timelocked: queued for parameterChangeDelay when one is set. Applies to claims
+     *      made after the change; 0 pays claims out immediately.
+     * @param newPeriod New challenge period in seconds
+     */
+    function setClaimChallengePeriod(uint256 newPeriod) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _scheduleParameterChange(this.setClaimChallengePeriod.selector, abi.encode(newPeriod));
+    }
+
+    /**
+     * @notice Set how many police must approve a slash and how long providers can appeal
+     * @dev With more than one required approval, police can only slash through signed
+     *      proposals (proposeSlash); the appeal window applies to proposals made afterwards
+     * @param newRequiredApprovals Number of distinct police signatures a slash needs
+     * @param newAppealWindow Time in seconds a provider has to appeal a proposed slash
+     */
+    function setSlashGovernance(
+        uint256 newRequiredApprovals,
+        uint256 newAppealWindow
+    ) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newRequiredApprovals == 0) revert InvalidRequiredSignatures();
+
+        requiredSlashApprovals = newRequiredApprovals;
+        slashAppealWindow = newAppealWindow;
+
+        emit SlashGovernanceUpdated(newRequiredApprovals, newAppealWindow);
+    }
+
+    /**
+     * @notice Set the share of provider payouts held back and how long it takes to vest
+     * @dev Timelocked like setCommission. Applies to payouts made after the change;
+     *      earnings already held keep their schedule.
+     * @param newHoldbackBps Share of each payout held back in bps (0 = paid out in full)
+     * @param newVestingPeriod Linear vesting period for held-back earnings in seconds
+     */
+    function setHoldback(uint256 newHoldbackBps, uint256 newVestingPeriod) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newHoldbackBps > 10000) revert InvalidHoldback();
+        if (newHoldbackBps > 0 && newVestingPeriod == 0) revert InvalidDuration();
+
+        _scheduleParameterChange(this.setHoldback.selector, abi.encode(newHoldbackBps, newVestingPeriod));
+    }
+
+    /**
+     * @notice Set the ERC-2771 forwarder trusted to relay calls on behalf of users
+     * @dev The forwarder can act as any account, so only point this at an audited
+     *      forwarder such as TLPForwarder. Timelocked like setTreasury.
+     * @param newForwarder Forwarder address (0 disables meta-transactions)
+     */
+    function setTrustedForwarder(address newForwarder) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        _scheduleParameterChange(this.setTrustedForwarder.selector, abi.encode(newForwarder));
+    }
+
+    /**
+     * @notice Set the TLP fee charged on withdrawals and claims relayed through the forwarder
+     * @dev Users don't sign the fee, so it is capped at MAX_RELAY_FEE and timelocked like
+     *      setCommission to give them time to react to an increase
+     * @param newFee Fee per relayed call (0 = free)
+     * @param recipient Address receiving the fee, typically the relayer's wallet
+     */
+    function setRelayFee(uint256 newFee, address recipient) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newFee > MAX_RELAY_FEE) revert RelayFeeTooHigh();
+        if (newFee > 0 && recipient == address(0)) revert ZeroAddress();
+
+        _scheduleParameterChange(this.setRelayFee.selector, abi.encode(newFee, recipient));
+    }
+
+    // ============ Parameter Timelock ============
+
+    /**
+     * @notice Set how long commission, fee, treasury, split, insurance, relay, holdback, challenge period
+     *         and stake duration changes wait before applying
+     * @dev Timelocked itself, so lowering the delay waits out the current one. Changes already
+     *      queued keep their ETA.
+     * @param newDelay Delay in seconds (0 = changes apply immediately)
+     */
+    function setParameterChangeDelay(uint256 newDelay) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (newDelay > MAX_PARAMETER_CHANGE_DELAY) revert InvalidDuration();
+
+        _scheduleParameterChange(this.setParameterChangeDelay.selector, abi.encode(newDelay));
+    }
+
+    /**
+     * @notice Apply a queued parameter change once its ETA has passed
+     * @dev Callable by anyone; the change was authorized by the admin when it was queued
+     * @param changeId ID of the queued change
+     */
+    function executeParameterChange(bytes32 changeId) external onlyDelegateCall {
+        ParameterChange memory change = parameterChanges[changeId];
+        if (change.eta == 0) revert NoQueuedParameterChange();
+        if (block.timestamp < change.eta) revert ParameterChangeNotReady();
+
+        _removeParameterChange(changeId);
+        _applyParameterChange(change.selector, change.data);
+
+        emit ParameterChangeExecuted(changeId);
+    }
+
+    /**
+     * @notice Drop a queued parameter change before it is executed
+     * @param changeId ID of the queued change
+     */
+    function cancelParameterChange(bytes32 changeId) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (parameterChanges[changeId].eta == 0) revert NoQueuedParameterChange();
+
+        _removeParameterChange(changeId);
+
+        emit ParameterChangeCancelled(changeId);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Validate a commission or slash split
+     * @param recipients Recipients of the split
+     * @param weights Relative weight of each recipient
+     */
+    function _validateFeeSplit(address[] calldata recipients, uint256[] calldata weights) internal pure {
+        if (recipients.length != weights.length) revert ArrayLengthMismatch();
+        if (recipients.length > MAX_FEE_RECIPIENTS) revert InvalidFeeSplit();
+        for (uint256 i = 0; i < recipients.length; i++) {
+            if (recipients[i] == address(0)) revert ZeroAddress();
+            if (weights[i] == 0) revert InvalidFeeSplit();
+        }
+    }
+
+    /**
+     * @notice Replace a commission or slash split
+     * @param split Split to overwrite
+     * @param recipients Recipients of the split
+     * @param weights Relative weight of each recipient
+     */
+    function _setFeeSplit(FeeShare[] storage split, address[] memory recipients, uint256[] memory weights) internal {
+        while (split.length > 0) {
+            split.pop();
+        }
+        for (uint256 i = 0; i < recipients.length; i++) {
+            split.push(FeeShare(recipients[i], weights[i]));
+        }
+    }
+
+    /**
+     * @notice Apply a timelocked setter call now, or queue it if a delay is set
+     * @dev The change ID commits to the setter and its arguments, so the same change
+     *      can't be queued twice
+     * @param selector Selector of the timelocked setter
+     * @param data ABI-encoded setter arguments (already validated)
+     */
+    function _scheduleParameterChange(bytes4 selector, bytes memory data) internal {
+        if (parameterChangeDelay == 0) {
+            _applyParameterChange(selector, data);
+            return;
+        }
+
+        bytes32 changeId = keccak256(abi.encode(selector, data));
+        if (parameterChanges[changeId].eta != 0) revert ParameterChangeAlreadyQueued();
+
+        uint256 eta = block.timestamp + parameterChangeDelay;
+        parameterChanges[changeId] = ParameterChange(selector, eta, data);
+        queuedParameterChanges.push(changeId);
+
+        emit ParameterChangeQueued(changeId, selector, data, eta);
+    }
+
+    /**
+     * @notice Delete a queued parameter change and drop it from the pending list
+     * @param changeId ID of the queued change
+     */
+    function _removeParameterChange(bytes32 changeId) internal {
+        delete parameterChanges[changeId];
+
+        uint256 last = queuedParameterChanges.length - 1;
+        for (uint256 i = 0; i <= last; i++) {
+            if (queuedParameterChanges[i] == changeId) {
+                queuedParameterChanges[i] = queuedParameterChanges[last];
+                queuedParameterChanges.pop();
+                return;
+            }
+        }
+    }
+
+    /**
+     * @notice Write a timelocked parameter change to storage
+     * @param selector Selector of the timelocked setter
+     * @param data ABI-encoded setter arguments
+     */
+    function _applyParameterChange(bytes4 selector, bytes memory data) internal {
+        if (selector == this.setCommission.selector) {
+            uint256 newCommissionBps = abi.decode(data, (uint256));
+            uint256 oldCommission = commissionBps;
+            commissionBps = newCommissionBps;
+            emit CommissionUpdated(oldCommission, newCommissionBps);
+        } else if (selector == this.setProviderCommission.selector) {
+            (address provider, uint256 newCommissionBps, uint256 expiresAt) = abi.decode(
+                data,
+                (address, uint256, uint256)
+            );
+            providerCommissions[provider] = CommissionOverride(newCommissionBps, expiresAt);
+            emit ProviderCommissionUpdated(provider, newCommissionBps, expiresAt);
+        } else if (selector == this.setFeeClass.selector) {
+            (uint256 feeClass, uint256 newCommissionBps, bool enabled) = abi.decode(data, (uint256, uint256, bool));
+            feeClasses[feeClass] = FeeClass(newCommissionBps, enabled);
+            emit FeeClassUpdated(feeClass, newCommissionBps, enabled);
+        } else if (selector == this.setTreasury.selector) {
+            address newTreasury = abi.decode(data, (address));
+            address oldTreasury = treasury;
+            treasury = newTreasury;
+            emit TreasuryUpdated(oldTreasury, newTreasury);
+        } else if (selector == this.setCommissionSplit.selector) {
+            (address[] memory recipients, uint256[] memory weights) = abi.decode(data, (address[], uint256[]));
+            _setFeeSplit(commissionSplit, recipients, weights);
+            emit CommissionSplitUpdated(recipients, weights);
+        } else if (selector == this.setSlashSplit.selector) {
+            (address[] memory recipients, uint256[] memory weights) = abi.decode(data, (address[], uint256[]));
+            _setFeeSplit(slashSplit, recipients, weights);
+            emit SlashSplitUpdated(recipients, weights);
+        } else if (selector == this.setInsuranceShare.selector) {
+            uint256 newShareBps = abi.decode(data, (uint256));
+            uint256 oldShareBps = insuranceShareBps;
+            insuranceShareBps = newShareBps;
+            emit InsuranceShareUpdated(oldShareBps, newShareBps);
+        } else if (selector == this.setTrustedForwarder.selector) {
+            address newForwarder = abi.decode(data, (address));
+            address oldForwarder = forwarder;
+            forwarder = newForwarder;
+            emit TrustedForwarderUpdated(oldForwarder, newForwarder);
+        } else if (selector == this.setRelayFee.selector) {
+            (uint256 newFee, address recipient) = abi.decode(data, (uint256, address));
+            relayFee = newFee;
+            relayFeeRecipient = recipient;
+            emit RelayFeeUpdated(newFee, recipient);
+        } else if (selector == this.setMinStakeDuration.selector) {
+            uint256 newDuration = abi.decode(data, (uint256));
+            uint256 oldDuration = minStakeDuration;
+            minStakeDuration = newDuration;
+            emit MinStakeDurationUpdated(oldDuration, newDuration);
+        } else if (selector == this.setClaimChallengePeriod.selector) {
+            uint256 newPeriod = abi.decode(data, (uint256));
+            uint256 oldPeriod = claimChallengePeriod;
+            claimChallengePeriod = newPeriod;
+            emit ClaimChallengePeriodUpdated(oldPeriod, newPeriod);
+        } else if (selector == this.setHoldback.selector) {
+            (uint256 newHoldbackBps, uint256 newVestingPeriod) = abi.decode(data, (uint256, uint256));
+            holdbackBps = newHoldbackBps;
+            holdbackVestingPeriod = newVestingPeriod;
+            emit HoldbackUpdated(newHoldbackBps, newVestingPeriod);
+        } else {
+            uint256 newDelay = abi.decode(data, (uint256));
+            uint256 oldDelay = parameterChangeDelay;
+            parameterChangeDelay = newDelay;
+            emit ParameterChangeDelayUpdated(oldDelay, newDelay);
+        }
+    }
+}
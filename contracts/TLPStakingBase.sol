@@ -0,0 +1,1429 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+
+/**
+ * @title TLPStakingBase
+ * @notice Shared storage, errors, events and internal logic of TLPStaking
+ * @dev TLPStaking and TLPStakingExtension both inherit this contract, so they share one
+ *      storage layout; the extension runs through delegatecall in TLPStaking's context.
+ *      New state variables must only be appended.
+ */
+abstract contract TLPStakingBase is AccessControl, ReentrancyGuard, EIP712, ERC2771Context {
+    using SafeERC20 for IERC20;
+
+    // ============ Roles ============
+    bytes32 public constant POLICE_ROLE = keccak256("POLICE_ROLE");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+
+    // ============ EIP712 Type Hashes ============
+    bytes32 public constant WITHDRAWAL_TYPEHASH =
+        keccak256(
+            "Withdrawal(address user,address token,uint256 amount,uint256 nonce,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant CLAIM_TYPEHASH =
+        keccak256(
+            "Claim(bytes32 rentalId,address user,address provider,address token,uint256 feeClass,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant STREAM_TYPEHASH =
+        keccak256(
+            "Stream(bytes32 streamId,address user,address provider,uint256 ratePerSecond,uint256 maxDuration,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant STREAM_STOP_TYPEHASH =
+        keccak256("StreamStop(bytes32 streamId,uint256 deadline,uint256 epoch)");
+    bytes32 public constant REFUND_TYPEHASH =
+        keccak256(
+            "Refund(bytes32 rentalId,address user,address provider,address token,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant DISPUTE_DISMISSAL_TYPEHASH =
+        keccak256(
+            "DisputeDismissal(bytes32 rentalId,address provider,uint256 claimedAmount,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant INSURANCE_PAYOUT_TYPEHASH =
+        keccak256(
+            "InsurancePayout(bytes32 incidentId,address user,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+        );
+    bytes32 public constant SLASH_PROPOSAL_TYPEHASH =
+        keccak256(
+            "SlashProposal(address provider,uint256 amount,bool ban,bytes32 reasonCode,bytes32 evidenceHash,uint256 deadline)"
+        );
+
+    // ============ Custom Errors ============
+    error ZeroAddress();
+    error ZeroAmount();
+    error InsufficientStake();
+    error StakeLocked();
+    error AlreadyStaked();
+    error ProviderBanned();
+    error ProviderNotBanned();
+    error ProviderSuspendedUntil(uint256 until);
+    error ProviderBlacklisted();
+    error ReentryCooldownActive(uint256 availableAt);
+    error NotAProvider();
+    error InvalidDuration();
+    error DurationTooShort();
+    error InsufficientBalance();
+    error InvalidSlashAmount();
+    error SignerAlreadyAuthorized();
+    error SignerNotAuthorized();
+    error InsufficientSignatures();
+    error DuplicateSignature();
+    error InvalidSignature();
+    error InvalidRequiredSignatures();
+    error ArrayLengthMismatch();
+    error CommissionTooHigh();
+    error SignatureExpired();
+    error WithdrawalAlreadyPending();
+    error NoPendingWithdrawal();
+    error WithdrawalNotReady();
+    error TooManyUnbondingEntries();
+    error NothingToWithdraw();
+    error StakeBelowMinimum();
+    error ClaimCapExceeded();
+    error InvalidStakeTiers();
+    error InvalidSignerEpoch();
+    error SignerRotationPending();
+    error NoPendingSignerRotation();
+    error OperationPaused(uint256 scope);
+    error InvalidPauseScope();
+    error RentalAlreadyExists();
+    error RentalNotFound();
+    error RentalMismatch();
+    error RentalInactive();
+    error RentalCapExceeded();
+    error RentalNotExpired();
+    error ClaimAlreadySettled();
+    error NonceAlreadyUsed();
+    error StreamAlreadyExists();
+    error StreamNotFound();
+    error StreamNotActive();
+    error NotStreamParty();
+    error NoPendingClaim();
+    error NotClaimUser();
+    error ClaimUnderDispute();
+    error ClaimNotDisputed();
+    error ChallengePeriodActive();
+    error ChallengePeriodEnded();
+    error RefundAlreadySettled();
+    error InvalidHoldback();
+    error TokenNotAllowed();
+    error InvalidPaymentToken();
+    error MixedPaymentTokens();
+    error InvalidFeeClass();
+    error ParameterChangeAlreadyQueued();
+    error NoQueuedParameterChange();
+    error ParameterChangeNotReady();
+    error InvalidFeeSplit();
+    error InvalidInsuranceShare();
+    error RelayFeeTooHigh();
+    error InsufficientInsurancePool();
+    error InsurancePayoutAlreadySettled();
+    error SlashApprovalsRequired();
+    error SlashProposalExists();
+    error InvalidSlashProposalState();
+    error NotSlashedProvider();
+    error AppealWindowActive();
+    error AppealWindowEnded();
+
+    // ============ Events ============
+    // Provider events
+    event Staked(address indexed provider, uint256 amount, uint256 unlockTime);
+    event StakeExtended(address indexed provider, uint256 newUnlockTime);
+    event StakeIncreased(address indexed provider, uint256 addedAmount, uint256 newTotal, uint256 newUnlockTime);
+    event UnstakeRequested(address indexed provider, uint256 amount, uint256 releaseTime);
+    event StakeWithdrawn(address indexed provider, uint256 amount);
+    event ProviderSlashed(
+        address indexed provider,
+        uint256 slashedStake,
+        bool banned,
+        bytes32 indexed reasonCode,
+        bytes32 evidenceHash
+    );
+    event ProviderUnbanned(address indexed provider);
+    event ProviderSuspended(address indexed provider, uint256 until);
+
+    // Slash governance events
+    event SlashProposed(
+        bytes32 indexed proposalId,
+        address indexed provider,
+        uint256 amount,
+        bool ban,
+        bytes32 reasonCode,
+        bytes32 evidenceHash,
+        uint256 executableAt
+    );
+    event SlashAppealed(bytes32 indexed proposalId, address indexed provider);
+    event SlashAppealResolved(bytes32 indexed proposalId, bool upheld);
+    event SlashExecuted(bytes32 indexed proposalId);
+    event SlashGovernanceUpdated(uint256 requiredApprovals, uint256 appealWindow);
+
+    // Delegation events
+    event Delegated(address indexed delegator, address indexed provider, uint256 amount, uint256 shares);
+    event Undelegated(address indexed delegator, address indexed provider, uint256 amount, uint256 releaseTime);
+    event UndelegationWithdrawn(address indexed delegator, address indexed provider, uint256 amount);
+    event DelegatorsSlashed(address indexed provider, uint256 slashedAmount);
+    event DelegationRewardsAccrued(address indexed provider, uint256 amount);
+    event DelegationRewardsClaimed(address indexed delegator, address indexed provider, uint256 amount);
+    event DelegationFeeUpdated(address indexed provider, uint256 oldFeeBps, uint256 newFeeBps);
+
+    // User balance events
+    event Deposited(
+        address indexed user,
+        address indexed payer,
+        address indexed token,
+        uint256 amount,
+        uint256 newBalance
+    );
+    event Withdrawn(address indexed user, address indexed token, uint256 amount, uint256 newBalance);
+    event UnilateralWithdrawalRequested(
+        address indexed user,
+        address indexed token,
+        uint256 amount,
+        uint256 releaseTime
+    );
+    event UnilateralWithdrawalExecuted(
+        address indexed user,
+        address indexed token,
+        uint256 amount,
+        uint256 newBalance
+    );
+    event UnilateralWithdrawalCancelled(address indexed user);
+    event NoncesInvalidated(address indexed user, uint256 wordPos, uint256 mask);
+
+    // Rental escrow events
+    event RentalOpened(
+        bytes32 indexed rentalId,
+        address indexed user,
+        address indexed provider,
+        uint256 amount,
+        uint256 expiresAt
+    );
+    event RentalClosed(bytes32 indexed rentalId, address indexed user, uint256 refunded);
+
+    // Payment stream events
+    event StreamOpened(
+        bytes32 indexed streamId,
+        address indexed user,
+        address indexed provider,
+        uint256 ratePerSecond,
+        uint256 startTime,
+        uint256 endTime
+    );
+    event StreamWithdrawn(bytes32 indexed streamId, address indexed provider, uint256 amount, uint256 commission);
+    event StreamStopped(bytes32 indexed streamId, address indexed stoppedBy, uint256 accrued, uint256 refunded);
+
+    // Claim events (rentalId for audit trail)
+    event Claimed(
+        bytes32 indexed rentalId,
+        address indexed user,
+        address indexed provider,
+        address token,
+        uint256 amount,
+        uint256 commission,
+        uint256 commissionBps
+    );
+
+    // Dispute and refund events
+    event ClaimHeld(
+        bytes32 indexed rentalId,
+        address indexed user,
+        address indexed provider,
+        uint256 amount,
+        uint256 releaseTime
+    );
+    event ClaimReleased(bytes32 indexed rentalId, address indexed provider, uint256 amount);
+    event ClaimReturned(bytes32 indexed rentalId, address indexed user, address indexed provider, uint256 amount);
+    event ClaimDisputed(bytes32 indexed rentalId, address indexed user, address indexed provider);
+    event DisputeDismissed(bytes32 indexed rentalId, address indexed provider);
+    event Refunded(
+        bytes32 indexed rentalId,
+        address indexed user,
+        address indexed provider,
+        address token,
+        uint256 amount,
+        uint256 fromStake
+    );
+
+    // Holdback events
+    event EarningsHeldBack(address indexed provider, uint256 amount, uint256 vestingEnd);
+    event VestedEarningsReleased(address indexed provider, uint256 amount);
+    event HoldbackSlashed(address indexed provider, uint256 amount);
+
+    // Admin events
+    event MinStakeDurationUpdated(uint256 oldDuration, uint256 newDuration);
+    event TreasuryUpdated(address oldTreasury, address newTreasury);
+    event PaymentTokenUpdated(address indexed token, bool allowed);
+    event SignerAdded(address indexed signer);
+    event SignerRemoved(address indexed signer);
+    event RequiredWithdrawalSignaturesUpdated(uint256 oldRequired, uint256 newRequired);
+    event RequiredClaimSignaturesUpdated(uint256 oldRequired, uint256 newRequired);
+    event RequiredRefundSignaturesUpdated(uint256 oldRequired, uint256 newRequired);
+    event LargeWithdrawalPolicyUpdated(uint256 threshold, uint256 requiredSignatures);
+    event SignerRotationScheduled(uint256 indexed epoch, uint256 activationTime, uint256 previousEpochExpiresAt);
+    event SignerRotationCancelled(uint256 indexed epoch);
+    event SignerEpochExpired(uint256 indexed epoch);
+    event SignerEpochGracePeriodUpdated(uint256 oldGracePeriod, uint256 newGracePeriod);
+    event CommissionUpdated(uint256 oldCommission, uint256 newCommission);
+    event ProviderCommissionUpdated(address indexed provider, uint256 commissionBps, uint256 expiresAt);
+    event FeeClassUpdated(uint256 indexed feeClass, uint256 commissionBps, bool enabled);
+    event ParameterChangeQueued(bytes32 indexed changeId, bytes4 indexed selector, bytes data, uint256 eta);
+    event ParameterChangeExecuted(bytes32 indexed changeId);
+    event ParameterChangeCancelled(bytes32 indexed changeId);
+    event ParameterChangeDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event CommissionSplitUpdated(address[] recipients, uint256[] weights);
+    event SlashSplitUpdated(address[] recipients, uint256[] weights);
+    event FeesWithdrawn(address indexed recipient, address indexed token, uint256 amount);
+    event InsuranceShareUpdated(uint256 oldShareBps, uint256 newShareBps);
+    event InsurancePoolFunded(address indexed source, uint256 amount, uint256 poolBalance);
+    event InsurancePaid(bytes32 indexed incidentId, address indexed user, uint256 amount, uint256 poolBalance);
+    event UnilateralWithdrawalDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    event UnbondingPeriodUpdated(uint256 oldPeriod, uint256 newPeriod);
+    event MinProviderStakeUpdated(uint256 oldMinStake, uint256 newMinStake);
+    event ReentryRulesUpdated(uint256 cooldown, uint256 stakePerSlash, uint256 maxSlashCount);
+    event StakeTiersUpdated(uint256 tierCount);
+    event ClaimCapUpdated(uint256 claimCapBps, uint256 claimCapWindow);
+    event ClaimChallengePeriodUpdated(uint256 oldPeriod, uint256 newPeriod);
+    event HoldbackUpdated(uint256 holdbackBps, uint256 vestingPeriod);
+    event TrustedForwarderUpdated(address oldForwarder, address newForwarder);
+    event RelayFeeUpdated(uint256 fee, address recipient);
+
+    // Guardian events
+    event ScopesPaused(address indexed guardian, uint256 scopes, bytes32 indexed reasonCode);
+    event ScopesUnpaused(address indexed admin, uint256 scopes);
+
+    // Meta-transaction events
+    event RelayFeePaid(address indexed payer, address indexed recipient, uint256 fee);
+
+    // ============ Structs ============
+    struct ProviderInfo {
+        uint256 stakeAmount;
+        uint256 unlockTime;
+        bool isBanned;
+        uint256 slashCount;
+        uint256 suspendedUntil; // Claims and new rentals blocked until this time
+    }
+
+    struct StakeTier {
+        bytes32 name;
+        uint256 minStake; // Minimum effective stake to qualify
+        uint256 claimCapBps; // Claim cap per window as bps of effective stake (0 = uncapped)
+    }
+
+    struct ClaimWindow {
+        uint256 start;
+        uint256 claimed;
+    }
+
+    struct UnbondingEntry {
+        uint256 amount;
+        uint256 releaseTime;
+    }
+
+    struct DelegationPool {
+        uint256 totalDelegated; // Active delegated stake
+        uint256 totalShares;
+        uint256 unbondingAmount; // Undelegated stake still slashable
+        uint256 unbondingShares;
+        uint256 accRewardPerShare; // Scaled by REWARD_PRECISION
+        uint256 feeBps; // Provider's cut of delegator revenue
+        uint256 generation; // Bumped when the pool is fully slashed
+    }
+
+    struct Delegation {
+        uint256 shares;
+        uint256 rewardDebt;
+        uint256 rewards; // Settled, unclaimed rewards
+        uint256 unbondingShares;
+        uint256 releaseTime;
+        uint256 generation;
+    }
+
+    struct PendingWithdrawal {
+        uint256 amount;
+        uint256 releaseTime;
+        address token;
+    }
+
+    struct RentalLock {
+        address user;
+        address provider;
+        uint256 amount; // Maximum claimable under this rentalId
+        uint256 claimed;
+        uint256 expiresAt; // Claims rejected and remainder refundable after this
+        bool closed;
+    }
+
+    struct Stream {
+        address user;
+        address provider;
+        uint256 ratePerSecond;
+        uint256 startTime;
+        uint256 endTime; // Accrual stops here; moved to the stop time if stopped early
+        uint256 withdrawn; // Amount already paid out to the provider
+    }
+
+    struct PendingClaim {
+        address user;
+        uint256 amount; // Provider payout held back (after commission, before the relay fee)
+        uint256 fee; // Relay fees already paid out of amount
+        uint256 releaseTime; // Released to the provider after this unless disputed
+        bool disputed;
+        address token; // Payment token the payout is held in
+    }
+
+    struct Holdback {
+        uint256 locked; // Unvested earnings as of lastUpdate; slashable
+        uint256 vested; // Vested earnings not yet released
+        uint256 lastUpdate; // When locked was last checkpointed
+        uint256 vestingEnd; // When the locked amount is fully vested
+    }
+
+    struct CommissionOverride {
+        uint256 commissionBps;
+        uint256 expiresAt; // Override stops applying at this time (0 = no override)
+    }
+
+    struct FeeClass {
+        uint256 commissionBps;
+        bool enabled;
+    }
+
+    struct FeeShare {
+        address recipient;
+        uint256 weight; // Relative to the sum of weights in the split
+    }
+
+    struct SlashRecord {
+        bytes32 reasonCode;
+        bytes32 evidenceHash; // Digest of the incident report (e.g. an IPFS CID digest)
+        uint256 amount; // Total removed: stake, unbonding, delegated stake and unvested earnings
+        uint256 timestamp;
+        address police;
+        bool banned;
+    }
+
+    struct SlashProposal {
+        address provider;
+        address proposer; // Police behind the first signature; recorded in the slash history
+        uint256 amount; // Ignored for bans, which slash everything
+        bool ban;
+        bytes32 reasonCode;
+        bytes32 evidenceHash;
+        uint256 executableAt; // End of the appeal window
+        bool appealed; // Awaiting the admin's decision
+        bool closed; // Executed or rejected on appeal
+    }
+
+    struct ParameterChange {
+        bytes4 selector; // Timelocked setter the change applies
+        uint256 eta; // Executable from this time
+        bytes data; // ABI-encoded setter arguments
+    }
+
+    struct ClaimRequest {
+        bytes32 rentalId;
+        address user;
+        address token; // Payment token the user is charged in
+        uint256 feeClass; // Commission tier to apply (0 = default rate)
+        uint256 cumulativeAmount; // Running total owed for (rentalId, provider)
+        uint256 deadline;
+        uint256 epoch; // Signer epoch the signatures commit to
+    }
+
+    struct SignerEpoch {
+        uint256 activationTime; // When this set starts accepting signatures
+        uint256 expiresAt; // When this set stops accepting signatures (0 = no expiry)
+        address[] signers;
+    }
+
+    // ============ Constants ============
+    uint256 public constant MAX_UNBONDING_ENTRIES = 32; // Bounds slashing loops
+    uint256 public constant MAX_STAKE_TIERS = 16;
+    uint256 public constant MAX_PARAMETER_CHANGE_DELAY = 30 days;
+    uint256 public constant MAX_FEE_RECIPIENTS = 8; // Bounds the split loop on every claim and slash
+    uint256 public constant MAX_RELAY_FEE = 10e18; // Bounds what a relayed call can cost the user (10 TLP)
+    uint256 internal constant REWARD_PRECISION = 1e18;
+
+    // Pause scopes (bit flags, combinable)
+    uint256 public constant PAUSE_DEPOSITS = 1 << 0;
+    uint256 public constant PAUSE_WITHDRAWALS = 1 << 1;
+    uint256 public constant PAUSE_CLAIMS = 1 << 2;
+    uint256 public constant PAUSE_STAKING = 1 << 3;
+    uint256 public constant PAUSE_ALL = PAUSE_DEPOSITS | PAUSE_WITHDRAWALS | PAUSE_CLAIMS | PAUSE_STAKING;
+
+    // ============ State Variables ============
+    IERC20 public immutable tlpToken;
+    address public treasury;
+
+    uint256 public minStakeDuration = 30 days;
+    uint256 public commissionBps; // Commission in basis points (10000 = 100%)
+    uint256 public unilateralWithdrawalDelay = 7 days; // Challenge window for escape-hatch withdrawals
+    uint256 public unbondingPeriod = 7 days; // Slashable window between unstake request and release
+    uint256 public minProviderStake; // Minimum effective stake for an active provider
+    uint256 public claimCapBps; // Default claim cap per window as bps of effective stake (0 = uncapped)
+    uint256 public claimCapWindow = 1 days;
+
+    // Provider staking
+    mapping(address => ProviderInfo) public providers;
+
+    // Optional stake tiers, sorted by ascending minStake
+    StakeTier[] internal stakeTiers;
+
+    // Claimed amount per provider in the current claim cap window
+    mapping(address => ClaimWindow) internal claimWindows;
+
+    // Unstaked amounts waiting to mature (still slashable)
+    mapping(address => UnbondingEntry[]) internal unbondingQueue;
+
+    // Delegated stake per provider, and per delegator within each provider's pool
+    mapping(address => DelegationPool) internal delegationPools;
+    mapping(address => mapping(address => Delegation)) internal delegations;
+
+    // Final accRewardPerShare of each wiped pool generation (provider => generation => value)
+    mapping(address => mapping(uint256 => uint256)) internal wipedRewardPerShare;
+
+    // User balances in the pool
+    mapping(address => uint256) public userBalances;
+
+    // Funds locked to rentals, by rentalId and user, and total per user (not part of userBalances)
+    mapping(bytes32 => mapping(address => RentalLock)) internal rentalLocks;
+    mapping(address => uint256) public lockedBalances;
+
+    // Escape-hatch withdrawals awaiting the challenge window
+    mapping(address => PendingWithdrawal) public pendingWithdrawals;
+
+    // Unordered withdrawal nonces: bit (nonce & 0xff) of word (nonce >> 8) is set once used
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    // Amount already paid per (rentalId, provider); claims pay only the delta to the signed total
+    mapping(bytes32 => mapping(address => uint256)) public claimedAmounts;
+
+    // Signer sets by epoch (epoch 0 is active from deployment)
+    mapping(uint256 => SignerEpoch) internal signerEpochs;
+    mapping(uint256 => mapping(address => bool)) internal epochSigners;
+    uint256 public latestSignerEpoch; // Newest epoch, possibly scheduled but not active yet
+    uint256 public signerEpochGracePeriod = 1 days; // How long the previous set stays valid after a rotation
+
+    // Signature thresholds per operation type
+    uint256 public requiredWithdrawalSignatures;
+    uint256 public requiredClaimSignatures;
+    uint256 public requiredRefundSignatures;
+
+    // Withdrawals above largeWithdrawalThreshold need requiredLargeWithdrawalSignatures (0 = disabled)
+    uint256 public largeWithdrawalThreshold;
+    uint256 public requiredLargeWithdrawalSignatures;
+
+    // Currently paused scopes (bitmask of PAUSE_* flags)
+    uint256 public pausedScopes;
+
+    // ERC-2771 forwarder (0 = meta-transactions disabled) and the TLP fee charged per relayed withdraw/claim
+    address internal forwarder;
+    uint256 public relayFee;
+    address public relayFeeRecipient;
+
+    // Signer-opened payment streams; unaccrued funds sit in lockedBalances until withdrawn or refunded
+    mapping(bytes32 => Stream) internal streams;
+
+    // Challenge period for claim payouts (0 = paid out immediately)
+    uint256 public claimChallengePeriod;
+
+    // Claim payouts held for the challenge period, by rentalId and provider
+    mapping(bytes32 => mapping(address => PendingClaim)) internal pendingClaims;
+
+    // Amount already refunded per (rentalId, provider); refunds pay only the delta to the signed total
+    mapping(bytes32 => mapping(address => uint256)) public refundedAmounts;
+
+    // Share of each provider payout held back (0 = paid out in full) and its linear vesting period
+    uint256 public holdbackBps;
+    uint256 public holdbackVestingPeriod;
+
+    // Held-back provider earnings, slashable until vested
+    mapping(address => Holdback) internal holdbacks;
+
+    // ERC-20 tokens accepted as payment besides TLP, which is always accepted
+    mapping(address => bool) public paymentTokens;
+
+    // User balances in payment tokens other than TLP, by token (TLP balances live in userBalances)
+    mapping(address => mapping(address => uint256)) internal tokenBalances;
+
+    // Negotiated per-provider commission rates, and commission tiers selectable by signed claims
+    mapping(address => CommissionOverride) internal providerCommissions;
+    mapping(uint256 => FeeClass) internal feeClasses;
+
+    // Delay before timelocked parameter changes apply (0 = applied immediately)
+    uint256 public parameterChangeDelay;
+
+    // Queued parameter changes by changeId, and the IDs still pending (unordered)
+    mapping(bytes32 => ParameterChange) internal parameterChanges;
+    bytes32[] internal queuedParameterChanges;
+
+    // Weighted recipients of commission and of slashed funds (empty = sent to treasury)
+    FeeShare[] internal commissionSplit;
+    FeeShare[] internal slashSplit;
+
+    // Split fees accrued per recipient and token, withdrawn with withdrawFees
+    mapping(address => mapping(address => uint256)) public accruedFees;
+
+    // Share of slashed funds routed to the insurance pool (0 = none) and the TLP it holds
+    uint256 public insuranceShareBps;
+    uint256 public insurancePool;
+
+    // Amount already paid out per (incidentId, user); payouts pay only the delta to the signed total
+    mapping(bytes32 => mapping(address => uint256)) public insurancePayouts;
+
+    // Every slash of a provider, oldest first, with the police's reason and evidence
+    mapping(address => SlashRecord[]) internal slashHistory;
+
+    // Police approvals a slash needs (1 = a single police may slash directly) and the
+    // time a provider has to appeal a proposed slash before it can be executed
+    uint256 public requiredSlashApprovals = 1;
+    uint256 public slashAppealWindow;
+
+    // Slash proposals by ID (the EIP-712 struct hash of the signed proposal)
+    mapping(bytes32 => SlashProposal) internal slashProposals;
+
+    // Re-entry rules for previously slashed providers: cooling-off period after an unban,
+    // extra minimum stake per past slash, and slash count at which a provider can never
+    // stake again (0 = no blacklisting)
+    uint256 public reentryCooldown;
+    uint256 public reentryStakePerSlash;
+    uint256 public maxSlashCount;
+
+    // When each provider was last unbanned (0 = never)
+    mapping(address => uint256) public unbannedAt;
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Initializes the shared immutables
+     * @param _tlpToken Address of the TLP token
+     */
+    constructor(address _tlpToken) EIP712("TLPStaking", "1") ERC2771Context(address(0)) {
+        if (_tlpToken == address(0)) revert ZeroAddress();
+
+        tlpToken = IERC20(_tlpToken);
+    }
+
+    // ============ Modifiers ============
+
+    /**
+     * @notice Revert if the given pause scope is active
+     * @param scope PAUSE_* flag guarding the function
+     */
+    modifier whenNotPaused(uint256 scope) {
+        _requireNotPaused(scope);
+        _;
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Consume an unordered withdrawal nonce
+     * @param user Owner of the nonce
+     * @param nonce Nonce to mark as used
+     */
+    function _useNonce(address user, uint256 nonce) internal {
+        uint256 bit = 1 << (nonce & 0xff);
+        uint256 word = nonceBitmap[user][nonce >> 8];
+        if (word & bit != 0) revert NonceAlreadyUsed();
+        nonceBitmap[user][nonce >> 8] = word | bit;
+    }
+
+    /**
+     * @notice Revert if the scope is paused
+     * @param scope PAUSE_* flag to check
+     */
+    function _requireNotPaused(uint256 scope) internal view {
+        if (pausedScopes & scope != 0) revert OperationPaused(scope);
+    }
+
+    /**
+     * @notice Validate a bitmask of pause scopes
+     * @param scopes Bitmask of PAUSE_* flags (non-empty, no unknown bits)
+     */
+    function _validatePauseScopes(uint256 scopes) internal pure {
+        if (scopes == 0 || scopes & ~PAUSE_ALL != 0) revert InvalidPauseScope();
+    }
+
+    /**
+     * @notice Relay fee owed by the current call
+     * @return Fee in TLP (0 unless the call came through the trusted forwarder)
+     */
+    function _relayFee() internal view returns (uint256) {
+        return isTrustedForwarder(msg.sender) ? relayFee : 0;
+    }
+
+    /**
+     * @notice Pay a relay fee to the fee recipient
+     * @dev Callers debit the fee from the user's balance (withdraw) or the
+     *      provider's payout (claims) before or after calling this
+     * @param fee Fee to pay (no-op when 0)
+     * @return The fee paid
+     */
+    function _payRelayFee(uint256 fee) internal returns (uint256) {
+        if (fee > 0) {
+            tlpToken.safeTransfer(relayFeeRecipient, fee);
+            emit RelayFeePaid(_msgSender(), relayFeeRecipient, fee);
+        }
+        return fee;
+    }
+
+    /**
+     * @notice Debit a relay fee from the caller's TLP balance and pay it out
+     * @dev Used where the fee cannot come out of a TLP payout (withdrawals, claims in other tokens)
+     * @param fee Fee to charge (no-op when 0)
+     */
+    function _chargeRelayFee(uint256 fee) internal {
+        if (fee > userBalances[_msgSender()]) revert InsufficientBalance();
+        userBalances[_msgSender()] -= fee;
+        _payRelayFee(fee);
+    }
+
+    /**
+     * @notice Pay the relay fee owed by a claim
+     * @dev Deducted from the provider payout for TLP claims; charged to the caller's
+     *      TLP balance for claims in other payment tokens
+     * @param token Payment token of the claim
+     * @return Fee to deduct from the provider payout
+     */
+    function _payClaimRelayFee(address token) internal returns (uint256) {
+        if (token == address(tlpToken)) return _payRelayFee(_relayFee());
+        _chargeRelayFee(_relayFee());
+        return 0;
+    }
+
+    /**
+     * @notice Commission rate charged on a provider's revenue
+     * @dev An unexpired provider override takes precedence over the fee class, which
+     *      takes precedence over the global commissionBps
+     * @param provider Address of the provider
+     * @param feeClass Fee class of the claim (0 = default rate)
+     * @return Commission in basis points
+     */
+    function _commissionRate(address provider, uint256 feeClass) internal view returns (uint256) {
+        CommissionOverride storage o = providerCommissions[provider];
+        if (block.timestamp < o.expiresAt) return o.commissionBps;
+        if (feeClass == 0) return commissionBps;
+
+        FeeClass storage fc = feeClasses[feeClass];
+        if (!fc.enabled) revert InvalidFeeClass();
+        return fc.commissionBps;
+    }
+
+    /**
+     * @notice Hand commission or slashed funds to the recipients of a split
+     * @dev With no split configured the amount is transferred to treasury as before.
+     *      Otherwise each recipient accrues its weighted share to withdraw later; rounding
+     *      dust goes to the first recipient.
+     * @param split Commission or slash split
+     * @param token Token the amount is held in
+     * @param amount Amount to distribute
+     */
+    function _distributeFees(FeeShare[] storage split, address token, uint256 amount) internal {
+        if (amount == 0) return;
+
+        uint256 length = split.length;
+        if (length == 0) {
+            IERC20(token).safeTransfer(treasury, amount);
+            return;
+        }
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < length; i++) {
+            totalWeight += split[i].weight;
+        }
+
+        uint256 remaining = amount;
+        for (uint256 i = 1; i < length; i++) {
+            uint256 share = (amount * split[i].weight) / totalWeight;
+            accruedFees[split[i].recipient][token] += share;
+            remaining -= share;
+        }
+        accruedFees[split[0].recipient][token] += remaining;
+    }
+
+    /**
+     * @notice User balances held in a payment token
+     * @param token Payment token (TLP or an allowlisted token)
+     * @return balances Storage pointer to the balances by user
+     */
+    function _balances(address token) internal view returns (mapping(address => uint256) storage balances) {
+        if (token == address(tlpToken)) return userBalances;
+        return tokenBalances[token];
+    }
+
+    /**
+     * @notice Credit a deposit and pull the tokens from the caller
+     * @param token Payment token being deposited
+     * @param beneficiary Address whose balance is credited
+     * @param amount Amount of tokens to deposit
+     */
+    function _deposit(address token, address beneficiary, uint256 amount) internal {
+        _creditDeposit(token, beneficiary, amount);
+        IERC20(token).safeTransferFrom(_msgSender(), address(this), amount);
+    }
+
+    /**
+     * @notice Credit a deposit paid by the caller (tokens are pulled separately)
+     * @param token Payment token being deposited
+     * @param beneficiary Address whose balance is credited
+     * @param amount Amount credited
+     */
+    function _creditDeposit(address token, address beneficiary, uint256 amount) internal {
+        if (beneficiary == address(0)) revert ZeroAddress();
+        if (amount == 0) revert ZeroAmount();
+
+        mapping(address => uint256) storage balances = _balances(token);
+        balances[beneficiary] += amount;
+
+        emit Deposited(beneficiary, _msgSender(), token, amount, balances[beneficiary]);
+    }
+
+    /**
+     * @notice Register the caller as a provider with an initial stake
+     * @param amount Amount of tokens to stake
+     * @param duration Duration to lock the stake
+     */
+    function _stake(uint256 amount, uint256 duration) internal {
+        if (amount == 0) revert ZeroAmount();
+
+        (bool eligible, uint256 availableAt, uint256 minStake) = _reentryStatus(_msgSender());
+        ProviderInfo storage provider = providers[_msgSender()];
+        if (provider.isBanned) revert ProviderBanned();
+        if (provider.stakeAmount > 0) revert AlreadyStaked();
+        if (!eligible) revert ProviderBlacklisted();
+        if (block.timestamp < availableAt) revert ReentryCooldownActive(availableAt);
+
+        if (amount < minStake) revert StakeBelowMinimum();
+        if (duration < minStakeDuration) revert DurationTooShort();
+
+        provider.stakeAmount = amount;
+        provider.unlockTime = block.timestamp + duration;
+
+        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+
+        emit Staked(_msgSender(), amount, provider.unlockTime);
+    }
+
+    /**
+     * @notice Add tokens to the caller's existing stake
+     * @param amount Amount of tokens to add
+     */
+    function _increaseStake(uint256 amount) internal {
+        if (amount == 0) revert ZeroAmount();
+
+        ProviderInfo storage provider = providers[_msgSender()];
+        if (provider.stakeAmount == 0) revert NotAProvider();
+        if (provider.isBanned) revert ProviderBanned();
+
+        provider.stakeAmount += amount;
+
+        uint256 newUnlockTime = block.timestamp + minStakeDuration;
+        if (newUnlockTime > provider.unlockTime) {
+            provider.unlockTime = newUnlockTime;
+        }
+
+        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+
+        emit StakeIncreased(_msgSender(), amount, provider.stakeAmount, provider.unlockTime);
+    }
+
+    /**
+     * @notice Apply an EIP-2612 permit from the caller to this contract
+     * @dev Failures are ignored so a permit front-run by a third party (which
+     *      consumes the nonce but still sets the allowance) doesn't block the
+     *      deposit; the following transferFrom reverts if no allowance was granted.
+     * @param amount Permit value
+     * @param permitDeadline Permit expiration timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function _permit(uint256 amount, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(address(tlpToken)).permit(
+            _msgSender(), address(this), amount, permitDeadline, v, r, s
+        ) {} catch {}
+    }
+
+    /**
+     * @notice Verify that the caller is an active provider (staked, not banned or suspended)
+     */
+    function _verifyActiveProvider() internal view {
+        ProviderInfo storage provider = providers[_msgSender()];
+        if (provider.stakeAmount == 0) revert NotAProvider();
+        if (provider.isBanned) revert ProviderBanned();
+        _verifyNotSuspended(_msgSender());
+        if (!_meetsStakeRequirements(_effectiveStake(_msgSender()))) revert StakeBelowMinimum();
+    }
+
+    /**
+     * @notice Verify that a provider is not currently suspended
+     * @param provider Address of the provider
+     */
+    function _verifyNotSuspended(address provider) internal view {
+        uint256 until = providers[provider].suspendedUntil;
+        if (until > block.timestamp) revert ProviderSuspendedUntil(until);
+    }
+
+    /**
+     * @notice Apply the re-entry rules to an address that wants to stake
+     * @param provider Address of the provider
+     * @return eligible False if banned or blacklisted after maxSlashCount slashes
+     * @return availableAt Earliest time the provider may stake (end of the cooling-off period)
+     * @return minStake Minimum initial stake: minProviderStake plus reentryStakePerSlash per slash
+     */
+    function _reentryStatus(address provider) internal view returns (
+        bool eligible,
+        uint256 availableAt,
+        uint256 minStake
+    ) {
+        ProviderInfo storage info = providers[provider];
+        uint256 limit = maxSlashCount;
+        eligible = !info.isBanned && (limit == 0 || info.slashCount < limit);
+
+        uint256 unbanned = unbannedAt[provider];
+        if (unbanned > 0) availableAt = unbanned + reentryCooldown;
+
+        minStake = minProviderStake + info.slashCount * reentryStakePerSlash;
+    }
+
+    /**
+     * @notice Own stake plus active delegated stake
+     * @param provider Address of the provider
+     * @return Effective stake amount
+     */
+    function _effectiveStake(address provider) internal view returns (uint256) {
+        return providers[provider].stakeAmount + delegationPools[provider].totalDelegated;
+    }
+
+    /**
+     * @notice Check an effective stake against minProviderStake and the lowest tier
+     * @param effectiveStake Effective stake to check
+     * @return True if the stake is sufficient to be active
+     */
+    function _meetsStakeRequirements(uint256 effectiveStake) internal view returns (bool) {
+        if (effectiveStake < minProviderStake) return false;
+        return stakeTiers.length == 0 || effectiveStake >= stakeTiers[0].minStake;
+    }
+
+    /**
+     * @notice Find the highest stake tier met by an effective stake
+     * @param effectiveStake Effective stake to classify
+     * @return found Whether any tier is met
+     * @return index Index of the highest tier met
+     */
+    function _findTier(uint256 effectiveStake) internal view returns (bool found, uint256 index) {
+        for (uint256 i = stakeTiers.length; i > 0; i--) {
+            if (effectiveStake >= stakeTiers[i - 1].minStake) {
+                return (true, i - 1);
+            }
+        }
+    }
+
+    /**
+     * @notice Maximum a provider may claim per window, bounded by its collateral
+     * @param provider Address of the provider
+     * @return Claim cap (type(uint256).max if uncapped)
+     */
+    function _claimCap(address provider) internal view returns (uint256) {
+        uint256 effectiveStake = _effectiveStake(provider);
+        uint256 capBps = claimCapBps;
+
+        if (stakeTiers.length > 0) {
+            (bool found, uint256 index) = _findTier(effectiveStake);
+            capBps = found ? stakeTiers[index].claimCapBps : 0;
+        }
+
+        if (capBps == 0) return type(uint256).max;
+        return (effectiveStake * capBps) / 10000;
+    }
+
+    /**
+     * @notice Record claimed amount against the provider's cap for the current window
+     * @dev The cap is accounted in TLP, so claims in other payment tokens are rejected
+     *      while a cap applies to the provider
+     * @param provider Address of the provider
+     * @param token Payment token of the claim
+     * @param amount Gross amount being claimed
+     */
+    function _consumeClaimCapacity(address provider, address token, uint256 amount) internal {
+        uint256 cap = _claimCap(provider);
+        if (cap == type(uint256).max) return;
+        if (token != address(tlpToken)) revert InvalidPaymentToken();
+
+        ClaimWindow storage window = claimWindows[provider];
+        if (block.timestamp >= window.start + claimCapWindow) {
+            window.start = block.timestamp;
+            window.claimed = 0;
+        }
+
+        window.claimed += amount;
+        if (window.claimed > cap) revert ClaimCapExceeded();
+    }
+
+    /**
+     * @notice Process a single claim: validate, verify signatures, update balance
+     * @dev Does NOT emit event - caller must emit Claimed after token transfers
+     * @param req Claim request (rental ID, user, token, cumulative amount, deadline, signer epoch)
+     * @param signatures Array of signatures from authorized signers
+     * @return amount The amount paid (cumulative amount minus what was already paid)
+     * @return commission The commission amount for treasury
+     * @return providerAmount The amount for the provider (amount - commission)
+     * @return rate Commission rate applied, in basis points
+     */
+    function _processClaim(
+        ClaimRequest memory req,
+        bytes[] calldata signatures
+    ) internal returns (uint256 amount, uint256 commission, uint256 providerAmount, uint256 rate) {
+        if (req.cumulativeAmount == 0) revert ZeroAmount();
+        if (block.timestamp > req.deadline) revert SignatureExpired();
+        if (req.user == address(0)) revert ZeroAddress();
+
+        uint256 paid = claimedAmounts[req.rentalId][_msgSender()];
+        if (req.cumulativeAmount <= paid) revert ClaimAlreadySettled();
+        amount = req.cumulativeAmount - paid;
+
+        RentalLock storage lock = rentalLocks[req.rentalId][req.user];
+        bool locked = lock.user != address(0);
+        mapping(address => uint256) storage balances = _balances(req.token);
+        if (locked) {
+            // Rentals are escrowed in TLP only
+            if (lock.provider != _msgSender() || req.token != address(tlpToken)) revert RentalMismatch();
+            if (lock.closed || block.timestamp > lock.expiresAt) revert RentalInactive();
+            if (lock.claimed + amount > lock.amount) revert RentalCapExceeded();
+        } else if (amount > balances[req.user]) {
+            revert InsufficientBalance();
+        }
+
+        _verifySignatures(
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        CLAIM_TYPEHASH,
+                        req.rentalId,
+                        req.user,
+                        _msgSender(),
+                        req.token,
+                        req.feeClass,
+                        req.cumulativeAmount,
+                        req.deadline,
+                        req.epoch
+                    )
+                )
+            ),
+            signatures,
+            requiredClaimSignatures,
+            req.epoch
+        );
+
+        claimedAmounts[req.rentalId][_msgSender()] = req.cumulativeAmount;
+
+        if (locked) {
+            lock.claimed += amount;
+            lockedBalances[req.user] -= amount;
+        } else {
+            balances[req.user] -= amount;
+        }
+
+        rate = _commissionRate(_msgSender(), req.feeClass);
+        commission = (amount * rate) / 10000;
+        providerAmount = amount - commission;
+    }
+
+    /**
+     * @notice Hold a claim payout for the challenge period instead of paying it out
+     * @dev Further claims on the same rental add to the held amount and restart the period
+     * @param rentalId Rental ID the claim was made under
+     * @param user User the claim was paid from
+     * @param token Payment token of the claim
+     * @param amount Provider payout to hold, after commission
+     * @param fee Relay fee already paid out of the payout
+     */
+    function _holdClaim(bytes32 rentalId, address user, address token, uint256 amount, uint256 fee) internal {
+        PendingClaim storage pending = pendingClaims[rentalId][_msgSender()];
+        if (pending.amount > 0 && (pending.user != user || pending.token != token)) revert RentalMismatch();
+
+        pending.user = user;
+        pending.token = token;
+        pending.amount += amount;
+        pending.fee += fee;
+        pending.releaseTime = block.timestamp + claimChallengePeriod;
+
+        emit ClaimHeld(rentalId, user, _msgSender(), amount, pending.releaseTime);
+    }
+
+    /**
+     * @notice Pay a provider's share of claim revenue, holding back part of it to vest
+     * @dev The relay fee comes off first, then delegators are credited and the holdback
+     *      comes out of the rest. Revenue in other payment tokens is paid out in full, as
+     *      delegation and the holdback are accounted in TLP.
+     * @param provider Address of the provider
+     * @param token Payment token of the revenue
+     * @param amount Provider revenue after commission
+     * @param fee Relay fee already paid out of the revenue
+     */
+    function _payProvider(address provider, address token, uint256 amount, uint256 fee) internal {
+        if (fee > amount) revert InsufficientBalance();
+        amount -= fee;
+
+        if (token != address(tlpToken)) {
+            IERC20(token).safeTransfer(provider, amount);
+            return;
+        }
+
+        uint256 payout = amount - _accrueDelegatorRewards(provider, amount);
+        uint256 held = (payout * holdbackBps) / 10000;
+        if (held > 0) {
+            _holdBack(provider, held);
+        }
+        if (payout > held) {
+            tlpToken.safeTransfer(provider, payout - held);
+        }
+    }
+
+    /**
+     * @notice Add earnings to a provider's vesting holdback
+     * @dev Still-locked earnings and the new amount are merged into one schedule whose
+     *      end is their amount-weighted average, so neither vests faster than configured
+     * @param provider Address of the provider
+     * @param amount Earnings to hold back
+     */
+    function _holdBack(address provider, uint256 amount) internal {
+        Holdback storage h = _vestHoldback(provider);
+        uint256 remaining = h.vestingEnd > block.timestamp ? h.vestingEnd - block.timestamp : 0;
+
+        h.vestingEnd = block.timestamp + (h.locked * remaining + amount * holdbackVestingPeriod) / (h.locked + amount);
+        h.locked += amount;
+
+        emit EarningsHeldBack(provider, amount, h.vestingEnd);
+    }
+
+    /**
+     * @notice Move the part of a provider's holdback that vested since the last checkpoint
+     * @param provider Address of the provider
+     * @return h Storage pointer to the checkpointed holdback
+     */
+    function _vestHoldback(address provider) internal returns (Holdback storage h) {
+        h = holdbacks[provider];
+        uint256 newlyVested = _vestedSinceUpdate(h);
+        h.locked -= newlyVested;
+        h.vested += newlyVested;
+        h.lastUpdate = block.timestamp;
+    }
+
+    /**
+     * @notice Locked holdback that has vested since the last checkpoint
+     * @param h Storage pointer to the holdback
+     * @return Amount vested since lastUpdate
+     */
+    function _vestedSinceUpdate(Holdback storage h) internal view returns (uint256) {
+        if (block.timestamp >= h.vestingEnd) return h.locked;
+        return (h.locked * (block.timestamp - h.lastUpdate)) / (h.vestingEnd - h.lastUpdate);
+    }
+
+    /**
+     * @notice Amount a stream has accrued so far (including what was already withdrawn)
+     * @param stream Storage pointer to the stream
+     * @return Accrued amount up to now or the stream's end time, whichever is earlier
+     */
+    function _streamAccrued(Stream storage stream) internal view returns (uint256) {
+        uint256 end = block.timestamp < stream.endTime ? block.timestamp : stream.endTime;
+        return stream.ratePerSecond * (end - stream.startTime);
+    }
+
+    /**
+     * @notice Sum of a provider's unbonding entries that have not matured yet
+     * @param provider Address of the provider
+     * @return total Slashable unbonding amount
+     */
+    function _slashableUnbonding(address provider) internal view returns (uint256 total) {
+        UnbondingEntry[] storage queue = unbondingQueue[provider];
+        for (uint256 i = 0; i < queue.length; i++) {
+            if (queue[i].releaseTime > block.timestamp) {
+                total += queue[i].amount;
+            }
+        }
+    }
+
+    /**
+     * @notice Slash immature unbonding entries, newest first
+     * @dev Matured entries are left untouched; fully slashed entries are removed
+     * @param provider Address of the provider
+     * @param amount Amount to slash (must not exceed _slashableUnbonding)
+     * @return slashed The amount actually slashed
+     */
+    function _slashUnbonding(address provider, uint256 amount) internal returns (uint256 slashed) {
+        UnbondingEntry[] storage queue = unbondingQueue[provider];
+        for (uint256 i = queue.length; i > 0 && slashed < amount; i--) {
+            UnbondingEntry storage entry = queue[i - 1];
+            if (entry.releaseTime <= block.timestamp) continue;
+
+            uint256 take = amount - slashed;
+            if (take > entry.amount) {
+                take = entry.amount;
+            }
+            entry.amount -= take;
+            slashed += take;
+
+            if (entry.amount == 0) {
+                queue[i - 1] = queue[queue.length - 1];
+                queue.pop();
+            }
+        }
+    }
+
+    /**
+     * @notice Delegated stake that can be slashed (active plus unbonding)
+     * @param provider Address of the provider
+     * @return Slashable delegated amount
+     */
+    function _slashableDelegation(address provider) internal view returns (uint256) {
+        DelegationPool storage pool = delegationPools[provider];
+        return pool.totalDelegated + pool.unbondingAmount;
+    }
+
+    /**
+     * @notice Slash delegated stake pro-rata across active and unbonding delegations
+     * @dev Share prices drop, so every delegator loses the same fraction. A pool
+     *      slashed to zero is wiped by starting a new generation.
+     * @param provider Address of the provider
+     * @param amount Amount to slash (must not exceed _slashableDelegation)
+     */
+    function _slashDelegators(address provider, uint256 amount) internal {
+        if (amount == 0) return;
+
+        DelegationPool storage pool = delegationPools[provider];
+        uint256 fromActive = (amount * pool.totalDelegated) / (pool.totalDelegated + pool.unbondingAmount);
+        pool.totalDelegated -= fromActive;
+        pool.unbondingAmount -= amount - fromActive;
+
+        if (pool.totalDelegated + pool.unbondingAmount == 0) {
+            wipedRewardPerShare[provider][pool.generation] = pool.accRewardPerShare;
+            pool.accRewardPerShare = 0;
+            pool.totalShares = 0;
+            pool.unbondingShares = 0;
+            pool.generation++;
+        }
+
+        emit DelegatorsSlashed(provider, amount);
+    }
+
+    /**
+     * @notice Carve the delegators' share out of a provider's claim revenue
+     * @dev Revenue is attributed by effective stake; the provider keeps feeBps of
+     *      the delegated portion. The rest stays in the contract for delegators.
+     * @param provider Address of the provider
+     * @param providerAmount Claim revenue after commission
+     * @return delegatorAmount Amount credited to the delegation pool
+     */
+    function _accrueDelegatorRewards(
+        address provider,
+        uint256 providerAmount
+    ) internal returns (uint256 delegatorAmount) {
+        DelegationPool storage pool = delegationPools[provider];
+        if (pool.totalShares == 0 || providerAmount == 0) return 0;
+
+        uint256 delegatedShare = (providerAmount * pool.totalDelegated) /
+            (providers[provider].stakeAmount + pool.totalDelegated);
+        delegatorAmount = delegatedShare - (delegatedShare * pool.feeBps) / 10000;
+        if (delegatorAmount == 0) return 0;
+
+        pool.accRewardPerShare += (delegatorAmount * REWARD_PRECISION) / pool.totalShares;
+
+        emit DelegationRewardsAccrued(provider, delegatorAmount);
+    }
+
+    /**
+     * @notice Settle a delegator's rewards and reset positions from wiped pool generations
+     * @dev Callers must refresh rewardDebt after changing shares
+     * @param provider Address of the provider
+     * @param delegator Address of the delegator
+     * @return d Storage pointer to the synced delegation
+     */
+    function _syncDelegation(address provider, address delegator) internal returns (Delegation storage d) {
+        DelegationPool storage pool = delegationPools[provider];
+        d = delegations[provider][delegator];
+
+        if (d.generation != pool.generation) {
+            d.rewards += (d.shares * wipedRewardPerShare[provider][d.generation]) / REWARD_PRECISION - d.rewardDebt;
+            d.shares = 0;
+            d.rewardDebt = 0;
+            d.unbondingShares = 0;
+            d.releaseTime = 0;
+            d.generation = pool.generation;
+        } else {
+            d.rewards += (d.shares * pool.accRewardPerShare) / REWARD_PRECISION - d.rewardDebt;
+            d.rewardDebt = (d.shares * pool.accRewardPerShare) / REWARD_PRECISION;
+        }
+    }
+
+    /**
+     * @notice Check a signature threshold against the current and any scheduled signer set
+     * @param _required Number of signatures required
+     */
+    function _validateRequiredSignatures(uint256 _required) internal view {
+        if (_required == 0) revert InvalidRequiredSignatures();
+        if (_required > signerEpochs[currentSignerEpoch()].signers.length) revert InvalidRequiredSignatures();
+        if (_required > signerEpochs[latestSignerEpoch].signers.length) revert InvalidRequiredSignatures();
+    }
+
+    /**
+     * @notice Add a signer to an epoch's signer set
+     * @param epoch Epoch to modify
+     * @param signer Address to authorize as signer
+     */
+    function _addEpochSigner(uint256 epoch, address signer) internal {
+        if (signer == address(0)) revert ZeroAddress();
+        if (epochSigners[epoch][signer]) revert SignerAlreadyAuthorized();
+
+        epochSigners[epoch][signer] = true;
+        signerEpochs[epoch].signers.push(signer);
+    }
+
+    /**
+     * @notice Whether an epoch has activated and its grace period has not ended
+     * @param epoch Epoch to check
+     * @return True if signatures for the epoch are accepted
+     */
+    function _isSignerEpochValid(uint256 epoch) internal view returns (bool) {
+        if (epoch > latestSignerEpoch) return false;
+        SignerEpoch storage info = signerEpochs[epoch];
+        if (info.activationTime > block.timestamp) return false;
+        return info.expiresAt == 0 || block.timestamp < info.expiresAt;
+    }
+
+    /**
+     * @notice Signature threshold for a withdrawal, escalated for large amounts
+     * @param amount Withdrawal amount
+     * @return Number of signatures required
+     */
+    function _requiredWithdrawalSignatures(uint256 amount) internal view returns (uint256) {
+        uint256 required = requiredWithdrawalSignatures;
+        if (
+            largeWithdrawalThreshold != 0 &&
+            amount > largeWithdrawalThreshold &&
+            requiredLargeWithdrawalSignatures > required
+        ) {
+            required = requiredLargeWithdrawalSignatures;
+        }
+        return required;
+    }
+
+    /**
+     * @notice Verify that enough valid signatures from authorized signers are provided
+     * @param digest The EIP712 digest to verify
+     * @param signatures Array of signatures
+     * @param requiredSignatures Number of valid signatures required for this operation
+     * @param epoch Signer epoch the signatures commit to
+     */
+    function _verifySignatures(
+        bytes32 digest,
+        bytes[] calldata signatures,
+        uint256 requiredSignatures,
+        uint256 epoch
+    ) internal view {
+        if (!_isSignerEpochValid(epoch)) revert InvalidSignerEpoch();
+        if (signatures.length < requiredSignatures) revert InsufficientSignatures();
+
+        address[] memory usedSigners = new address[](signatures.length);
+        uint256 validCount = 0;
+
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address recovered = ECDSA.recover(digest, signatures[i]);
+
+            if (!epochSigners[epoch][recovered]) revert InvalidSignature();
+
+            // Check for duplicate signers
+            for (uint256 j = 0; j < validCount; j++) {
+                if (usedSigners[j] == recovered) revert DuplicateSignature();
+            }
+
+            usedSigners[validCount] = recovered;
+            validCount++;
+
+            if (validCount >= requiredSignatures) {
+                return;
+            }
+        }
+
+        revert InsufficientSignatures();
+    }
+
+    /**
+     * @notice Verify that requiredSlashApprovals distinct police signed a slash proposal
+     * @param digest The EIP712 digest to verify
+     * @param signatures Array of signatures from POLICE_ROLE holders
+     * @return proposer Police behind the first signature
+     */
+    function _verifyPoliceSignatures(
+        bytes32 digest,
+        bytes[] calldata signatures
+    ) internal view returns (address proposer) {
+        uint256 requiredApprovals = requiredSlashApprovals;
+        if (signatures.length < requiredApprovals) revert InsufficientSignatures();
+
+        address[] memory usedSigners = new address[](requiredApprovals);
+
+        for (uint256 i = 0; i < requiredApprovals; i++) {
+            address recovered = ECDSA.recover(digest, signatures[i]);
+
+            if (!hasRole(POLICE_ROLE, recovered)) revert InvalidSignature();
+
+            // Check for duplicate police
+            for (uint256 j = 0; j < i; j++) {
+                if (usedSigners[j] == recovered) revert DuplicateSignature();
+            }
+
+            usedSigners[i] = recovered;
+        }
+
+        return usedSigners[0];
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Get the epoch whose signer set is currently in charge
+     * @dev A scheduled rotation becomes current once its activation time passes,
+     *      without any further transaction
+     * @return Current signer epoch
+     */
+    function currentSignerEpoch() public view returns (uint256) {
+        uint256 epoch = latestSignerEpoch;
+        if (epoch > 0 && signerEpochs[epoch].activationTime > block.timestamp) {
+            return epoch - 1;
+        }
+        return epoch;
+    }
+
+    // ============ ERC-2771 Overrides ============
+
+    /**
+     * @notice Get the forwarder trusted to relay meta-transactions
+     * @return The forwarder address (0 when meta-transactions are disabled)
+     */
+    function trustedForwarder() public view override returns (address) {
+        return forwarder;
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+}
@@ -0,0 +1,1058 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {TLPStakingExtensionBase} from "./TLPStakingExtensionBase.sol";
+
+/**
+ * @title TLPStakingExtension
+ * @notice Escape hatch, escrow, dispute, stream, delegation and police entry points of TLPStaking
+ * @dev Reached only through TLPStaking's delegatecall stubs, so every function here
+ *      runs against TLPStaking's storage and balances.
+ */
+contract TLPStakingExtension is TLPStakingExtensionBase {
+    using SafeERC20 for IERC20;
+
+    // ============ Constructor ============
+
+    /**
+     * @param _tlpToken Address of the TLP token (must match TLPStaking's)
+     */
+    constructor(address _tlpToken) TLPStakingExtensionBase(_tlpToken) {}
+
+    // ============ User Balance Functions ============
+
+    /**
+     * @notice Request a withdrawal without signer approval (escape hatch)
+     * @dev Funds stay in the user's balance during the challenge window, so signers can
+     *      still settle outstanding claims against them before execution.
+     * @param token Payment token to withdraw
+     * @param amount Amount to withdraw once the challenge window has passed
+     */
+    function requestUnilateralWithdrawal(address token, uint256 amount) external onlyDelegateCall {
+        if (amount == 0) revert ZeroAmount();
+        if (amount > _balances(token)[_msgSender()]) revert InsufficientBalance();
+
+        PendingWithdrawal storage pending = pendingWithdrawals[_msgSender()];
+        if (pending.amount > 0) revert WithdrawalAlreadyPending();
+
+        pending.amount = amount;
+        pending.releaseTime = block.timestamp + unilateralWithdrawalDelay;
+        pending.token = token;
+
+        emit UnilateralWithdrawalRequested(_msgSender(), token, amount, pending.releaseTime);
+    }
+
+    /**
+     * @notice Execute a pending escape-hatch withdrawal after the challenge window
+     * @dev Pays out the requested amount, capped by whatever balance is left after
+     *      claims and withdrawals processed during the window. Not pausable: the escape
+     *      hatch is for when the signers can't be relied on, which is when withdrawals get paused.
+     */
+    function executeUnilateralWithdrawal() external onlyDelegateCall nonReentrant {
+        PendingWithdrawal storage pending = pendingWithdrawals[_msgSender()];
+        if (pending.amount == 0) revert NoPendingWithdrawal();
+        if (block.timestamp < pending.releaseTime) revert WithdrawalNotReady();
+
+        address token = pending.token;
+        mapping(address => uint256) storage balances = _balances(token);
+        uint256 amount = pending.amount;
+        if (amount > balances[_msgSender()]) {
+            amount = balances[_msgSender()];
+        }
+
+        delete pendingWithdrawals[_msgSender()];
+
+        if (amount > 0) {
+            balances[_msgSender()] -= amount;
+            IERC20(token).safeTransfer(_msgSender(), amount);
+        }
+
+        emit UnilateralWithdrawalExecuted(_msgSender(), token, amount, balances[_msgSender()]);
+    }
+
+    /**
+     * @notice Cancel a pending escape-hatch withdrawal
+     */
+    function cancelUnilateralWithdrawal() external onlyDelegateCall {
+        if (pendingWithdrawals[_msgSender()].amount == 0) revert NoPendingWithdrawal();
+
+        delete pendingWithdrawals[_msgSender()];
+
+        emit UnilateralWithdrawalCancelled(_msgSender());
+    }
+
+    /**
+     * @notice Invalidate withdrawal nonces so approvals signed for them can't be used
+     * @param wordPos Bitmap word to update (nonce >> 8)
+     * @param mask Bits to set in the word (1 << (nonce & 0xff) per nonce)
+     */
+    function invalidateNonces(uint256 wordPos, uint256 mask) external onlyDelegateCall {
+        nonceBitmap[_msgSender()][wordPos] |= mask;
+
+        emit NoncesInvalidated(_msgSender(), wordPos, mask);
+    }
+
+    // ============ Provider Staking Functions ============
+
+    /**
+     * @notice Extend the lock duration of existing stake
+     * @param newUnlockTime New unlock timestamp (must result in at least minStakeDuration from now)
+     */
+    function extendStakeDuration(uint256 newUnlockTime) external onlyDelegateCall {
+        ProviderInfo storage provider = providers[_msgSender()];
+        if (provider.stakeAmount == 0) revert NotAProvider();
+        if (provider.isBanned) revert ProviderBanned();
+
+        uint256 minNewUnlock = block.timestamp + minStakeDuration;
+        if (newUnlockTime < minNewUnlock) revert DurationTooShort();
+        if (newUnlockTime <= provider.unlockTime) revert InvalidDuration();
+
+        provider.unlockTime = newUnlockTime;
+
+        emit StakeExtended(_msgSender(), newUnlockTime);
+    }
+
+    // ============ Rental Escrow Functions ============
+
+    /**
+     * @notice Lock part of the caller's balance to a rental with a single provider
+     * @dev Claims under a locked rentalId for this user must come from that provider
+     *      and are capped at the locked amount. Locked funds can't be withdrawn
+     *      or claimed under other rentalIds until the rental is closed. Locks are kept
+     *      per user, so a lock only ever constrains claims against its own user's funds.
+     * @param rentalId Rental ID (must not have been used for a lock by the caller before)
+     * @param provider Provider allowed to claim against the lock
+     * @param amount Maximum amount claimable for the rental
+     * @param expiresAt Timestamp after which claims stop and the remainder is refundable
+     */
+    function openRental(
+        bytes32 rentalId,
+        address provider,
+        uint256 amount,
+        uint256 expiresAt
+    ) external onlyDelegateCall {
+        if (provider == address(0)) revert ZeroAddress();
+        if (amount == 0) revert ZeroAmount();
+        if (expiresAt <= block.timestamp) revert InvalidDuration();
+        if (amount > userBalances[_msgSender()]) revert InsufficientBalance();
+        _verifyNotSuspended(provider);
+
+        RentalLock storage lock = rentalLocks[rentalId][_msgSender()];
+        if (lock.user != address(0)) revert RentalAlreadyExists();
+
+        lock.user = _msgSender();
+        lock.provider = provider;
+        lock.amount = amount;
+        lock.expiresAt = expiresAt;
+
+        userBalances[_msgSender()] -= amount;
+        lockedBalances[_msgSender()] += amount;
+
+        emit RentalOpened(rentalId, _msgSender(), provider, amount, expiresAt);
+    }
+
+    /**
+     * @notice Close a rental lock and return the unclaimed remainder to the user's balance
+     * @dev Anyone can close an expired rental (funds only go back to the user);
+     *      the provider can release it early at any time.
+     * @param rentalId Rental ID to close
+     * @param user User who opened the lock
+     */
+    function closeRental(bytes32 rentalId, address user) external onlyDelegateCall {
+        RentalLock storage lock = rentalLocks[rentalId][user];
+        if (lock.user == address(0) || lock.closed) revert RentalNotFound();
+        if (block.timestamp <= lock.expiresAt && _msgSender() != lock.provider) revert RentalNotExpired();
+
+        uint256 refunded = lock.amount - lock.claimed;
+        lock.closed = true;
+
+        lockedBalances[lock.user] -= refunded;
+        userBalances[lock.user] += refunded;
+
+        emit RentalClosed(rentalId, lock.user, refunded);
+    }
+
+    // ============ Dispute and Refund Functions ============
+
+    /**
+     * @notice Pay out a held claim once its challenge period has passed
+     * @dev Callable by anyone. The payout goes to the provider and is accounted like an
+     *      immediate one: delegators are credited on the payout net of the relay fee paid
+     *      at claim time. If the provider has been banned, what is left of the payout goes
+     *      back to the user's balance instead, without waiting for the period or a dispute.
+     * @param rentalId Rental ID the claims were made under
+     * @param provider Address of the provider
+     */
+    function releaseClaim(
+        bytes32 rentalId,
+        address provider
+    ) external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) nonReentrant {
+        PendingClaim storage pending = pendingClaims[rentalId][provider];
+        uint256 amount = pending.amount;
+        uint256 fee = pending.fee;
+        if (amount == 0) revert NoPendingClaim();
+
+        bool banned = providers[provider].isBanned;
+        if (!banned) {
+            if (pending.disputed) revert ClaimUnderDispute();
+            if (block.timestamp < pending.releaseTime) revert ChallengePeriodActive();
+        }
+
+        pending.amount = 0;
+        pending.fee = 0;
+
+        if (banned) {
+            pending.disputed = false;
+            _balances(pending.token)[pending.user] += amount - fee;
+            emit ClaimReturned(rentalId, pending.user, provider, amount - fee);
+            return;
+        }
+
+        _payProvider(provider, pending.token, amount, fee);
+
+        emit ClaimReleased(rentalId, provider, amount);
+    }
+
+    /**
+     * @notice Contest a held claim during its challenge period
+     * @dev Blocks release until signers either refund the user or dismiss the dispute
+     * @param rentalId Rental ID the claims were made under
+     * @param provider Address of the provider
+     */
+    function disputeClaim(bytes32 rentalId, address provider) external onlyDelegateCall {
+        PendingClaim storage pending = pendingClaims[rentalId][provider];
+        if (pending.amount == 0) revert NoPendingClaim();
+        if (pending.user != _msgSender()) revert NotClaimUser();
+        if (pending.disputed) revert ClaimUnderDispute();
+        if (block.timestamp >= pending.releaseTime) revert ChallengePeriodEnded();
+
+        pending.disputed = true;
+
+        emit ClaimDisputed(rentalId, _msgSender(), provider);
+    }
+
+    /**
+     * @notice Reject a dispute so the held claim can be released (requires k-of-n signatures)
+     * @dev Signatures commit to the rental's current claimedAmounts, so a dismissal can't be
+     *      replayed against a dispute raised after further claims
+     * @param rentalId Rental ID the claims were made under
+     * @param provider Address of the provider
+     * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
+     * @param signatures Array of signatures from authorized signers
+     */
+    function dismissDispute(
+        bytes32 rentalId,
+        address provider,
+        uint256 deadline,
+        uint256 epoch,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall {
+        PendingClaim storage pending = pendingClaims[rentalId][provider];
+        if (!pending.disputed) revert ClaimNotDisputed();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        _verifySignatures(
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        DISPUTE_DISMISSAL_TYPEHASH,
+                        rentalId,
+                        provider,
+                        claimedAmounts[rentalId][provider],
+                        deadline,
+                        epoch
+                    )
+                )
+            ),
+            signatures,
+            requiredClaimSignatures,
+            epoch
+        );
+
+        pending.disputed = false;
+
+        emit DisputeDismissed(rentalId, provider);
+    }
+
+    /**
+     * @notice Refund a user for a rental from the provider (requires k-of-n signatures)
+     * @dev Like claims, signers sign the running total refunded for (rentalId, provider) and
+     *      only the delta moves. It comes out of the provider's held payout for the rental
+     *      first, then out of the provider's stake, and is credited to the user's balance.
+     *      Stakes are TLP, so refunds in other payment tokens can only come out of a held
+     *      payout in the same token. A refund also resolves any dispute on the held payout.
+     * @param rentalId Rental ID the refund is for
+     * @param user Address of the user to refund
+     * @param provider Address of the provider paying the refund
+     * @param token Payment token to refund in
+     * @param cumulativeAmount Total refunded for the rental so far
+     * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
+     * @param signatures Array of signatures from authorized signers
+     */
+    function refund(
+        bytes32 rentalId,
+        address user,
+        address provider,
+        address token,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        uint256 epoch,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) {
+        if (user == address(0) || provider == address(0)) revert ZeroAddress();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        uint256 paid = refundedAmounts[rentalId][provider];
+        if (cumulativeAmount <= paid) revert RefundAlreadySettled();
+        uint256 amount = cumulativeAmount - paid;
+
+        _verifySignatures(
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(REFUND_TYPEHASH, rentalId, user, provider, token, cumulativeAmount, deadline, epoch)
+                )
+            ),
+            signatures,
+            requiredRefundSignatures,
+            epoch
+        );
+
+        refundedAmounts[rentalId][provider] = cumulativeAmount;
+
+        uint256 fromPending = 0;
+        PendingClaim storage pending = pendingClaims[rentalId][provider];
+        if (pending.user == user && pending.token == token) {
+            uint256 held = pending.amount - pending.fee;
+            fromPending = amount < held ? amount : held;
+            pending.amount -= fromPending;
+            pending.disputed = false;
+        }
+
+        uint256 fromStake = amount - fromPending;
+        if (fromStake > 0) {
+            if (token != address(tlpToken) || fromStake > providers[provider].stakeAmount) revert InsufficientStake();
+            providers[provider].stakeAmount -= fromStake;
+        }
+
+        _balances(token)[user] += amount;
+
+        emit Refunded(rentalId, user, provider, token, amount, fromStake);
+    }
+
+    // ============ Payment Stream Functions ============
+
+    /**
+     * @notice Open a per-second payment stream from a user to a provider (requires k-of-n signatures)
+     * @dev Anyone can submit the signed stream. ratePerSecond * maxDuration moves from the
+     *      user's balance into lockedBalances; the provider withdraws what has accrued and
+     *      the rest goes back to the user when the stream is stopped.
+     * @param streamId Stream ID (must not have been used before)
+     * @param user Address of the paying user
+     * @param provider Address of the provider receiving the stream
+     * @param ratePerSecond Amount accrued per second
+     * @param maxDuration Maximum stream duration in seconds
+     * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
+     * @param signatures Array of signatures from authorized signers
+     */
+    function openStream(
+        bytes32 streamId,
+        address user,
+        address provider,
+        uint256 ratePerSecond,
+        uint256 maxDuration,
+        uint256 deadline,
+        uint256 epoch,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) {
+        if (user == address(0) || provider == address(0)) revert ZeroAddress();
+        if (ratePerSecond == 0) revert ZeroAmount();
+        if (maxDuration == 0) revert InvalidDuration();
+        if (block.timestamp > deadline) revert SignatureExpired();
+        _verifyNotSuspended(provider);
+
+        Stream storage stream = streams[streamId];
+        if (stream.user != address(0)) revert StreamAlreadyExists();
+
+        uint256 amount = ratePerSecond * maxDuration;
+        if (amount > userBalances[user]) revert InsufficientBalance();
+
+        _verifySignatures(
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        STREAM_TYPEHASH,
+                        streamId,
+                        user,
+                        provider,
+                        ratePerSecond,
+                        maxDuration,
+                        deadline,
+                        epoch
+                    )
+                )
+            ),
+            signatures,
+            requiredClaimSignatures,
+            epoch
+        );
+
+        stream.user = user;
+        stream.provider = provider;
+        stream.ratePerSecond = ratePerSecond;
+        stream.startTime = block.timestamp;
+        stream.endTime = block.timestamp + maxDuration;
+
+        userBalances[user] -= amount;
+        lockedBalances[user] += amount;
+
+        emit StreamOpened(streamId, user, provider, ratePerSecond, block.timestamp, stream.endTime);
+    }
+
+    /**
+     * @notice Provider withdraws everything a stream has accrued since the last withdrawal
+     * @dev Paid out like a claim with the default fee class: commission, claim cap, delegator rewards, relay fee and
+     *      holdback apply.
+     *      Still works after the stream was stopped, for the amount accrued until then.
+     * @param streamId Stream ID
+     */
+    function withdrawFromStream(
+        bytes32 streamId
+    ) external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) nonReentrant {
+        Stream storage stream = streams[streamId];
+        if (stream.user == address(0)) revert StreamNotFound();
+        if (stream.provider != _msgSender()) revert NotStreamParty();
+        _verifyActiveProvider();
+
+        uint256 amount = _streamAccrued(stream) - stream.withdrawn;
+        if (amount == 0) revert NothingToWithdraw();
+
+        stream.withdrawn += amount;
+        lockedBalances[stream.user] -= amount;
+        _consumeClaimCapacity(_msgSender(), address(tlpToken), amount);
+
+        uint256 commission = (amount * _commissionRate(_msgSender(), 0)) / 10000;
+        _distributeFees(commissionSplit, address(tlpToken), commission);
+        _payProvider(_msgSender(), address(tlpToken), amount - commission, _payRelayFee(_relayFee()));
+
+        emit StreamWithdrawn(streamId, _msgSender(), amount, commission);
+    }
+
+    /**
+     * @notice Stop a stream as its user or provider
+     * @dev Accrual ends now and the unaccrued remainder returns to the user's balance.
+     *      The provider can still withdraw what accrued before the stop, unless it is
+     *      banned or below the minimum stake: then that is returned to the user too.
+     * @param streamId Stream ID
+     */
+    function stopStream(bytes32 streamId) external onlyDelegateCall {
+        Stream storage stream = streams[streamId];
+        if (stream.user == address(0)) revert StreamNotFound();
+        if (_msgSender() != stream.user && _msgSender() != stream.provider) revert NotStreamParty();
+
+        _stopStream(streamId, stream);
+    }
+
+    /**
+     * @notice Stop a stream on behalf of the signers (requires k-of-n signatures)
+     * @dev Anyone can submit the signed stop, e.g. when the VM was terminated off-chain
+     * @param streamId Stream ID
+     * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
+     * @param signatures Array of signatures from authorized signers
+     */
+    function stopStreamWithSignatures(
+        bytes32 streamId,
+        uint256 deadline,
+        uint256 epoch,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall {
+        Stream storage stream = streams[streamId];
+        if (stream.user == address(0)) revert StreamNotFound();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        _verifySignatures(
+            _hashTypedDataV4(keccak256(abi.encode(STREAM_STOP_TYPEHASH, streamId, deadline, epoch))),
+            signatures,
+            requiredClaimSignatures,
+            epoch
+        );
+
+        _stopStream(streamId, stream);
+    }
+
+    // ============ Earnings Holdback Functions ============
+
+    /**
+     * @notice Provider releases held-back earnings that have vested
+     * @dev Vested earnings are no longer slashable, so this works for banned providers too
+     */
+    function releaseVested() external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) nonReentrant {
+        Holdback storage h = _vestHoldback(_msgSender());
+        uint256 amount = h.vested;
+        if (amount == 0) revert NothingToWithdraw();
+
+        h.vested = 0;
+        tlpToken.safeTransfer(_msgSender(), amount);
+
+        emit VestedEarningsReleased(_msgSender(), amount);
+    }
+
+    // ============ Fee Split Functions ============
+
+    /**
+     * @notice Split recipient withdraws its accrued share of commission or slashed funds
+     * @param token Token to withdraw accrued fees in
+     */
+    function withdrawFees(address token) external onlyDelegateCall nonReentrant {
+        uint256 amount = accruedFees[_msgSender()][token];
+        if (amount == 0) revert NothingToWithdraw();
+
+        accruedFees[_msgSender()][token] = 0;
+        IERC20(token).safeTransfer(_msgSender(), amount);
+
+        emit FeesWithdrawn(_msgSender(), token, amount);
+    }
+
+    // ============ Insurance Pool Functions ============
+
+    /**
+     * @notice Add TLP to the insurance pool
+     * @param amount Amount of TLP to contribute
+     */
+    function fundInsurancePool(uint256 amount) external onlyDelegateCall nonReentrant {
+        if (amount == 0) revert ZeroAmount();
+
+        insurancePool += amount;
+        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+
+        emit InsurancePoolFunded(_msgSender(), amount, insurancePool);
+    }
+
+    /**
+     * @notice Compensate a user harmed in an incident out of the insurance pool (requires k-of-n signatures)
+     * @dev Anyone can submit the signed payout. Payouts carry the running total per
+     *      (incidentId, user), so only the delta to what was already paid is credited to
+     *      the user's TLP balance.
+     * @param incidentId Incident the payout references (e.g. the slashed provider's case)
+     * @param user Address of the user to compensate
+     * @param cumulativeAmount Total paid to the user for the incident so far
+     * @param deadline Signature expiration timestamp
+     * @param epoch Signer epoch the signatures commit to
+     * @param signatures Array of signatures from authorized signers
+     */
+    function payInsurance(
+        bytes32 incidentId,
+        address user,
+        uint256 cumulativeAmount,
+        uint256 deadline,
+        uint256 epoch,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall whenNotPaused(PAUSE_CLAIMS) {
+        if (user == address(0)) revert ZeroAddress();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        uint256 paid = insurancePayouts[incidentId][user];
+        if (cumulativeAmount <= paid) revert InsurancePayoutAlreadySettled();
+        uint256 amount = cumulativeAmount - paid;
+        if (amount > insurancePool) revert InsufficientInsurancePool();
+
+        _verifySignatures(
+            _hashTypedDataV4(
+                keccak256(abi.encode(INSURANCE_PAYOUT_TYPEHASH, incidentId, user, cumulativeAmount, deadline, epoch))
+            ),
+            signatures,
+            requiredClaimSignatures,
+            epoch
+        );
+
+        insurancePayouts[incidentId][user] = cumulativeAmount;
+        insurancePool -= amount;
+        userBalances[user] += amount;
+
+        emit InsurancePaid(incidentId, user, amount, insurancePool);
+    }
+
+    // ============ Delegation Functions ============
+
+    /**
+     * @notice Delegate tokens to a provider, adding to its effective stake
+     * @dev Delegated stake is slashed pro-rata with the provider's own stake
+     * @param provider Address of the provider to delegate to
+     * @param amount Amount of tokens to delegate
+     */
+    function delegate(address provider, uint256 amount) external onlyDelegateCall whenNotPaused(PAUSE_STAKING) nonReentrant {
+        if (amount == 0) revert ZeroAmount();
+
+        ProviderInfo storage providerInfo = providers[provider];
+        if (providerInfo.stakeAmount == 0) revert NotAProvider();
+        if (providerInfo.isBanned) revert ProviderBanned();
+
+        DelegationPool storage pool = delegationPools[provider];
+        Delegation storage d = _syncDelegation(provider, _msgSender());
+
+        uint256 shares = pool.totalDelegated == 0
+            ? amount
+            : (amount * pool.totalShares) / pool.totalDelegated;
+
+        pool.totalDelegated += amount;
+        pool.totalShares += shares;
+        d.shares += shares;
+        d.rewardDebt = (d.shares * pool.accRewardPerShare) / REWARD_PRECISION;
+
+        tlpToken.safeTransferFrom(_msgSender(), address(this), amount);
+
+        emit Delegated(_msgSender(), provider, amount, shares);
+    }
+
+    /**
+     * @notice Start unbonding delegated tokens
+     * @dev The amount stops earning rewards immediately but stays slashable
+     *      until unbondingPeriod has passed. Each call restarts the timer.
+     * @param provider Address of the provider delegated to
+     * @param amount Amount of delegated tokens to unbond
+     */
+    function undelegate(address provider, uint256 amount) external onlyDelegateCall whenNotPaused(PAUSE_STAKING) {
+        if (amount == 0) revert ZeroAmount();
+
+        DelegationPool storage pool = delegationPools[provider];
+        Delegation storage d = _syncDelegation(provider, _msgSender());
+        if (pool.totalDelegated == 0) revert InsufficientStake();
+
+        // Round shares up so dust cannot be extracted
+        uint256 shares = (amount * pool.totalShares + pool.totalDelegated - 1) / pool.totalDelegated;
+        if (shares > d.shares) revert InsufficientStake();
+
+        uint256 unbondingShares = pool.unbondingAmount == 0
+            ? amount
+            : (amount * pool.unbondingShares) / pool.unbondingAmount;
+
+        pool.totalDelegated -= amount;
+        pool.totalShares -= shares;
+        pool.unbondingAmount += amount;
+        pool.unbondingShares += unbondingShares;
+
+        d.shares -= shares;
+        d.rewardDebt = (d.shares * pool.accRewardPerShare) / REWARD_PRECISION;
+        d.unbondingShares += unbondingShares;
+        d.releaseTime = block.timestamp + unbondingPeriod;
+
+        emit Undelegated(_msgSender(), provider, amount, d.releaseTime);
+    }
+
+    /**
+     * @notice Withdraw undelegated tokens after the unbonding period
+     * @param provider Address of the provider delegated to
+     */
+    function withdrawUndelegated(address provider) external onlyDelegateCall whenNotPaused(PAUSE_STAKING) nonReentrant {
+        DelegationPool storage pool = delegationPools[provider];
+        Delegation storage d = _syncDelegation(provider, _msgSender());
+        if (d.unbondingShares == 0) revert NothingToWithdraw();
+        if (block.timestamp < d.releaseTime) revert WithdrawalNotReady();
+
+        uint256 amount = (d.unbondingShares * pool.unbondingAmount) / pool.unbondingShares;
+
+        pool.unbondingAmount -= amount;
+        pool.unbondingShares -= d.unbondingShares;
+        d.unbondingShares = 0;
+        d.releaseTime = 0;
+
+        if (amount > 0) {
+            tlpToken.safeTransfer(_msgSender(), amount);
+        }
+
+        emit UndelegationWithdrawn(_msgSender(), provider, amount);
+    }
+
+    /**
+     * @notice Claim accrued delegation rewards from a provider's pool
+     * @param provider Address of the provider delegated to
+     */
+    function claimDelegationRewards(address provider) external onlyDelegateCall whenNotPaused(PAUSE_STAKING) nonReentrant {
+        DelegationPool storage pool = delegationPools[provider];
+        Delegation storage d = _syncDelegation(provider, _msgSender());
+        d.rewardDebt = (d.shares * pool.accRewardPerShare) / REWARD_PRECISION;
+
+        uint256 amount = d.rewards;
+        if (amount == 0) revert NothingToWithdraw();
+        d.rewards = 0;
+
+        tlpToken.safeTransfer(_msgSender(), amount);
+
+        emit DelegationRewardsClaimed(_msgSender(), provider, amount);
+    }
+
+    /**
+     * @notice Set the provider's cut of revenue attributable to delegated stake
+     * @param newFeeBps Fee in basis points (10000 = provider keeps everything)
+     */
+    function setDelegationFee(uint256 newFeeBps) external onlyDelegateCall {
+        if (newFeeBps > 10000) revert CommissionTooHigh();
+
+        DelegationPool storage pool = delegationPools[_msgSender()];
+        uint256 oldFeeBps = pool.feeBps;
+        pool.feeBps = newFeeBps;
+
+        emit DelegationFeeUpdated(_msgSender(), oldFeeBps, newFeeBps);
+    }
+
+    // ============ Police Functions ============
+
+    /**
+     * @notice Slash and ban: Remove all stake, including delegated stake and unvested
+     *         earnings, and ban provider
+     * @dev Only while a single police approval suffices and there is no appeal window;
+     *      otherwise use proposeSlash
+     * @param provider Address of the provider to slash
+     * @param reasonCode Reason code recorded in the slash history
+     * @param evidenceHash Digest of the incident report (e.g. an IPFS CID digest)
+     */
+    function slashAndBan(
+        address provider,
+        bytes32 reasonCode,
+        bytes32 evidenceHash
+    ) external onlyDelegateCall onlyRole(POLICE_ROLE) nonReentrant {
+        if (requiredSlashApprovals > 1 || slashAppealWindow > 0) revert SlashApprovalsRequired();
+        _slashAndBan(provider, reasonCode, evidenceHash, _msgSender());
+    }
+
+    /**
+     * @notice Slash partial stake without banning
+     * @dev Only while a single police approval suffices and there is no appeal window;
+     *      otherwise use proposeSlash
+     * @param provider Address of the provider to slash
+     * @param slashAmount Total amount to slash
+     * @param reasonCode Reason code recorded in the slash history
+     * @param evidenceHash Digest of the incident report (e.g. an IPFS CID digest)
+     */
+    function slashPartial(
+        address provider,
+        uint256 slashAmount,
+        bytes32 reasonCode,
+        bytes32 evidenceHash
+    ) external onlyDelegateCall onlyRole(POLICE_ROLE) nonReentrant {
+        if (requiredSlashApprovals > 1 || slashAppealWindow > 0) revert SlashApprovalsRequired();
+        _slashPartial(provider, slashAmount, reasonCode, evidenceHash, _msgSender());
+    }
+
+    /**
+     * @notice Unban a previously banned provider
+     * @param provider Address of the provider to unban
+     */
+    function unbanProvider(address provider) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        ProviderInfo storage providerInfo = providers[provider];
+        if (!providerInfo.isBanned) revert ProviderNotBanned();
+
+        providerInfo.isBanned = false;
+        unbannedAt[provider] = block.timestamp;
+
+        emit ProviderUnbanned(provider);
+    }
+
+    /**
+     * @notice Temporarily suspend a provider without touching its stake
+     * @dev Blocks claims, stream withdrawals and new rentals and streams until `until`,
+     *      after which the suspension lapses on its own. Calling again replaces the end
+     *      time; a time in the past lifts the suspension early.
+     * @param provider Address of the provider to suspend
+     * @param until Timestamp the suspension ends
+     */
+    function suspendProvider(address provider, uint256 until) external onlyDelegateCall onlyRole(POLICE_ROLE) {
+        ProviderInfo storage providerInfo = providers[provider];
+        if (providerInfo.stakeAmount == 0) revert NotAProvider();
+
+        providerInfo.suspendedUntil = until;
+
+        emit ProviderSuspended(provider, until);
+    }
+
+    // ============ Slash Governance ============
+
+    /**
+     * @notice Queue a slash approved by requiredSlashApprovals police signatures
+     * @dev Anyone can submit the signed proposal. It runs through executeSlash once the
+     *      appeal window has passed; until then the provider can appeal to the admin.
+     *      The proposal ID is the EIP-712 struct hash, so signatures can't be reused.
+     *      The police behind the first signature is recorded as the proposer and shows up
+     *      as the slashing police in the slash history.
+     * @param provider Address of the provider to slash
+     * @param amount Amount to slash (ignored for bans, which slash everything)
+     * @param ban Whether to slash everything and ban the provider
+     * @param reasonCode Reason code recorded in the slash history
+     * @param evidenceHash Digest of the incident report
+     * @param deadline Signature expiration timestamp
+     * @param signatures Signatures from distinct POLICE_ROLE holders, the proposer's first
+     * @return proposalId ID to appeal or execute the slash with
+     */
+    function proposeSlash(
+        address provider,
+        uint256 amount,
+        bool ban,
+        bytes32 reasonCode,
+        bytes32 evidenceHash,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external onlyDelegateCall returns (bytes32 proposalId) {
+        if (provider == address(0)) revert ZeroAddress();
+        if (!ban && amount == 0) revert ZeroAmount();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        proposalId = keccak256(
+            abi.encode(SLASH_PROPOSAL_TYPEHASH, provider, amount, ban, reasonCode, evidenceHash, deadline)
+        );
+        if (slashProposals[proposalId].provider != address(0)) revert SlashProposalExists();
+
+        address proposer = _verifyPoliceSignatures(_hashTypedDataV4(proposalId), signatures);
+
+        uint256 executableAt = block.timestamp + slashAppealWindow;
+        slashProposals[proposalId] = SlashProposal(
+            provider,
+            proposer,
+            amount,
+            ban,
+            reasonCode,
+            evidenceHash,
+            executableAt,
+            false,
+            false
+        );
+
+        emit SlashProposed(proposalId, provider, amount, ban, reasonCode, evidenceHash, executableAt);
+    }
+
+    /**
+     * @notice Appeal a slash proposed against the caller, escalating it to the admin
+     * @param proposalId ID of the slash proposal
+     */
+    function appealSlash(bytes32 proposalId) external onlyDelegateCall {
+        SlashProposal storage proposal = slashProposals[proposalId];
+        if (proposal.provider != _msgSender()) revert NotSlashedProvider();
+        if (proposal.appealed || proposal.closed) revert InvalidSlashProposalState();
+        if (block.timestamp >= proposal.executableAt) revert AppealWindowEnded();
+
+        proposal.appealed = true;
+
+        emit SlashAppealed(proposalId, _msgSender());
+    }
+
+    /**
+     * @notice Resolve an appealed slash: uphold it (executable immediately) or reject it
+     * @param proposalId ID of the appealed slash proposal
+     * @param uphold Whether the slash goes ahead
+     */
+    function resolveSlashAppeal(bytes32 proposalId, bool uphold) external onlyDelegateCall onlyRole(DEFAULT_ADMIN_ROLE) {
+        SlashProposal storage proposal = slashProposals[proposalId];
+        if (!proposal.appealed || proposal.closed) revert InvalidSlashProposalState();
+
+        proposal.appealed = false;
+        if (uphold) {
+            proposal.executableAt = block.timestamp;
+        } else {
+            proposal.closed = true;
+        }
+
+        emit SlashAppealResolved(proposalId, uphold);
+    }
+
+    /**
+     * @notice Carry out a proposed slash once its appeal window has passed
+     * @dev Callable by anyone; the slash was authorized by the police signatures
+     * @param proposalId ID of the slash proposal
+     */
+    function executeSlash(bytes32 proposalId) external onlyDelegateCall nonReentrant {
+        SlashProposal storage proposal = slashProposals[proposalId];
+        if (proposal.provider == address(0) || proposal.appealed || proposal.closed) {
+            revert InvalidSlashProposalState();
+        }
+        if (block.timestamp < proposal.executableAt) revert AppealWindowActive();
+
+        proposal.closed = true;
+
+        if (proposal.ban) {
+            _slashAndBan(proposal.provider, proposal.reasonCode, proposal.evidenceHash, proposal.proposer);
+        } else {
+            _slashPartial(
+                proposal.provider,
+                proposal.amount,
+                proposal.reasonCode,
+                proposal.evidenceHash,
+                proposal.proposer
+            );
+        }
+
+        emit SlashExecuted(proposalId);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Slash all stake, including delegated stake and unvested earnings, and ban provider
+     * @param provider Address of the provider to slash
+     * @param reasonCode Reason code recorded in the slash history
+     * @param evidenceHash Digest of the incident report
+     * @param police Police recorded as responsible for the slash
+     */
+    function _slashAndBan(address provider, bytes32 reasonCode, bytes32 evidenceHash, address police) internal {
+        ProviderInfo storage providerInfo = providers[provider];
+        uint256 unbonding = _slashableUnbonding(provider);
+        uint256 delegated = _slashableDelegation(provider);
+        uint256 heldBack = _vestHoldback(provider).locked;
+        if (providerInfo.stakeAmount + unbonding + delegated + heldBack == 0) revert NotAProvider();
+        if (providerInfo.isBanned) revert ProviderBanned();
+
+        uint256 slashedAmount = providerInfo.stakeAmount + _slashUnbonding(provider, unbonding);
+        providerInfo.stakeAmount = 0;
+        providerInfo.unlockTime = 0;
+        providerInfo.isBanned = true;
+        providerInfo.slashCount++;
+
+        _slashDelegators(provider, delegated);
+        _slashHoldback(provider, heldBack);
+
+        _distributeSlash(provider, slashedAmount + delegated + heldBack);
+        _recordSlash(provider, slashedAmount + delegated + heldBack, true, reasonCode, evidenceHash, police);
+
+        emit ProviderSlashed(provider, slashedAmount, true, reasonCode, evidenceHash);
+    }
+
+    /**
+     * @notice Slash part of a provider's stake without banning
+     * @dev Split pro-rata between the provider's own funds and delegated stake.
+     *      The provider's part comes from unvested earnings first, then from active
+     *      stake, then from immature unbonding entries.
+     * @param provider Address of the provider to slash
+     * @param slashAmount Total amount to slash
+     * @param reasonCode Reason code recorded in the slash history
+     * @param evidenceHash Digest of the incident report
+     * @param police Police recorded as responsible for the slash
+     */
+    function _slashPartial(
+        address provider,
+        uint256 slashAmount,
+        bytes32 reasonCode,
+        bytes32 evidenceHash,
+        address police
+    ) internal {
+        ProviderInfo storage providerInfo = providers[provider];
+        uint256 heldBack = _vestHoldback(provider).locked;
+        uint256 own = providerInfo.stakeAmount + _slashableUnbonding(provider) + heldBack;
+        uint256 delegated = _slashableDelegation(provider);
+        if (own + delegated == 0) revert NotAProvider();
+        if (slashAmount == 0) revert ZeroAmount();
+        if (slashAmount > own + delegated) revert InvalidSlashAmount();
+
+        uint256 delegatorPart = (slashAmount * delegated) / (own + delegated);
+        uint256 fromHoldback = slashAmount - delegatorPart;
+        if (fromHoldback > heldBack) {
+            fromHoldback = heldBack;
+        }
+        uint256 ownPart = slashAmount - delegatorPart - fromHoldback;
+
+        if (ownPart > providerInfo.stakeAmount) {
+            _slashUnbonding(provider, ownPart - providerInfo.stakeAmount);
+            providerInfo.stakeAmount = 0;
+            providerInfo.unlockTime = 0;
+        } else {
+            providerInfo.stakeAmount -= ownPart;
+        }
+        providerInfo.slashCount++;
+
+        _slashDelegators(provider, delegatorPart);
+        _slashHoldback(provider, fromHoldback);
+
+        _distributeSlash(provider, slashAmount);
+        _recordSlash(provider, slashAmount, false, reasonCode, evidenceHash, police);
+
+        emit ProviderSlashed(provider, ownPart, false, reasonCode, evidenceHash);
+    }
+
+    /**
+     * @notice Route slashed funds to the insurance pool and the slash split
+     * @dev insuranceShareBps of the amount stays in the contract as insurance; the rest
+     *      goes to the slash split, or treasury when no split is set.
+     * @param provider Slashed provider (for the event)
+     * @param amount Total amount slashed
+     */
+    function _distributeSlash(address provider, uint256 amount) internal {
+        uint256 insured = (amount * insuranceShareBps) / 10000;
+        if (insured > 0) {
+            insurancePool += insured;
+            emit InsurancePoolFunded(provider, insured, insurancePool);
+        }
+
+        _distributeFees(slashSplit, address(tlpToken), amount - insured);
+    }
+
+    /**
+     * @notice Append a slash to the provider's history
+     * @param provider Slashed provider
+     * @param amount Total amount slashed
+     * @param banned Whether the provider was banned
+     * @param reasonCode Reason code given by the police
+     * @param evidenceHash Digest of the incident report
+     * @param police Police that slashed directly, or the proposer of an executed proposal
+     */
+    function _recordSlash(
+        address provider,
+        uint256 amount,
+        bool banned,
+        bytes32 reasonCode,
+        bytes32 evidenceHash,
+        address police
+    ) internal {
+        slashHistory[provider].push(
+            SlashRecord(reasonCode, evidenceHash, amount, block.timestamp, police, banned)
+        );
+    }
+
+    /**
+     * @notice Remove unvested earnings from a provider's holdback
+     * @param provider Address of the provider
+     * @param amount Amount to slash (must not exceed the checkpointed locked amount)
+     */
+    function _slashHoldback(address provider, uint256 amount) internal {
+        if (amount == 0) return;
+
+        holdbacks[provider].locked -= amount;
+
+        emit HoldbackSlashed(provider, amount);
+    }
+
+    /**
+     * @notice End a stream and refund its unaccrued remainder
+     * @dev If the provider is banned or below the minimum stake, withdrawFromStream would
+     *      revert, so the accrued but unwithdrawn amount is refunded as well. That also
+     *      works after the stream has ended.
+     * @param streamId Stream ID (for the event)
+     * @param stream Storage pointer to the stream
+     */
+    function _stopStream(bytes32 streamId, Stream storage stream) internal {
+        uint256 refunded;
+        if (block.timestamp < stream.endTime) {
+            refunded = stream.ratePerSecond * (stream.endTime - block.timestamp);
+            stream.endTime = block.timestamp;
+        }
+
+        ProviderInfo storage provider = providers[stream.provider];
+        if (
+            provider.isBanned ||
+            provider.stakeAmount == 0 ||
+            !_meetsStakeRequirements(_effectiveStake(stream.provider))
+        ) {
+            uint256 accrued = _streamAccrued(stream);
+            refunded += accrued - stream.withdrawn;
+            stream.withdrawn = accrued;
+        }
+        if (refunded == 0) revert StreamNotActive();
+
+        lockedBalances[stream.user] -= refunded;
+        userBalances[stream.user] += refunded;
+
+        emit StreamStopped(streamId, _msgSender(), _streamAccrued(stream), refunded);
+    }
+}
+
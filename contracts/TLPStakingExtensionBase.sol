@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {TLPStakingBase} from "./TLPStakingBase.sol";
+
+/**
+ * @title TLPStakingExtensionBase
+ * @notice Shared plumbing for the contracts TLPStaking delegatecalls into
+ * @dev Extensions are deployed on their own and handed to TLPStaking's constructor.
+ *      Their functions run against TLPStaking's storage and balances, so every
+ *      entry point must be guarded with onlyDelegateCall.
+ */
+abstract contract TLPStakingExtensionBase is TLPStakingBase {
+    error NotDelegateCall();
+
+    // Address of this deployment, to reject direct calls
+    address private immutable self;
+
+    // ============ Constructor ============
+
+    /**
+     * @param _tlpToken Address of the TLP token (must match TLPStaking's)
+     */
+    constructor(address _tlpToken) TLPStakingBase(_tlpToken) {
+        self = address(this);
+    }
+
+    // ============ Modifiers ============
+
+    /**
+     * @notice Reject calls made to the extension directly rather than via TLPStaking
+     */
+    modifier onlyDelegateCall() {
+        if (address(this) == self) revert NotDelegateCall();
+        _;
+    }
+}
@@ -7,6 +7,7 @@ const config: HardhatUserConfig = {
     version: "0.8.27",
     settings: {
       evmVersion: 'cancun',
+      viaIR: true,
       optimizer: {
         enabled: true,
       },
@@ -0,0 +1,7 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("TLPForwarderModule", (m) => {
+  const forwarder = m.contract("TLPForwarder", []);
+
+  return { forwarder };
+});
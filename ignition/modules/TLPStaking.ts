@@ -6,7 +6,9 @@ export default buildModule("TLPStakingModule", (m) => {
   const treasury = m.getParameter("treasury");
   const admin = m.getParameter("admin");
 
-  const staking = m.contract("TLPStaking", [tlpToken, treasury, admin]);
+  const extension = m.contract("TLPStakingExtension", [tlpToken]);
+  const adminExtension = m.contract("TLPStakingAdminExtension", [tlpToken]);
+  const staking = m.contract("TLPStaking", [tlpToken, treasury, admin, extension, adminExtension]);
 
-  return { staking };
+  return { staking, extension, adminExtension };
 });
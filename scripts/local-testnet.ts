@@ -89,12 +89,21 @@ async function deployContracts() {
   await tlpToken.waitForDeployment();
   printSuccess(`TLP Token deployed at ${tlpToken.target}`);
 
-  // Deploy staking contract
+  // Deploy extensions and staking contract
+  const ExtensionFactory = await ethers.getContractFactory("TLPStakingExtension");
+  const extension = await ExtensionFactory.deploy(await tlpToken.getAddress());
+  await extension.waitForDeployment();
+  const AdminExtensionFactory = await ethers.getContractFactory("TLPStakingAdminExtension");
+  const adminExtension = await AdminExtensionFactory.deploy(await tlpToken.getAddress());
+  await adminExtension.waitForDeployment();
+
   const StakingFactory = await ethers.getContractFactory("TLPStaking");
   staking = await StakingFactory.deploy(
     await tlpToken.getAddress(),
     treasury.address,
-    admin.address
+    admin.address,
+    await extension.getAddress(),
+    await adminExtension.getAddress()
   );
   await staking.waitForDeployment();
   printSuccess(`TLPStaking deployed at ${staking.target}`);
@@ -110,9 +119,9 @@ async function deployContracts() {
   printSuccess(`Added ${signers.length} signers`);
 
   // Set required signatures
-  await staking.connect(admin).setRequiredRentalSignatures(2);
-  await staking.connect(admin).setRequiredWithdrawalSignatures(2);
+  await staking.connect(admin).setRequiredClaimSignatures(2);
   await staking.connect(admin).setRequiredRefundSignatures(2);
+  await staking.connect(admin).setRequiredWithdrawalSignatures(2);
   printSuccess("Required signatures set to 2-of-3");
 
   // Set VM prices
@@ -291,14 +300,24 @@ async function showSigners() {
     console.log();
   }
 
-  const reqRental = await staking.requiredRentalSignatures();
-  const reqWithdraw = await staking.requiredWithdrawalSignatures();
+  const reqClaim = await staking.requiredClaimSignatures();
   const reqRefund = await staking.requiredRefundSignatures();
+  const reqWithdraw = await staking.requiredWithdrawalSignatures();
+  const largeThreshold = await staking.largeWithdrawalThreshold();
+  const reqLarge = await staking.requiredLargeWithdrawalSignatures();
 
   console.log(chalk.white("  Required Signatures:"));
-  console.log(chalk.gray("    Rentals:     ") + chalk.yellow(reqRental.toString()));
-  console.log(chalk.gray("    Withdrawals: ") + chalk.yellow(reqWithdraw.toString()));
+  console.log(chalk.gray("    Claims:      ") + chalk.yellow(reqClaim.toString()));
   console.log(chalk.gray("    Refunds:     ") + chalk.yellow(reqRefund.toString()));
+  console.log(chalk.gray("    Withdrawals: ") + chalk.yellow(reqWithdraw.toString()));
+  if (largeThreshold > 0n) {
+    console.log(
+      chalk.gray("    Large:       ") +
+        chalk.yellow(`${reqLarge} above ${ethers.formatEther(largeThreshold)} TLP`)
+    );
+  } else {
+    console.log(chalk.gray("    Large:       ") + chalk.yellow("disabled"));
+  }
 
   await pressEnterToContinue();
 }
@@ -474,10 +493,13 @@ async function removeSigner() {
     printInfo(`Remaining signers: ${count}`);
 
     // Show if required signatures were adjusted
-    const reqRental = await staking.requiredRentalSignatures();
-    const reqWithdraw = await staking.requiredWithdrawalSignatures();
+    const reqClaim = await staking.requiredClaimSignatures();
     const reqRefund = await staking.requiredRefundSignatures();
-    printInfo(`Required signatures - Rental: ${reqRental}, Withdrawal: ${reqWithdraw}, Refund: ${reqRefund}`);
+    const reqWithdraw = await staking.requiredWithdrawalSignatures();
+    const reqLarge = await staking.requiredLargeWithdrawalSignatures();
+    printInfo(
+      `Required signatures - Claim: ${reqClaim}, Refund: ${reqRefund}, Withdrawal: ${reqWithdraw}, Large withdrawal: ${reqLarge}`
+    );
   } catch (error: any) {
     printError(`Failed to remove signer: ${error.message}`);
   }
@@ -545,12 +567,23 @@ async function setVmPrice() {
 async function setRequiredSignatures() {
   const signerCount = await staking.getSignerCount();
 
-  const { rentalSigs, withdrawalSigs, refundSigs } = await inquirer.prompt([
+  const { claimSigs, refundSigs, withdrawalSigs, largeThreshold, largeSigs } = await inquirer.prompt([
     {
       type: "input",
-      name: "rentalSigs",
-      message: `Required signatures for rentals (1-${signerCount}):`,
-      default: (await staking.requiredRentalSignatures()).toString(),
+      name: "claimSigs",
+      message: `Required signatures for claims (1-${signerCount}):`,
+      default: (await staking.requiredClaimSignatures()).toString(),
+      validate: (input) => {
+        const num = parseInt(input);
+        if (!isNaN(num) && num >= 1 && num <= Number(signerCount)) return true;
+        return `Please enter a number between 1 and ${signerCount}`;
+      },
+    },
+    {
+      type: "input",
+      name: "refundSigs",
+      message: `Required signatures for refunds (1-${signerCount}):`,
+      default: (await staking.requiredRefundSignatures()).toString(),
       validate: (input) => {
         const num = parseInt(input);
         if (!isNaN(num) && num >= 1 && num <= Number(signerCount)) return true;
@@ -570,9 +603,24 @@ async function setRequiredSignatures() {
     },
     {
       type: "input",
-      name: "refundSigs",
-      message: `Required signatures for refunds (1-${signerCount}):`,
-      default: (await staking.requiredRefundSignatures()).toString(),
+      name: "largeThreshold",
+      message: "Large withdrawal threshold in TLP (0 to disable):",
+      default: ethers.formatEther(await staking.largeWithdrawalThreshold()),
+      validate: (input) => {
+        const num = parseFloat(input);
+        if (!isNaN(num) && num >= 0) return true;
+        return "Please enter a valid non-negative number";
+      },
+    },
+    {
+      type: "input",
+      name: "largeSigs",
+      message: `Required signatures for large withdrawals (1-${signerCount}):`,
+      when: (answers) => parseFloat(answers.largeThreshold) > 0,
+      default: async () => {
+        const current = await staking.requiredLargeWithdrawalSignatures();
+        return (current > 0n ? current : signerCount).toString();
+      },
       validate: (input) => {
         const num = parseInt(input);
         if (!isNaN(num) && num >= 1 && num <= Number(signerCount)) return true;
@@ -582,14 +630,22 @@ async function setRequiredSignatures() {
   ]);
 
   try {
-    await staking.connect(admin).setRequiredRentalSignatures(parseInt(rentalSigs));
-    await staking.connect(admin).setRequiredWithdrawalSignatures(parseInt(withdrawalSigs));
+    const thresholdWei = ethers.parseEther(largeThreshold);
+
+    await staking.connect(admin).setRequiredClaimSignatures(parseInt(claimSigs));
     await staking.connect(admin).setRequiredRefundSignatures(parseInt(refundSigs));
+    await staking.connect(admin).setRequiredWithdrawalSignatures(parseInt(withdrawalSigs));
+    await staking.connect(admin).setLargeWithdrawalPolicy(thresholdWei, thresholdWei > 0n ? parseInt(largeSigs) : 0);
 
     printSuccess(`Updated required signatures:`);
-    printInfo(`  Rentals: ${rentalSigs}-of-${signerCount}`);
-    printInfo(`  Withdrawals: ${withdrawalSigs}-of-${signerCount}`);
+    printInfo(`  Claims: ${claimSigs}-of-${signerCount}`);
     printInfo(`  Refunds: ${refundSigs}-of-${signerCount}`);
+    printInfo(`  Withdrawals: ${withdrawalSigs}-of-${signerCount}`);
+    if (thresholdWei > 0n) {
+      printInfo(`  Withdrawals above ${largeThreshold} TLP: ${largeSigs}-of-${signerCount}`);
+    } else {
+      printInfo(`  Large withdrawal escalation: disabled`);
+    }
   } catch (error: any) {
     printError(`Failed to set required signatures: ${error.message}`);
   }
@@ -0,0 +1,122 @@
+import { Contract } from "ethers";
+import type { Signer, ContractTransactionResponse } from "ethers";
+import { FORWARD_REQUEST_TYPES } from "./types";
+import type { ForwardRequestData, ForwardRequestOptions } from "./types";
+import { DEFAULT_RELAY_GAS, ONE_HOUR } from "./constants";
+
+// ABI for the ERC-2771 forwarder (OpenZeppelin ERC2771Forwarder / TLPForwarder)
+const FORWARDER_ABI = [
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function verify(tuple(address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) view returns (bool)",
+  "function execute(tuple(address from, address to, uint256 value, uint256 gas, uint48 deadline, bytes data, bytes signature) request) payable",
+];
+
+/**
+ * Sign an ERC-2771 forward request on behalf of `signer`
+ * @param signer - Account the call is executed as (pays no gas)
+ * @param forwarderAddress - Address of the trusted forwarder
+ * @param request - Target, calldata and optional gas/deadline overrides
+ */
+export async function signForwardRequest(
+  signer: Signer,
+  forwarderAddress: string,
+  request: { to: string; data: string } & ForwardRequestOptions
+): Promise<ForwardRequestData> {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error("No provider available");
+  }
+
+  let deadline = request.deadline;
+  if (deadline === undefined) {
+    const block = await provider.getBlock("latest");
+    if (!block) {
+      throw new Error("Unable to fetch latest block");
+    }
+    deadline = BigInt(block.timestamp + ONE_HOUR);
+  }
+
+  const forwarder = new Contract(forwarderAddress, FORWARDER_ABI, provider);
+  const from = await signer.getAddress();
+  const [nonce, domain] = await Promise.all([
+    forwarder.nonces(from),
+    forwarder.eip712Domain(),
+  ]);
+
+  const message = {
+    from,
+    to: request.to,
+    value: 0n,
+    gas: request.gas ?? DEFAULT_RELAY_GAS,
+    nonce,
+    deadline,
+    data: request.data,
+  };
+  const signature = await signer.signTypedData(
+    {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    FORWARD_REQUEST_TYPES,
+    message
+  );
+
+  return {
+    from,
+    to: message.to,
+    value: message.value,
+    gas: message.gas,
+    deadline,
+    data: message.data,
+    signature,
+  };
+}
+
+/**
+ * Reference relayer that submits signed forward requests and pays the gas.
+ * Relayed TLPStaking withdrawals and claims reimburse it through the
+ * contract's relay fee (paid in TLP to the configured fee recipient).
+ */
+export class TLPRelayer {
+  private readonly forwarder: Contract;
+  private readonly address: string;
+
+  /**
+   * Create a new TLPRelayer
+   * @param relayer - Ethers.js signer holding ETH for gas
+   * @param forwarderAddress - Address of the trusted forwarder
+   */
+  constructor(relayer: Signer, forwarderAddress: string) {
+    this.forwarder = new Contract(forwarderAddress, FORWARDER_ABI, relayer);
+    this.address = forwarderAddress;
+  }
+
+  /**
+   * Get the forwarder address
+   */
+  getForwarderAddress(): string {
+    return this.address;
+  }
+
+  /**
+   * Check that a request is signed by `from`, unexpired and not yet executed
+   * @param request - Signed forward request
+   */
+  async verify(request: ForwardRequestData): Promise<boolean> {
+    return this.forwarder.verify(request);
+  }
+
+  /**
+   * Verify and submit a signed forward request
+   * @param request - Signed forward request
+   */
+  async relay(request: ForwardRequestData): Promise<ContractTransactionResponse> {
+    if (!(await this.verify(request))) {
+      throw new Error("Invalid or expired forward request");
+    }
+    return this.forwarder.execute(request, { value: request.value });
+  }
+}
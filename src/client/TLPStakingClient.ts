@@ -5,27 +5,148 @@ import {
   ContractTransactionResponse,
   EventLog,
   Log,
+  Signature,
+  concat,
 } from "ethers";
-import type { ProviderInfo, ClaimRequest, ClaimedEvent, DepositedEvent, WithdrawnEvent } from "./types";
+import type {
+  ProviderInfo,
+  ClaimRequest,
+  PendingWithdrawal,
+  UnbondingEntry,
+  UnbondingBalance,
+  StakeTier,
+  ProviderTier,
+  ReentryRules,
+  ReentryStatus,
+  LargeWithdrawalPolicy,
+  SignerEpochInfo,
+  DelegationPoolInfo,
+  DelegationInfo,
+  PermitSignature,
+  PauseState,
+  RentalLock,
+  PendingClaim,
+  Stream,
+  StreamBalance,
+  Holdback,
+  HoldbackConfig,
+  CommissionOverride,
+  FeeClass,
+  ClaimPreview,
+  PendingParameterChange,
+  FeeShare,
+  ForwardRequestData,
+  ForwardRequestOptions,
+  RelayFeeConfig,
+  ClaimedEvent,
+  ClaimHeldEvent,
+  RefundedEvent,
+  InsurancePaidEvent,
+  ProviderSlashedEvent,
+  SlashRecord,
+  SlashProposal,
+  SlashProposedEvent,
+  StreamOpenedEvent,
+  StreamWithdrawnEvent,
+  EarningsHeldBackEvent,
+  VestedEarningsReleasedEvent,
+  DepositedEvent,
+  WithdrawnEvent,
+  UnilateralWithdrawalRequestedEvent,
+  UnilateralWithdrawalExecutedEvent,
+} from "./types";
+import { PERMIT_TYPES } from "./types";
+import {
+  ONE_HOUR,
+  BPS_DENOMINATOR,
+  PAUSE_DEPOSITS,
+  PAUSE_WITHDRAWALS,
+  PAUSE_CLAIMS,
+  PAUSE_STAKING,
+} from "./constants";
+import { findUnusedNonce, nonceBitmapPosition } from "./utils";
 import { TLPStakingSigner } from "./TLPStakingSigner";
+import { signForwardRequest } from "./TLPRelayer";
 
 // ABI for the TLPStaking contract (minimal interface for client operations)
 const TLP_STAKING_ABI = [
   // Read functions
   "function tlpToken() view returns (address)",
   "function treasury() view returns (address)",
+  "function paymentTokens(address) view returns (bool)",
   "function minStakeDuration() view returns (uint256)",
   "function commissionBps() view returns (uint256)",
-  "function providers(address) view returns (uint256 stakeAmount, uint256 unlockTime, bool isBanned, uint256 slashCount)",
+  "function unilateralWithdrawalDelay() view returns (uint256)",
+  "function unbondingPeriod() view returns (uint256)",
+  "function MAX_UNBONDING_ENTRIES() view returns (uint256)",
+  "function minProviderStake() view returns (uint256)",
+  "function claimCapBps() view returns (uint256)",
+  "function claimCapWindow() view returns (uint256)",
+  "function trustedForwarder() view returns (address)",
+  "function relayFee() view returns (uint256)",
+  "function relayFeeRecipient() view returns (address)",
+  "function providers(address) view returns (uint256 stakeAmount, uint256 unlockTime, bool isBanned, uint256 slashCount, uint256 suspendedUntil)",
   "function userBalances(address) view returns (uint256)",
-  "function nonces(address) view returns (uint256)",
+  "function nonceBitmap(address user, uint256 wordPos) view returns (uint256)",
   "function isSigner(address) view returns (bool)",
-  "function signers(uint256) view returns (address)",
-  "function requiredSignatures() view returns (uint256)",
-  "function getProviderInfo(address) view returns (uint256 stakeAmount, uint256 unlockTime, bool isBanned, uint256 slashCount)",
+  "function currentSignerEpoch() view returns (uint256)",
+  "function latestSignerEpoch() view returns (uint256)",
+  "function signerEpochGracePeriod() view returns (uint256)",
+  "function getSignerEpoch(uint256 epoch) view returns (address[] signers, uint256 activationTime, uint256 expiresAt)",
+  "function isSignerEpochValid(uint256 epoch) view returns (bool)",
+  "function requiredWithdrawalSignatures() view returns (uint256)",
+  "function requiredClaimSignatures() view returns (uint256)",
+  "function requiredRefundSignatures() view returns (uint256)",
+  "function largeWithdrawalThreshold() view returns (uint256)",
+  "function requiredLargeWithdrawalSignatures() view returns (uint256)",
+  "function getProviderInfo(address) view returns (uint256 stakeAmount, uint256 unlockTime, bool isBanned, uint256 slashCount, uint256 suspendedUntil)",
   "function getUserBalance(address) view returns (uint256)",
-  "function getNonce(address) view returns (uint256)",
+  "function getUserTokenBalance(address user, address token) view returns (uint256)",
+  "function isNonceUsed(address account, uint256 nonce) view returns (bool)",
+  "function getPendingWithdrawal(address) view returns (address token, uint256 amount, uint256 releaseTime)",
+  "function getRentalLock(bytes32 rentalId, address lockUser) view returns (address user, address provider, uint256 amount, uint256 claimed, uint256 expiresAt, bool closed)",
+  "function lockedBalances(address) view returns (uint256)",
+  "function claimedAmounts(bytes32 rentalId, address provider) view returns (uint256)",
+  "function claimChallengePeriod() view returns (uint256)",
+  "function getPendingClaim(bytes32 rentalId, address provider) view returns (address user, address token, uint256 amount, uint256 fee, uint256 releaseTime, bool disputed)",
+  "function refundedAmounts(bytes32 rentalId, address provider) view returns (uint256)",
+  "function getStream(bytes32 streamId) view returns (address user, address provider, uint256 ratePerSecond, uint256 startTime, uint256 endTime, uint256 withdrawn)",
+  "function getStreamBalance(bytes32 streamId) view returns (uint256 accrued, uint256 withdrawable)",
+  "function holdbackBps() view returns (uint256)",
+  "function holdbackVestingPeriod() view returns (uint256)",
+  "function getHoldback(address provider) view returns (uint256 locked, uint256 vested, uint256 vestingEnd)",
+  "function getProviderCommission(address provider) view returns (uint256 commissionBps, uint256 expiresAt)",
+  "function getFeeClass(uint256 feeClass) view returns (uint256 commissionBps, bool enabled)",
+  "function getCommissionRate(address provider, uint256 feeClass) view returns (uint256)",
+  "function parameterChangeDelay() view returns (uint256)",
+  "function getPendingParameterChanges() view returns (bytes32[] changeIds, tuple(bytes4 selector, uint256 eta, bytes data)[] changes)",
+  "function getCommissionSplit() view returns (address[] recipients, uint256[] weights)",
+  "function getSlashSplit() view returns (address[] recipients, uint256[] weights)",
+  "function accruedFees(address recipient, address token) view returns (uint256)",
+  "function insuranceShareBps() view returns (uint256)",
+  "function insurancePool() view returns (uint256)",
+  "function insurancePayouts(bytes32 incidentId, address user) view returns (uint256)",
+  "function extension() view returns (address)",
+  "function adminExtension() view returns (address)",
   "function isProviderActive(address) view returns (bool)",
+  "function getUnbondingEntries(address) view returns (tuple(uint256 amount, uint256 releaseTime)[])",
+  "function getUnbondingBalance(address) view returns (uint256 pending, uint256 withdrawable)",
+  "function getSlashHistory(address provider) view returns (tuple(bytes32 reasonCode, bytes32 evidenceHash, uint256 amount, uint256 timestamp, address police, bool banned)[])",
+  "function getSlashRecord(address provider, uint256 index) view returns (tuple(bytes32 reasonCode, bytes32 evidenceHash, uint256 amount, uint256 timestamp, address police, bool banned))",
+  "function requiredSlashApprovals() view returns (uint256)",
+  "function slashAppealWindow() view returns (uint256)",
+  "function getSlashProposal(bytes32 proposalId) view returns (tuple(address provider, address proposer, uint256 amount, bool ban, bytes32 reasonCode, bytes32 evidenceHash, uint256 executableAt, bool appealed, bool closed))",
+  "function getEffectiveStake(address) view returns (uint256)",
+  "function getStakeTiers() view returns (tuple(bytes32 name, uint256 minStake, uint256 claimCapBps)[])",
+  "function getProviderTier(address) view returns (bool found, uint256 index, bytes32 name)",
+  "function getRemainingClaimCapacity(address) view returns (uint256)",
+  "function reentryCooldown() view returns (uint256)",
+  "function reentryStakePerSlash() view returns (uint256)",
+  "function maxSlashCount() view returns (uint256)",
+  "function unbannedAt(address) view returns (uint256)",
+  "function getReentryStatus(address provider) view returns (bool eligible, uint256 availableAt, uint256 minStake)",
+  "function getDelegationPool(address) view returns (uint256 totalDelegated, uint256 unbondingAmount, uint256 feeBps)",
+  "function getDelegation(address provider, address delegator) view returns (uint256 amount, uint256 rewards, uint256 unbonding, uint256 releaseTime)",
   "function getSigners() view returns (address[])",
   "function getSignerCount() view returns (uint256)",
   "function domainSeparator() view returns (bytes32)",
@@ -33,52 +154,201 @@ const TLP_STAKING_ABI = [
   "function getRoleAdmin(bytes32) view returns (bytes32)",
   "function DEFAULT_ADMIN_ROLE() view returns (bytes32)",
   "function POLICE_ROLE() view returns (bytes32)",
+  "function GUARDIAN_ROLE() view returns (bytes32)",
+  "function pausedScopes() view returns (uint256)",
+  "function isPaused(uint256 scope) view returns (bool)",
 
   // Write functions - User Balance
   "function deposit(uint256 amount)",
-  "function withdraw(uint256 amount, uint256 deadline, bytes[] signatures)",
+  "function depositFor(address beneficiary, uint256 amount)",
+  "function batchDepositFor(address[] beneficiaries, uint256[] amounts)",
+  "function depositWithPermit(uint256 amount, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s)",
+  "function depositToken(address token, uint256 amount)",
+  "function withdraw(address token, uint256 amount, uint256 nonce, uint256 deadline, uint256 epoch, bytes[] signatures)",
+  "function requestUnilateralWithdrawal(address token, uint256 amount)",
+  "function executeUnilateralWithdrawal()",
+  "function cancelUnilateralWithdrawal()",
+  "function invalidateNonces(uint256 wordPos, uint256 mask)",
+
+  // Write functions - Rental Escrow
+  "function openRental(bytes32 rentalId, address provider, uint256 amount, uint256 expiresAt)",
+  "function closeRental(bytes32 rentalId, address user)",
+
+  // Write functions - Payment Streams
+  "function openStream(bytes32 streamId, address user, address provider, uint256 ratePerSecond, uint256 maxDuration, uint256 deadline, uint256 epoch, bytes[] signatures)",
+  "function withdrawFromStream(bytes32 streamId)",
+  "function stopStream(bytes32 streamId)",
+  "function stopStreamWithSignatures(bytes32 streamId, uint256 deadline, uint256 epoch, bytes[] signatures)",
 
   // Write functions - Provider Claim
-  "function claim(bytes32 rentalId, address user, uint256 amount, uint256 deadline, bytes[] signatures)",
-  "function batchClaim(tuple(bytes32 rentalId, address user, uint256 amount, uint256 deadline)[] claims, bytes[][] signatures)",
+  "function claim(bytes32 rentalId, address user, address token, uint256 feeClass, uint256 cumulativeAmount, uint256 deadline, uint256 epoch, bytes[] signatures)",
+  "function batchClaim(tuple(bytes32 rentalId, address user, address token, uint256 feeClass, uint256 cumulativeAmount, uint256 deadline, uint256 epoch)[] claims, bytes[][] signatures)",
+
+  // Write functions - Disputes and Refunds
+  "function releaseClaim(bytes32 rentalId, address provider)",
+  "function disputeClaim(bytes32 rentalId, address provider)",
+  "function dismissDispute(bytes32 rentalId, address provider, uint256 deadline, uint256 epoch, bytes[] signatures)",
+  "function refund(bytes32 rentalId, address user, address provider, address token, uint256 cumulativeAmount, uint256 deadline, uint256 epoch, bytes[] signatures)",
+
+  // Write functions - Earnings Holdback
+  "function releaseVested()",
+
+  // Write functions - Fee Splits
+  "function withdrawFees(address token)",
+
+  // Write functions - Insurance Pool
+  "function fundInsurancePool(uint256 amount)",
+  "function payInsurance(bytes32 incidentId, address user, uint256 cumulativeAmount, uint256 deadline, uint256 epoch, bytes[] signatures)",
 
   // Write functions - Provider Staking
   "function stake(uint256 amount, uint256 duration)",
+  "function stakeWithPermit(uint256 amount, uint256 duration, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s)",
   "function extendStakeDuration(uint256 newUnlockTime)",
   "function increaseStake(uint256 amount)",
-  "function withdrawStake()",
+  "function increaseStakeWithPermit(uint256 amount, uint256 permitDeadline, uint8 v, bytes32 r, bytes32 s)",
+  "function requestUnstake(uint256 amount)",
+  "function withdrawUnbonded()",
+
+  // Write functions - Delegation
+  "function delegate(address provider, uint256 amount)",
+  "function undelegate(address provider, uint256 amount)",
+  "function withdrawUndelegated(address provider)",
+  "function claimDelegationRewards(address provider)",
+  "function setDelegationFee(uint256 newFeeBps)",
 
   // Admin functions
   "function addSigner(address signer)",
   "function removeSigner(address signer)",
-  "function setRequiredSignatures(uint256 _required)",
+  "function setRequiredWithdrawalSignatures(uint256 _required)",
+  "function setRequiredClaimSignatures(uint256 _required)",
+  "function setRequiredRefundSignatures(uint256 _required)",
+  "function setLargeWithdrawalPolicy(uint256 threshold, uint256 _required)",
+  "function scheduleSignerRotation(address[] newSigners, uint256 activationTime) returns (uint256)",
+  "function cancelSignerRotation()",
+  "function expireSignerEpoch(uint256 epoch)",
+  "function setSignerEpochGracePeriod(uint256 newGracePeriod)",
   "function setMinStakeDuration(uint256 newDuration)",
   "function setTreasury(address newTreasury)",
+  "function setPaymentToken(address token, bool allowed)",
   "function setCommission(uint256 newCommissionBps)",
+  "function setProviderCommission(address provider, uint256 newCommissionBps, uint256 expiresAt)",
+  "function setFeeClass(uint256 feeClass, uint256 newCommissionBps, bool enabled)",
+  "function setCommissionSplit(address[] recipients, uint256[] weights)",
+  "function setSlashSplit(address[] recipients, uint256[] weights)",
+  "function setInsuranceShare(uint256 newShareBps)",
+  "function setUnilateralWithdrawalDelay(uint256 newDelay)",
+  "function setUnbondingPeriod(uint256 newPeriod)",
+  "function setMinProviderStake(uint256 newMinStake)",
+  "function setReentryRules(uint256 newCooldown, uint256 newStakePerSlash, uint256 newMaxSlashCount)",
+  "function setStakeTiers(bytes32[] names, uint256[] minStakes, uint256[] capsBps)",
+  "function setClaimCap(uint256 newClaimCapBps, uint256 newWindow)",
+  "function setClaimChallengePeriod(uint256 newPeriod)",
+  "function setHoldback(uint256 newHoldbackBps, uint256 newVestingPeriod)",
+  "function setSlashGovernance(uint256 newRequiredApprovals, uint256 newAppealWindow)",
+  "function setTrustedForwarder(address newForwarder)",
+  "function setRelayFee(uint256 newFee, address recipient)",
+  "function setParameterChangeDelay(uint256 newDelay)",
+  "function executeParameterChange(bytes32 changeId)",
+  "function cancelParameterChange(bytes32 changeId)",
   "function grantRole(bytes32 role, address account)",
   "function revokeRole(bytes32 role, address account)",
 
+  // Guardian functions
+  "function pause(uint256 scopes, bytes32 reasonCode)",
+  "function unpause(uint256 scopes)",
+
   // Police functions
-  "function slashAndBan(address provider)",
-  "function slashPartial(address provider, uint256 slashAmount)",
+  "function slashAndBan(address provider, bytes32 reasonCode, bytes32 evidenceHash)",
+  "function slashPartial(address provider, uint256 slashAmount, bytes32 reasonCode, bytes32 evidenceHash)",
   "function unbanProvider(address provider)",
+  "function suspendProvider(address provider, uint256 until)",
+
+  // Slash governance functions
+  "function proposeSlash(address provider, uint256 amount, bool ban, bytes32 reasonCode, bytes32 evidenceHash, uint256 deadline, bytes[] signatures) returns (bytes32)",
+  "function appealSlash(bytes32 proposalId)",
+  "function resolveSlashAppeal(bytes32 proposalId, bool uphold)",
+  "function executeSlash(bytes32 proposalId)",
 
   // Events
   "event Staked(address indexed provider, uint256 amount, uint256 unlockTime)",
   "event StakeExtended(address indexed provider, uint256 newUnlockTime)",
   "event StakeIncreased(address indexed provider, uint256 addedAmount, uint256 newTotal, uint256 newUnlockTime)",
+  "event UnstakeRequested(address indexed provider, uint256 amount, uint256 releaseTime)",
   "event StakeWithdrawn(address indexed provider, uint256 amount)",
-  "event Deposited(address indexed user, uint256 amount, uint256 newBalance)",
-  "event Withdrawn(address indexed user, uint256 amount, uint256 newBalance)",
-  "event Claimed(bytes32 indexed rentalId, address indexed user, address indexed provider, uint256 amount, uint256 commission)",
-  "event ProviderSlashed(address indexed provider, uint256 slashedStake, bool banned)",
+  "event Deposited(address indexed user, address indexed payer, address indexed token, uint256 amount, uint256 newBalance)",
+  "event Withdrawn(address indexed user, address indexed token, uint256 amount, uint256 newBalance)",
+  "event UnilateralWithdrawalRequested(address indexed user, address indexed token, uint256 amount, uint256 releaseTime)",
+  "event UnilateralWithdrawalExecuted(address indexed user, address indexed token, uint256 amount, uint256 newBalance)",
+  "event UnilateralWithdrawalCancelled(address indexed user)",
+  "event NoncesInvalidated(address indexed user, uint256 wordPos, uint256 mask)",
+  "event Claimed(bytes32 indexed rentalId, address indexed user, address indexed provider, address token, uint256 amount, uint256 commission, uint256 commissionBps)",
+  "event ClaimHeld(bytes32 indexed rentalId, address indexed user, address indexed provider, uint256 amount, uint256 releaseTime)",
+  "event ClaimReleased(bytes32 indexed rentalId, address indexed provider, uint256 amount)",
+  "event ClaimReturned(bytes32 indexed rentalId, address indexed user, address indexed provider, uint256 amount)",
+  "event ClaimDisputed(bytes32 indexed rentalId, address indexed user, address indexed provider)",
+  "event DisputeDismissed(bytes32 indexed rentalId, address indexed provider)",
+  "event Refunded(bytes32 indexed rentalId, address indexed user, address indexed provider, address token, uint256 amount, uint256 fromStake)",
+  "event StreamOpened(bytes32 indexed streamId, address indexed user, address indexed provider, uint256 ratePerSecond, uint256 startTime, uint256 endTime)",
+  "event StreamWithdrawn(bytes32 indexed streamId, address indexed provider, uint256 amount, uint256 commission)",
+  "event StreamStopped(bytes32 indexed streamId, address indexed stoppedBy, uint256 accrued, uint256 refunded)",
+  "event EarningsHeldBack(address indexed provider, uint256 amount, uint256 vestingEnd)",
+  "event VestedEarningsReleased(address indexed provider, uint256 amount)",
+  "event HoldbackSlashed(address indexed provider, uint256 amount)",
+  "event ProviderSlashed(address indexed provider, uint256 slashedStake, bool banned, bytes32 indexed reasonCode, bytes32 evidenceHash)",
   "event ProviderUnbanned(address indexed provider)",
+  "event ProviderSuspended(address indexed provider, uint256 until)",
+  "event SlashProposed(bytes32 indexed proposalId, address indexed provider, uint256 amount, bool ban, bytes32 reasonCode, bytes32 evidenceHash, uint256 executableAt)",
+  "event SlashAppealed(bytes32 indexed proposalId, address indexed provider)",
+  "event SlashAppealResolved(bytes32 indexed proposalId, bool upheld)",
+  "event SlashExecuted(bytes32 indexed proposalId)",
+  "event SlashGovernanceUpdated(uint256 requiredApprovals, uint256 appealWindow)",
+  "event Delegated(address indexed delegator, address indexed provider, uint256 amount, uint256 shares)",
+  "event Undelegated(address indexed delegator, address indexed provider, uint256 amount, uint256 releaseTime)",
+  "event UndelegationWithdrawn(address indexed delegator, address indexed provider, uint256 amount)",
+  "event DelegatorsSlashed(address indexed provider, uint256 slashedAmount)",
+  "event DelegationRewardsAccrued(address indexed provider, uint256 amount)",
+  "event DelegationRewardsClaimed(address indexed delegator, address indexed provider, uint256 amount)",
+  "event DelegationFeeUpdated(address indexed provider, uint256 oldFeeBps, uint256 newFeeBps)",
   "event SignerAdded(address indexed signer)",
   "event SignerRemoved(address indexed signer)",
-  "event RequiredSignaturesUpdated(uint256 oldRequired, uint256 newRequired)",
+  "event RequiredWithdrawalSignaturesUpdated(uint256 oldRequired, uint256 newRequired)",
+  "event RequiredClaimSignaturesUpdated(uint256 oldRequired, uint256 newRequired)",
+  "event RequiredRefundSignaturesUpdated(uint256 oldRequired, uint256 newRequired)",
+  "event LargeWithdrawalPolicyUpdated(uint256 threshold, uint256 requiredSignatures)",
+  "event SignerRotationScheduled(uint256 indexed epoch, uint256 activationTime, uint256 previousEpochExpiresAt)",
+  "event SignerRotationCancelled(uint256 indexed epoch)",
+  "event SignerEpochExpired(uint256 indexed epoch)",
+  "event SignerEpochGracePeriodUpdated(uint256 oldGracePeriod, uint256 newGracePeriod)",
   "event CommissionUpdated(uint256 oldCommission, uint256 newCommission)",
+  "event ProviderCommissionUpdated(address indexed provider, uint256 commissionBps, uint256 expiresAt)",
+  "event FeeClassUpdated(uint256 indexed feeClass, uint256 commissionBps, bool enabled)",
+  "event CommissionSplitUpdated(address[] recipients, uint256[] weights)",
+  "event SlashSplitUpdated(address[] recipients, uint256[] weights)",
+  "event FeesWithdrawn(address indexed recipient, address indexed token, uint256 amount)",
+  "event InsuranceShareUpdated(uint256 oldShareBps, uint256 newShareBps)",
+  "event InsurancePoolFunded(address indexed source, uint256 amount, uint256 poolBalance)",
+  "event InsurancePaid(bytes32 indexed incidentId, address indexed user, uint256 amount, uint256 poolBalance)",
+  "event ParameterChangeQueued(bytes32 indexed changeId, bytes4 indexed selector, bytes data, uint256 eta)",
+  "event ParameterChangeExecuted(bytes32 indexed changeId)",
+  "event ParameterChangeCancelled(bytes32 indexed changeId)",
+  "event ParameterChangeDelayUpdated(uint256 oldDelay, uint256 newDelay)",
   "event TreasuryUpdated(address oldTreasury, address newTreasury)",
+  "event PaymentTokenUpdated(address indexed token, bool allowed)",
   "event MinStakeDurationUpdated(uint256 oldDuration, uint256 newDuration)",
+  "event UnilateralWithdrawalDelayUpdated(uint256 oldDelay, uint256 newDelay)",
+  "event UnbondingPeriodUpdated(uint256 oldPeriod, uint256 newPeriod)",
+  "event MinProviderStakeUpdated(uint256 oldMinStake, uint256 newMinStake)",
+  "event ReentryRulesUpdated(uint256 cooldown, uint256 stakePerSlash, uint256 maxSlashCount)",
+  "event StakeTiersUpdated(uint256 tierCount)",
+  "event ClaimCapUpdated(uint256 claimCapBps, uint256 claimCapWindow)",
+  "event ClaimChallengePeriodUpdated(uint256 oldPeriod, uint256 newPeriod)",
+  "event HoldbackUpdated(uint256 holdbackBps, uint256 vestingPeriod)",
+];
+
+// ABI for the TLP token's EIP-2612 surface
+const TLP_PERMIT_ABI = [
+  "function nonces(address owner) view returns (uint256)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
 ];
 
 /**
@@ -136,6 +406,38 @@ export class TLPStakingClient {
     return this.chainId;
   }
 
+  /**
+   * Get the connected signer (throws if the client is read-only)
+   */
+  private getRunnerSigner(): Signer {
+    const signer = this.contract.runner as Signer | null;
+    if (!signer || typeof signer.signTypedData !== "function") {
+      throw new Error("A signer is required for this operation");
+    }
+    return signer;
+  }
+
+  /**
+   * Copy a slash record out of the ethers Result
+   */
+  private toSlashRecord(r: SlashRecord): SlashRecord {
+    return {
+      reasonCode: r.reasonCode,
+      evidenceHash: r.evidenceHash,
+      amount: r.amount,
+      timestamp: r.timestamp,
+      police: r.police,
+      banned: r.banned,
+    };
+  }
+
+  /**
+   * Zip a split view's parallel arrays into recipient/weight pairs
+   */
+  private toFeeShares([recipients, weights]: [string[], bigint[]]): FeeShare[] {
+    return recipients.map((recipient, i) => ({ recipient, weight: weights[i] }));
+  }
+
   /**
    * Create a TLPStakingSigner for this contract
    * @param signer - Ethers.js signer
@@ -145,6 +447,54 @@ export class TLPStakingClient {
     return new TLPStakingSigner(signer, this.address, chainId);
   }
 
+  // ============ Permit ============
+
+  /**
+   * Sign an EIP-2612 permit from the connected wallet approving this
+   * contract to pull `amount` TLP tokens
+   * @param amount - Permit value
+   * @param deadline - Permit expiration (defaults to one hour from the latest block)
+   */
+  async signPermit(
+    amount: bigint,
+    deadline?: bigint
+  ): Promise<PermitSignature> {
+    const signer = this.getRunnerSigner();
+    const provider = signer.provider;
+    if (!provider) {
+      throw new Error("No provider available");
+    }
+
+    if (deadline === undefined) {
+      const block = await provider.getBlock("latest");
+      if (!block) {
+        throw new Error("Unable to fetch latest block");
+      }
+      deadline = BigInt(block.timestamp + ONE_HOUR);
+    }
+
+    const token = new Contract(await this.getTlpToken(), TLP_PERMIT_ABI, provider);
+    const owner = await signer.getAddress();
+    const [nonce, domain] = await Promise.all([
+      token.nonces(owner),
+      token.eip712Domain(),
+    ]);
+
+    const signature = await signer.signTypedData(
+      {
+        name: domain.name,
+        version: domain.version,
+        chainId: domain.chainId,
+        verifyingContract: domain.verifyingContract,
+      },
+      PERMIT_TYPES,
+      { owner, spender: this.address, value: amount, nonce, deadline }
+    );
+    const { v, r, s } = Signature.from(signature);
+
+    return { owner, value: amount, deadline, v, r, s };
+  }
+
   // ============ Read Methods - User Balance ============
 
   /**
@@ -156,337 +506,1946 @@ export class TLPStakingClient {
   }
 
   /**
-   * Get current nonce for an address
-   * @param account - Account address
+   * Get user's balance in the pool in a payment token
+   * @param user - User address
+   * @param token - Payment token address (TLP or an allowlisted token)
    */
-  async getNonce(account: string): Promise<bigint> {
-    return this.contract.getNonce(account);
+  async getUserTokenBalance(user: string, token: string): Promise<bigint> {
+    return this.contract.getUserTokenBalance(user, token);
   }
 
-  // ============ Read Methods - Provider ============
-
   /**
-   * Get provider staking information
-   * @param provider - Provider address
+   * Check whether a withdrawal nonce has been used or invalidated
+   * @param account - Account address
+   * @param nonce - Withdrawal nonce
    */
-  async getProviderInfo(provider: string): Promise<ProviderInfo> {
-    const [stakeAmount, unlockTime, isBanned, slashCount] =
-      await this.contract.getProviderInfo(provider);
-    return { stakeAmount, unlockTime, isBanned, slashCount };
+  async isNonceUsed(account: string, nonce: bigint): Promise<boolean> {
+    return this.contract.isNonceUsed(account, nonce);
   }
 
   /**
-   * Check if a provider is active (staked and not banned)
-   * @param provider - Provider address
+   * Get one 256-bit word of an account's withdrawal nonce bitmap
+   * @param account - Account address
+   * @param wordPos - Word index (nonce >> 8)
    */
-  async isProviderActive(provider: string): Promise<boolean> {
-    return this.contract.isProviderActive(provider);
+  async getNonceBitmap(account: string, wordPos: bigint): Promise<bigint> {
+    return this.contract.nonceBitmap(account, wordPos);
   }
 
-  // ============ Read Methods - Signers ============
+  /**
+   * Get the lowest unused withdrawal nonce for an account.
+   * Nonces are unordered; pass `from` to skip nonces reserved for approvals
+   * that are signed but not yet submitted.
+   * @param account - Account address
+   * @param from - Lowest nonce to consider (default 0)
+   */
+  async getNextNonce(account: string, from: bigint = 0n): Promise<bigint> {
+    return findUnusedNonce(
+      (wordPos) => this.getNonceBitmap(account, wordPos),
+      from
+    );
+  }
 
   /**
-   * Get all authorized signers
+   * Get a user's pending escape-hatch withdrawal
+   * @param user - User address
    */
-  async getSigners(): Promise<string[]> {
-    return this.contract.getSigners();
+  async getPendingWithdrawal(user: string): Promise<PendingWithdrawal> {
+    const [token, amount, releaseTime] =
+      await this.contract.getPendingWithdrawal(user);
+    return { token, amount, releaseTime };
   }
 
+  // ============ Read Methods - Rental Escrow ============
+
   /**
-   * Get number of authorized signers
+   * Get a rental lock (user is the zero address if none exists)
+   * @param rentalId - Rental ID (bytes32)
+   * @param lockUser - User who opened the lock
    */
-  async getSignerCount(): Promise<bigint> {
-    return this.contract.getSignerCount();
+  async getRentalLock(rentalId: string, lockUser: string): Promise<RentalLock> {
+    const [user, provider, amount, claimed, expiresAt, closed] =
+      await this.contract.getRentalLock(rentalId, lockUser);
+    return { user, provider, amount, claimed, expiresAt, closed };
   }
 
   /**
-   * Check if an address is an authorized signer
-   * @param address - Address to check
+   * Get the total a user has locked in open rentals (not part of their balance)
+   * @param user - User address
    */
-  async isSigner(address: string): Promise<boolean> {
-    return this.contract.isSigner(address);
+  async getLockedBalance(user: string): Promise<bigint> {
+    return this.contract.lockedBalances(user);
   }
 
   /**
-   * Get number of required signatures
+   * Get the amount a provider has already been paid for a rental.
+   * Claims carry the running total; only the difference is paid out.
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
    */
-  async getRequiredSignatures(): Promise<bigint> {
-    return this.contract.requiredSignatures();
+  async getClaimedAmount(rentalId: string, provider: string): Promise<bigint> {
+    return this.contract.claimedAmounts(rentalId, provider);
   }
 
-  // ============ Read Methods - Config ============
+  // ============ Read Methods - Disputes and Refunds ============
 
   /**
-   * Get minimum stake duration
+   * Get a claim payout held for the challenge period (amount is 0 if none is held)
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
    */
-  async getMinStakeDuration(): Promise<bigint> {
-    return this.contract.minStakeDuration();
+  async getPendingClaim(
+    rentalId: string,
+    provider: string
+  ): Promise<PendingClaim> {
+    const [user, token, amount, fee, releaseTime, disputed] =
+      await this.contract.getPendingClaim(rentalId, provider);
+    return { user, token, amount, fee, releaseTime, disputed };
   }
 
   /**
-   * Get commission rate in basis points
+   * Get the amount a provider has already refunded for a rental.
+   * Refunds carry the running total; only the difference is moved.
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
    */
-  async getCommissionBps(): Promise<bigint> {
-    return this.contract.commissionBps();
+  async getRefundedAmount(rentalId: string, provider: string): Promise<bigint> {
+    return this.contract.refundedAmounts(rentalId, provider);
   }
 
+  // ============ Read Methods - Payment Streams ============
+
   /**
-   * Get treasury address
+   * Get a payment stream (user is the zero address if none exists)
+   * @param streamId - Stream ID (bytes32)
    */
-  async getTreasury(): Promise<string> {
-    return this.contract.treasury();
+  async getStream(streamId: string): Promise<Stream> {
+    const [user, provider, ratePerSecond, startTime, endTime, withdrawn] =
+      await this.contract.getStream(streamId);
+    return { user, provider, ratePerSecond, startTime, endTime, withdrawn };
   }
 
   /**
-   * Get TLP token address
+   * Get how much a stream has accrued and how much the provider can withdraw now
+   * @param streamId - Stream ID (bytes32)
    */
-  async getTlpToken(): Promise<string> {
-    return this.contract.tlpToken();
+  async getStreamBalance(streamId: string): Promise<StreamBalance> {
+    const [accrued, withdrawable] =
+      await this.contract.getStreamBalance(streamId);
+    return { accrued, withdrawable };
   }
 
+  // ============ Read Methods - Earnings Holdback ============
+
   /**
-   * Get EIP712 domain separator
+   * Get a provider's held-back earnings: locked (still slashable) vs vested (releasable)
+   * @param provider - Provider address
    */
-  async getDomainSeparator(): Promise<string> {
-    return this.contract.domainSeparator();
+  async getHoldback(provider: string): Promise<Holdback> {
+    const [locked, vested, vestingEnd] = await this.contract.getHoldback(provider);
+    return { locked, vested, vestingEnd };
   }
 
-  // ============ Read Methods - Access Control ============
+  // ============ Read Methods - Insurance Pool ============
 
   /**
-   * Check if an account has a role
-   * @param role - Role hash
-   * @param account - Account address
+   * Get the TLP held in the insurance pool
    */
-  async hasRole(role: string, account: string): Promise<boolean> {
-    return this.contract.hasRole(role, account);
+  async getInsurancePool(): Promise<bigint> {
+    return this.contract.insurancePool();
   }
 
   /**
-   * Get the POLICE_ROLE hash
+   * Get the share of slashed funds routed to the insurance pool (basis points)
    */
-  async getPoliceRole(): Promise<string> {
-    return this.contract.POLICE_ROLE();
+  async getInsuranceShareBps(): Promise<bigint> {
+    return this.contract.insuranceShareBps();
   }
 
   /**
-   * Get the DEFAULT_ADMIN_ROLE hash
+   * Get the amount already paid to a user for an incident.
+   * Payouts carry the running total; only the difference is moved.
+   * @param incidentId - Incident ID (bytes32)
+   * @param user - User address
    */
-  async getDefaultAdminRole(): Promise<string> {
-    return this.contract.DEFAULT_ADMIN_ROLE();
+  async getInsurancePayout(incidentId: string, user: string): Promise<bigint> {
+    return this.contract.insurancePayouts(incidentId, user);
   }
 
-  // ============ Write Methods - User Balance ============
+  // ============ Read Methods - Provider ============
 
   /**
-   * Deposit tokens to user's balance in the pool
-   * @param amount - Amount of tokens to deposit
+   * Get provider staking information
+   * @param provider - Provider address
    */
-  async deposit(amount: bigint): Promise<ContractTransactionResponse> {
-    return this.contract.deposit(amount);
+  async getProviderInfo(provider: string): Promise<ProviderInfo> {
+    const [stakeAmount, unlockTime, isBanned, slashCount, suspendedUntil] =
+      await this.contract.getProviderInfo(provider);
+    return { stakeAmount, unlockTime, isBanned, slashCount, suspendedUntil };
   }
 
   /**
-   * Withdraw tokens from user's balance (requires k-of-n signatures)
-   * @param amount - Amount to withdraw
-   * @param deadline - Signature expiration timestamp
-   * @param signatures - Array of EIP712 signatures from authorized signers
+   * Check if a provider is active (staked, not banned or suspended)
+   * @param provider - Provider address
    */
-  async withdraw(
-    amount: bigint,
-    deadline: bigint,
-    signatures: string[]
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.withdraw(amount, deadline, signatures);
+  async isProviderActive(provider: string): Promise<boolean> {
+    return this.contract.isProviderActive(provider);
   }
 
-  // ============ Write Methods - Provider Claim ============
-
   /**
-   * Provider claims from a user's balance (requires k-of-n signatures)
-   * @param rentalId - Rental ID for audit trail (bytes32)
-   * @param user - Address of the user to claim from
-   * @param amount - Amount to claim
-   * @param deadline - Signature expiration timestamp
-   * @param signatures - Array of EIP712 signatures from authorized signers
+   * Get all unbonding entries for a provider (matured and pending)
+   * @param provider - Provider address
    */
-  async claim(
-    rentalId: string,
-    user: string,
-    amount: bigint,
-    deadline: bigint,
-    signatures: string[]
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.claim(rentalId, user, amount, deadline, signatures);
+  async getUnbondingEntries(provider: string): Promise<UnbondingEntry[]> {
+    const entries = await this.contract.getUnbondingEntries(provider);
+    return entries.map(
+      ([amount, releaseTime]: [bigint, bigint]): UnbondingEntry => ({
+        amount,
+        releaseTime,
+      })
+    );
   }
 
   /**
-   * Provider claims from multiple users in a single transaction
-   * @param claims - Array of claim requests
-   * @param signatures - Array of signature arrays for each claim
+   * Get unbonding entries that have not matured yet (still slashable)
+   * @param provider - Provider address
    */
-  async batchClaim(
-    claims: ClaimRequest[],
-    signatures: string[][]
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.batchClaim(claims, signatures);
+  async getPendingUnbondingEntries(provider: string): Promise<UnbondingEntry[]> {
+    const block = await this.contract.runner?.provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("No provider available");
+    }
+    const now = BigInt(block.timestamp);
+    const entries = await this.getUnbondingEntries(provider);
+    return entries.filter((entry) => entry.releaseTime > now);
   }
 
-  // ============ Write Methods - Provider Staking ============
-
   /**
-   * Stake tokens as a provider
-   * @param amount - Amount of tokens to stake
-   * @param duration - Duration to lock the stake (in seconds)
+   * Get a provider's unbonding totals
+   * @param provider - Provider address
    */
-  async stake(
-    amount: bigint,
-    duration: bigint
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.stake(amount, duration);
+  async getUnbondingBalance(provider: string): Promise<UnbondingBalance> {
+    const [pending, withdrawable] =
+      await this.contract.getUnbondingBalance(provider);
+    return { pending, withdrawable };
   }
 
   /**
-   * Extend stake lock duration
-   * @param newUnlockTime - New unlock timestamp
+   * Get every slash of a provider with its reason code and evidence, oldest first
+   * @param provider - Provider address
    */
-  async extendStakeDuration(
-    newUnlockTime: bigint
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.extendStakeDuration(newUnlockTime);
+  async getSlashHistory(provider: string): Promise<SlashRecord[]> {
+    const records = await this.contract.getSlashHistory(provider);
+    return records.map((r: SlashRecord) => this.toSlashRecord(r));
   }
 
   /**
-   * Add more tokens to existing stake
-   * @param amount - Amount of tokens to add
+   * Get one slash of a provider
+   * @param provider - Provider address
+   * @param index - Position in the history (0 = oldest, up to slashCount - 1)
    */
-  async increaseStake(amount: bigint): Promise<ContractTransactionResponse> {
-    return this.contract.increaseStake(amount);
+  async getSlashRecord(provider: string, index: bigint): Promise<SlashRecord> {
+    return this.toSlashRecord(await this.contract.getSlashRecord(provider, index));
   }
 
   /**
-   * Withdraw stake after unlock time
+   * Get a slash proposal
+   * @param proposalId - ID returned by proposeSlash (see parseSlashProposedEvent)
    */
-  async withdrawStake(): Promise<ContractTransactionResponse> {
-    return this.contract.withdrawStake();
+  async getSlashProposal(proposalId: string): Promise<SlashProposal> {
+    const p = await this.contract.getSlashProposal(proposalId);
+    return {
+      provider: p.provider,
+      proposer: p.proposer,
+      amount: p.amount,
+      ban: p.ban,
+      reasonCode: p.reasonCode,
+      evidenceHash: p.evidenceHash,
+      executableAt: p.executableAt,
+      appealed: p.appealed,
+      closed: p.closed,
+    };
   }
 
-  // ============ Admin Methods ============
-
   /**
-   * Add an authorized signer
-   * @param signer - Signer address to add
+   * Get the number of police approvals a slash needs (1 = police may slash directly, unless an appeal window is set)
    */
-  async addSigner(signer: string): Promise<ContractTransactionResponse> {
-    return this.contract.addSigner(signer);
+  async getRequiredSlashApprovals(): Promise<bigint> {
+    return this.contract.requiredSlashApprovals();
   }
 
   /**
-   * Remove an authorized signer
-   * @param signer - Signer address to remove
+   * Get how long providers can appeal a proposed slash (seconds)
    */
-  async removeSigner(signer: string): Promise<ContractTransactionResponse> {
-    return this.contract.removeSigner(signer);
+  async getSlashAppealWindow(): Promise<bigint> {
+    return this.contract.slashAppealWindow();
   }
 
   /**
-   * Set the number of required signatures
-   * @param k - Number of required signatures
+   * Get the configured stake tiers, sorted by ascending minStake
    */
-  async setRequiredSignatures(k: bigint): Promise<ContractTransactionResponse> {
-    return this.contract.setRequiredSignatures(k);
+  async getStakeTiers(): Promise<StakeTier[]> {
+    const tiers = await this.contract.getStakeTiers();
+    return tiers.map((t: StakeTier) => ({
+      name: t.name,
+      minStake: t.minStake,
+      claimCapBps: t.claimCapBps,
+    }));
   }
 
   /**
-   * Update minimum stake duration
-   * @param duration - New minimum duration in seconds
+   * Get the highest stake tier a provider currently meets
+   * @param provider - Provider address
    */
-  async setMinStakeDuration(
-    duration: bigint
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.setMinStakeDuration(duration);
+  async getProviderTier(provider: string): Promise<ProviderTier> {
+    const [found, index, name] = await this.contract.getProviderTier(provider);
+    return { found, index, name };
   }
 
   /**
-   * Update treasury address
-   * @param treasury - New treasury address
+   * Get how much a provider can still claim in the current cap window
+   * (MaxUint256 when uncapped)
+   * @param provider - Provider address
    */
-  async setTreasury(treasury: string): Promise<ContractTransactionResponse> {
-    return this.contract.setTreasury(treasury);
+  async getRemainingClaimCapacity(provider: string): Promise<bigint> {
+    return this.contract.getRemainingClaimCapacity(provider);
   }
 
   /**
-   * Set commission rate for provider claims
-   * @param commissionBps - Commission in basis points (10000 = 100%)
+   * Check whether and when an address can (re-)stake as a provider.
+   * It can stake once eligible and now >= availableAt, with at least minStake.
+   * @param provider - Provider address
    */
-  async setCommission(
-    commissionBps: bigint
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.setCommission(commissionBps);
+  async getReentryStatus(provider: string): Promise<ReentryStatus> {
+    const [eligible, availableAt, minStake] = await this.contract.getReentryStatus(provider);
+    return { eligible, availableAt, minStake };
   }
 
+  // ============ Read Methods - Delegation ============
+
   /**
-   * Grant a role to an account
-   * @param role - Role hash
-   * @param account - Account address
+   * Get a provider's effective stake (own stake plus active delegations)
+   * @param provider - Provider address
    */
-  async grantRole(
-    role: string,
-    account: string
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.grantRole(role, account);
+  async getEffectiveStake(provider: string): Promise<bigint> {
+    return this.contract.getEffectiveStake(provider);
   }
 
   /**
-   * Revoke a role from an account
-   * @param role - Role hash
-   * @param account - Account address
+   * Get a provider's delegation pool totals
+   * @param provider - Provider address
    */
-  async revokeRole(
-    role: string,
-    account: string
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.revokeRole(role, account);
+  async getDelegationPool(provider: string): Promise<DelegationPoolInfo> {
+    const [totalDelegated, unbondingAmount, feeBps] =
+      await this.contract.getDelegationPool(provider);
+    return { totalDelegated, unbondingAmount, feeBps };
   }
 
-  // ============ Police Methods ============
-
   /**
-   * Slash and ban: Remove all stake and ban provider
+   * Get a delegator's position with a provider
    * @param provider - Provider address
+   * @param delegator - Delegator address
    */
-  async slashAndBan(provider: string): Promise<ContractTransactionResponse> {
-    return this.contract.slashAndBan(provider);
+  async getDelegation(
+    provider: string,
+    delegator: string
+  ): Promise<DelegationInfo> {
+    const [amount, rewards, unbonding, releaseTime] =
+      await this.contract.getDelegation(provider, delegator);
+    return { amount, rewards, unbonding, releaseTime };
   }
 
+  // ============ Read Methods - Signers ============
+
   /**
-   * Slash partial stake without banning
-   * @param provider - Provider address
-   * @param slashAmount - Amount to slash
+   * Get all authorized signers
    */
-  async slashPartial(
-    provider: string,
-    slashAmount: bigint
-  ): Promise<ContractTransactionResponse> {
-    return this.contract.slashPartial(provider, slashAmount);
+  async getSigners(): Promise<string[]> {
+    return this.contract.getSigners();
   }
 
   /**
-   * Unban a previously banned provider
-   * @param provider - Provider address
+   * Get number of authorized signers
    */
-  async unbanProvider(provider: string): Promise<ContractTransactionResponse> {
-    return this.contract.unbanProvider(provider);
+  async getSignerCount(): Promise<bigint> {
+    return this.contract.getSignerCount();
   }
 
-  // ============ Event Parsing Helpers ============
+  /**
+   * Check if an address is an authorized signer
+   * @param address - Address to check
+   */
+  async isSigner(address: string): Promise<boolean> {
+    return this.contract.isSigner(address);
+  }
 
   /**
-   * Parse Deposited event from transaction receipt
-   * @param logs - Transaction logs
-   * @returns Deposited event data or null if not found
+   * Get the signer epoch currently in charge (signatures should commit to it)
    */
-  parseDepositedEvent(logs: (Log | EventLog)[]): DepositedEvent | null {
+  async getCurrentSignerEpoch(): Promise<bigint> {
+    return this.contract.currentSignerEpoch();
+  }
+
+  /**
+   * Get the newest signer epoch, which may be scheduled but not active yet
+   */
+  async getLatestSignerEpoch(): Promise<bigint> {
+    return this.contract.latestSignerEpoch();
+  }
+
+  /**
+   * Get a signer epoch's set and validity window
+   * @param epoch - Epoch number
+   */
+  async getSignerEpoch(epoch: bigint): Promise<SignerEpochInfo> {
+    const [signers, activationTime, expiresAt] =
+      await this.contract.getSignerEpoch(epoch);
+    return { signers: [...signers], activationTime, expiresAt };
+  }
+
+  /**
+   * Check whether signatures committing to an epoch are accepted right now
+   * @param epoch - Epoch number
+   */
+  async isSignerEpochValid(epoch: bigint): Promise<boolean> {
+    return this.contract.isSignerEpochValid(epoch);
+  }
+
+  /**
+   * Get how long a superseded signer set stays valid after a rotation (in seconds)
+   */
+  async getSignerEpochGracePeriod(): Promise<bigint> {
+    return this.contract.signerEpochGracePeriod();
+  }
+
+  /**
+   * Get number of signatures required for user withdrawals
+   */
+  async getRequiredWithdrawalSignatures(): Promise<bigint> {
+    return this.contract.requiredWithdrawalSignatures();
+  }
+
+  /**
+   * Get number of signatures required for provider claims
+   */
+  async getRequiredClaimSignatures(): Promise<bigint> {
+    return this.contract.requiredClaimSignatures();
+  }
+
+  /**
+   * Get number of signatures required for user refunds
+   */
+  async getRequiredRefundSignatures(): Promise<bigint> {
+    return this.contract.requiredRefundSignatures();
+  }
+
+  /**
+   * Get the signature escalation policy for large withdrawals
+   */
+  async getLargeWithdrawalPolicy(): Promise<LargeWithdrawalPolicy> {
+    const [threshold, requiredSignatures] = await Promise.all([
+      this.contract.largeWithdrawalThreshold(),
+      this.contract.requiredLargeWithdrawalSignatures(),
+    ]);
+    return { threshold, requiredSignatures };
+  }
+
+  /**
+   * Get number of signatures a withdrawal of the given amount needs,
+   * including large-withdrawal escalation
+   * @param amount - Withdrawal amount
+   */
+  async getRequiredSignaturesForWithdrawal(amount: bigint): Promise<bigint> {
+    const [base, policy] = await Promise.all([
+      this.getRequiredWithdrawalSignatures(),
+      this.getLargeWithdrawalPolicy(),
+    ]);
+    if (
+      policy.threshold !== 0n &&
+      amount > policy.threshold &&
+      policy.requiredSignatures > base
+    ) {
+      return policy.requiredSignatures;
+    }
+    return base;
+  }
+
+  // ============ Read Methods - Pause ============
+
+  /**
+   * Get which operation scopes are currently paused
+   */
+  async getPauseState(): Promise<PauseState> {
+    const scopes: bigint = await this.contract.pausedScopes();
+    return {
+      scopes,
+      deposits: (scopes & PAUSE_DEPOSITS) !== 0n,
+      withdrawals: (scopes & PAUSE_WITHDRAWALS) !== 0n,
+      claims: (scopes & PAUSE_CLAIMS) !== 0n,
+      staking: (scopes & PAUSE_STAKING) !== 0n,
+    };
+  }
+
+  // ============ Read Methods - Config ============
+
+  /**
+   * Get minimum stake duration
+   */
+  async getMinStakeDuration(): Promise<bigint> {
+    return this.contract.minStakeDuration();
+  }
+
+  /**
+   * Get unbonding period for unstake requests (in seconds)
+   */
+  async getUnbondingPeriod(): Promise<bigint> {
+    return this.contract.unbondingPeriod();
+  }
+
+  /**
+   * Get minimum effective stake required to be an active provider
+   */
+  async getMinProviderStake(): Promise<bigint> {
+    return this.contract.minProviderStake();
+  }
+
+  /**
+   * Get the rules for previously slashed providers staking again
+   */
+  async getReentryRules(): Promise<ReentryRules> {
+    const [cooldown, stakePerSlash, maxSlashCount] = await Promise.all([
+      this.contract.reentryCooldown(),
+      this.contract.reentryStakePerSlash(),
+      this.contract.maxSlashCount(),
+    ]);
+    return { cooldown, stakePerSlash, maxSlashCount };
+  }
+
+  /**
+   * Get the default claim cap (bps of effective stake) and window length
+   */
+  async getClaimCap(): Promise<{
+    claimCapBps: bigint;
+    claimCapWindow: bigint;
+  }> {
+    const [claimCapBps, claimCapWindow] = await Promise.all([
+      this.contract.claimCapBps(),
+      this.contract.claimCapWindow(),
+    ]);
+    return { claimCapBps, claimCapWindow };
+  }
+
+  /**
+   * Get the ERC-2771 forwarder trusted for meta-transactions (zero address = disabled)
+   */
+  async getTrustedForwarder(): Promise<string> {
+    return this.contract.trustedForwarder();
+  }
+
+  /**
+   * Get the TLP fee charged on relayed withdrawals and claims
+   */
+  async getRelayFee(): Promise<RelayFeeConfig> {
+    const [fee, recipient] = await Promise.all([
+      this.contract.relayFee(),
+      this.contract.relayFeeRecipient(),
+    ]);
+    return { fee, recipient };
+  }
+
+  /**
+   * Get how long claim payouts are held before release (0 = paid immediately)
+   */
+  async getClaimChallengePeriod(): Promise<bigint> {
+    return this.contract.claimChallengePeriod();
+  }
+
+  /**
+   * Get the share of provider payouts held back and how long it takes to vest
+   */
+  async getHoldbackConfig(): Promise<HoldbackConfig> {
+    const [holdbackBps, vestingPeriod] = await Promise.all([
+      this.contract.holdbackBps(),
+      this.contract.holdbackVestingPeriod(),
+    ]);
+    return { holdbackBps, vestingPeriod };
+  }
+
+  /**
+   * Get commission rate in basis points
+   */
+  async getCommissionBps(): Promise<bigint> {
+    return this.contract.commissionBps();
+  }
+
+  /**
+   * Get a provider's negotiated commission override
+   * @param provider - Provider address
+   */
+  async getProviderCommission(provider: string): Promise<CommissionOverride> {
+    const [commissionBps, expiresAt] =
+      await this.contract.getProviderCommission(provider);
+    return { commissionBps, expiresAt };
+  }
+
+  /**
+   * Get a fee class
+   * @param feeClass - Fee class ID
+   */
+  async getFeeClass(feeClass: bigint): Promise<FeeClass> {
+    const [commissionBps, enabled] = await this.contract.getFeeClass(feeClass);
+    return { commissionBps, enabled };
+  }
+
+  /**
+   * Get the commission rate a provider's claim would be charged
+   * (reverts for a disabled fee class, as the claim would)
+   * @param provider - Provider address
+   * @param feeClass - Fee class of the claim (0 = default rate)
+   */
+  async getCommissionRate(provider: string, feeClass: bigint = 0n): Promise<bigint> {
+    return this.contract.getCommissionRate(provider, feeClass);
+  }
+
+  /**
+   * Preview the commission/provider split of a claim, with the same rounding as the contract
+   * @param provider - Provider address
+   * @param amount - Amount the claim would pay (the delta, not the cumulative amount)
+   * @param feeClass - Fee class of the claim (0 = default rate)
+   */
+  async previewClaim(
+    provider: string,
+    amount: bigint,
+    feeClass: bigint = 0n
+  ): Promise<ClaimPreview> {
+    const commissionBps = await this.getCommissionRate(provider, feeClass);
+    const commission = (amount * commissionBps) / BigInt(BPS_DENOMINATOR);
+    return { commissionBps, commission, providerAmount: amount - commission };
+  }
+
+  /**
+   * Get how long timelocked parameter changes wait before they can be executed
+   * (0 = applied immediately)
+   */
+  async getParameterChangeDelay(): Promise<bigint> {
+    return this.contract.parameterChangeDelay();
+  }
+
+  /**
+   * List queued parameter changes with their decoded arguments, soonest ETA first
+   */
+  async getPendingParameterChanges(): Promise<PendingParameterChange[]> {
+    const [changeIds, changes] = await this.contract.getPendingParameterChanges();
+    return changes
+      .map((change: { selector: string; eta: bigint; data: string }, i: number) => {
+        const fragment = this.contract.interface.getFunction(change.selector)!;
+        const args = this.contract.interface
+          .decodeFunctionData(fragment, concat([change.selector, change.data]))
+          .toArray();
+        return { changeId: changeIds[i], setter: fragment.name, args, eta: change.eta };
+      })
+      .sort((a: PendingParameterChange, b: PendingParameterChange) =>
+        a.eta < b.eta ? -1 : a.eta > b.eta ? 1 : 0
+      );
+  }
+
+  /**
+   * Get the weighted recipients of claim commission (empty = all to treasury)
+   */
+  async getCommissionSplit(): Promise<FeeShare[]> {
+    return this.toFeeShares(await this.contract.getCommissionSplit());
+  }
+
+  /**
+   * Get the weighted recipients of slashed stake (empty = all to treasury)
+   */
+  async getSlashSplit(): Promise<FeeShare[]> {
+    return this.toFeeShares(await this.contract.getSlashSplit());
+  }
+
+  /**
+   * Get fees accrued to a split recipient and not yet withdrawn
+   * @param recipient - Split recipient address
+   * @param token - Token the fees were paid in
+   */
+  async getAccruedFees(recipient: string, token: string): Promise<bigint> {
+    return this.contract.accruedFees(recipient, token);
+  }
+
+  /**
+   * Get the challenge window for escape-hatch withdrawals (in seconds)
+   */
+  async getUnilateralWithdrawalDelay(): Promise<bigint> {
+    return this.contract.unilateralWithdrawalDelay();
+  }
+
+  /**
+   * Get treasury address
+   */
+  async getTreasury(): Promise<string> {
+    return this.contract.treasury();
+  }
+
+  /**
+   * Get TLP token address
+   */
+  async getTlpToken(): Promise<string> {
+    return this.contract.tlpToken();
+  }
+
+  /**
+   * Check whether deposits in a payment token are accepted (TLP always is)
+   * @param token - Token address
+   */
+  async isPaymentToken(token: string): Promise<boolean> {
+    if (token.toLowerCase() === (await this.getTlpToken()).toLowerCase()) {
+      return true;
+    }
+    return this.contract.paymentTokens(token);
+  }
+
+  /**
+   * Get EIP712 domain separator
+   */
+  async getDomainSeparator(): Promise<string> {
+    return this.contract.domainSeparator();
+  }
+
+  // ============ Read Methods - Access Control ============
+
+  /**
+   * Check if an account has a role
+   * @param role - Role hash
+   * @param account - Account address
+   */
+  async hasRole(role: string, account: string): Promise<boolean> {
+    return this.contract.hasRole(role, account);
+  }
+
+  /**
+   * Get the POLICE_ROLE hash
+   */
+  async getPoliceRole(): Promise<string> {
+    return this.contract.POLICE_ROLE();
+  }
+
+  /**
+   * Get the GUARDIAN_ROLE hash
+   */
+  async getGuardianRole(): Promise<string> {
+    return this.contract.GUARDIAN_ROLE();
+  }
+
+  /**
+   * Get the DEFAULT_ADMIN_ROLE hash
+   */
+  async getDefaultAdminRole(): Promise<string> {
+    return this.contract.DEFAULT_ADMIN_ROLE();
+  }
+
+  // ============ Write Methods - User Balance ============
+
+  /**
+   * Deposit tokens to user's balance in the pool
+   * @param amount - Amount of tokens to deposit
+   */
+  async deposit(amount: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.deposit(amount);
+  }
+
+  /**
+   * Deposit tokens to another address's balance (tokens are pulled from the caller)
+   * @param beneficiary - Address whose balance is credited
+   * @param amount - Amount of tokens to deposit
+   */
+  async depositFor(
+    beneficiary: string,
+    amount: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.depositFor(beneficiary, amount);
+  }
+
+  /**
+   * Deposit tokens to many balances with a single transfer from the caller
+   * @param beneficiaries - Addresses whose balances are credited
+   * @param amounts - Amount credited to each beneficiary
+   */
+  async batchDepositFor(
+    beneficiaries: string[],
+    amounts: bigint[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.batchDepositFor(beneficiaries, amounts);
+  }
+
+  /**
+   * Deposit tokens in one transaction by signing an EIP-2612 permit
+   * for the connected wallet (no separate approve needed)
+   * @param amount - Amount of tokens to deposit
+   * @param permitDeadline - Permit expiration (defaults to one hour from the latest block)
+   */
+  async depositWithPermit(
+    amount: bigint,
+    permitDeadline?: bigint
+  ): Promise<ContractTransactionResponse> {
+    const permit = await this.signPermit(amount, permitDeadline);
+    return this.contract.depositWithPermit(
+      amount,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s
+    );
+  }
+
+  /**
+   * Deposit TLP or an allowlisted payment token to user's balance in the pool
+   * (the token must be approved for the pool first)
+   * @param token - Payment token address
+   * @param amount - Amount of tokens to deposit
+   */
+  async depositToken(
+    token: string,
+    amount: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.depositToken(token, amount);
+  }
+
+  /**
+   * Withdraw tokens from user's balance (requires k-of-n signatures)
+   * @param token - Payment token to withdraw
+   * @param amount - Amount to withdraw
+   * @param nonce - Withdrawal nonce the signatures commit to
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async withdraw(
+    token: string,
+    amount: bigint,
+    nonce: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.withdraw(
+      token,
+      amount,
+      nonce,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  /**
+   * Request a withdrawal without signer approval (escape hatch).
+   * Executable after the challenge window; signers may still claim meanwhile.
+   * @param token - Payment token to withdraw
+   * @param amount - Amount to withdraw
+   */
+  async requestUnilateralWithdrawal(
+    token: string,
+    amount: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.requestUnilateralWithdrawal(token, amount);
+  }
+
+  /**
+   * Execute a pending escape-hatch withdrawal after the challenge window
+   */
+  async executeUnilateralWithdrawal(): Promise<ContractTransactionResponse> {
+    return this.contract.executeUnilateralWithdrawal();
+  }
+
+  /**
+   * Cancel a pending escape-hatch withdrawal
+   */
+  async cancelUnilateralWithdrawal(): Promise<ContractTransactionResponse> {
+    return this.contract.cancelUnilateralWithdrawal();
+  }
+
+  /**
+   * Invalidate withdrawal nonces in one bitmap word, voiding any approvals
+   * signed for them
+   * @param wordPos - Word index (nonce >> 8)
+   * @param mask - Bits to set (1 << (nonce & 0xff) per nonce)
+   */
+  async invalidateNonces(
+    wordPos: bigint,
+    mask: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.invalidateNonces(wordPos, mask);
+  }
+
+  /**
+   * Invalidate a single withdrawal nonce
+   * @param nonce - Withdrawal nonce to void
+   */
+  async invalidateNonce(nonce: bigint): Promise<ContractTransactionResponse> {
+    const { wordPos, mask } = nonceBitmapPosition(nonce);
+    return this.invalidateNonces(wordPos, mask);
+  }
+
+  // ============ Write Methods - Rental Escrow ============
+
+  /**
+   * Lock part of the caller's balance to a rental with one provider.
+   * Claims under this rentalId against the caller's funds are then capped at `amount`.
+   * @param rentalId - Rental ID (bytes32, must not have been locked by the caller)
+   * @param provider - Provider allowed to claim against the lock
+   * @param amount - Maximum claimable amount
+   * @param expiresAt - Timestamp after which claims stop and the remainder is refundable
+   */
+  async openRental(
+    rentalId: string,
+    provider: string,
+    amount: bigint,
+    expiresAt: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.openRental(rentalId, provider, amount, expiresAt);
+  }
+
+  /**
+   * Close a rental and return the unclaimed remainder to the user's balance
+   * (anyone after expiry, or the provider at any time)
+   * @param rentalId - Rental ID (bytes32)
+   * @param user - User who opened the lock
+   */
+  async closeRental(rentalId: string, user: string): Promise<ContractTransactionResponse> {
+    return this.contract.closeRental(rentalId, user);
+  }
+
+  // ============ Write Methods - Payment Streams ============
+
+  /**
+   * Open a payment stream from a user to a provider (requires k-of-n signatures).
+   * Locks `ratePerSecond * maxDuration` from the user's balance.
+   * @param streamId - Stream ID (bytes32, must not have been used before)
+   * @param user - Address of the paying user
+   * @param provider - Address of the provider receiving the stream
+   * @param ratePerSecond - Amount accrued per second
+   * @param maxDuration - Maximum stream duration in seconds
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async openStream(
+    streamId: string,
+    user: string,
+    provider: string,
+    ratePerSecond: bigint,
+    maxDuration: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.openStream(
+      streamId,
+      user,
+      provider,
+      ratePerSecond,
+      maxDuration,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  /**
+   * Withdraw everything a stream has accrued since the last withdrawal (provider only).
+   * Commission, claim cap and delegator rewards apply as for claims.
+   * @param streamId - Stream ID (bytes32)
+   */
+  async withdrawFromStream(
+    streamId: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawFromStream(streamId);
+  }
+
+  /**
+   * Stop a stream as its user or provider. The unaccrued remainder returns
+   * to the user's balance; the provider can still withdraw what accrued,
+   * unless it is banned or below the minimum stake (then that returns too).
+   * @param streamId - Stream ID (bytes32)
+   */
+  async stopStream(streamId: string): Promise<ContractTransactionResponse> {
+    return this.contract.stopStream(streamId);
+  }
+
+  /**
+   * Stop a stream with k-of-n signer approval (callable by anyone)
+   * @param streamId - Stream ID (bytes32)
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async stopStreamWithSignatures(
+    streamId: string,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.stopStreamWithSignatures(
+      streamId,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  // ============ Write Methods - Provider Claim ============
+
+  /**
+   * Provider claims from a user's balance (requires k-of-n signatures).
+   * Only the difference between `cumulativeAmount` and what was already paid
+   * for the rental is transferred.
+   * @param rentalId - Rental ID (bytes32)
+   * @param user - Address of the user to claim from
+   * @param token - Payment token to claim in
+   * @param feeClass - Commission tier the signers chose (0 = default rate)
+   * @param cumulativeAmount - Total owed for the rental so far
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async claim(
+    rentalId: string,
+    user: string,
+    token: string,
+    feeClass: bigint,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.claim(
+      rentalId,
+      user,
+      token,
+      feeClass,
+      cumulativeAmount,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  /**
+   * Provider claims from multiple users in a single transaction
+   * (all claims must use the same payment token)
+   * @param claims - Array of claim requests
+   * @param signatures - Array of signature arrays for each claim
+   */
+  async batchClaim(
+    claims: ClaimRequest[],
+    signatures: string[][]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.batchClaim(claims, signatures);
+  }
+
+  // ============ Write Methods - Disputes and Refunds ============
+
+  /**
+   * Pay out a held claim after its challenge period (callable by anyone).
+   * A banned provider's held payout goes back to the user instead, right away.
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
+   */
+  async releaseClaim(
+    rentalId: string,
+    provider: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.releaseClaim(rentalId, provider);
+  }
+
+  /**
+   * Contest a held claim during its challenge period (the claim's user only).
+   * Blocks release until signers refund or dismiss the dispute.
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
+   */
+  async disputeClaim(
+    rentalId: string,
+    provider: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.disputeClaim(rentalId, provider);
+  }
+
+  /**
+   * Dismiss a dispute with k-of-n signer approval so the claim can be released
+   * @param rentalId - Rental ID (bytes32)
+   * @param provider - Provider address
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async dismissDispute(
+    rentalId: string,
+    provider: string,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.dismissDispute(
+      rentalId,
+      provider,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  /**
+   * Refund a user from a provider (requires k-of-n signatures). Only the
+   * difference between `cumulativeAmount` and what was already refunded for
+   * the rental moves, taken from the held payout first and then from stake.
+   * @param rentalId - Rental ID (bytes32)
+   * @param user - Address of the user to refund
+   * @param provider - Address of the provider paying the refund
+   * @param token - Payment token to refund in
+   * @param cumulativeAmount - Total refunded for the rental so far
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async refund(
+    rentalId: string,
+    user: string,
+    provider: string,
+    token: string,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.refund(
+      rentalId,
+      user,
+      provider,
+      token,
+      cumulativeAmount,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  // ============ Write Methods - Earnings Holdback ============
+
+  /**
+   * Release the caller's vested held-back earnings (provider only)
+   */
+  async releaseVested(): Promise<ContractTransactionResponse> {
+    return this.contract.releaseVested();
+  }
+
+  // ============ Write Methods - Fee Splits ============
+
+  /**
+   * Withdraw the caller's accrued commission/slash split share in a token
+   * @param token - Token the fees were paid in
+   */
+  async withdrawFees(token: string): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawFees(token);
+  }
+
+  // ============ Write Methods - Insurance Pool ============
+
+  /**
+   * Contribute TLP to the insurance pool (requires approval)
+   * @param amount - Amount of TLP to add
+   */
+  async fundInsurancePool(amount: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.fundInsurancePool(amount);
+  }
+
+  /**
+   * Compensate a user from the insurance pool (requires k-of-n signatures).
+   * Only the difference between `cumulativeAmount` and what was already paid
+   * for the incident is credited to the user's TLP balance.
+   * @param incidentId - Incident ID (bytes32)
+   * @param user - Address of the user to compensate
+   * @param cumulativeAmount - Total paid to the user for the incident so far
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   */
+  async payInsurance(
+    incidentId: string,
+    user: string,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.payInsurance(
+      incidentId,
+      user,
+      cumulativeAmount,
+      deadline,
+      epoch,
+      signatures
+    );
+  }
+
+  // ============ Write Methods - Provider Staking ============
+
+  /**
+   * Stake tokens as a provider
+   * @param amount - Amount of tokens to stake
+   * @param duration - Duration to lock the stake (in seconds)
+   */
+  async stake(
+    amount: bigint,
+    duration: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.stake(amount, duration);
+  }
+
+  /**
+   * Stake tokens in one transaction by signing an EIP-2612 permit
+   * for the connected wallet (no separate approve needed)
+   * @param amount - Amount of tokens to stake
+   * @param duration - Duration to lock the stake (in seconds)
+   * @param permitDeadline - Permit expiration (defaults to one hour from the latest block)
+   */
+  async stakeWithPermit(
+    amount: bigint,
+    duration: bigint,
+    permitDeadline?: bigint
+  ): Promise<ContractTransactionResponse> {
+    const permit = await this.signPermit(amount, permitDeadline);
+    return this.contract.stakeWithPermit(
+      amount,
+      duration,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s
+    );
+  }
+
+  /**
+   * Extend stake lock duration
+   * @param newUnlockTime - New unlock timestamp
+   */
+  async extendStakeDuration(
+    newUnlockTime: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.extendStakeDuration(newUnlockTime);
+  }
+
+  /**
+   * Add more tokens to existing stake
+   * @param amount - Amount of tokens to add
+   */
+  async increaseStake(amount: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.increaseStake(amount);
+  }
+
+  /**
+   * Add more tokens to existing stake by signing an EIP-2612 permit
+   * for the connected wallet (no separate approve needed)
+   * @param amount - Amount of tokens to add
+   * @param permitDeadline - Permit expiration (defaults to one hour from the latest block)
+   */
+  async increaseStakeWithPermit(
+    amount: bigint,
+    permitDeadline?: bigint
+  ): Promise<ContractTransactionResponse> {
+    const permit = await this.signPermit(amount, permitDeadline);
+    return this.contract.increaseStakeWithPermit(
+      amount,
+      permit.deadline,
+      permit.v,
+      permit.r,
+      permit.s
+    );
+  }
+
+  /**
+   * Move part of the stake into the unbonding queue (after unlock time)
+   * @param amount - Amount of stake to unbond
+   */
+  async requestUnstake(amount: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.requestUnstake(amount);
+  }
+
+  /**
+   * Withdraw all matured unbonding entries
+   */
+  async withdrawUnbonded(): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawUnbonded();
+  }
+
+  // ============ Write Methods - Delegation ============
+
+  /**
+   * Delegate tokens to a provider
+   * @param provider - Provider address
+   * @param amount - Amount of tokens to delegate
+   */
+  async delegate(
+    provider: string,
+    amount: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.delegate(provider, amount);
+  }
+
+  /**
+   * Start unbonding delegated tokens (slashable until released)
+   * @param provider - Provider address
+   * @param amount - Amount of delegated tokens to unbond
+   */
+  async undelegate(
+    provider: string,
+    amount: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.undelegate(provider, amount);
+  }
+
+  /**
+   * Withdraw undelegated tokens after the unbonding period
+   * @param provider - Provider address
+   */
+  async withdrawUndelegated(
+    provider: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.withdrawUndelegated(provider);
+  }
+
+  /**
+   * Claim accrued delegation rewards
+   * @param provider - Provider address
+   */
+  async claimDelegationRewards(
+    provider: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.claimDelegationRewards(provider);
+  }
+
+  /**
+   * Set the caller's cut of revenue attributable to delegated stake (provider only)
+   * @param feeBps - Fee in basis points (10000 = provider keeps everything)
+   */
+  async setDelegationFee(feeBps: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.setDelegationFee(feeBps);
+  }
+
+  // ============ Admin Methods ============
+
+  /**
+   * Add an authorized signer
+   * @param signer - Signer address to add
+   */
+  async addSigner(signer: string): Promise<ContractTransactionResponse> {
+    return this.contract.addSigner(signer);
+  }
+
+  /**
+   * Remove an authorized signer
+   * @param signer - Signer address to remove
+   */
+  async removeSigner(signer: string): Promise<ContractTransactionResponse> {
+    return this.contract.removeSigner(signer);
+  }
+
+  /**
+   * Set the number of signatures required for user withdrawals
+   * @param k - Number of required signatures
+   */
+  async setRequiredWithdrawalSignatures(
+    k: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setRequiredWithdrawalSignatures(k);
+  }
+
+  /**
+   * Set the number of signatures required for provider claims
+   * @param k - Number of required signatures
+   */
+  async setRequiredClaimSignatures(
+    k: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setRequiredClaimSignatures(k);
+  }
+
+  /**
+   * Set the number of signatures required for user refunds
+   * @param k - Number of required signatures
+   */
+  async setRequiredRefundSignatures(
+    k: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setRequiredRefundSignatures(k);
+  }
+
+  /**
+   * Require more signatures for withdrawals above a given amount
+   * @param threshold - Amount above which escalation applies (0 disables)
+   * @param k - Number of signatures required for large withdrawals
+   */
+  async setLargeWithdrawalPolicy(
+    threshold: bigint,
+    k: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setLargeWithdrawalPolicy(threshold, k);
+  }
+
+  /**
+   * Schedule a switch to a new signer set. The current set stays valid until
+   * activationTime + grace period.
+   * @param newSigners - Signer set for the new epoch
+   * @param activationTime - When the new set becomes current (unix seconds)
+   */
+  async scheduleSignerRotation(
+    newSigners: string[],
+    activationTime: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.scheduleSignerRotation(newSigners, activationTime);
+  }
+
+  /**
+   * Cancel a scheduled signer rotation that has not activated yet
+   */
+  async cancelSignerRotation(): Promise<ContractTransactionResponse> {
+    return this.contract.cancelSignerRotation();
+  }
+
+  /**
+   * End a superseded signer epoch's grace period immediately
+   * @param epoch - Epoch to expire
+   */
+  async expireSignerEpoch(
+    epoch: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.expireSignerEpoch(epoch);
+  }
+
+  /**
+   * Set how long a superseded signer set stays valid after a rotation
+   * @param gracePeriod - Grace period in seconds
+   */
+  async setSignerEpochGracePeriod(
+    gracePeriod: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setSignerEpochGracePeriod(gracePeriod);
+  }
+
+  /**
+   * Update minimum stake duration (timelocked)
+   * @param duration - New minimum duration in seconds
+   */
+  async setMinStakeDuration(
+    duration: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setMinStakeDuration(duration);
+  }
+
+  /**
+   * Update treasury address (timelocked)
+   * @param treasury - New treasury address
+   */
+  async setTreasury(treasury: string): Promise<ContractTransactionResponse> {
+    return this.contract.setTreasury(treasury);
+  }
+
+  /**
+   * Allow or disallow deposits in an ERC-20 payment token (TLP is always allowed)
+   * @param token - Token address
+   * @param allowed - Whether deposits in the token are accepted
+   */
+  async setPaymentToken(
+    token: string,
+    allowed: boolean
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setPaymentToken(token, allowed);
+  }
+
+  /**
+   * Set commission rate for provider claims (timelocked: queued while a
+   * parameter change delay is set, see getPendingParameterChanges)
+   * @param commissionBps - Commission in basis points (10000 = 100%)
+   */
+  async setCommission(
+    commissionBps: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setCommission(commissionBps);
+  }
+
+  /**
+   * Set a negotiated commission rate for one provider (overrides fee classes; timelocked)
+   * @param provider - Provider address
+   * @param commissionBps - Commission in basis points (10000 = 100%)
+   * @param expiresAt - When the override stops applying (0 removes it)
+   */
+  async setProviderCommission(
+    provider: string,
+    commissionBps: bigint,
+    expiresAt: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setProviderCommission(provider, commissionBps, expiresAt);
+  }
+
+  /**
+   * Configure a commission tier that signed claims can select (timelocked)
+   * @param feeClass - Fee class ID (non-zero; 0 is the default rate)
+   * @param commissionBps - Commission in basis points (10000 = 100%)
+   * @param enabled - Whether claims can select the class
+   */
+  async setFeeClass(
+    feeClass: bigint,
+    commissionBps: bigint,
+    enabled: boolean
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setFeeClass(feeClass, commissionBps, enabled);
+  }
+
+  /**
+   * Split claim commission among weighted recipients (timelocked; empty sends it all to treasury)
+   * @param shares - Recipients and their relative weights
+   */
+  async setCommissionSplit(
+    shares: FeeShare[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setCommissionSplit(
+      shares.map((s) => s.recipient),
+      shares.map((s) => s.weight)
+    );
+  }
+
+  /**
+   * Split slashed stake among weighted recipients (timelocked; empty sends it all to treasury)
+   * @param shares - Recipients and their relative weights
+   */
+  async setSlashSplit(
+    shares: FeeShare[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setSlashSplit(
+      shares.map((s) => s.recipient),
+      shares.map((s) => s.weight)
+    );
+  }
+
+  /**
+   * Route a share of slashed funds to the insurance pool (timelocked)
+   * @param shareBps - Share in basis points (10000 = everything to the pool)
+   */
+  async setInsuranceShare(
+    shareBps: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setInsuranceShare(shareBps);
+  }
+
+  /**
+   * Set the challenge window for escape-hatch withdrawals
+   * @param delay - New delay in seconds
+   */
+  async setUnilateralWithdrawalDelay(
+    delay: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setUnilateralWithdrawalDelay(delay);
+  }
+
+  /**
+   * Set the unbonding period for unstake requests
+   * @param period - New period in seconds
+   */
+  async setUnbondingPeriod(
+    period: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setUnbondingPeriod(period);
+  }
+
+  /**
+   * Set the minimum effective stake required to be an active provider
+   * @param minStake - New minimum stake amount
+   */
+  async setMinProviderStake(
+    minStake: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setMinProviderStake(minStake);
+  }
+
+  /**
+   * Set the rules for previously slashed providers staking again
+   * @param rules - Cooldown after unban, extra stake per slash, blacklist slash count (0 = never)
+   */
+  async setReentryRules(rules: ReentryRules): Promise<ContractTransactionResponse> {
+    return this.contract.setReentryRules(
+      rules.cooldown,
+      rules.stakePerSlash,
+      rules.maxSlashCount
+    );
+  }
+
+  /**
+   * Replace the stake tier table (pass an empty array to disable tiering)
+   * @param tiers - Tiers sorted by strictly ascending minStake
+   */
+  async setStakeTiers(
+    tiers: StakeTier[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setStakeTiers(
+      tiers.map((t) => t.name),
+      tiers.map((t) => t.minStake),
+      tiers.map((t) => t.claimCapBps)
+    );
+  }
+
+  /**
+   * Set the default claim cap used when no stake tiers are configured
+   * @param claimCapBps - Cap per window in bps of effective stake (0 = uncapped)
+   * @param window - Window length in seconds
+   */
+  async setClaimCap(
+    claimCapBps: bigint,
+    window: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setClaimCap(claimCapBps, window);
+  }
+
+  /**
+   * Set how long claim payouts are held before release (timelocked)
+   * @param period - Challenge period in seconds (0 = pay claims out immediately)
+   */
+  async setClaimChallengePeriod(
+    period: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setClaimChallengePeriod(period);
+  }
+
+  /**
+   * Set the share of provider payouts held back and its vesting period (timelocked)
+   * @param holdbackBps - Share held back in basis points (0 = pay out in full)
+   * @param vestingPeriod - Linear vesting period in seconds
+   */
+  async setHoldback(
+    holdbackBps: bigint,
+    vestingPeriod: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setHoldback(holdbackBps, vestingPeriod);
+  }
+
+  /**
+   * Set how many police must approve a slash and how long providers can appeal.
+   * Above one approval, police can only slash through proposeSlash.
+   * @param requiredApprovals - Distinct police signatures a slash needs (at least 1)
+   * @param appealWindow - Appeal window for new proposals in seconds
+   */
+  async setSlashGovernance(
+    requiredApprovals: bigint,
+    appealWindow: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setSlashGovernance(requiredApprovals, appealWindow);
+  }
+
+  /**
+   * Set the ERC-2771 forwarder trusted for meta-transactions (timelocked)
+   * @param forwarder - Forwarder address (zero address disables relaying)
+   */
+  async setTrustedForwarder(
+    forwarder: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setTrustedForwarder(forwarder);
+  }
+
+  /**
+   * Set the TLP fee charged on relayed withdrawals and claims (timelocked)
+   * @param fee - Fee per relayed call (0 = free, at most MAX_RELAY_FEE)
+   * @param recipient - Address receiving the fee
+   */
+  async setRelayFee(
+    fee: bigint,
+    recipient: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setRelayFee(fee, recipient);
+  }
+
+  /**
+   * Set how long commission, fee class, treasury and min stake duration changes
+   * are queued before they apply (timelocked itself once a delay is set)
+   * @param delay - Delay in seconds (0 = apply immediately)
+   */
+  async setParameterChangeDelay(
+    delay: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.setParameterChangeDelay(delay);
+  }
+
+  /**
+   * Apply a queued parameter change once its ETA has passed (callable by anyone)
+   * @param changeId - ID of the queued change (see getPendingParameterChanges)
+   */
+  async executeParameterChange(
+    changeId: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.executeParameterChange(changeId);
+  }
+
+  /**
+   * Drop a queued parameter change before it is executed
+   * @param changeId - ID of the queued change
+   */
+  async cancelParameterChange(
+    changeId: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.cancelParameterChange(changeId);
+  }
+
+  /**
+   * Grant a role to an account
+   * @param role - Role hash
+   * @param account - Account address
+   */
+  async grantRole(
+    role: string,
+    account: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.grantRole(role, account);
+  }
+
+  /**
+   * Revoke a role from an account
+   * @param role - Role hash
+   * @param account - Account address
+   */
+  async revokeRole(
+    role: string,
+    account: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.revokeRole(role, account);
+  }
+
+  // ============ Meta-Transactions ============
+
+  /**
+   * Build a signed forward request for a withdrawal, to be submitted by a
+   * relayer so the connected wallet needs no ETH. The relay fee, if any,
+   * is taken from the user's TLP pool balance on top of `amount`.
+   * @param forwarder - Address of the trusted forwarder
+   * @param token - Payment token to withdraw
+   * @param amount - Amount to withdraw
+   * @param nonce - Withdrawal nonce the signatures commit to
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   * @param options - Optional gas and request deadline overrides
+   */
+  async buildRelayedWithdrawal(
+    forwarder: string,
+    token: string,
+    amount: bigint,
+    nonce: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[],
+    options: ForwardRequestOptions = {}
+  ): Promise<ForwardRequestData> {
+    const data = this.contract.interface.encodeFunctionData("withdraw", [
+      token,
+      amount,
+      nonce,
+      deadline,
+      epoch,
+      signatures,
+    ]);
+    return signForwardRequest(this.getRunnerSigner(), forwarder, {
+      to: this.address,
+      data,
+      ...options,
+    });
+  }
+
+  /**
+   * Build a signed forward request for a provider claim, to be submitted by
+   * a relayer. The relay fee, if any, is deducted from the provider payout
+   * (or charged to the provider's TLP pool balance for other payment tokens).
+   * @param forwarder - Address of the trusted forwarder
+   * @param rentalId - Rental ID (bytes32)
+   * @param user - Address of the user to claim from
+   * @param token - Payment token to claim in
+   * @param feeClass - Commission tier the signers chose (0 = default rate)
+   * @param cumulativeAmount - Total owed for the rental so far
+   * @param deadline - Signature expiration timestamp
+   * @param epoch - Signer epoch the signatures commit to
+   * @param signatures - Array of EIP712 signatures from authorized signers
+   * @param options - Optional gas and request deadline overrides
+   */
+  async buildRelayedClaim(
+    forwarder: string,
+    rentalId: string,
+    user: string,
+    token: string,
+    feeClass: bigint,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint,
+    signatures: string[],
+    options: ForwardRequestOptions = {}
+  ): Promise<ForwardRequestData> {
+    const data = this.contract.interface.encodeFunctionData("claim", [
+      rentalId,
+      user,
+      token,
+      feeClass,
+      cumulativeAmount,
+      deadline,
+      epoch,
+      signatures,
+    ]);
+    return signForwardRequest(this.getRunnerSigner(), forwarder, {
+      to: this.address,
+      data,
+      ...options,
+    });
+  }
+
+  // ============ Guardian Methods ============
+
+  /**
+   * Pause one or more scopes (guardian only)
+   * @param scopes - Bitmask of PAUSE_* flags, e.g. PAUSE_WITHDRAWALS | PAUSE_CLAIMS
+   * @param reasonCode - Reason code (bytes32), e.g. encodeBytes32String("SIGNER_COMPROMISE")
+   */
+  async pause(
+    scopes: bigint,
+    reasonCode: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.pause(scopes, reasonCode);
+  }
+
+  /**
+   * Unpause one or more scopes (admin only)
+   * @param scopes - Bitmask of PAUSE_* flags
+   */
+  async unpause(scopes: bigint): Promise<ContractTransactionResponse> {
+    return this.contract.unpause(scopes);
+  }
+
+  // ============ Police Methods ============
+
+  /**
+   * Slash and ban: Remove all stake and ban provider
+   * @param provider - Provider address
+   * @param reasonCode - Reason code recorded in the slash history (bytes32)
+   * @param evidenceHash - Digest of the incident report, e.g. an IPFS CID digest (bytes32)
+   */
+  async slashAndBan(
+    provider: string,
+    reasonCode: string,
+    evidenceHash: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.slashAndBan(provider, reasonCode, evidenceHash);
+  }
+
+  /**
+   * Slash partial stake without banning
+   * @param provider - Provider address
+   * @param slashAmount - Amount to slash
+   * @param reasonCode - Reason code recorded in the slash history (bytes32)
+   * @param evidenceHash - Digest of the incident report, e.g. an IPFS CID digest (bytes32)
+   */
+  async slashPartial(
+    provider: string,
+    slashAmount: bigint,
+    reasonCode: string,
+    evidenceHash: string
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.slashPartial(provider, slashAmount, reasonCode, evidenceHash);
+  }
+
+  /**
+   * Unban a previously banned provider
+   * @param provider - Provider address
+   */
+  async unbanProvider(provider: string): Promise<ContractTransactionResponse> {
+    return this.contract.unbanProvider(provider);
+  }
+
+  /**
+   * Suspend a provider until a given time without touching its stake.
+   * Blocks claims, stream withdrawals and new rentals; lapses automatically.
+   * @param provider - Provider address
+   * @param until - Timestamp the suspension ends (a past time lifts it early)
+   */
+  async suspendProvider(
+    provider: string,
+    until: bigint
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.suspendProvider(provider, until);
+  }
+
+  // ============ Slash Governance Methods ============
+
+  /**
+   * Queue a slash approved by the required number of police signatures.
+   * Anyone can submit; the slash runs via executeSlash after the appeal window.
+   * @param provider - Provider address
+   * @param amount - Amount to slash (ignored for bans)
+   * @param ban - Slash everything and ban the provider
+   * @param reasonCode - Reason code recorded in the slash history (bytes32)
+   * @param evidenceHash - Digest of the incident report (bytes32)
+   * @param deadline - Signature expiration timestamp
+   * @param signatures - EIP712 signatures from distinct police (see signSlashProposal)
+   */
+  async proposeSlash(
+    provider: string,
+    amount: bigint,
+    ban: boolean,
+    reasonCode: string,
+    evidenceHash: string,
+    deadline: bigint,
+    signatures: string[]
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.proposeSlash(
+      provider,
+      amount,
+      ban,
+      reasonCode,
+      evidenceHash,
+      deadline,
+      signatures
+    );
+  }
+
+  /**
+   * Appeal a slash proposed against the caller, escalating it to the admin.
+   * Only possible before the appeal window ends.
+   * @param proposalId - Slash proposal ID
+   */
+  async appealSlash(proposalId: string): Promise<ContractTransactionResponse> {
+    return this.contract.appealSlash(proposalId);
+  }
+
+  /**
+   * Resolve an appealed slash (admin only)
+   * @param proposalId - Slash proposal ID
+   * @param uphold - true makes the slash executable immediately, false rejects it
+   */
+  async resolveSlashAppeal(
+    proposalId: string,
+    uphold: boolean
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.resolveSlashAppeal(proposalId, uphold);
+  }
+
+  /**
+   * Carry out a proposed slash once its appeal window has passed (callable by anyone)
+   * @param proposalId - Slash proposal ID
+   */
+  async executeSlash(proposalId: string): Promise<ContractTransactionResponse> {
+    return this.contract.executeSlash(proposalId);
+  }
+
+  // ============ Event Parsing Helpers ============
+
+  /**
+   * Parse Deposited event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns Deposited event data or null if not found
+   */
+  parseDepositedEvent(logs: (Log | EventLog)[]): DepositedEvent | null {
     for (const log of logs) {
       try {
         const parsed = this.contract.interface.parseLog({
@@ -496,8 +2455,10 @@ export class TLPStakingClient {
         if (parsed?.name === "Deposited") {
           return {
             user: parsed.args[0],
-            amount: parsed.args[1],
-            newBalance: parsed.args[2],
+            payer: parsed.args[1],
+            token: parsed.args[2],
+            amount: parsed.args[3],
+            newBalance: parsed.args[4],
           };
         }
       } catch {
@@ -522,8 +2483,67 @@ export class TLPStakingClient {
         if (parsed?.name === "Withdrawn") {
           return {
             user: parsed.args[0],
-            amount: parsed.args[1],
-            newBalance: parsed.args[2],
+            token: parsed.args[1],
+            amount: parsed.args[2],
+            newBalance: parsed.args[3],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse UnilateralWithdrawalRequested event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns UnilateralWithdrawalRequested event data or null if not found
+   */
+  parseUnilateralWithdrawalRequestedEvent(
+    logs: (Log | EventLog)[]
+  ): UnilateralWithdrawalRequestedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "UnilateralWithdrawalRequested") {
+          return {
+            user: parsed.args[0],
+            token: parsed.args[1],
+            amount: parsed.args[2],
+            releaseTime: parsed.args[3],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse UnilateralWithdrawalExecuted event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns UnilateralWithdrawalExecuted event data or null if not found
+   */
+  parseUnilateralWithdrawalExecutedEvent(
+    logs: (Log | EventLog)[]
+  ): UnilateralWithdrawalExecutedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "UnilateralWithdrawalExecuted") {
+          return {
+            user: parsed.args[0],
+            token: parsed.args[1],
+            amount: parsed.args[2],
+            newBalance: parsed.args[3],
           };
         }
       } catch {
@@ -546,12 +2566,265 @@ export class TLPStakingClient {
           data: log.data,
         });
         if (parsed?.name === "Claimed") {
+          return {
+            rentalId: parsed.args[0],
+            user: parsed.args[1],
+            provider: parsed.args[2],
+            token: parsed.args[3],
+            amount: parsed.args[4],
+            commission: parsed.args[5],
+            commissionBps: parsed.args[6],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse ClaimHeld event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns ClaimHeld event data or null if not found
+   */
+  parseClaimHeldEvent(logs: (Log | EventLog)[]): ClaimHeldEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "ClaimHeld") {
           return {
             rentalId: parsed.args[0],
             user: parsed.args[1],
             provider: parsed.args[2],
             amount: parsed.args[3],
-            commission: parsed.args[4],
+            releaseTime: parsed.args[4],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse ProviderSlashed event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns ProviderSlashed event data or null if not found
+   */
+  parseProviderSlashedEvent(logs: (Log | EventLog)[]): ProviderSlashedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "ProviderSlashed") {
+          return {
+            provider: parsed.args[0],
+            slashedStake: parsed.args[1],
+            banned: parsed.args[2],
+            reasonCode: parsed.args[3],
+            evidenceHash: parsed.args[4],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse SlashProposed event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns SlashProposed event data or null if not found
+   */
+  parseSlashProposedEvent(logs: (Log | EventLog)[]): SlashProposedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "SlashProposed") {
+          return {
+            proposalId: parsed.args[0],
+            provider: parsed.args[1],
+            amount: parsed.args[2],
+            ban: parsed.args[3],
+            reasonCode: parsed.args[4],
+            evidenceHash: parsed.args[5],
+            executableAt: parsed.args[6],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse InsurancePaid event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns InsurancePaid event data or null if not found
+   */
+  parseInsurancePaidEvent(logs: (Log | EventLog)[]): InsurancePaidEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "InsurancePaid") {
+          return {
+            incidentId: parsed.args[0],
+            user: parsed.args[1],
+            amount: parsed.args[2],
+            poolBalance: parsed.args[3],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse Refunded event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns Refunded event data or null if not found
+   */
+  parseRefundedEvent(logs: (Log | EventLog)[]): RefundedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "Refunded") {
+          return {
+            rentalId: parsed.args[0],
+            user: parsed.args[1],
+            provider: parsed.args[2],
+            token: parsed.args[3],
+            amount: parsed.args[4],
+            fromStake: parsed.args[5],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse EarningsHeldBack event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns EarningsHeldBack event data or null if not found
+   */
+  parseEarningsHeldBackEvent(logs: (Log | EventLog)[]): EarningsHeldBackEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "EarningsHeldBack") {
+          return {
+            provider: parsed.args[0],
+            amount: parsed.args[1],
+            vestingEnd: parsed.args[2],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse VestedEarningsReleased event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns VestedEarningsReleased event data or null if not found
+   */
+  parseVestedEarningsReleasedEvent(logs: (Log | EventLog)[]): VestedEarningsReleasedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "VestedEarningsReleased") {
+          return {
+            provider: parsed.args[0],
+            amount: parsed.args[1],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse StreamOpened event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns StreamOpened event data or null if not found
+   */
+  parseStreamOpenedEvent(logs: (Log | EventLog)[]): StreamOpenedEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "StreamOpened") {
+          return {
+            streamId: parsed.args[0],
+            user: parsed.args[1],
+            provider: parsed.args[2],
+            ratePerSecond: parsed.args[3],
+            startTime: parsed.args[4],
+            endTime: parsed.args[5],
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse StreamWithdrawn event from transaction receipt
+   * @param logs - Transaction logs
+   * @returns StreamWithdrawn event data or null if not found
+   */
+  parseStreamWithdrawnEvent(
+    logs: (Log | EventLog)[]
+  ): StreamWithdrawnEvent | null {
+    for (const log of logs) {
+      try {
+        const parsed = this.contract.interface.parseLog({
+          topics: log.topics as string[],
+          data: log.data,
+        });
+        if (parsed?.name === "StreamWithdrawn") {
+          return {
+            streamId: parsed.args[0],
+            provider: parsed.args[1],
+            amount: parsed.args[2],
+            commission: parsed.args[3],
           };
         }
       } catch {
@@ -1,15 +1,24 @@
+import { Contract } from "ethers";
 import type { Signer, TypedDataDomain } from "ethers";
 import {
   EIP712_TYPES,
   TLPStakingDomain,
   WithdrawalData,
   ClaimData,
+  StreamData,
+  StreamStopData,
+  RefundData,
+  DisputeDismissalData,
+  InsurancePayoutData,
+  SlashProposalData,
 } from "./types";
 import { EIP712_DOMAIN_NAME, EIP712_DOMAIN_VERSION } from "./constants";
+import { findUnusedNonce, randomNonce } from "./utils";
 
 /**
  * EIP712 signature helper for TLPStaking contract operations.
- * Used by authorized signers to approve withdrawals and claims.
+ * Used by authorized signers to approve withdrawals, claims, refunds and payment streams,
+ * and by police to approve slash proposals.
  */
 export class TLPStakingSigner {
   private readonly signer: Signer;
@@ -47,9 +56,34 @@ export class TLPStakingSigner {
     return this.signer.getAddress();
   }
 
+  /**
+   * Get the contract's current signer epoch (requires a connected provider)
+   */
+  async getCurrentEpoch(): Promise<bigint> {
+    return this.getReader(
+      "function currentSignerEpoch() view returns (uint256)",
+      "resolve the signer epoch"
+    ).currentSignerEpoch();
+  }
+
+  /**
+   * Get a user's lowest unused withdrawal nonce (requires a connected provider)
+   * @param user - User address
+   * @param from - Lowest nonce to consider (default 0)
+   */
+  async getNextNonce(user: string, from: bigint = 0n): Promise<bigint> {
+    const contract = this.getReader(
+      "function nonceBitmap(address user, uint256 wordPos) view returns (uint256)",
+      "allocate a nonce"
+    );
+    return findUnusedNonce((wordPos) => contract.nonceBitmap(user, wordPos), from);
+  }
+
   /**
    * Sign a withdrawal approval for user balance withdrawal
-   * @param data - Withdrawal data
+   * @param data - Withdrawal data (epoch defaults to the current signer epoch).
+   *   Every signer must sign the same nonce; use collectWithdrawalSignatures to
+   *   pick it once.
    * @returns EIP712 signature
    */
   async signWithdrawal(data: WithdrawalData): Promise<string> {
@@ -57,9 +91,11 @@ export class TLPStakingSigner {
     const types = { Withdrawal: EIP712_TYPES.Withdrawal };
     const value = {
       user: data.user,
+      token: data.token,
       amount: data.amount,
       nonce: data.nonce,
       deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
     };
 
     return this.signer.signTypedData(
@@ -71,7 +107,7 @@ export class TLPStakingSigner {
 
   /**
    * Sign a claim approval for provider to claim from user balance
-   * @param data - Claim data
+   * @param data - Claim data (epoch defaults to the current signer epoch)
    * @returns EIP712 signature
    */
   async signClaim(data: ClaimData): Promise<string> {
@@ -80,9 +116,113 @@ export class TLPStakingSigner {
     const value = {
       rentalId: data.rentalId,
       user: data.user,
+      provider: data.provider,
+      token: data.token,
+      feeClass: data.feeClass ?? 0n,
+      cumulativeAmount: data.cumulativeAmount,
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
+  /**
+   * Sign a refund from a provider back to a user's balance
+   * @param data - Refund data (epoch defaults to the current signer epoch)
+   * @returns EIP712 signature
+   */
+  async signRefund(data: RefundData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { Refund: EIP712_TYPES.Refund };
+    const value = {
+      rentalId: data.rentalId,
+      user: data.user,
+      provider: data.provider,
+      token: data.token,
+      cumulativeAmount: data.cumulativeAmount,
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
+  /**
+   * Sign the dismissal of a user's dispute over a held claim
+   * @param data - Dismissal data (claimedAmount defaults to the rental's current
+   *   paid total, epoch to the current signer epoch)
+   * @returns EIP712 signature
+   */
+  async signDisputeDismissal(data: DisputeDismissalData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { DisputeDismissal: EIP712_TYPES.DisputeDismissal };
+    const value = {
+      rentalId: data.rentalId,
+      provider: data.provider,
+      claimedAmount:
+        data.claimedAmount ??
+        (await this.getReader(
+          "function claimedAmounts(bytes32 rentalId, address provider) view returns (uint256)",
+          "resolve the claimed amount"
+        ).claimedAmounts(data.rentalId, data.provider)),
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
+  /**
+   * Sign a payout from the insurance pool to a user harmed in an incident
+   * @param data - Payout data (epoch defaults to the current signer epoch)
+   * @returns EIP712 signature
+   */
+  async signInsurancePayout(data: InsurancePayoutData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { InsurancePayout: EIP712_TYPES.InsurancePayout };
+    const value = {
+      incidentId: data.incidentId,
+      user: data.user,
+      cumulativeAmount: data.cumulativeAmount,
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
+  /**
+   * Sign approval of a slash proposal (the signer must hold POLICE_ROLE).
+   * Slash proposals aren't tied to a signer epoch.
+   * @param data - Slash proposal data
+   * @returns EIP712 signature
+   */
+  async signSlashProposal(data: SlashProposalData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { SlashProposal: EIP712_TYPES.SlashProposal };
+    const value = {
       provider: data.provider,
       amount: data.amount,
-      nonce: data.nonce,
+      ban: data.ban,
+      reasonCode: data.reasonCode,
+      evidenceHash: data.evidenceHash,
       deadline: data.deadline,
     };
 
@@ -93,6 +233,52 @@ export class TLPStakingSigner {
     );
   }
 
+  /**
+   * Sign approval to open a payment stream from a user to a provider
+   * @param data - Stream data (epoch defaults to the current signer epoch)
+   * @returns EIP712 signature
+   */
+  async signStream(data: StreamData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { Stream: EIP712_TYPES.Stream };
+    const value = {
+      streamId: data.streamId,
+      user: data.user,
+      provider: data.provider,
+      ratePerSecond: data.ratePerSecond,
+      maxDuration: data.maxDuration,
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
+  /**
+   * Sign approval to stop a payment stream
+   * @param data - Stream stop data (epoch defaults to the current signer epoch)
+   * @returns EIP712 signature
+   */
+  async signStreamStop(data: StreamStopData): Promise<string> {
+    const domain = this.getDomain();
+    const types = { StreamStop: EIP712_TYPES.StreamStop };
+    const value = {
+      streamId: data.streamId,
+      deadline: data.deadline,
+      epoch: data.epoch ?? (await this.getCurrentEpoch()),
+    };
+
+    return this.signer.signTypedData(
+      domain as TypedDataDomain,
+      types,
+      value
+    );
+  }
+
   /**
    * Collect signatures from multiple signers for an operation
    * @param signers - Array of TLPStakingSigner instances
@@ -101,9 +287,10 @@ export class TLPStakingSigner {
    *
    * @example
    * ```typescript
+   * const epoch = await signer1.getCurrentEpoch();
    * const signatures = await TLPStakingSigner.collectSignatures(
    *   [signer1, signer2],
-   *   (s) => s.signWithdrawal({ user, amount, nonce, deadline })
+   *   (s) => s.signWithdrawal({ user, token, amount, nonce, deadline, epoch })
    * );
    * ```
    */
@@ -114,6 +301,41 @@ export class TLPStakingSigner {
     return Promise.all(signers.map(signFn));
   }
 
+  /**
+   * Collect withdrawal signatures with one nonce and epoch shared by all signers
+   * @param signers - Array of TLPStakingSigner instances
+   * @param data - Withdrawal data (nonce defaults to a random 256-bit nonce,
+   *   epoch to the current signer epoch read from the first signer)
+   * @returns Nonce and epoch the signatures commit to, and the signatures
+   */
+  static async collectWithdrawalSignatures(
+    signers: TLPStakingSigner[],
+    data: Omit<WithdrawalData, "nonce"> & { nonce?: bigint }
+  ): Promise<{ nonce: bigint; epoch: bigint; signatures: string[] }> {
+    if (signers.length === 0) {
+      throw new Error("At least one signer is required");
+    }
+    const nonce = data.nonce ?? randomNonce();
+    const epoch = data.epoch ?? (await signers[0].getCurrentEpoch());
+    const signatures = await TLPStakingSigner.collectSignatures(signers, (s) =>
+      s.signWithdrawal({ ...data, nonce, epoch })
+    );
+    return { nonce, epoch, signatures };
+  }
+
+  /**
+   * Contract reader for a single view function
+   * @param fragment - Human-readable ABI fragment
+   * @param purpose - What the read is for, used in the error message
+   */
+  private getReader(fragment: string, purpose: string): Contract {
+    const provider = this.signer.provider;
+    if (!provider) {
+      throw new Error(`Signer must be connected to a provider to ${purpose}`);
+    }
+    return new Contract(this.contractAddress, [fragment], provider);
+  }
+
   /**
    * Create a TLPStakingSigner from a signer, fetching chainId from the provider
    * @param signer - Ethers.js signer
@@ -4,21 +4,66 @@ import { keccak256, toUtf8Bytes } from "ethers";
  * Access control role hashes
  */
 export const POLICE_ROLE = keccak256(toUtf8Bytes("POLICE_ROLE"));
+export const GUARDIAN_ROLE = keccak256(toUtf8Bytes("GUARDIAN_ROLE"));
 export const DEFAULT_ADMIN_ROLE =
   "0x0000000000000000000000000000000000000000000000000000000000000000";
 
+/**
+ * Pause scope flags (must match contract, combinable with |)
+ */
+export const PAUSE_DEPOSITS = 1n << 0n;
+export const PAUSE_WITHDRAWALS = 1n << 1n;
+export const PAUSE_CLAIMS = 1n << 2n;
+export const PAUSE_STAKING = 1n << 3n;
+export const PAUSE_ALL =
+  PAUSE_DEPOSITS | PAUSE_WITHDRAWALS | PAUSE_CLAIMS | PAUSE_STAKING;
+
 /**
  * EIP712 type hashes (must match contract)
  */
 export const WITHDRAWAL_TYPEHASH = keccak256(
   toUtf8Bytes(
-    "Withdrawal(address user,uint256 amount,uint256 nonce,uint256 deadline)"
+    "Withdrawal(address user,address token,uint256 amount,uint256 nonce,uint256 deadline,uint256 epoch)"
   )
 );
 
 export const CLAIM_TYPEHASH = keccak256(
   toUtf8Bytes(
-    "Claim(bytes32 rentalId,address user,address provider,uint256 amount,uint256 nonce,uint256 deadline)"
+    "Claim(bytes32 rentalId,address user,address provider,address token,uint256 feeClass,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+  )
+);
+
+export const STREAM_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "Stream(bytes32 streamId,address user,address provider,uint256 ratePerSecond,uint256 maxDuration,uint256 deadline,uint256 epoch)"
+  )
+);
+
+export const STREAM_STOP_TYPEHASH = keccak256(
+  toUtf8Bytes("StreamStop(bytes32 streamId,uint256 deadline,uint256 epoch)")
+);
+
+export const REFUND_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "Refund(bytes32 rentalId,address user,address provider,address token,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+  )
+);
+
+export const DISPUTE_DISMISSAL_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "DisputeDismissal(bytes32 rentalId,address provider,uint256 claimedAmount,uint256 deadline,uint256 epoch)"
+  )
+);
+
+export const INSURANCE_PAYOUT_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "InsurancePayout(bytes32 incidentId,address user,uint256 cumulativeAmount,uint256 deadline,uint256 epoch)"
+  )
+);
+
+export const SLASH_PROPOSAL_TYPEHASH = keccak256(
+  toUtf8Bytes(
+    "SlashProposal(address provider,uint256 amount,bool ban,bytes32 reasonCode,bytes32 evidenceHash,uint256 deadline)"
   )
 );
 
@@ -26,6 +71,8 @@ export const CLAIM_TYPEHASH = keccak256(
  * Default durations in seconds
  */
 export const MIN_STAKE_DURATION = 30 * 24 * 60 * 60; // 30 days
+export const UNILATERAL_WITHDRAWAL_DELAY = 7 * 24 * 60 * 60; // 7 days
+export const UNBONDING_PERIOD = 7 * 24 * 60 * 60; // 7 days
 export const ONE_DAY = 24 * 60 * 60;
 export const ONE_HOUR = 60 * 60;
 
@@ -35,6 +82,11 @@ export const ONE_HOUR = 60 * 60;
 export const EIP712_DOMAIN_NAME = "TLPStaking";
 export const EIP712_DOMAIN_VERSION = "1";
 
+/**
+ * Gas forwarded to TLPStaking by relayed calls unless overridden
+ */
+export const DEFAULT_RELAY_GAS = 500000n;
+
 /**
  * Commission constants
  */
@@ -1,46 +1,162 @@
 // Main client classes
 export { TLPStakingClient } from "./TLPStakingClient";
 export { TLPStakingSigner } from "./TLPStakingSigner";
+export { TLPRelayer, signForwardRequest } from "./TLPRelayer";
 
 // Types
 export type {
   ProviderInfo,
   ClaimRequest,
+  UnbondingEntry,
+  UnbondingBalance,
+  SlashRecord,
+  SlashProposal,
+  StakeTier,
+  ProviderTier,
+  ReentryRules,
+  ReentryStatus,
+  LargeWithdrawalPolicy,
+  SignerEpochInfo,
+  DelegationPoolInfo,
+  DelegationInfo,
+  PendingWithdrawal,
   TLPStakingDomain,
   WithdrawalData,
   ClaimData,
+  PermitSignature,
+  PauseState,
+  RentalLock,
+  PendingClaim,
+  Stream,
+  StreamBalance,
+  Holdback,
+  HoldbackConfig,
+  CommissionOverride,
+  FeeClass,
+  ClaimPreview,
+  PendingParameterChange,
+  FeeShare,
+  StreamData,
+  StreamStopData,
+  RefundData,
+  DisputeDismissalData,
+  InsurancePayoutData,
+  SlashProposalData,
+  ForwardRequestData,
+  ForwardRequestOptions,
+  RelayFeeConfig,
   StakedEvent,
   StakeExtendedEvent,
   StakeIncreasedEvent,
+  UnstakeRequestedEvent,
   StakeWithdrawnEvent,
   ProviderSlashedEvent,
   ProviderUnbannedEvent,
+  ProviderSuspendedEvent,
+  SlashProposedEvent,
+  SlashAppealedEvent,
+  SlashAppealResolvedEvent,
+  SlashExecutedEvent,
+  SlashGovernanceUpdatedEvent,
+  DelegatedEvent,
+  UndelegatedEvent,
+  UndelegationWithdrawnEvent,
+  DelegatorsSlashedEvent,
+  DelegationRewardsAccruedEvent,
+  DelegationRewardsClaimedEvent,
+  DelegationFeeUpdatedEvent,
   DepositedEvent,
   WithdrawnEvent,
+  UnilateralWithdrawalRequestedEvent,
+  UnilateralWithdrawalExecutedEvent,
+  UnilateralWithdrawalCancelledEvent,
+  NoncesInvalidatedEvent,
+  RentalOpenedEvent,
+  RentalClosedEvent,
+  ClaimHeldEvent,
+  ClaimReleasedEvent,
+  ClaimReturnedEvent,
+  ClaimDisputedEvent,
+  DisputeDismissedEvent,
+  RefundedEvent,
+  StreamOpenedEvent,
+  StreamWithdrawnEvent,
+  StreamStoppedEvent,
+  EarningsHeldBackEvent,
+  VestedEarningsReleasedEvent,
+  HoldbackSlashedEvent,
   ClaimedEvent,
   SignerAddedEvent,
   SignerRemovedEvent,
-  RequiredSignaturesUpdatedEvent,
+  SignerRotationScheduledEvent,
+  SignerRotationCancelledEvent,
+  SignerEpochExpiredEvent,
+  SignerEpochGracePeriodUpdatedEvent,
+  RequiredWithdrawalSignaturesUpdatedEvent,
+  RequiredClaimSignaturesUpdatedEvent,
+  RequiredRefundSignaturesUpdatedEvent,
+  LargeWithdrawalPolicyUpdatedEvent,
   CommissionUpdatedEvent,
+  ProviderCommissionUpdatedEvent,
+  FeeClassUpdatedEvent,
+  InsuranceShareUpdatedEvent,
+  InsurancePoolFundedEvent,
+  InsurancePaidEvent,
+  CommissionSplitUpdatedEvent,
+  SlashSplitUpdatedEvent,
+  FeesWithdrawnEvent,
+  ParameterChangeQueuedEvent,
+  ParameterChangeExecutedEvent,
+  ParameterChangeCancelledEvent,
+  ParameterChangeDelayUpdatedEvent,
   TreasuryUpdatedEvent,
+  PaymentTokenUpdatedEvent,
   MinStakeDurationUpdatedEvent,
+  UnilateralWithdrawalDelayUpdatedEvent,
+  UnbondingPeriodUpdatedEvent,
+  MinProviderStakeUpdatedEvent,
+  ReentryRulesUpdatedEvent,
+  StakeTiersUpdatedEvent,
+  ClaimCapUpdatedEvent,
+  ClaimChallengePeriodUpdatedEvent,
+  HoldbackUpdatedEvent,
+  ScopesPausedEvent,
+  ScopesUnpausedEvent,
+  TrustedForwarderUpdatedEvent,
+  RelayFeeUpdatedEvent,
+  RelayFeePaidEvent,
 } from "./types";
 
-export { EIP712_TYPES } from "./types";
+export { EIP712_TYPES, PERMIT_TYPES, FORWARD_REQUEST_TYPES } from "./types";
 
 // Constants
 export {
   POLICE_ROLE,
+  GUARDIAN_ROLE,
+  PAUSE_DEPOSITS,
+  PAUSE_WITHDRAWALS,
+  PAUSE_CLAIMS,
+  PAUSE_STAKING,
+  PAUSE_ALL,
   DEFAULT_ADMIN_ROLE,
   WITHDRAWAL_TYPEHASH,
   CLAIM_TYPEHASH,
+  STREAM_TYPEHASH,
+  STREAM_STOP_TYPEHASH,
+  REFUND_TYPEHASH,
+  DISPUTE_DISMISSAL_TYPEHASH,
+  INSURANCE_PAYOUT_TYPEHASH,
+  SLASH_PROPOSAL_TYPEHASH,
   MIN_STAKE_DURATION,
+  UNILATERAL_WITHDRAWAL_DELAY,
+  UNBONDING_PERIOD,
   ONE_DAY,
   ONE_HOUR,
   EIP712_DOMAIN_NAME,
   EIP712_DOMAIN_VERSION,
   MAX_COMMISSION_BPS,
   BPS_DENOMINATOR,
+  DEFAULT_RELAY_GAS,
 } from "./constants";
 
 // Utilities
@@ -49,9 +165,13 @@ export {
   decodeVmId,
   formatDuration,
   calculateRentalAmount,
+  calculateStreamAccrued,
   calculateUnlockTime,
   isStakeLocked,
   timeUntilUnlock,
   secondsToDays,
   daysToSeconds,
+  nonceBitmapPosition,
+  findUnusedNonce,
+  randomNonce,
 } from "./utils";
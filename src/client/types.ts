@@ -8,6 +8,246 @@ export interface ProviderInfo {
   unlockTime: bigint;
   isBanned: boolean;
   slashCount: bigint;
+  suspendedUntil: bigint; // Claims and new rentals blocked until then (in the past if not suspended)
+}
+
+/**
+ * Stake waiting in the unbonding queue (slashable until releaseTime)
+ */
+export interface UnbondingEntry {
+  amount: bigint;
+  releaseTime: bigint;
+}
+
+/**
+ * One slash of a provider, as recorded by the police
+ */
+export interface SlashRecord {
+  reasonCode: string; // bytes32 reason code
+  evidenceHash: string; // Digest of the incident report (e.g. an IPFS CID digest)
+  amount: bigint; // Total removed: stake, unbonding, delegated stake and unvested earnings
+  timestamp: bigint;
+  police: string; // Account that slashed
+  banned: boolean;
+}
+
+/**
+ * Police-approved slash waiting out its appeal window
+ */
+export interface SlashProposal {
+  provider: string;
+  proposer: string; // Police behind the first signature; recorded in the slash history
+  amount: bigint; // Ignored for bans, which slash everything
+  ban: boolean;
+  reasonCode: string;
+  evidenceHash: string;
+  executableAt: bigint; // End of the appeal window
+  appealed: boolean; // Awaiting the admin's decision
+  closed: boolean; // Executed or rejected on appeal
+}
+
+/**
+ * Provider unbonding totals
+ */
+export interface UnbondingBalance {
+  pending: bigint;
+  withdrawable: bigint;
+}
+
+/**
+ * Stake tier (claimCapBps of 0 means uncapped)
+ */
+export interface StakeTier {
+  name: string;
+  minStake: bigint;
+  claimCapBps: bigint;
+}
+
+/**
+ * Rules for previously slashed providers staking again
+ */
+export interface ReentryRules {
+  cooldown: bigint; // Cooling-off period after an unban (seconds)
+  stakePerSlash: bigint; // Extra minimum initial stake per past slash
+  maxSlashCount: bigint; // Slash count at which a provider is blacklisted (0 = never)
+}
+
+/**
+ * Whether and when an address can stake under the re-entry rules
+ */
+export interface ReentryStatus {
+  eligible: boolean; // False if banned or blacklisted
+  availableAt: bigint; // Earliest time the address may stake (0 if never unbanned)
+  minStake: bigint; // Minimum initial stake, including the premium for past slashes
+}
+
+/**
+ * Highest stake tier a provider meets (found is false when none)
+ */
+export interface ProviderTier {
+  found: boolean;
+  index: bigint;
+  name: string;
+}
+
+/**
+ * Signature escalation for withdrawals above threshold (0 = disabled)
+ */
+export interface LargeWithdrawalPolicy {
+  threshold: bigint;
+  requiredSignatures: bigint;
+}
+
+/**
+ * Signer set for an epoch and its validity window (expiresAt 0 = no expiry)
+ */
+export interface SignerEpochInfo {
+  signers: string[];
+  activationTime: bigint;
+  expiresAt: bigint;
+}
+
+/**
+ * Provider delegation pool totals
+ */
+export interface DelegationPoolInfo {
+  totalDelegated: bigint;
+  unbondingAmount: bigint;
+  feeBps: bigint;
+}
+
+/**
+ * Delegator position with a provider
+ */
+export interface DelegationInfo {
+  amount: bigint;
+  rewards: bigint;
+  unbonding: bigint;
+  releaseTime: bigint;
+}
+
+/**
+ * Pending escape-hatch withdrawal (amount is 0 when none is pending)
+ */
+export interface PendingWithdrawal {
+  token: string;
+  amount: bigint;
+  releaseTime: bigint;
+}
+
+/**
+ * Which operation scopes are currently paused
+ */
+export interface PauseState {
+  scopes: bigint; // Raw bitmask of PAUSE_* flags
+  deposits: boolean;
+  withdrawals: boolean;
+  claims: boolean;
+  staking: boolean;
+}
+
+/**
+ * Funds a user locked to a rental (user is the zero address if no lock exists)
+ */
+export interface RentalLock {
+  user: string;
+  provider: string;
+  amount: bigint; // Maximum claimable under the rentalId
+  claimed: bigint;
+  expiresAt: bigint;
+  closed: boolean;
+}
+
+/**
+ * Claim payout held for the challenge period (amount is 0 when none is held)
+ */
+export interface PendingClaim {
+  user: string;
+  token: string; // Payment token the payout is held in
+  amount: bigint; // Provider payout after commission, before the relay fee
+  fee: bigint; // Relay fees already paid out of the payout
+  releaseTime: bigint;
+  disputed: boolean;
+}
+
+/**
+ * Signer-opened payment stream (user is the zero address if no stream exists)
+ */
+export interface Stream {
+  user: string;
+  provider: string;
+  ratePerSecond: bigint;
+  startTime: bigint;
+  endTime: bigint; // Accrual stops here (the stop time if stopped early)
+  withdrawn: bigint;
+}
+
+/**
+ * Accrued and withdrawable amounts of a payment stream
+ */
+export interface StreamBalance {
+  accrued: bigint; // Total accrued so far, including withdrawn amounts
+  withdrawable: bigint;
+}
+
+/**
+ * Provider earnings held back from payouts, split into locked and vested parts
+ */
+export interface Holdback {
+  locked: bigint; // Not vested yet; slashable by police
+  vested: bigint; // Releasable with releaseVested
+  vestingEnd: bigint; // When the locked amount is fully vested
+}
+
+/**
+ * Share of provider payouts held back and its linear vesting period
+ */
+export interface HoldbackConfig {
+  holdbackBps: bigint;
+  vestingPeriod: bigint;
+}
+
+/**
+ * Negotiated commission rate for one provider
+ */
+export interface CommissionOverride {
+  commissionBps: bigint;
+  expiresAt: bigint; // Override stops applying at this time (0 = none set)
+}
+
+/**
+ * Commission tier selectable by the feeClass of a signed claim
+ */
+export interface FeeClass {
+  commissionBps: bigint;
+  enabled: boolean;
+}
+
+/**
+ * Commission/provider split a claim would be paid out with
+ */
+export interface ClaimPreview {
+  commissionBps: bigint; // Rate applied: provider override, else fee class, else the default
+  commission: bigint; // Sent to treasury or the commission split
+  providerAmount: bigint; // Provider revenue before delegator rewards, relay fee and holdback
+}
+
+/**
+ * Weighted recipient of a commission or slash split
+ */
+export interface FeeShare {
+  recipient: string;
+  weight: bigint; // Relative to the sum of all weights in the split
+}
+
+/**
+ * Timelocked parameter change waiting for its ETA
+ */
+export interface PendingParameterChange {
+  changeId: string; // Pass to executeParameterChange / cancelParameterChange
+  setter: string; // Timelocked setter the change applies, e.g. "setCommission"
+  args: unknown[]; // Decoded setter arguments
+  eta: bigint; // Executable from this time
 }
 
 /**
@@ -16,8 +256,11 @@ export interface ProviderInfo {
 export interface ClaimRequest {
   rentalId: string;
   user: string;
-  amount: bigint;
+  token: string; // Payment token; every claim in a batch must use the same one
+  feeClass: bigint; // Commission tier (0 = default rate)
+  cumulativeAmount: bigint; // Running total owed for (rentalId, provider)
   deadline: bigint;
+  epoch: bigint;
 }
 
 /**
@@ -36,28 +279,148 @@ export interface TLPStakingDomain extends TypedDataDomain {
 export const EIP712_TYPES: Record<string, TypedDataField[]> = {
   Withdrawal: [
     { name: "user", type: "address" },
+    { name: "token", type: "address" },
     { name: "amount", type: "uint256" },
     { name: "nonce", type: "uint256" },
     { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
   ],
   Claim: [
     { name: "rentalId", type: "bytes32" },
     { name: "user", type: "address" },
+    { name: "provider", type: "address" },
+    { name: "token", type: "address" },
+    { name: "feeClass", type: "uint256" },
+    { name: "cumulativeAmount", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  Stream: [
+    { name: "streamId", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "provider", type: "address" },
+    { name: "ratePerSecond", type: "uint256" },
+    { name: "maxDuration", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  StreamStop: [
+    { name: "streamId", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  Refund: [
+    { name: "rentalId", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "provider", type: "address" },
+    { name: "token", type: "address" },
+    { name: "cumulativeAmount", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  DisputeDismissal: [
+    { name: "rentalId", type: "bytes32" },
+    { name: "provider", type: "address" },
+    { name: "claimedAmount", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  InsurancePayout: [
+    { name: "incidentId", type: "bytes32" },
+    { name: "user", type: "address" },
+    { name: "cumulativeAmount", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "epoch", type: "uint256" },
+  ],
+  SlashProposal: [
     { name: "provider", type: "address" },
     { name: "amount", type: "uint256" },
+    { name: "ban", type: "bool" },
+    { name: "reasonCode", type: "bytes32" },
+    { name: "evidenceHash", type: "bytes32" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * EIP-2612 permit type definition (signed against the TLP token's domain)
+ */
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
     { name: "nonce", type: "uint256" },
     { name: "deadline", type: "uint256" },
   ],
 };
 
+/**
+ * Split EIP-2612 permit signature approving the staking contract
+ */
+export interface PermitSignature {
+  owner: string;
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * ERC-2771 forward request type definition (signed against the forwarder's domain)
+ */
+export const FORWARD_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+/**
+ * Signed forward request, as accepted by the forwarder's execute()
+ */
+export interface ForwardRequestData {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: string;
+  signature: string;
+}
+
+/**
+ * Optional overrides when building a forward request
+ */
+export interface ForwardRequestOptions {
+  gas?: bigint; // Defaults to DEFAULT_RELAY_GAS
+  deadline?: bigint; // Defaults to one hour from the latest block
+}
+
+/**
+ * Relay fee charged on withdrawals and claims relayed through the forwarder
+ */
+export interface RelayFeeConfig {
+  fee: bigint;
+  recipient: string;
+}
+
 /**
  * Withdrawal data for EIP712 signing
  */
 export interface WithdrawalData {
   user: string;
+  token: string; // TLP or a payment token
   amount: bigint;
-  nonce: bigint;
+  nonce: bigint; // Chosen once per withdrawal and shared by all signers
   deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
 }
 
 /**
@@ -67,9 +430,80 @@ export interface ClaimData {
   rentalId: string;
   user: string;
   provider: string;
-  amount: bigint;
-  nonce: bigint;
+  token: string; // TLP or a payment token (rental locks are TLP only)
+  feeClass?: bigint; // Commission tier; defaults to 0 (the default rate)
+  cumulativeAmount: bigint; // Running total owed for the rental, not a delta
+  deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
+}
+
+/**
+ * Refund data for EIP712 signing
+ */
+export interface RefundData {
+  rentalId: string;
+  user: string;
+  provider: string;
+  token: string; // Refunds in tokens other than TLP can't fall back to stake
+  cumulativeAmount: bigint; // Running total refunded for the rental, not a delta
+  deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
+}
+
+/**
+ * Insurance payout data for EIP712 signing
+ */
+export interface InsurancePayoutData {
+  incidentId: string; // Incident the payout references
+  user: string;
+  cumulativeAmount: bigint; // Running total paid to the user for the incident, not a delta
+  deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
+}
+
+/**
+ * Slash proposal data for EIP712 signing by police
+ */
+export interface SlashProposalData {
+  provider: string;
+  amount: bigint; // Ignored for bans, which slash everything
+  ban: boolean;
+  reasonCode: string;
+  evidenceHash: string; // Digest of the incident report
+  deadline: bigint;
+}
+
+/**
+ * Dispute dismissal data for EIP712 signing
+ */
+export interface DisputeDismissalData {
+  rentalId: string;
+  provider: string;
+  claimedAmount?: bigint; // Defaults to the rental's current claimedAmounts
+  deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
+}
+
+/**
+ * Stream data for EIP712 signing
+ */
+export interface StreamData {
+  streamId: string;
+  user: string;
+  provider: string;
+  ratePerSecond: bigint;
+  maxDuration: bigint; // Seconds; ratePerSecond * maxDuration is locked from the user's balance
+  deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
+}
+
+/**
+ * Stream stop data for EIP712 signing
+ */
+export interface StreamStopData {
+  streamId: string;
   deadline: bigint;
+  epoch?: bigint; // Defaults to the contract's current signer epoch
 }
 
 /**
@@ -95,6 +529,12 @@ export interface StakeIncreasedEvent {
   newUnlockTime: bigint;
 }
 
+export interface UnstakeRequestedEvent {
+  provider: string;
+  amount: bigint;
+  releaseTime: bigint;
+}
+
 export interface StakeWithdrawnEvent {
   provider: string;
   amount: bigint;
@@ -104,32 +544,238 @@ export interface ProviderSlashedEvent {
   provider: string;
   slashedStake: bigint;
   banned: boolean;
+  reasonCode: string;
+  evidenceHash: string;
 }
 
 export interface ProviderUnbannedEvent {
   provider: string;
 }
 
+export interface ProviderSuspendedEvent {
+  provider: string;
+  until: bigint;
+}
+
+// Slash governance events
+export interface SlashProposedEvent {
+  proposalId: string;
+  provider: string;
+  amount: bigint;
+  ban: boolean;
+  reasonCode: string;
+  evidenceHash: string;
+  executableAt: bigint;
+}
+
+export interface SlashAppealedEvent {
+  proposalId: string;
+  provider: string;
+}
+
+export interface SlashAppealResolvedEvent {
+  proposalId: string;
+  upheld: boolean;
+}
+
+export interface SlashExecutedEvent {
+  proposalId: string;
+}
+
+export interface SlashGovernanceUpdatedEvent {
+  requiredApprovals: bigint;
+  appealWindow: bigint;
+}
+
+// Delegation events
+export interface DelegatedEvent {
+  delegator: string;
+  provider: string;
+  amount: bigint;
+  shares: bigint;
+}
+
+export interface UndelegatedEvent {
+  delegator: string;
+  provider: string;
+  amount: bigint;
+  releaseTime: bigint;
+}
+
+export interface UndelegationWithdrawnEvent {
+  delegator: string;
+  provider: string;
+  amount: bigint;
+}
+
+export interface DelegatorsSlashedEvent {
+  provider: string;
+  slashedAmount: bigint;
+}
+
+export interface DelegationRewardsAccruedEvent {
+  provider: string;
+  amount: bigint;
+}
+
+export interface DelegationRewardsClaimedEvent {
+  delegator: string;
+  provider: string;
+  amount: bigint;
+}
+
+export interface DelegationFeeUpdatedEvent {
+  provider: string;
+  oldFeeBps: bigint;
+  newFeeBps: bigint;
+}
+
 // User balance events
 export interface DepositedEvent {
   user: string;
+  payer: string;
+  token: string;
   amount: bigint;
   newBalance: bigint;
 }
 
 export interface WithdrawnEvent {
   user: string;
+  token: string;
   amount: bigint;
   newBalance: bigint;
 }
 
+export interface UnilateralWithdrawalRequestedEvent {
+  user: string;
+  token: string;
+  amount: bigint;
+  releaseTime: bigint;
+}
+
+export interface UnilateralWithdrawalExecutedEvent {
+  user: string;
+  token: string;
+  amount: bigint;
+  newBalance: bigint;
+}
+
+export interface UnilateralWithdrawalCancelledEvent {
+  user: string;
+}
+
+export interface NoncesInvalidatedEvent {
+  user: string;
+  wordPos: bigint;
+  mask: bigint;
+}
+
 // Claim event
-export interface ClaimedEvent {
+export interface RentalOpenedEvent {
+  rentalId: string;
+  user: string;
+  provider: string;
+  amount: bigint;
+  expiresAt: bigint;
+}
+
+export interface RentalClosedEvent {
+  rentalId: string;
+  user: string;
+  refunded: bigint;
+}
+
+// Dispute and refund events
+export interface ClaimHeldEvent {
+  rentalId: string;
+  user: string;
+  provider: string;
+  amount: bigint;
+  releaseTime: bigint;
+}
+
+export interface ClaimReleasedEvent {
+  rentalId: string;
+  provider: string;
+  amount: bigint;
+}
+
+export interface ClaimReturnedEvent {
   rentalId: string;
   user: string;
   provider: string;
   amount: bigint;
+}
+
+export interface ClaimDisputedEvent {
+  rentalId: string;
+  user: string;
+  provider: string;
+}
+
+export interface DisputeDismissedEvent {
+  rentalId: string;
+  provider: string;
+}
+
+export interface RefundedEvent {
+  rentalId: string;
+  user: string;
+  provider: string;
+  token: string;
+  amount: bigint; // Refunded by this call (delta to the signed cumulative amount)
+  fromStake: bigint; // Part taken from the provider's stake rather than a held payout
+}
+
+// Payment stream events
+export interface StreamOpenedEvent {
+  streamId: string;
+  user: string;
+  provider: string;
+  ratePerSecond: bigint;
+  startTime: bigint;
+  endTime: bigint;
+}
+
+export interface StreamWithdrawnEvent {
+  streamId: string;
+  provider: string;
+  amount: bigint;
+  commission: bigint;
+}
+
+export interface StreamStoppedEvent {
+  streamId: string;
+  stoppedBy: string;
+  accrued: bigint;
+  refunded: bigint;
+}
+
+// Earnings holdback events
+export interface EarningsHeldBackEvent {
+  provider: string;
+  amount: bigint;
+  vestingEnd: bigint; // Vesting end of the merged schedule
+}
+
+export interface VestedEarningsReleasedEvent {
+  provider: string;
+  amount: bigint;
+}
+
+export interface HoldbackSlashedEvent {
+  provider: string;
+  amount: bigint;
+}
+
+export interface ClaimedEvent {
+  rentalId: string;
+  user: string;
+  provider: string;
+  token: string; // Payment token; commission went to treasury in the same token
+  amount: bigint; // Paid by this claim (delta to the signed cumulative amount)
   commission: bigint;
+  commissionBps: bigint; // Rate the commission was charged at
 }
 
 // Admin events
@@ -141,22 +787,194 @@ export interface SignerRemovedEvent {
   signer: string;
 }
 
-export interface RequiredSignaturesUpdatedEvent {
+export interface SignerRotationScheduledEvent {
+  epoch: bigint;
+  activationTime: bigint;
+  previousEpochExpiresAt: bigint;
+}
+
+export interface SignerRotationCancelledEvent {
+  epoch: bigint;
+}
+
+export interface SignerEpochExpiredEvent {
+  epoch: bigint;
+}
+
+export interface SignerEpochGracePeriodUpdatedEvent {
+  oldGracePeriod: bigint;
+  newGracePeriod: bigint;
+}
+
+export interface RequiredWithdrawalSignaturesUpdatedEvent {
+  oldRequired: bigint;
+  newRequired: bigint;
+}
+
+export interface RequiredClaimSignaturesUpdatedEvent {
   oldRequired: bigint;
   newRequired: bigint;
 }
 
+export interface RequiredRefundSignaturesUpdatedEvent {
+  oldRequired: bigint;
+  newRequired: bigint;
+}
+
+export interface LargeWithdrawalPolicyUpdatedEvent {
+  threshold: bigint;
+  requiredSignatures: bigint;
+}
+
 export interface CommissionUpdatedEvent {
   oldCommission: bigint;
   newCommission: bigint;
 }
 
+export interface ProviderCommissionUpdatedEvent {
+  provider: string;
+  commissionBps: bigint;
+  expiresAt: bigint; // 0 removes the override
+}
+
+export interface FeeClassUpdatedEvent {
+  feeClass: bigint;
+  commissionBps: bigint;
+  enabled: boolean;
+}
+
+export interface InsuranceShareUpdatedEvent {
+  oldShareBps: bigint;
+  newShareBps: bigint;
+}
+
+export interface InsurancePoolFundedEvent {
+  source: string; // Slashed provider, or the account that called fundInsurancePool
+  amount: bigint;
+  poolBalance: bigint;
+}
+
+export interface InsurancePaidEvent {
+  incidentId: string;
+  user: string;
+  amount: bigint; // Paid by this call (delta to the signed cumulative amount)
+  poolBalance: bigint;
+}
+
+export interface CommissionSplitUpdatedEvent {
+  recipients: string[];
+  weights: bigint[];
+}
+
+export interface SlashSplitUpdatedEvent {
+  recipients: string[];
+  weights: bigint[];
+}
+
+export interface FeesWithdrawnEvent {
+  recipient: string;
+  token: string;
+  amount: bigint;
+}
+
+export interface ParameterChangeQueuedEvent {
+  changeId: string;
+  selector: string; // Selector of the timelocked setter
+  data: string; // ABI-encoded setter arguments
+  eta: bigint;
+}
+
+export interface ParameterChangeExecutedEvent {
+  changeId: string;
+}
+
+export interface ParameterChangeCancelledEvent {
+  changeId: string;
+}
+
+export interface ParameterChangeDelayUpdatedEvent {
+  oldDelay: bigint;
+  newDelay: bigint;
+}
+
 export interface TreasuryUpdatedEvent {
   oldTreasury: string;
   newTreasury: string;
 }
 
+export interface PaymentTokenUpdatedEvent {
+  token: string;
+  allowed: boolean;
+}
+
 export interface MinStakeDurationUpdatedEvent {
   oldDuration: bigint;
   newDuration: bigint;
 }
+
+export interface UnilateralWithdrawalDelayUpdatedEvent {
+  oldDelay: bigint;
+  newDelay: bigint;
+}
+
+export interface UnbondingPeriodUpdatedEvent {
+  oldPeriod: bigint;
+  newPeriod: bigint;
+}
+
+export interface MinProviderStakeUpdatedEvent {
+  oldMinStake: bigint;
+  newMinStake: bigint;
+}
+
+export interface ReentryRulesUpdatedEvent {
+  cooldown: bigint;
+  stakePerSlash: bigint;
+  maxSlashCount: bigint;
+}
+
+export interface StakeTiersUpdatedEvent {
+  tierCount: bigint;
+}
+
+export interface ClaimCapUpdatedEvent {
+  claimCapBps: bigint;
+  claimCapWindow: bigint;
+}
+
+export interface ClaimChallengePeriodUpdatedEvent {
+  oldPeriod: bigint;
+  newPeriod: bigint;
+}
+
+export interface HoldbackUpdatedEvent {
+  holdbackBps: bigint;
+  vestingPeriod: bigint;
+}
+
+export interface ScopesPausedEvent {
+  guardian: string;
+  scopes: bigint;
+  reasonCode: string;
+}
+
+export interface ScopesUnpausedEvent {
+  admin: string;
+  scopes: bigint;
+}
+
+export interface TrustedForwarderUpdatedEvent {
+  oldForwarder: string;
+  newForwarder: string;
+}
+
+export interface RelayFeeUpdatedEvent {
+  fee: bigint;
+  recipient: string;
+}
+
+export interface RelayFeePaidEvent {
+  payer: string;
+  recipient: string;
+  fee: bigint;
+}
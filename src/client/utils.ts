@@ -1,4 +1,10 @@
-import { encodeBytes32String, decodeBytes32String, toUtf8String } from "ethers";
+import {
+  encodeBytes32String,
+  decodeBytes32String,
+  toUtf8String,
+  randomBytes,
+  toBigInt,
+} from "ethers";
 
 /**
  * Encode a VM identifier string to bytes32
@@ -76,6 +82,23 @@ export function calculateRentalAmount(
   return pricePerSecond * duration;
 }
 
+/**
+ * Calculate how much a payment stream has accrued at a given time
+ * @param stream - Stream rate, start and end (as returned by getStream)
+ * @param at - Unix timestamp to evaluate at (defaults to now)
+ * @returns Accrued amount in wei, including amounts already withdrawn
+ */
+export function calculateStreamAccrued(
+  stream: { ratePerSecond: bigint; startTime: bigint; endTime: bigint },
+  at: bigint = BigInt(Math.floor(Date.now() / 1000))
+): bigint {
+  const end = at < stream.endTime ? at : stream.endTime;
+  if (end <= stream.startTime) {
+    return BigInt(0);
+  }
+  return stream.ratePerSecond * (end - stream.startTime);
+}
+
 /**
  * Calculate unlock timestamp from current time and duration
  * @param durationSeconds - Duration in seconds
@@ -131,3 +154,48 @@ export function secondsToDays(seconds: bigint | number): number {
 export function daysToSeconds(days: number): bigint {
   return BigInt(Math.floor(days * 86400));
 }
+
+/**
+ * Locate an unordered nonce in the contract's nonce bitmap
+ * @param nonce - Withdrawal nonce
+ * @returns Bitmap word index and the mask for the nonce's bit
+ */
+export function nonceBitmapPosition(nonce: bigint): {
+  wordPos: bigint;
+  mask: bigint;
+} {
+  return { wordPos: nonce >> 8n, mask: 1n << (nonce & 0xffn) };
+}
+
+/**
+ * Random 256-bit withdrawal nonce. Nonces are unordered, so a random value
+ * cannot collide with another pending approval for the same user.
+ * @returns Nonce to share across every signer of one withdrawal
+ */
+export function randomNonce(): bigint {
+  return toBigInt(randomBytes(32));
+}
+
+/**
+ * Find the lowest unused nonce at or after `from` in a nonce bitmap
+ * @param readWord - Reads bitmap word `wordPos` for the account
+ * @param from - Lowest nonce to consider
+ * @returns First nonce whose bit is not set
+ */
+export async function findUnusedNonce(
+  readWord: (wordPos: bigint) => Promise<bigint>,
+  from: bigint = 0n
+): Promise<bigint> {
+  let { wordPos } = nonceBitmapPosition(from);
+  let bit = from & 0xffn;
+  for (;;) {
+    const word = await readWord(wordPos);
+    for (; bit < 256n; bit++) {
+      if ((word & (1n << bit)) === 0n) {
+        return (wordPos << 8n) | bit;
+      }
+    }
+    wordPos++;
+    bit = 0n;
+  }
+}
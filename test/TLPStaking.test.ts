@@ -2,11 +2,21 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { TLPStaking, Timeleap } from "../typechain-types";
+import { TLPStaking, Timeleap, TLPForwarder } from "../typechain-types";
+import {
+  TLPStakingClient,
+  TLPStakingSigner,
+  TLPRelayer,
+  signForwardRequest,
+  findUnusedNonce,
+  calculateStreamAccrued
+} from "../src/client";
 
 describe("TLPStaking", function () {
   let tlpToken: Timeleap;
+  let tlpAddress: string;
   let staking: TLPStaking;
+  let extensions: [string, string];
   let admin: HardhatEthersSigner;
   let police: HardhatEthersSigner;
   let treasury: HardhatEthersSigner;
@@ -21,8 +31,11 @@ describe("TLPStaking", function () {
   const STAKE_AMOUNT = ethers.parseEther("10000");
   const DEPOSIT_AMOUNT = ethers.parseEther("1000");
   const MIN_STAKE_DURATION = 30 * 24 * 60 * 60; // 30 days in seconds
+  const SIGNER_EPOCH = 0n; // Initial signer epoch
 
   const POLICE_ROLE = ethers.keccak256(ethers.toUtf8Bytes("POLICE_ROLE"));
+  const SLASH_REASON = ethers.encodeBytes32String("DOWNTIME");
+  const EVIDENCE_HASH = ethers.id("incident-report");
   const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
 
   // Helper function to create EIP712 domain
@@ -55,18 +68,22 @@ describe("TLPStaking", function () {
     user: string,
     amount: bigint,
     nonce: bigint,
-    deadline: bigint
+    deadline: bigint,
+    epoch: bigint = SIGNER_EPOCH,
+    token: string = tlpAddress
   ): Promise<string[]> {
     const domain = await getDomain();
     const types = {
       Withdrawal: [
         { name: "user", type: "address" },
+        { name: "token", type: "address" },
         { name: "amount", type: "uint256" },
         { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" }
+        { name: "deadline", type: "uint256" },
+        { name: "epoch", type: "uint256" }
       ]
     };
-    const value = { user, amount, nonce, deadline };
+    const value = { user, token, amount, nonce, deadline, epoch };
 
     const signatures: string[] = [];
     for (const signer of signersList) {
@@ -76,15 +93,22 @@ describe("TLPStaking", function () {
     return signatures;
   }
 
+  // Helper function to pick the lowest unused withdrawal nonce
+  async function nextNonce(user: string): Promise<bigint> {
+    return findUnusedNonce((wordPos) => staking.nonceBitmap(user, wordPos));
+  }
+
   // Helper function to sign claim
   async function signClaim(
     signersList: HardhatEthersSigner[],
     rentalId: string,
     user: string,
     provider: string,
-    amount: bigint,
-    nonce: bigint,
-    deadline: bigint
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint = SIGNER_EPOCH,
+    token: string = tlpAddress,
+    feeClass: bigint = 0n
   ): Promise<string[]> {
     const domain = await getDomain();
     const types = {
@@ -92,12 +116,109 @@ describe("TLPStaking", function () {
         { name: "rentalId", type: "bytes32" },
         { name: "user", type: "address" },
         { name: "provider", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" }
+        { name: "token", type: "address" },
+        { name: "feeClass", type: "uint256" },
+        { name: "cumulativeAmount", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "epoch", type: "uint256" }
+      ]
+    };
+    const value = { rentalId, user, provider, token, feeClass, cumulativeAmount, deadline, epoch };
+
+    const signatures: string[] = [];
+    for (const signer of signersList) {
+      const signature = await signer.signTypedData(domain, types, value);
+      signatures.push(signature);
+    }
+    return signatures;
+  }
+
+  // Helper function to sign refund
+  async function signRefund(
+    signersList: HardhatEthersSigner[],
+    rentalId: string,
+    user: string,
+    provider: string,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint = SIGNER_EPOCH,
+    token: string = tlpAddress
+  ): Promise<string[]> {
+    const domain = await getDomain();
+    const types = {
+      Refund: [
+        { name: "rentalId", type: "bytes32" },
+        { name: "user", type: "address" },
+        { name: "provider", type: "address" },
+        { name: "token", type: "address" },
+        { name: "cumulativeAmount", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "epoch", type: "uint256" }
+      ]
+    };
+    const value = { rentalId, user, provider, token, cumulativeAmount, deadline, epoch };
+
+    const signatures: string[] = [];
+    for (const signer of signersList) {
+      const signature = await signer.signTypedData(domain, types, value);
+      signatures.push(signature);
+    }
+    return signatures;
+  }
+
+  // Helper function to sign an insurance payout
+  async function signInsurancePayout(
+    signersList: HardhatEthersSigner[],
+    incidentId: string,
+    user: string,
+    cumulativeAmount: bigint,
+    deadline: bigint,
+    epoch: bigint = SIGNER_EPOCH
+  ): Promise<string[]> {
+    const domain = await getDomain();
+    const types = {
+      InsurancePayout: [
+        { name: "incidentId", type: "bytes32" },
+        { name: "user", type: "address" },
+        { name: "cumulativeAmount", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "epoch", type: "uint256" }
+      ]
+    };
+    const value = { incidentId, user, cumulativeAmount, deadline, epoch };
+
+    const signatures: string[] = [];
+    for (const signer of signersList) {
+      const signature = await signer.signTypedData(domain, types, value);
+      signatures.push(signature);
+    }
+    return signatures;
+  }
+
+  // Helper function to sign a payment stream
+  async function signStream(
+    signersList: HardhatEthersSigner[],
+    streamId: string,
+    user: string,
+    provider: string,
+    ratePerSecond: bigint,
+    maxDuration: bigint,
+    deadline: bigint,
+    epoch: bigint = SIGNER_EPOCH
+  ): Promise<string[]> {
+    const domain = await getDomain();
+    const types = {
+      Stream: [
+        { name: "streamId", type: "bytes32" },
+        { name: "user", type: "address" },
+        { name: "provider", type: "address" },
+        { name: "ratePerSecond", type: "uint256" },
+        { name: "maxDuration", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "epoch", type: "uint256" }
       ]
     };
-    const value = { rentalId, user, provider, amount, nonce, deadline };
+    const value = { streamId, user, provider, ratePerSecond, maxDuration, deadline, epoch };
 
     const signatures: string[] = [];
     for (const signer of signersList) {
@@ -114,13 +235,21 @@ describe("TLPStaking", function () {
     const TimeleapFactory = await ethers.getContractFactory("Timeleap");
     tlpToken = await TimeleapFactory.deploy(admin.address);
     await tlpToken.waitForDeployment();
+    tlpAddress = await tlpToken.getAddress();
+
+    // Deploy extensions and staking contract
+    const ExtensionFactory = await ethers.getContractFactory("TLPStakingExtension");
+    const AdminExtensionFactory = await ethers.getContractFactory("TLPStakingAdminExtension");
+    const extension = await ExtensionFactory.deploy(await tlpToken.getAddress());
+    const adminExtension = await AdminExtensionFactory.deploy(await tlpToken.getAddress());
+    extensions = [await extension.getAddress(), await adminExtension.getAddress()];
 
-    // Deploy staking contract
     const StakingFactory = await ethers.getContractFactory("TLPStaking");
     staking = await StakingFactory.deploy(
       await tlpToken.getAddress(),
       treasury.address,
-      admin.address
+      admin.address,
+      ...extensions
     );
     await staking.waitForDeployment();
 
@@ -131,7 +260,9 @@ describe("TLPStaking", function () {
     await staking.connect(admin).addSigner(signer1.address);
     await staking.connect(admin).addSigner(signer2.address);
     await staking.connect(admin).addSigner(signer3.address);
-    await staking.connect(admin).setRequiredSignatures(2);
+    await staking.connect(admin).setRequiredWithdrawalSignatures(2);
+    await staking.connect(admin).setRequiredClaimSignatures(2);
+    await staking.connect(admin).setRequiredRefundSignatures(2);
 
     // Distribute tokens for testing
     await tlpToken.connect(admin).transfer(provider1.address, ethers.parseEther("100000"));
@@ -151,7 +282,8 @@ describe("TLPStaking", function () {
       expect(await staking.tlpToken()).to.equal(await tlpToken.getAddress());
       expect(await staking.treasury()).to.equal(treasury.address);
       expect(await staking.minStakeDuration()).to.equal(MIN_STAKE_DURATION);
-      expect(await staking.requiredSignatures()).to.equal(2);
+      expect(await staking.requiredWithdrawalSignatures()).to.equal(2);
+      expect(await staking.requiredClaimSignatures()).to.equal(2);
       expect(await staking.commissionBps()).to.equal(0);
     });
 
@@ -165,16 +297,51 @@ describe("TLPStaking", function () {
       const StakingFactory = await ethers.getContractFactory("TLPStaking");
 
       await expect(
-        StakingFactory.deploy(ethers.ZeroAddress, treasury.address, admin.address)
+        StakingFactory.deploy(ethers.ZeroAddress, treasury.address, admin.address, ...extensions)
       ).to.be.revertedWithCustomError(staking, "ZeroAddress");
 
       await expect(
-        StakingFactory.deploy(await tlpToken.getAddress(), ethers.ZeroAddress, admin.address)
+        StakingFactory.deploy(await tlpToken.getAddress(), ethers.ZeroAddress, admin.address, ...extensions)
       ).to.be.revertedWithCustomError(staking, "ZeroAddress");
 
       await expect(
-        StakingFactory.deploy(await tlpToken.getAddress(), treasury.address, ethers.ZeroAddress)
+        StakingFactory.deploy(await tlpToken.getAddress(), treasury.address, ethers.ZeroAddress, ...extensions)
       ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+
+      await expect(
+        StakingFactory.deploy(await tlpToken.getAddress(), treasury.address, admin.address, ethers.ZeroAddress, extensions[1])
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+    });
+
+    it("should reject extensions deployed for another token", async function () {
+      const TimeleapFactory = await ethers.getContractFactory("Timeleap");
+      const otherToken = await TimeleapFactory.deploy(admin.address);
+      const ExtensionFactory = await ethers.getContractFactory("TLPStakingExtension");
+      const otherExtension = await ExtensionFactory.deploy(await otherToken.getAddress());
+      const StakingFactory = await ethers.getContractFactory("TLPStaking");
+
+      await expect(
+        StakingFactory.deploy(
+          await tlpToken.getAddress(),
+          treasury.address,
+          admin.address,
+          await otherExtension.getAddress(),
+          extensions[1]
+        )
+      ).to.be.revertedWithCustomError(staking, "InvalidExtension");
+    });
+
+    it("should use extensions that reject direct calls", async function () {
+      const extension = await ethers.getContractAt("TLPStakingExtension", await staking.extension());
+      const adminExtension = await ethers.getContractAt("TLPStakingAdminExtension", await staking.adminExtension());
+      expect(await extension.tlpToken()).to.equal(await tlpToken.getAddress());
+
+      await expect(
+        extension.connect(admin).unbanProvider(provider1.address)
+      ).to.be.revertedWithCustomError(extension, "NotDelegateCall");
+      await expect(
+        adminExtension.connect(admin).setCommission(100)
+      ).to.be.revertedWithCustomError(adminExtension, "NotDelegateCall");
     });
   });
 
@@ -214,31 +381,302 @@ describe("TLPStaking", function () {
       expect(await staking.getSignerCount()).to.equal(2);
     });
 
-    it("should adjust requiredSignatures when removing signer below threshold", async function () {
+    it("should adjust required signatures when removing signer below threshold", async function () {
+      await staking.connect(admin).setLargeWithdrawalPolicy(DEPOSIT_AMOUNT, 3);
       await staking.connect(admin).removeSigner(signer3.address);
-      await staking.connect(admin).removeSigner(signer2.address);
-      expect(await staking.requiredSignatures()).to.equal(1);
+
+      expect(await staking.requiredLargeWithdrawalSignatures()).to.equal(2);
+
+      await expect(staking.connect(admin).removeSigner(signer2.address))
+        .to.emit(staking, "RequiredWithdrawalSignaturesUpdated")
+        .withArgs(2, 1);
+      expect(await staking.requiredWithdrawalSignatures()).to.equal(1);
+      expect(await staking.requiredClaimSignatures()).to.equal(1);
+      expect(await staking.requiredRefundSignatures()).to.equal(1);
+      expect(await staking.requiredLargeWithdrawalSignatures()).to.equal(1);
     });
 
-    it("should set required signatures", async function () {
-      await expect(staking.connect(admin).setRequiredSignatures(3))
-        .to.emit(staking, "RequiredSignaturesUpdated")
+    it("should set required signatures per operation", async function () {
+      await expect(staking.connect(admin).setRequiredWithdrawalSignatures(3))
+        .to.emit(staking, "RequiredWithdrawalSignaturesUpdated")
+        .withArgs(2, 3);
+
+      await expect(staking.connect(admin).setRequiredClaimSignatures(1))
+        .to.emit(staking, "RequiredClaimSignaturesUpdated")
+        .withArgs(2, 1);
+
+      await expect(staking.connect(admin).setRequiredRefundSignatures(3))
+        .to.emit(staking, "RequiredRefundSignaturesUpdated")
         .withArgs(2, 3);
 
-      expect(await staking.requiredSignatures()).to.equal(3);
+      expect(await staking.requiredWithdrawalSignatures()).to.equal(3);
+      expect(await staking.requiredClaimSignatures()).to.equal(1);
+      expect(await staking.requiredRefundSignatures()).to.equal(3);
+
+      await expect(
+        staking.connect(user1).setRequiredRefundSignatures(1)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
     });
 
     it("should reject setting zero required signatures", async function () {
       await expect(
-        staking.connect(admin).setRequiredSignatures(0)
+        staking.connect(admin).setRequiredWithdrawalSignatures(0)
+      ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+
+      await expect(
+        staking.connect(admin).setRequiredClaimSignatures(0)
+      ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+
+      await expect(
+        staking.connect(admin).setRequiredRefundSignatures(0)
       ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
     });
 
     it("should reject setting required signatures above signer count", async function () {
       await expect(
-        staking.connect(admin).setRequiredSignatures(5)
+        staking.connect(admin).setRequiredWithdrawalSignatures(5)
+      ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+
+      await expect(
+        staking.connect(admin).setLargeWithdrawalPolicy(DEPOSIT_AMOUNT, 5)
       ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
     });
+
+    it("should apply separate thresholds to claims and withdrawals", async function () {
+      await staking.connect(admin).setRequiredClaimSignatures(1);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      const amount = ethers.parseEther("100");
+      const rentalId = generateRentalId();
+      const claimDeadline = await getDeadline();
+      const claimSignatures = await signClaim(
+        [signer1], rentalId, user1.address, provider1.address, amount, claimDeadline
+      );
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, amount, claimDeadline, SIGNER_EPOCH, claimSignatures)
+      ).to.emit(staking, "Claimed");
+
+      const nonce = await nextNonce(user1.address);
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal([signer1], user1.address, amount, nonce, deadline);
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, amount, nonce, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+    });
+
+    it("should apply a separate threshold to refunds", async function () {
+      await staking.connect(admin).setRequiredClaimSignatures(1);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+
+      const amount = ethers.parseEther("100");
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      let signatures = await signRefund([signer1], rentalId, user1.address, provider1.address, amount, deadline);
+      await expect(
+        staking.refund(rentalId, user1.address, provider1.address, tlpAddress, amount, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+
+      signatures = await signRefund([signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline);
+      await expect(
+        staking.refund(rentalId, user1.address, provider1.address, tlpAddress, amount, deadline, SIGNER_EPOCH, signatures)
+      ).to.emit(staking, "Refunded");
+    });
+
+    it("should escalate signatures for withdrawals above the large withdrawal threshold", async function () {
+      const threshold = ethers.parseEther("500");
+      await expect(staking.connect(admin).setLargeWithdrawalPolicy(threshold, 3))
+        .to.emit(staking, "LargeWithdrawalPolicyUpdated")
+        .withArgs(threshold, 3);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      // At the threshold: base requirement applies
+      let nonce = await nextNonce(user1.address);
+      let deadline = await getDeadline();
+      let signatures = await signWithdrawal([signer1, signer2], user1.address, threshold, nonce, deadline);
+      await staking.connect(user1).withdraw(tlpAddress, threshold, nonce, deadline, SIGNER_EPOCH, signatures);
+
+      // Above the threshold: 2 signatures are no longer enough
+      const large = threshold + 1n;
+      await staking.connect(user1).deposit(large);
+      nonce = await nextNonce(user1.address);
+      deadline = await getDeadline();
+      signatures = await signWithdrawal([signer1, signer2], user1.address, large, nonce, deadline);
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, large, nonce, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+
+      signatures = await signWithdrawal([signer1, signer2, signer3], user1.address, large, nonce, deadline);
+      await expect(staking.connect(user1).withdraw(tlpAddress, large, nonce, deadline, SIGNER_EPOCH, signatures))
+        .to.emit(staking, "Withdrawn");
+    });
+
+    describe("Signer Rotation", function () {
+      const GRACE_PERIOD = 24 * 60 * 60; // 1 day default
+      let newSigner1: HardhatEthersSigner;
+      let newSigner2: HardhatEthersSigner;
+
+      async function withdrawWith(signersList: HardhatEthersSigner[], epoch: bigint, amount: bigint) {
+        const nonce = await nextNonce(user1.address);
+        const deadline = await getDeadline();
+        const signatures = await signWithdrawal(signersList, user1.address, amount, nonce, deadline, epoch);
+        return staking.connect(user1).withdraw(tlpAddress, amount, nonce, deadline, epoch, signatures);
+      }
+
+      async function scheduleRotation(delay: number) {
+        const activationTime = (await time.latest()) + delay;
+        await staking.connect(admin).scheduleSignerRotation([newSigner1.address, newSigner2.address], activationTime);
+        return activationTime;
+      }
+
+      beforeEach(async function () {
+        [newSigner1, newSigner2] = (await ethers.getSigners()).slice(12, 14);
+        await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      });
+
+      it("should switch signer sets atomically at activation time", async function () {
+        const activationTime = (await time.latest()) + 3600;
+        await expect(
+          staking.connect(admin).scheduleSignerRotation([newSigner1.address, newSigner2.address], activationTime)
+        )
+          .to.emit(staking, "SignerRotationScheduled")
+          .withArgs(1, activationTime, activationTime + GRACE_PERIOD);
+
+        // Old set stays in charge until activation
+        expect(await staking.currentSignerEpoch()).to.equal(0);
+        expect(await staking.isSigner(signer1.address)).to.be.true;
+        await expect(
+          withdrawWith([newSigner1, newSigner2], 1n, ethers.parseEther("1"))
+        ).to.be.revertedWithCustomError(staking, "InvalidSignerEpoch");
+
+        await time.increaseTo(activationTime);
+        expect(await staking.currentSignerEpoch()).to.equal(1);
+        expect(await staking.getSigners()).to.deep.equal([newSigner1.address, newSigner2.address]);
+        expect(await staking.isSigner(signer1.address)).to.be.false;
+
+        await expect(withdrawWith([newSigner1, newSigner2], 1n, ethers.parseEther("1")))
+          .to.emit(staking, "Withdrawn");
+      });
+
+      it("should validate thresholds against the scheduled signer set", async function () {
+        const activationTime = await scheduleRotation(3600);
+
+        // The current set has 3 signers, but the scheduled one only 2
+        await expect(
+          staking.connect(admin).setRequiredWithdrawalSignatures(3)
+        ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+        await expect(
+          staking.connect(admin).setLargeWithdrawalPolicy(DEPOSIT_AMOUNT, 3)
+        ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+
+        await time.increaseTo(activationTime);
+        await expect(
+          staking.connect(admin).setRequiredClaimSignatures(3)
+        ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+      });
+
+      it("should reject signer edits while a rotation is scheduled", async function () {
+        const activationTime = await scheduleRotation(3600);
+
+        await expect(
+          staking.connect(admin).addSigner(user2.address)
+        ).to.be.revertedWithCustomError(staking, "SignerRotationPending");
+        await expect(
+          staking.connect(admin).removeSigner(signer3.address)
+        ).to.be.revertedWithCustomError(staking, "SignerRotationPending");
+
+        await staking.connect(admin).cancelSignerRotation();
+        await expect(staking.connect(admin).removeSigner(signer3.address))
+          .to.emit(staking, "SignerRemoved");
+
+        await scheduleRotation(3600);
+        await time.increaseTo(activationTime + 3600);
+        await expect(staking.connect(admin).addSigner(user2.address))
+          .to.emit(staking, "SignerAdded");
+      });
+
+      it("should accept the previous epoch during the grace period only", async function () {
+        const activationTime = await scheduleRotation(60);
+        await time.increaseTo(activationTime);
+
+        await expect(withdrawWith([signer1, signer2], SIGNER_EPOCH, ethers.parseEther("1")))
+          .to.emit(staking, "Withdrawn");
+
+        // Old signers cannot sign for the new epoch
+        await expect(
+          withdrawWith([signer1, signer2], 1n, ethers.parseEther("1"))
+        ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+
+        await time.increaseTo(activationTime + GRACE_PERIOD);
+        expect(await staking.isSignerEpochValid(SIGNER_EPOCH)).to.be.false;
+        await expect(
+          withdrawWith([signer1, signer2], SIGNER_EPOCH, ethers.parseEther("1"))
+        ).to.be.revertedWithCustomError(staking, "InvalidSignerEpoch");
+      });
+
+      it("should reject signatures for unknown epochs", async function () {
+        await expect(
+          withdrawWith([signer1, signer2], 5n, ethers.parseEther("1"))
+        ).to.be.revertedWithCustomError(staking, "InvalidSignerEpoch");
+      });
+
+      it("should allow only one pending rotation and let admin cancel it", async function () {
+        await scheduleRotation(3600);
+
+        await expect(
+          staking.connect(admin).scheduleSignerRotation([user2.address, newSigner2.address], (await time.latest()) + 7200)
+        ).to.be.revertedWithCustomError(staking, "SignerRotationPending");
+
+        await expect(staking.connect(admin).cancelSignerRotation())
+          .to.emit(staking, "SignerRotationCancelled")
+          .withArgs(1);
+
+        expect(await staking.latestSignerEpoch()).to.equal(0);
+        const [, , expiresAt] = await staking.getSignerEpoch(0);
+        expect(expiresAt).to.equal(0);
+
+        await expect(
+          staking.connect(admin).cancelSignerRotation()
+        ).to.be.revertedWithCustomError(staking, "NoPendingSignerRotation");
+      });
+
+      it("should reject rotations smaller than the signature thresholds", async function () {
+        await expect(
+          staking.connect(admin).scheduleSignerRotation([newSigner1.address], (await time.latest()) + 60)
+        ).to.be.revertedWithCustomError(staking, "InvalidRequiredSignatures");
+
+        await expect(
+          staking.connect(admin).scheduleSignerRotation([newSigner1.address, newSigner1.address], (await time.latest()) + 60)
+        ).to.be.revertedWithCustomError(staking, "SignerAlreadyAuthorized");
+      });
+
+      it("should let admin end a superseded epoch's grace period early", async function () {
+        const activationTime = await scheduleRotation(60);
+
+        await expect(
+          staking.connect(admin).expireSignerEpoch(SIGNER_EPOCH)
+        ).to.be.revertedWithCustomError(staking, "InvalidSignerEpoch");
+
+        await time.increaseTo(activationTime);
+        await expect(staking.connect(admin).expireSignerEpoch(SIGNER_EPOCH))
+          .to.emit(staking, "SignerEpochExpired")
+          .withArgs(SIGNER_EPOCH);
+
+        await expect(
+          withdrawWith([signer1, signer2], SIGNER_EPOCH, ethers.parseEther("1"))
+        ).to.be.revertedWithCustomError(staking, "InvalidSignerEpoch");
+      });
+
+      it("should update the grace period", async function () {
+        await expect(staking.connect(admin).setSignerEpochGracePeriod(3600))
+          .to.emit(staking, "SignerEpochGracePeriodUpdated")
+          .withArgs(GRACE_PERIOD, 3600);
+
+        const activationTime = await scheduleRotation(60);
+        const [, , expiresAt] = await staking.getSignerEpoch(0);
+        expect(expiresAt).to.equal(activationTime + 3600);
+      });
+    });
   });
 
   describe("Provider Staking", function () {
@@ -277,7 +715,7 @@ describe("TLPStaking", function () {
 
     it("should reject staking from banned provider", async function () {
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
-      await staking.connect(police).slashAndBan(provider1.address);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
 
       await expect(
         staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION)
@@ -333,103 +771,435 @@ describe("TLPStaking", function () {
     });
   });
 
-  describe("Withdraw Stake", function () {
+  describe("Unbonding Queue", function () {
+    const UNBONDING_PERIOD = 7 * 24 * 60 * 60; // 7 days
+
     beforeEach(async function () {
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
     });
 
-    it("should allow withdrawal after unlock time", async function () {
+    it("should queue a partial unstake with release time", async function () {
       await time.increase(MIN_STAKE_DURATION + 1);
+      const amount = STAKE_AMOUNT / 4n;
 
-      const balanceBefore = await tlpToken.balanceOf(provider1.address);
+      const tx = await staking.connect(provider1).requestUnstake(amount);
+      const releaseTime = BigInt(await time.latest()) + BigInt(UNBONDING_PERIOD);
 
-      await expect(staking.connect(provider1).withdrawStake())
-        .to.emit(staking, "StakeWithdrawn")
-        .withArgs(provider1.address, STAKE_AMOUNT);
+      await expect(tx)
+        .to.emit(staking, "UnstakeRequested")
+        .withArgs(provider1.address, amount, releaseTime);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT - amount);
+      expect(await staking.isProviderActive(provider1.address)).to.be.true;
 
-      const balanceAfter = await tlpToken.balanceOf(provider1.address);
-      expect(balanceAfter - balanceBefore).to.equal(STAKE_AMOUNT);
+      const entries = await staking.getUnbondingEntries(provider1.address);
+      expect(entries.length).to.equal(1);
+      expect(entries[0].amount).to.equal(amount);
+      expect(entries[0].releaseTime).to.equal(releaseTime);
     });
 
-    it("should reject withdrawal before unlock time", async function () {
+    it("should reject unstake before unlock time", async function () {
       await expect(
-        staking.connect(provider1).withdrawStake()
+        staking.connect(provider1).requestUnstake(STAKE_AMOUNT)
       ).to.be.revertedWithCustomError(staking, "StakeLocked");
     });
-  });
-
-  describe("User Deposits", function () {
-    it("should allow user to deposit", async function () {
-      const balanceBefore = await tlpToken.balanceOf(user1.address);
 
-      await expect(staking.connect(user1).deposit(DEPOSIT_AMOUNT))
-        .to.emit(staking, "Deposited")
-        .withArgs(user1.address, DEPOSIT_AMOUNT, DEPOSIT_AMOUNT);
+    it("should reject unstake exceeding stake", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await expect(
+        staking.connect(provider1).requestUnstake(STAKE_AMOUNT + 1n)
+      ).to.be.revertedWithCustomError(staking, "InsufficientStake");
+    });
 
-      const balanceAfter = await tlpToken.balanceOf(user1.address);
-      expect(balanceBefore - balanceAfter).to.equal(DEPOSIT_AMOUNT);
-      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    it("should reject unstake with zero amount", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await expect(
+        staking.connect(provider1).requestUnstake(0)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
     });
 
-    it("should allow multiple deposits", async function () {
-      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
-      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    it("should deactivate provider after unstaking everything", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await staking.connect(provider1).requestUnstake(STAKE_AMOUNT);
 
-      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT * 2n);
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(0);
+      expect(info.unlockTime).to.equal(0);
+      expect(await staking.isProviderActive(provider1.address)).to.be.false;
     });
 
-    it("should reject deposit with zero amount", async function () {
+    it("should reject withdrawal before entries mature", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await staking.connect(provider1).requestUnstake(STAKE_AMOUNT);
+
       await expect(
-        staking.connect(user1).deposit(0)
-      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+        staking.connect(provider1).withdrawUnbonded()
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
     });
-  });
 
-  describe("User Withdrawals with Signatures", function () {
-    beforeEach(async function () {
-      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
-    });
+    it("should release only matured entries", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      const first = ethers.parseEther("1000");
+      const second = ethers.parseEther("2000");
 
-    it("should allow user to withdraw with valid signatures", async function () {
-      const nonce = await staking.getNonce(user1.address);
-      const deadline = await getDeadline();
-      const signatures = await signWithdrawal(
-        [signer1, signer2],
-        user1.address,
-        DEPOSIT_AMOUNT,
-        nonce,
-        deadline
-      );
+      await staking.connect(provider1).requestUnstake(first);
+      await time.increase(UNBONDING_PERIOD / 2);
+      await staking.connect(provider1).requestUnstake(second);
+      await time.increase(UNBONDING_PERIOD / 2);
 
-      const balanceBefore = await tlpToken.balanceOf(user1.address);
+      const balanceBefore = await tlpToken.balanceOf(provider1.address);
 
-      await expect(staking.connect(user1).withdraw(DEPOSIT_AMOUNT, deadline, signatures))
-        .to.emit(staking, "Withdrawn")
-        .withArgs(user1.address, DEPOSIT_AMOUNT, 0n);
+      await expect(staking.connect(provider1).withdrawUnbonded())
+        .to.emit(staking, "StakeWithdrawn")
+        .withArgs(provider1.address, first);
 
-      const balanceAfter = await tlpToken.balanceOf(user1.address);
-      expect(balanceAfter - balanceBefore).to.equal(DEPOSIT_AMOUNT);
-      expect(await staking.getUserBalance(user1.address)).to.equal(0);
+      expect(await tlpToken.balanceOf(provider1.address) - balanceBefore).to.equal(first);
+
+      const entries = await staking.getUnbondingEntries(provider1.address);
+      expect(entries.length).to.equal(1);
+      expect(entries[0].amount).to.equal(second);
+
+      const [pending, withdrawable] = await staking.getUnbondingBalance(provider1.address);
+      expect(pending).to.equal(second);
+      expect(withdrawable).to.equal(0);
     });
 
-    it("should reject withdrawal with insufficient signatures", async function () {
-      const nonce = await staking.getNonce(user1.address);
-      const deadline = await getDeadline();
-      const signatures = await signWithdrawal(
-        [signer1], // Only 1 signature, need 2
-        user1.address,
-        DEPOSIT_AMOUNT,
-        nonce,
-        deadline
-      );
+    it("should allow full exit after the unbonding period", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await staking.connect(provider1).requestUnstake(STAKE_AMOUNT);
+      await time.increase(UNBONDING_PERIOD);
+
+      const balanceBefore = await tlpToken.balanceOf(provider1.address);
+      await staking.connect(provider1).withdrawUnbonded();
+
+      expect(await tlpToken.balanceOf(provider1.address) - balanceBefore).to.equal(STAKE_AMOUNT);
+      expect((await staking.getUnbondingEntries(provider1.address)).length).to.equal(0);
+    });
+
+    it("should cap the number of unbonding entries", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      const maxEntries = await staking.MAX_UNBONDING_ENTRIES();
+
+      for (let i = 0n; i < maxEntries; i++) {
+        await staking.connect(provider1).requestUnstake(1n);
+      }
 
       await expect(
-        staking.connect(user1).withdraw(DEPOSIT_AMOUNT, deadline, signatures)
-      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+        staking.connect(provider1).requestUnstake(1n)
+      ).to.be.revertedWithCustomError(staking, "TooManyUnbondingEntries");
+    });
+
+    it("should let police partially slash unbonding stake", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      const unstaked = ethers.parseEther("6000");
+      await staking.connect(provider1).requestUnstake(unstaked);
+
+      const slashAmount = ethers.parseEther("5000");
+      const remainingStake = STAKE_AMOUNT - unstaked;
+      const treasuryBefore = await tlpToken.balanceOf(treasury.address);
+
+      await expect(staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH))
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, slashAmount, false, SLASH_REASON, EVIDENCE_HASH);
+
+      expect(await tlpToken.balanceOf(treasury.address) - treasuryBefore).to.equal(slashAmount);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(0);
+
+      const [pending] = await staking.getUnbondingBalance(provider1.address);
+      expect(pending).to.equal(unstaked - (slashAmount - remainingStake));
+    });
+
+    it("should include unbonding stake in slashAndBan", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await staking.connect(provider1).requestUnstake(STAKE_AMOUNT);
+
+      await expect(staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH))
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, STAKE_AMOUNT, true, SLASH_REASON, EVIDENCE_HASH);
+
+      expect((await staking.getUnbondingEntries(provider1.address)).length).to.equal(0);
+    });
+
+    it("should not slash matured entries", async function () {
+      await time.increase(MIN_STAKE_DURATION + 1);
+      await staking.connect(provider1).requestUnstake(STAKE_AMOUNT);
+      await time.increase(UNBONDING_PERIOD);
+
+      await expect(
+        staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+
+      await expect(
+        staking.connect(police).slashPartial(provider1.address, 1n, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+
+      await staking.connect(provider1).withdrawUnbonded();
+    });
+
+    it("should allow admin to update the unbonding period", async function () {
+      const newPeriod = 14 * 24 * 60 * 60;
+
+      await expect(staking.connect(admin).setUnbondingPeriod(newPeriod))
+        .to.emit(staking, "UnbondingPeriodUpdated")
+        .withArgs(UNBONDING_PERIOD, newPeriod);
+
+      await expect(
+        staking.connect(admin).setUnbondingPeriod(0)
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+    });
+  });
+
+  describe("User Deposits", function () {
+    it("should allow user to deposit", async function () {
+      const balanceBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(staking.connect(user1).deposit(DEPOSIT_AMOUNT))
+        .to.emit(staking, "Deposited")
+        .withArgs(user1.address, user1.address, tlpAddress, DEPOSIT_AMOUNT, DEPOSIT_AMOUNT);
+
+      const balanceAfter = await tlpToken.balanceOf(user1.address);
+      expect(balanceBefore - balanceAfter).to.equal(DEPOSIT_AMOUNT);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should allow multiple deposits", async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT * 2n);
+    });
+
+    it("should reject deposit with zero amount", async function () {
+      await expect(
+        staking.connect(user1).deposit(0)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+    });
+
+    it("should allow depositing on behalf of another address", async function () {
+      const payerBefore = await tlpToken.balanceOf(user2.address);
+
+      await expect(staking.connect(user2).depositFor(user1.address, DEPOSIT_AMOUNT))
+        .to.emit(staking, "Deposited")
+        .withArgs(user1.address, user2.address, tlpAddress, DEPOSIT_AMOUNT, DEPOSIT_AMOUNT);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+      expect(await staking.getUserBalance(user2.address)).to.equal(0);
+      expect(payerBefore - await tlpToken.balanceOf(user2.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should reject depositFor to the zero address", async function () {
+      await expect(
+        staking.connect(user2).depositFor(ethers.ZeroAddress, DEPOSIT_AMOUNT)
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+    });
+
+    it("should fund many balances with a single transfer", async function () {
+      const amounts = [DEPOSIT_AMOUNT, DEPOSIT_AMOUNT * 2n];
+      const payerBefore = await tlpToken.balanceOf(user2.address);
+
+      const tx = staking.connect(user2).batchDepositFor([user1.address, provider2.address], amounts);
+      await expect(tx)
+        .to.emit(staking, "Deposited")
+        .withArgs(user1.address, user2.address, tlpAddress, amounts[0], amounts[0]);
+      await expect(tx)
+        .to.emit(staking, "Deposited")
+        .withArgs(provider2.address, user2.address, tlpAddress, amounts[1], amounts[1]);
+      await expect(tx)
+        .to.emit(tlpToken, "Transfer")
+        .withArgs(user2.address, await staking.getAddress(), amounts[0] + amounts[1]);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(amounts[0]);
+      expect(await staking.getUserBalance(provider2.address)).to.equal(amounts[1]);
+      expect(payerBefore - await tlpToken.balanceOf(user2.address)).to.equal(amounts[0] + amounts[1]);
+    });
+
+    it("should reject batch deposits with mismatched arrays or zero amounts", async function () {
+      await expect(
+        staking.connect(user2).batchDepositFor([user1.address], [])
+      ).to.be.revertedWithCustomError(staking, "ArrayLengthMismatch");
+      await expect(
+        staking.connect(user2).batchDepositFor([user1.address, provider2.address], [DEPOSIT_AMOUNT, 0])
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+    });
+  });
+
+  describe("Permit Deposits and Stakes", function () {
+    async function signPermit(
+      owner: HardhatEthersSigner,
+      value: bigint,
+      deadline: bigint
+    ) {
+      const domain = {
+        name: "Timeleap",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await tlpToken.getAddress()
+      };
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" }
+        ]
+      };
+      const message = {
+        owner: owner.address,
+        spender: await staking.getAddress(),
+        value,
+        nonce: await tlpToken.nonces(owner.address),
+        deadline
+      };
+      return ethers.Signature.from(await owner.signTypedData(domain, types, message));
+    }
+
+    beforeEach(async function () {
+      // Drop the blanket approvals so only the permit can grant allowance
+      await tlpToken.connect(user1).approve(await staking.getAddress(), 0);
+      await tlpToken.connect(provider1).approve(await staking.getAddress(), 0);
+    });
+
+    it("should deposit with a permit and no prior approval", async function () {
+      const deadline = await getDeadline();
+      const sig = await signPermit(user1, DEPOSIT_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(user1).depositWithPermit(DEPOSIT_AMOUNT, deadline, sig.v, sig.r, sig.s)
+      )
+        .to.emit(staking, "Deposited")
+        .withArgs(user1.address, user1.address, tlpAddress, DEPOSIT_AMOUNT, DEPOSIT_AMOUNT);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+      expect(await tlpToken.nonces(user1.address)).to.equal(1);
+      expect(await tlpToken.allowance(user1.address, await staking.getAddress())).to.equal(0);
+    });
+
+    it("should stake with a permit and no prior approval", async function () {
+      const deadline = await getDeadline();
+      const sig = await signPermit(provider1, STAKE_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(provider1).stakeWithPermit(
+          STAKE_AMOUNT, MIN_STAKE_DURATION, deadline, sig.v, sig.r, sig.s
+        )
+      ).to.emit(staking, "Staked");
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT);
+    });
+
+    it("should increase stake with a permit", async function () {
+      const deadline = await getDeadline();
+      const first = await signPermit(provider1, STAKE_AMOUNT, deadline);
+      await staking.connect(provider1).stakeWithPermit(
+        STAKE_AMOUNT, MIN_STAKE_DURATION, deadline, first.v, first.r, first.s
+      );
+
+      const addAmount = ethers.parseEther("5000");
+      const second = await signPermit(provider1, addAmount, deadline);
+      await expect(
+        staking.connect(provider1).increaseStakeWithPermit(addAmount, deadline, second.v, second.r, second.s)
+      ).to.emit(staking, "StakeIncreased");
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT + addAmount);
+    });
+
+    it("should still deposit when the permit was front-run", async function () {
+      const deadline = await getDeadline();
+      const sig = await signPermit(user1, DEPOSIT_AMOUNT, deadline);
+
+      // Third party submits the permit first, consuming the nonce
+      await tlpToken.connect(user2).permit(
+        user1.address, await staking.getAddress(), DEPOSIT_AMOUNT, deadline, sig.v, sig.r, sig.s
+      );
+
+      await expect(
+        staking.connect(user1).depositWithPermit(DEPOSIT_AMOUNT, deadline, sig.v, sig.r, sig.s)
+      ).to.emit(staking, "Deposited");
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should reject a permit signed by another account", async function () {
+      const deadline = await getDeadline();
+      const sig = await signPermit(user2, DEPOSIT_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(user1).depositWithPermit(DEPOSIT_AMOUNT, deadline, sig.v, sig.r, sig.s)
+      ).to.be.revertedWithCustomError(tlpToken, "ERC20InsufficientAllowance");
+    });
+
+    it("should reject an expired permit", async function () {
+      const deadline = BigInt(await time.latest()) - 1n;
+      const sig = await signPermit(user1, DEPOSIT_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(user1).depositWithPermit(DEPOSIT_AMOUNT, deadline, sig.v, sig.r, sig.s)
+      ).to.be.revertedWithCustomError(tlpToken, "ERC20InsufficientAllowance");
+    });
+
+    it("should apply stake checks after the permit", async function () {
+      const deadline = await getDeadline();
+      const sig = await signPermit(provider1, STAKE_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(provider1).stakeWithPermit(
+          STAKE_AMOUNT, MIN_STAKE_DURATION - 1, deadline, sig.v, sig.r, sig.s
+        )
+      ).to.be.revertedWithCustomError(staking, "DurationTooShort");
+    });
+  });
+
+  describe("User Withdrawals with Signatures", function () {
+    beforeEach(async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    });
+
+    it("should allow user to withdraw with valid signatures", async function () {
+      const nonce = await nextNonce(user1.address);
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal(
+        [signer1, signer2],
+        user1.address,
+        DEPOSIT_AMOUNT,
+        nonce,
+        deadline
+      );
+
+      const balanceBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, SIGNER_EPOCH, signatures))
+        .to.emit(staking, "Withdrawn")
+        .withArgs(user1.address, tlpAddress, DEPOSIT_AMOUNT, 0n);
+
+      const balanceAfter = await tlpToken.balanceOf(user1.address);
+      expect(balanceAfter - balanceBefore).to.equal(DEPOSIT_AMOUNT);
+      expect(await staking.getUserBalance(user1.address)).to.equal(0);
+    });
+
+    it("should reject withdrawal with insufficient signatures", async function () {
+      const nonce = await nextNonce(user1.address);
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal(
+        [signer1], // Only 1 signature, need 2
+        user1.address,
+        DEPOSIT_AMOUNT,
+        nonce,
+        deadline
+      );
+
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
     });
 
     it("should reject withdrawal with invalid signer", async function () {
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline();
       const signatures = await signWithdrawal(
         [signer1, user2], // user2 is not a signer
@@ -440,12 +1210,12 @@ describe("TLPStaking", function () {
       );
 
       await expect(
-        staking.connect(user1).withdraw(DEPOSIT_AMOUNT, deadline, signatures)
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "InvalidSignature");
     });
 
     it("should reject withdrawal with duplicate signatures", async function () {
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline();
       const signatures = await signWithdrawal(
         [signer1, signer1], // Same signer twice
@@ -456,12 +1226,12 @@ describe("TLPStaking", function () {
       );
 
       await expect(
-        staking.connect(user1).withdraw(DEPOSIT_AMOUNT, deadline, signatures)
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "DuplicateSignature");
     });
 
     it("should reject withdrawal exceeding balance", async function () {
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline();
       const excessAmount = DEPOSIT_AMOUNT * 2n;
       const signatures = await signWithdrawal(
@@ -473,12 +1243,12 @@ describe("TLPStaking", function () {
       );
 
       await expect(
-        staking.connect(user1).withdraw(excessAmount, deadline, signatures)
+        staking.connect(user1).withdraw(tlpAddress, excessAmount, nonce, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
     });
 
     it("should reject withdrawal with expired deadline", async function () {
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline(-3600); // 1 hour ago
       const signatures = await signWithdrawal(
         [signer1, signer2],
@@ -489,12 +1259,12 @@ describe("TLPStaking", function () {
       );
 
       await expect(
-        staking.connect(user1).withdraw(DEPOSIT_AMOUNT, deadline, signatures)
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "SignatureExpired");
     });
 
     it("should reject withdrawal with zero amount", async function () {
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline();
       const signatures = await signWithdrawal(
         [signer1, signer2],
@@ -505,13 +1275,13 @@ describe("TLPStaking", function () {
       );
 
       await expect(
-        staking.connect(user1).withdraw(0n, deadline, signatures)
+        staking.connect(user1).withdraw(tlpAddress, 0n, nonce, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "ZeroAmount");
     });
 
     it("should reject replay attack with old nonce", async function () {
       // First withdrawal
-      const nonce = await staking.getNonce(user1.address);
+      const nonce = await nextNonce(user1.address);
       const deadline = await getDeadline();
       const halfAmount = DEPOSIT_AMOUNT / 2n;
       const signatures = await signWithdrawal(
@@ -522,119 +1292,379 @@ describe("TLPStaking", function () {
         deadline
       );
 
-      await staking.connect(user1).withdraw(halfAmount, deadline, signatures);
+      await staking.connect(user1).withdraw(tlpAddress, halfAmount, nonce, deadline, SIGNER_EPOCH, signatures);
 
-      // Try to reuse same signatures - should fail because nonce changed
+      // Try to reuse same signatures - should fail because the nonce is spent
       await expect(
-        staking.connect(user1).withdraw(halfAmount, deadline, signatures)
-      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+        staking.connect(user1).withdraw(tlpAddress, halfAmount, nonce, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "NonceAlreadyUsed");
     });
 
-    it("should increment nonce after each withdrawal", async function () {
-      expect(await staking.getNonce(user1.address)).to.equal(0);
+    it("should reject a nonce that differs from the signed one", async function () {
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal([signer1, signer2], user1.address, DEPOSIT_AMOUNT, 5n, deadline);
+
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, 6n, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+    });
 
+    it("should accept withdrawal nonces in any order", async function () {
       const halfAmount = DEPOSIT_AMOUNT / 2n;
+      const deadline = await getDeadline();
+      const signatures7 = await signWithdrawal([signer1, signer2], user1.address, halfAmount, 7n, deadline);
+      const signatures300 = await signWithdrawal([signer1, signer2], user1.address, halfAmount, 300n, deadline);
+
+      // Later nonce lands first; the earlier one still works
+      await staking.connect(user1).withdraw(tlpAddress, halfAmount, 300n, deadline, SIGNER_EPOCH, signatures300);
+      await staking.connect(user1).withdraw(tlpAddress, halfAmount, 7n, deadline, SIGNER_EPOCH, signatures7);
+
+      expect(await staking.isNonceUsed(user1.address, 7n)).to.equal(true);
+      expect(await staking.isNonceUsed(user1.address, 300n)).to.equal(true);
+      expect(await staking.isNonceUsed(user1.address, 0n)).to.equal(false);
+      expect(await staking.nonceBitmap(user1.address, 1n)).to.equal(1n << 44n);
+      expect(await nextNonce(user1.address)).to.equal(0);
+    });
 
-      // First withdrawal
-      const nonce1 = await staking.getNonce(user1.address);
-      const deadline1 = await getDeadline();
-      const signatures1 = await signWithdrawal([signer1, signer2], user1.address, halfAmount, nonce1, deadline1);
-      await staking.connect(user1).withdraw(halfAmount, deadline1, signatures1);
+    it("should let a user invalidate unused nonces", async function () {
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal([signer1, signer2], user1.address, DEPOSIT_AMOUNT, 3n, deadline);
+      const mask = (1n << 3n) | (1n << 4n);
 
-      expect(await staking.getNonce(user1.address)).to.equal(1);
+      await expect(staking.connect(user1).invalidateNonces(0, mask))
+        .to.emit(staking, "NoncesInvalidated")
+        .withArgs(user1.address, 0, mask);
 
-      // Second withdrawal
-      const nonce2 = await staking.getNonce(user1.address);
-      const deadline2 = await getDeadline();
-      const signatures2 = await signWithdrawal([signer1, signer2], user1.address, halfAmount, nonce2, deadline2);
-      await staking.connect(user1).withdraw(halfAmount, deadline2, signatures2);
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, 3n, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "NonceAlreadyUsed");
+      expect(await nextNonce(user1.address)).to.equal(0);
+      expect(await staking.isNonceUsed(user2.address, 3n)).to.equal(false);
+    });
+
+    it("should share one random nonce across signers when collecting a withdrawal", async function () {
+      const deadline = await getDeadline();
+      const stakingAddress = await staking.getAddress();
+      const { nonce, epoch, signatures } = await TLPStakingSigner.collectWithdrawalSignatures(
+        [await TLPStakingSigner.fromSigner(signer1, stakingAddress), await TLPStakingSigner.fromSigner(signer2, stakingAddress)],
+        { user: user1.address, token: tlpAddress, amount: DEPOSIT_AMOUNT, deadline }
+      );
 
-      expect(await staking.getNonce(user1.address)).to.equal(2);
+      expect(epoch).to.equal(SIGNER_EPOCH);
+      const client = new TLPStakingClient(user1, stakingAddress);
+      await expect(client.withdraw(tlpAddress, DEPOSIT_AMOUNT, nonce, deadline, epoch, signatures))
+        .to.emit(staking, "Withdrawn");
+      expect(await staking.isNonceUsed(user1.address, nonce)).to.equal(true);
+    });
+
+    it("should keep two withdrawals pending at once for the same user valid", async function () {
+      const deadline = await getDeadline();
+      const stakingAddress = await staking.getAddress();
+      const signers = [
+        await TLPStakingSigner.fromSigner(signer1, stakingAddress),
+        await TLPStakingSigner.fromSigner(signer2, stakingAddress),
+      ];
+      const amount = DEPOSIT_AMOUNT / 2n;
+      const [first, second] = await Promise.all([
+        TLPStakingSigner.collectWithdrawalSignatures(signers, { user: user1.address, token: tlpAddress, amount, deadline }),
+        TLPStakingSigner.collectWithdrawalSignatures(signers, { user: user1.address, token: tlpAddress, amount, deadline }),
+      ]);
+      expect(first.nonce).to.not.equal(second.nonce);
+
+      const client = new TLPStakingClient(user1, stakingAddress);
+      await expect(client.withdraw(tlpAddress, amount, second.nonce, deadline, second.epoch, second.signatures))
+        .to.emit(staking, "Withdrawn");
+      await expect(client.withdraw(tlpAddress, amount, first.nonce, deadline, first.epoch, first.signatures))
+        .to.emit(staking, "Withdrawn");
+      expect(await staking.getUserBalance(user1.address)).to.equal(0);
     });
   });
 
-  describe("Provider Claims with Signatures", function () {
+  describe("Unilateral Withdrawals (Escape Hatch)", function () {
+    const DELAY = 7 * 24 * 60 * 60; // 7 days
+
     beforeEach(async function () {
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
       await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
     });
 
-    it("should allow provider to claim with valid signatures", async function () {
-      const rentalId = generateRentalId();
-      const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
-      const deadline = await getDeadline();
+    it("should record a pending withdrawal with release time", async function () {
+      const amount = ethers.parseEther("400");
+      const tx = await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, amount);
+      const releaseTime = BigInt(await time.latest()) + BigInt(DELAY);
 
-      const signatures = await signClaim(
-        [signer1, signer2],
-        rentalId,
-        user1.address,
-        provider1.address,
-        claimAmount,
-        nonce,
-        deadline
-      );
+      await expect(tx)
+        .to.emit(staking, "UnilateralWithdrawalRequested")
+        .withArgs(user1.address, tlpAddress, amount, releaseTime);
 
-      const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
-      const userPoolBalanceBefore = await staking.getUserBalance(user1.address);
+      const [, pendingAmount, pendingRelease] = await staking.getPendingWithdrawal(user1.address);
+      expect(pendingAmount).to.equal(amount);
+      expect(pendingRelease).to.equal(releaseTime);
+      // Funds stay in the pool during the challenge window
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
 
-      await expect(staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures))
-        .to.emit(staking, "Claimed")
-        .withArgs(rentalId, user1.address, provider1.address, claimAmount, 0n);
+    it("should reject request exceeding balance", async function () {
+      await expect(
+        staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT + 1n)
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
 
-      const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
-      const userPoolBalanceAfter = await staking.getUserBalance(user1.address);
+    it("should reject request with zero amount", async function () {
+      await expect(
+        staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, 0)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+    });
 
-      expect(providerBalanceAfter - providerBalanceBefore).to.equal(claimAmount);
-      expect(userPoolBalanceBefore - userPoolBalanceAfter).to.equal(claimAmount);
+    it("should reject a second request while one is pending", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, ethers.parseEther("100"));
+      await expect(
+        staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(staking, "WithdrawalAlreadyPending");
     });
 
-    it("should reject claim with insufficient signatures", async function () {
-      const rentalId = generateRentalId();
-      const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
-      const deadline = await getDeadline();
+    it("should reject execution before the challenge window ends", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+      await time.increase(DELAY - 10);
 
-      const signatures = await signClaim(
-        [signer1], // Only 1 signature
-        rentalId,
-        user1.address,
-        provider1.address,
-        claimAmount,
-        nonce,
-        deadline
-      );
+      await expect(
+        staking.connect(user1).executeUnilateralWithdrawal()
+      ).to.be.revertedWithCustomError(staking, "WithdrawalNotReady");
+    });
 
+    it("should reject execution without a pending request", async function () {
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures)
-      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+        staking.connect(user1).executeUnilateralWithdrawal()
+      ).to.be.revertedWithCustomError(staking, "NoPendingWithdrawal");
     });
 
-    it("should reject claim with invalid signer", async function () {
+    it("should pay out after the challenge window without signatures", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+      await time.increase(DELAY);
+
+      const balanceBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, DEPOSIT_AMOUNT, 0n);
+
+      expect(await tlpToken.balanceOf(user1.address) - balanceBefore).to.equal(DEPOSIT_AMOUNT);
+      expect(await staking.getUserBalance(user1.address)).to.equal(0);
+
+      const [, pendingAmount] = await staking.getPendingWithdrawal(user1.address);
+      expect(pendingAmount).to.equal(0);
+    });
+
+    it("should let signers claim against the pending amount during the window", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+
+      const claimAmount = ethers.parseEther("300");
       const rentalId = generateRentalId();
-      const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
-
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline
+      );
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
+
+      await time.increase(DELAY);
+
+      const remaining = DEPOSIT_AMOUNT - claimAmount;
+      const balanceBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, remaining, 0n);
+
+      expect(await tlpToken.balanceOf(user1.address) - balanceBefore).to.equal(remaining);
+    });
+
+    it("should only pay out the requested amount when balance remains above it", async function () {
+      const amount = ethers.parseEther("200");
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, amount);
+
+      const claimAmount = ethers.parseEther("300");
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline
+      );
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
+
+      await time.increase(DELAY);
+
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, amount, DEPOSIT_AMOUNT - claimAmount - amount);
+    });
+
+    it("should clear the request with nothing paid if claims drained the balance", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, DEPOSIT_AMOUNT, deadline
+      );
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, DEPOSIT_AMOUNT, deadline, SIGNER_EPOCH, signatures);
+
+      await time.increase(DELAY);
+
+      const balanceBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, 0n, 0n);
+
+      expect(await tlpToken.balanceOf(user1.address)).to.equal(balanceBefore);
+      const [, pendingAmount] = await staking.getPendingWithdrawal(user1.address);
+      expect(pendingAmount).to.equal(0);
+    });
+
+    it("should not let a claim succeed after the escape withdrawal drained the balance", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline(DELAY + 3600);
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline
+      );
+
+      await time.increase(DELAY);
+      await staking.connect(user1).executeUnilateralWithdrawal();
+
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
+
+    it("should allow signed withdrawals while a request is pending", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+
+      const amount = ethers.parseEther("600");
+      const nonce = await nextNonce(user1.address);
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal([signer1, signer2], user1.address, amount, nonce, deadline);
+      await staking.connect(user1).withdraw(tlpAddress, amount, nonce, deadline, SIGNER_EPOCH, signatures);
+
+      await time.increase(DELAY);
+
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, DEPOSIT_AMOUNT - amount, 0n);
+    });
+
+    it("should allow user to cancel a pending request", async function () {
+      await staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT);
+
+      await expect(staking.connect(user1).cancelUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalCancelled")
+        .withArgs(user1.address);
+
+      const [, pendingAmount] = await staking.getPendingWithdrawal(user1.address);
+      expect(pendingAmount).to.equal(0);
+
+      await expect(
+        staking.connect(user1).cancelUnilateralWithdrawal()
+      ).to.be.revertedWithCustomError(staking, "NoPendingWithdrawal");
+    });
+
+    it("should allow admin to update the challenge window", async function () {
+      const newDelay = 3 * 24 * 60 * 60;
+
+      await expect(staking.connect(admin).setUnilateralWithdrawalDelay(newDelay))
+        .to.emit(staking, "UnilateralWithdrawalDelayUpdated")
+        .withArgs(DELAY, newDelay);
+
+      expect(await staking.unilateralWithdrawalDelay()).to.equal(newDelay);
+    });
+
+    it("should reject zero challenge window and non-admin updates", async function () {
+      await expect(
+        staking.connect(admin).setUnilateralWithdrawalDelay(0)
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+
+      await expect(
+        staking.connect(user1).setUnilateralWithdrawalDelay(3600)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Provider Claims with Signatures", function () {
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    });
+
+    it("should allow provider to claim with valid signatures", async function () {
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+
+      const signatures = await signClaim(
+        [signer1, signer2],
+        rentalId,
+        user1.address,
+        provider1.address,
+        claimAmount,
+        deadline
+      );
+
+      const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
+      const userPoolBalanceBefore = await staking.getUserBalance(user1.address);
+
+      await expect(staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures))
+        .to.emit(staking, "Claimed")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, claimAmount, 0n, 0n);
+
+      const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
+      const userPoolBalanceAfter = await staking.getUserBalance(user1.address);
+
+      expect(providerBalanceAfter - providerBalanceBefore).to.equal(claimAmount);
+      expect(userPoolBalanceBefore - userPoolBalanceAfter).to.equal(claimAmount);
+    });
+
+    it("should reject claim with insufficient signatures", async function () {
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+
+      const signatures = await signClaim(
+        [signer1], // Only 1 signature
+        rentalId,
+        user1.address,
+        provider1.address,
+        claimAmount,
+        deadline
+      );
+
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+    });
+
+    it("should reject claim with invalid signer", async function () {
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+
       const signatures = await signClaim(
         [signer1, user2], // user2 is not a signer
         rentalId,
         user1.address,
         provider1.address,
         claimAmount,
-        nonce,
         deadline
       );
 
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures)
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "InvalidSignature");
     });
 
     it("should reject claim from non-provider", async function () {
       const rentalId = generateRentalId();
       const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(user2.address);
       const deadline = await getDeadline();
 
       const signatures = await signClaim(
@@ -643,21 +1673,19 @@ describe("TLPStaking", function () {
         user1.address,
         user2.address,
         claimAmount,
-        nonce,
         deadline
       );
 
       await expect(
-        staking.connect(user2).claim(rentalId, user1.address, claimAmount, deadline, signatures)
+        staking.connect(user2).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "NotAProvider");
     });
 
     it("should reject claim from banned provider", async function () {
-      await staking.connect(police).slashAndBan(provider1.address);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
 
       const rentalId = generateRentalId();
       const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
 
       const signatures = await signClaim(
@@ -666,20 +1694,18 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         claimAmount,
-        nonce,
         deadline
       );
 
       // Slashed provider has 0 stake, so they're "not a provider" before the banned check
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures)
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "NotAProvider");
     });
 
     it("should reject claim exceeding user balance", async function () {
       const rentalId = generateRentalId();
       const excessAmount = DEPOSIT_AMOUNT * 2n;
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
 
       const signatures = await signClaim(
@@ -688,19 +1714,17 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         excessAmount,
-        nonce,
         deadline
       );
 
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, excessAmount, deadline, signatures)
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, excessAmount, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
     });
 
     it("should reject claim with expired deadline", async function () {
       const rentalId = generateRentalId();
       const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline(-3600); // 1 hour ago
 
       const signatures = await signClaim(
@@ -709,18 +1733,16 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         claimAmount,
-        nonce,
         deadline
       );
 
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures)
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "SignatureExpired");
     });
 
     it("should reject claim with zero amount", async function () {
       const rentalId = generateRentalId();
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
 
       const signatures = await signClaim(
@@ -729,21 +1751,19 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         0n,
-        nonce,
         deadline
       );
 
       await expect(
-        staking.connect(provider1).claim(rentalId, user1.address, 0n, deadline, signatures)
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, 0n, deadline, SIGNER_EPOCH, signatures)
       ).to.be.revertedWithCustomError(staking, "ZeroAmount");
     });
 
-    it("should allow same rental ID to be used multiple times (audit trail only)", async function () {
+    it("should pay only the delta on later claims for the same rental", async function () {
       const rentalId = generateRentalId();
       const claimAmount = ethers.parseEther("100");
 
-      // First claim
-      const nonce1 = await staking.getNonce(provider1.address);
+      // First claim: running total 100
       const deadline1 = await getDeadline();
       const signatures1 = await signClaim(
         [signer1, signer2],
@@ -751,27 +1771,76 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         claimAmount,
-        nonce1,
         deadline1
       );
-      await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline1, signatures1);
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline1, SIGNER_EPOCH, signatures1);
 
-      // Second claim with same rental ID (allowed - rental ID is for audit only)
-      const nonce2 = await staking.getNonce(provider1.address);
+      // Second claim: running total 250, pays 150
+      const cumulative = ethers.parseEther("250");
       const deadline2 = await getDeadline();
       const signatures2 = await signClaim(
         [signer1, signer2],
         rentalId,
         user1.address,
         provider1.address,
-        claimAmount,
-        nonce2,
+        cumulative,
         deadline2
       );
-      await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline2, signatures2);
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, cumulative, deadline2, SIGNER_EPOCH, signatures2)
+      ).to.emit(staking, "Claimed")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, cumulative - claimAmount, 0, 0);
 
-      // User balance should be reduced by 2 * claimAmount
-      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - claimAmount * 2n);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - cumulative);
+      expect(await staking.claimedAmounts(rentalId, provider1.address)).to.equal(cumulative);
+    });
+
+    it("should reject re-submitted claim signatures", async function () {
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2],
+        rentalId,
+        user1.address,
+        provider1.address,
+        claimAmount,
+        deadline
+      );
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
+
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "ClaimAlreadySettled");
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - claimAmount);
+    });
+
+    it("should make out-of-order claims harmless", async function () {
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const older = ethers.parseEther("100");
+      const newer = ethers.parseEther("200");
+      const olderSigs = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, older, deadline);
+      const newerSigs = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, newer, deadline);
+
+      // Newer total lands first and pays everything owed so far
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, newer, deadline, SIGNER_EPOCH, newerSigs);
+
+      // Older, smaller total can no longer pay anything
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, older, deadline, SIGNER_EPOCH, olderSigs)
+      ).to.be.revertedWithCustomError(staking, "ClaimAlreadySettled");
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - newer);
+    });
+
+    it("should not consume withdrawal nonces on claims", async function () {
+      const rentalId = generateRentalId();
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
+
+      expect(await staking.nonceBitmap(provider1.address, 0)).to.equal(0);
     });
 
     it("should allow multiple providers to claim from same user", async function () {
@@ -781,7 +1850,6 @@ describe("TLPStaking", function () {
 
       // Provider 1 claims
       const rentalId1 = generateRentalId();
-      const nonce1 = await staking.getNonce(provider1.address);
       const deadline1 = await getDeadline();
       const signatures1 = await signClaim(
         [signer1, signer2],
@@ -789,14 +1857,12 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         claimAmount,
-        nonce1,
         deadline1
       );
-      await staking.connect(provider1).claim(rentalId1, user1.address, claimAmount, deadline1, signatures1);
+      await staking.connect(provider1).claim(rentalId1, user1.address, tlpAddress, 0, claimAmount, deadline1, SIGNER_EPOCH, signatures1);
 
       // Provider 2 claims
       const rentalId2 = generateRentalId();
-      const nonce2 = await staking.getNonce(provider2.address);
       const deadline2 = await getDeadline();
       const signatures2 = await signClaim(
         [signer1, signer2],
@@ -804,10 +1870,9 @@ describe("TLPStaking", function () {
         user1.address,
         provider2.address,
         claimAmount,
-        nonce2,
         deadline2
       );
-      await staking.connect(provider2).claim(rentalId2, user1.address, claimAmount, deadline2, signatures2);
+      await staking.connect(provider2).claim(rentalId2, user1.address, tlpAddress, 0, claimAmount, deadline2, SIGNER_EPOCH, signatures2);
 
       expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - claimAmount * 2n);
     });
@@ -827,23 +1892,20 @@ describe("TLPStaking", function () {
       const rentalId1 = generateRentalId();
       const rentalId2 = generateRentalId();
 
-      const nonce1 = await staking.getNonce(provider1.address);
-      const nonce2 = nonce1 + 1n;
-
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
-      const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, nonce2, deadline);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, deadline);
 
       const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
       const claims = [
-        { rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline },
-        { rentalId: rentalId2, user: user2.address, amount: claimAmount, deadline }
+        { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: rentalId2, user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
       ];
 
       const tx = await staking.connect(provider1).batchClaim(claims, [signatures1, signatures2]);
 
-      await expect(tx).to.emit(staking, "Claimed").withArgs(rentalId1, user1.address, provider1.address, claimAmount, 0n);
-      await expect(tx).to.emit(staking, "Claimed").withArgs(rentalId2, user2.address, provider1.address, claimAmount, 0n);
+      await expect(tx).to.emit(staking, "Claimed").withArgs(rentalId1, user1.address, provider1.address, tlpAddress, claimAmount, 0n, 0n);
+      await expect(tx).to.emit(staking, "Claimed").withArgs(rentalId2, user2.address, provider1.address, tlpAddress, claimAmount, 0n, 0n);
 
       const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
       expect(providerBalanceAfter - providerBalanceBefore).to.equal(claimAmount * 2n);
@@ -856,12 +1918,11 @@ describe("TLPStaking", function () {
       const claimAmount = ethers.parseEther("100");
       const deadline = await getDeadline();
       const rentalId1 = generateRentalId();
-      const nonce1 = await staking.getNonce(provider1.address);
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
 
       const claims = [
-        { rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline },
-        { rentalId: generateRentalId(), user: user2.address, amount: claimAmount, deadline }
+        { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: generateRentalId(), user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
       ];
 
       await expect(
@@ -876,15 +1937,12 @@ describe("TLPStaking", function () {
       const rentalId1 = generateRentalId();
       const rentalId2 = generateRentalId();
 
-      const nonce1 = await staking.getNonce(provider1.address);
-      const nonce2 = nonce1 + 1n;
-
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
-      const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, 0n, nonce2, deadline);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, 0n, deadline);
 
       const claims = [
-        { rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline },
-        { rentalId: rentalId2, user: user2.address, amount: 0n, deadline }
+        { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: rentalId2, user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: 0n, deadline, epoch: SIGNER_EPOCH }
       ];
 
       await expect(
@@ -896,11 +1954,10 @@ describe("TLPStaking", function () {
       const claimAmount = ethers.parseEther("100");
       const deadline = await getDeadline();
       const rentalId1 = generateRentalId();
-      const nonce1 = await staking.getNonce(user2.address);
 
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, user2.address, claimAmount, nonce1, deadline);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, user2.address, claimAmount, deadline);
 
-      const claims = [{ rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline }];
+      const claims = [{ rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }];
 
       await expect(
         staking.connect(user2).batchClaim(claims, [signatures1])
@@ -917,99 +1974,2445 @@ describe("TLPStaking", function () {
     });
   });
 
-  describe("Slashing - Type 1: Slash and Ban", function () {
+  describe("Payment Tokens", function () {
+    const CLAIM_AMOUNT = ethers.parseEther("100");
+    let stablecoin: Timeleap;
+    let stableAddress: string;
+
     beforeEach(async function () {
+      const TimeleapFactory = await ethers.getContractFactory("Timeleap");
+      stablecoin = await TimeleapFactory.deploy(admin.address);
+      stableAddress = await stablecoin.getAddress();
+
+      await stablecoin.connect(admin).transfer(user1.address, ethers.parseEther("100000"));
+      await stablecoin.connect(user1).approve(await staking.getAddress(), ethers.MaxUint256);
+      await staking.connect(admin).setPaymentToken(stableAddress, true);
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
     });
 
-    it("should slash all stake and ban provider", async function () {
-      const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
+    async function claimIn(token: string, cumulativeAmount: bigint, rentalId: string = generateRentalId()) {
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, cumulativeAmount, deadline, SIGNER_EPOCH, token
+      );
+      return staking.connect(provider1).claim(rentalId, user1.address, token, 0, cumulativeAmount, deadline, SIGNER_EPOCH, signatures);
+    }
 
-      await expect(staking.connect(police).slashAndBan(provider1.address))
-        .to.emit(staking, "ProviderSlashed")
-        .withArgs(provider1.address, STAKE_AMOUNT, true);
+    it("should manage the payment token allowlist", async function () {
+      expect(await staking.paymentTokens(stableAddress)).to.equal(true);
 
-      const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
-      expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(STAKE_AMOUNT);
+      await expect(staking.connect(admin).setPaymentToken(stableAddress, false))
+        .to.emit(staking, "PaymentTokenUpdated")
+        .withArgs(stableAddress, false);
+      expect(await staking.paymentTokens(stableAddress)).to.equal(false);
 
-      const info = await staking.getProviderInfo(provider1.address);
-      expect(info.stakeAmount).to.equal(0);
-      expect(info.isBanned).to.be.true;
-      expect(info.slashCount).to.equal(1);
+      await expect(
+        staking.connect(admin).setPaymentToken(tlpAddress, true)
+      ).to.be.revertedWithCustomError(staking, "InvalidPaymentToken");
+      await expect(
+        staking.connect(admin).setPaymentToken(ethers.ZeroAddress, true)
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+      await expect(
+        staking.connect(user1).setPaymentToken(stableAddress, true)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
     });
 
-    it("should reject slash of non-provider", async function () {
+    it("should track deposits per token", async function () {
+      await expect(staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT))
+        .to.emit(staking, "Deposited")
+        .withArgs(user1.address, user1.address, stableAddress, DEPOSIT_AMOUNT, DEPOSIT_AMOUNT);
+      await staking.connect(user1).depositToken(tlpAddress, DEPOSIT_AMOUNT / 2n);
+
+      expect(await staking.getUserTokenBalance(user1.address, stableAddress)).to.equal(DEPOSIT_AMOUNT);
+      expect(await staking.getUserTokenBalance(user1.address, tlpAddress)).to.equal(DEPOSIT_AMOUNT / 2n);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT / 2n);
+    });
+
+    it("should reject deposits in tokens that are not allowlisted", async function () {
+      await staking.connect(admin).setPaymentToken(stableAddress, false);
+
       await expect(
-        staking.connect(police).slashAndBan(user1.address)
-      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+        staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT)
+      ).to.be.revertedWithCustomError(staking, "TokenNotAllowed");
+    });
+
+    it("should withdraw in the token the signatures commit to", async function () {
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      // Delisting blocks new deposits only
+      await staking.connect(admin).setPaymentToken(stableAddress, false);
+
+      const deadline = await getDeadline();
+      const tlpSignatures = await signWithdrawal([signer1, signer2], user1.address, DEPOSIT_AMOUNT, 0n, deadline);
+      await expect(
+        staking.connect(user1).withdraw(stableAddress, DEPOSIT_AMOUNT, 0n, deadline, SIGNER_EPOCH, tlpSignatures)
+      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+
+      const signatures = await signWithdrawal(
+        [signer1, signer2], user1.address, DEPOSIT_AMOUNT, 0n, deadline, SIGNER_EPOCH, stableAddress
+      );
+      const tx = staking.connect(user1).withdraw(stableAddress, DEPOSIT_AMOUNT, 0n, deadline, SIGNER_EPOCH, signatures);
+      await expect(tx).to.changeTokenBalance(stablecoin, user1, DEPOSIT_AMOUNT);
+      await expect(tx)
+        .to.emit(staking, "Withdrawn")
+        .withArgs(user1.address, stableAddress, DEPOSIT_AMOUNT, 0n);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should pay claims and commission in the claim's token", async function () {
+      await staking.connect(admin).setCommission(500);
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      const commission = (CLAIM_AMOUNT * 500n) / 10000n;
+
+      const tx = claimIn(stableAddress, CLAIM_AMOUNT);
+      await expect(tx).to.changeTokenBalances(
+        stablecoin, [provider1, treasury], [CLAIM_AMOUNT - commission, commission]
+      );
+      await expect(tx).to.emit(staking, "Claimed");
+
+      expect(await staking.getUserTokenBalance(user1.address, stableAddress)).to.equal(DEPOSIT_AMOUNT - CLAIM_AMOUNT);
+    });
+
+    it("should not pay claims in one token from a balance in another", async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      await expect(claimIn(stableAddress, CLAIM_AMOUNT)).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
+
+    it("should reject claims in other tokens while a claim cap applies", async function () {
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      await staking.connect(admin).setClaimCap(50, 24 * 60 * 60);
+
+      await expect(claimIn(stableAddress, CLAIM_AMOUNT)).to.be.revertedWithCustomError(staking, "InvalidPaymentToken");
+
+      await staking.connect(admin).setClaimCap(0, 24 * 60 * 60);
+      await expect(claimIn(stableAddress, CLAIM_AMOUNT)).to.emit(staking, "Claimed");
+    });
+
+    it("should keep rental locks in TLP", async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      const rentalId = generateRentalId();
+      await staking.connect(user1).openRental(rentalId, provider1.address, CLAIM_AMOUNT, (await time.latest()) + 86400);
+
+      await expect(
+        claimIn(stableAddress, CLAIM_AMOUNT, rentalId)
+      ).to.be.revertedWithCustomError(staking, "RentalMismatch");
+    });
+
+    it("should reject batches that mix payment tokens", async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      const deadline = await getDeadline();
+      const rentalId1 = generateRentalId();
+      const rentalId2 = generateRentalId();
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, CLAIM_AMOUNT, deadline);
+      const signatures2 = await signClaim(
+        [signer1, signer2], rentalId2, user1.address, provider1.address, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, stableAddress
+      );
+      const claims = [
+        { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: CLAIM_AMOUNT, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: rentalId2, user: user1.address, token: stableAddress, feeClass: 0, cumulativeAmount: CLAIM_AMOUNT, deadline, epoch: SIGNER_EPOCH }
+      ];
+
+      await expect(
+        staking.connect(provider1).batchClaim(claims, [signatures1, signatures2])
+      ).to.be.revertedWithCustomError(staking, "MixedPaymentTokens");
+    });
+
+    it("should escape-hatch withdraw in the requested token", async function () {
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+
+      await staking.connect(user1).requestUnilateralWithdrawal(stableAddress, DEPOSIT_AMOUNT);
+      const [token, amount] = await staking.getPendingWithdrawal(user1.address);
+      expect(token).to.equal(stableAddress);
+      expect(amount).to.equal(DEPOSIT_AMOUNT);
+
+      await time.increase(7 * 24 * 60 * 60);
+      const tx = staking.connect(user1).executeUnilateralWithdrawal();
+      await expect(tx).to.changeTokenBalance(stablecoin, user1, DEPOSIT_AMOUNT);
+      await expect(tx)
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, stableAddress, DEPOSIT_AMOUNT, 0n);
+    });
+
+    it("should refund in the held payout's token but never from stake", async function () {
+      await staking.connect(admin).setClaimChallengePeriod(86400);
+      await staking.connect(user1).depositToken(stableAddress, DEPOSIT_AMOUNT);
+      const rentalId = generateRentalId();
+      await claimIn(stableAddress, CLAIM_AMOUNT, rentalId);
+      expect((await staking.getPendingClaim(rentalId, provider1.address)).token).to.equal(stableAddress);
+
+      const deadline = await getDeadline();
+      const refundAll = await signRefund(
+        [signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, stableAddress
+      );
+      const tooMuch = await signRefund(
+        [signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT + 1n, deadline, SIGNER_EPOCH, stableAddress
+      );
+      await expect(
+        staking.connect(user1).refund(
+          rentalId, user1.address, provider1.address, stableAddress, CLAIM_AMOUNT + 1n, deadline, SIGNER_EPOCH, tooMuch
+        )
+      ).to.be.revertedWithCustomError(staking, "InsufficientStake");
+
+      await expect(
+        staking.connect(user1).refund(
+          rentalId, user1.address, provider1.address, stableAddress, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, refundAll
+        )
+      )
+        .to.emit(staking, "Refunded")
+        .withArgs(rentalId, user1.address, provider1.address, stableAddress, CLAIM_AMOUNT, 0);
+      expect(await staking.getUserTokenBalance(user1.address, stableAddress)).to.equal(DEPOSIT_AMOUNT);
+      expect((await staking.getProviderInfo(provider1.address)).stakeAmount).to.equal(STAKE_AMOUNT);
     });
   });
 
-  describe("Slashing - Type 2: Partial Slash", function () {
+  describe("Emergency Pause", function () {
+    const GUARDIAN_ROLE = ethers.keccak256(ethers.toUtf8Bytes("GUARDIAN_ROLE"));
+    const PAUSE_DEPOSITS = 1n;
+    const PAUSE_WITHDRAWALS = 2n;
+    const PAUSE_CLAIMS = 4n;
+    const PAUSE_STAKING = 8n;
+    const PAUSE_ALL = 15n;
+    const REASON = ethers.encodeBytes32String("SIGNER_COMPROMISE");
+    let guardian: HardhatEthersSigner;
+
     beforeEach(async function () {
-      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      guardian = (await ethers.getSigners())[11];
+      await staking.connect(admin).grantRole(GUARDIAN_ROLE, guardian.address);
     });
 
-    it("should slash partial stake without banning", async function () {
-      const slashAmount = STAKE_AMOUNT / 4n;
-      const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
+    // Every guarded entry point; arguments only need to be well-formed since
+    // the pause check runs before any other validation
+    const guardedCalls: [string, bigint, () => Promise<unknown>][] = [
+      ["deposit", PAUSE_DEPOSITS, () => staking.connect(user1).deposit(DEPOSIT_AMOUNT)],
+      ["depositToken", PAUSE_DEPOSITS, () => staking.connect(user1).depositToken(tlpAddress, DEPOSIT_AMOUNT)],
+      ["depositFor", PAUSE_DEPOSITS, () => staking.connect(user1).depositFor(user2.address, DEPOSIT_AMOUNT)],
+      ["batchDepositFor", PAUSE_DEPOSITS, () => staking.connect(user1).batchDepositFor([user2.address], [DEPOSIT_AMOUNT])],
+      ["depositWithPermit", PAUSE_DEPOSITS, () => staking.connect(user1).depositWithPermit(DEPOSIT_AMOUNT, 0, 27, ethers.ZeroHash, ethers.ZeroHash)],
+      ["withdraw", PAUSE_WITHDRAWALS, () => staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, 0, 0, SIGNER_EPOCH, [])],
+      ["claim", PAUSE_CLAIMS, () => staking.connect(provider1).claim(ethers.ZeroHash, user1.address, tlpAddress, 0, DEPOSIT_AMOUNT, 0, SIGNER_EPOCH, [])],
+      ["batchClaim", PAUSE_CLAIMS, () => staking.connect(provider1).batchClaim([], [])],
+      ["openStream", PAUSE_CLAIMS, () => staking.connect(provider1).openStream(ethers.ZeroHash, user1.address, provider1.address, 1, 1, 0, SIGNER_EPOCH, [])],
+      ["withdrawFromStream", PAUSE_CLAIMS, () => staking.connect(provider1).withdrawFromStream(ethers.ZeroHash)],
+      ["releaseClaim", PAUSE_CLAIMS, () => staking.connect(user1).releaseClaim(ethers.ZeroHash, provider1.address)],
+      ["refund", PAUSE_CLAIMS, () => staking.connect(user1).refund(ethers.ZeroHash, user1.address, provider1.address, tlpAddress, DEPOSIT_AMOUNT, 0, SIGNER_EPOCH, [])],
+      ["payInsurance", PAUSE_CLAIMS, () => staking.connect(user1).payInsurance(ethers.ZeroHash, user1.address, DEPOSIT_AMOUNT, 0, SIGNER_EPOCH, [])],
+      ["releaseVested", PAUSE_CLAIMS, () => staking.connect(provider1).releaseVested()],
+      ["stake", PAUSE_STAKING, () => staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION)],
+      ["stakeWithPermit", PAUSE_STAKING, () => staking.connect(provider1).stakeWithPermit(STAKE_AMOUNT, MIN_STAKE_DURATION, 0, 27, ethers.ZeroHash, ethers.ZeroHash)],
+      ["increaseStake", PAUSE_STAKING, () => staking.connect(provider1).increaseStake(STAKE_AMOUNT)],
+      ["increaseStakeWithPermit", PAUSE_STAKING, () => staking.connect(provider1).increaseStakeWithPermit(STAKE_AMOUNT, 0, 27, ethers.ZeroHash, ethers.ZeroHash)],
+      ["requestUnstake", PAUSE_STAKING, () => staking.connect(provider1).requestUnstake(STAKE_AMOUNT)],
+      ["withdrawUnbonded", PAUSE_STAKING, () => staking.connect(provider1).withdrawUnbonded()],
+      ["delegate", PAUSE_STAKING, () => staking.connect(user1).delegate(provider1.address, DEPOSIT_AMOUNT)],
+      ["undelegate", PAUSE_STAKING, () => staking.connect(user1).undelegate(provider1.address, DEPOSIT_AMOUNT)],
+      ["withdrawUndelegated", PAUSE_STAKING, () => staking.connect(user1).withdrawUndelegated(provider1.address)],
+      ["claimDelegationRewards", PAUSE_STAKING, () => staking.connect(user1).claimDelegationRewards(provider1.address)],
+    ];
+
+    for (const [name, scope, call] of guardedCalls) {
+      it(`should block ${name} while its scope is paused`, async function () {
+        await staking.connect(guardian).pause(scope, REASON);
+
+        await expect(call())
+          .to.be.revertedWithCustomError(staking, "OperationPaused")
+          .withArgs(scope);
+      });
+    }
 
-      await expect(staking.connect(police).slashPartial(provider1.address, slashAmount))
-        .to.emit(staking, "ProviderSlashed")
-        .withArgs(provider1.address, slashAmount, false);
+    it("should only block the paused scope", async function () {
+      await staking.connect(guardian).pause(PAUSE_WITHDRAWALS | PAUSE_CLAIMS, REASON);
 
-      const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
-      expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(slashAmount);
+      await expect(staking.connect(user1).deposit(DEPOSIT_AMOUNT)).to.emit(staking, "Deposited");
+      await expect(staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION)).to.emit(staking, "Staked");
+    });
 
-      const info = await staking.getProviderInfo(provider1.address);
+    it("should emit the reason code and report the pause state", async function () {
+      await expect(staking.connect(guardian).pause(PAUSE_DEPOSITS | PAUSE_STAKING, REASON))
+        .to.emit(staking, "ScopesPaused")
+        .withArgs(guardian.address, PAUSE_DEPOSITS | PAUSE_STAKING, REASON);
+
+      const client = new TLPStakingClient(ethers.provider, await staking.getAddress());
+      expect(await client.getPauseState()).to.deep.equal({
+        scopes: PAUSE_DEPOSITS | PAUSE_STAKING,
+        deposits: true,
+        withdrawals: false,
+        claims: false,
+        staking: true,
+      });
+    });
+
+    it("should resume operations after admin unpauses", async function () {
+      await staking.connect(guardian).pause(PAUSE_ALL, REASON);
+
+      await expect(staking.connect(admin).unpause(PAUSE_DEPOSITS))
+        .to.emit(staking, "ScopesUnpaused")
+        .withArgs(admin.address, PAUSE_DEPOSITS);
+
+      await expect(staking.connect(user1).deposit(DEPOSIT_AMOUNT)).to.emit(staking, "Deposited");
+      expect(await staking.pausedScopes()).to.equal(PAUSE_ALL & ~PAUSE_DEPOSITS);
+    });
+
+    it("should only allow guardians to pause and admin to unpause", async function () {
+      await expect(
+        staking.connect(user1).pause(PAUSE_ALL, REASON)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+
+      await staking.connect(guardian).pause(PAUSE_ALL, REASON);
+      await expect(
+        staking.connect(guardian).unpause(PAUSE_ALL)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should reject empty or unknown scopes", async function () {
+      await expect(
+        staking.connect(guardian).pause(0, REASON)
+      ).to.be.revertedWithCustomError(staking, "InvalidPauseScope");
+      await expect(
+        staking.connect(guardian).pause(16, REASON)
+      ).to.be.revertedWithCustomError(staking, "InvalidPauseScope");
+    });
+
+    it("should keep slashing and the escape hatch available while paused", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(guardian).pause(PAUSE_ALL, REASON);
+
+      await expect(staking.connect(police).slashPartial(provider1.address, STAKE_AMOUNT / 2n, SLASH_REASON, EVIDENCE_HASH))
+        .to.emit(staking, "ProviderSlashed");
+      await expect(staking.connect(user1).requestUnilateralWithdrawal(tlpAddress, DEPOSIT_AMOUNT))
+        .to.emit(staking, "UnilateralWithdrawalRequested");
+
+      await time.increase(7 * 24 * 60 * 60);
+      await expect(staking.connect(user1).executeUnilateralWithdrawal())
+        .to.emit(staking, "UnilateralWithdrawalExecuted")
+        .withArgs(user1.address, tlpAddress, DEPOSIT_AMOUNT, 0n);
+    });
+  });
+
+  describe("Meta-Transactions", function () {
+    let forwarder: TLPForwarder;
+    let relayerAccount: HardhatEthersSigner;
+    let relayer: TLPRelayer;
+    const RELAY_FEE = ethers.parseEther("1");
+
+    beforeEach(async function () {
+      relayerAccount = (await ethers.getSigners())[10];
+
+      const ForwarderFactory = await ethers.getContractFactory("TLPForwarder");
+      forwarder = await ForwarderFactory.deploy();
+      await forwarder.waitForDeployment();
+
+      await staking.connect(admin).setTrustedForwarder(await forwarder.getAddress());
+      relayer = new TLPRelayer(relayerAccount, await forwarder.getAddress());
+
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    });
+
+    async function buildWithdrawal(amount: bigint) {
+      const deadline = await getDeadline();
+      const nonce = await nextNonce(user1.address);
+      const signatures = await signWithdrawal([signer1, signer2], user1.address, amount, nonce, deadline);
+      const client = new TLPStakingClient(user1, await staking.getAddress());
+      return client.buildRelayedWithdrawal(
+        await forwarder.getAddress(), tlpAddress, amount, nonce, deadline, SIGNER_EPOCH, signatures
+      );
+    }
+
+    it("should relay a withdrawal without the user paying gas", async function () {
+      const amount = ethers.parseEther("100");
+      const request = await buildWithdrawal(amount);
+
+      const ethBefore = await ethers.provider.getBalance(user1.address);
+      const tokensBefore = await tlpToken.balanceOf(user1.address);
+
+      await expect(relayer.relay(request))
+        .to.emit(staking, "Withdrawn")
+        .withArgs(user1.address, tlpAddress, amount, DEPOSIT_AMOUNT - amount);
+
+      expect(await ethers.provider.getBalance(user1.address)).to.equal(ethBefore);
+      expect(await tlpToken.balanceOf(user1.address)).to.equal(tokensBefore + amount);
+      expect(await staking.isNonceUsed(user1.address, 0)).to.equal(true);
+    });
+
+    it("should charge the relay fee from the user's pool balance", async function () {
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      const amount = ethers.parseEther("100");
+      const request = await buildWithdrawal(amount);
+
+      await expect(relayer.relay(request))
+        .to.emit(staking, "RelayFeePaid")
+        .withArgs(user1.address, relayerAccount.address, RELAY_FEE);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - amount - RELAY_FEE);
+      expect(await tlpToken.balanceOf(relayerAccount.address)).to.equal(RELAY_FEE);
+    });
+
+    it("should fail a relayed withdrawal that leaves no room for the fee", async function () {
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      const request = await buildWithdrawal(DEPOSIT_AMOUNT);
+
+      await expect(relayer.relay(request)).to.be.revertedWithCustomError(forwarder, "FailedCall");
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should not charge the relay fee on direct calls", async function () {
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      const deadline = await getDeadline();
+      const signatures = await signWithdrawal([signer1, signer2], user1.address, DEPOSIT_AMOUNT, 0n, deadline);
+
+      await expect(
+        staking.connect(user1).withdraw(tlpAddress, DEPOSIT_AMOUNT, 0n, deadline, SIGNER_EPOCH, signatures)
+      ).to.not.emit(staking, "RelayFeePaid");
+      expect(await staking.getUserBalance(user1.address)).to.equal(0);
+    });
+
+    it("should relay a claim and deduct the fee from the provider payout", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+
+      const rentalId = generateRentalId();
+      const amount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline
+      );
+      const client = new TLPStakingClient(provider1, await staking.getAddress());
+      const request = await client.buildRelayedClaim(
+        await forwarder.getAddress(), rentalId, user1.address, tlpAddress, 0n, amount, deadline, SIGNER_EPOCH, signatures
+      );
+
+      const providerBefore = await tlpToken.balanceOf(provider1.address);
+
+      await expect(relayer.relay(request))
+        .to.emit(staking, "Claimed")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, amount, 0n, 0n);
+
+      expect(await tlpToken.balanceOf(provider1.address)).to.equal(providerBefore + amount - RELAY_FEE);
+      expect(await tlpToken.balanceOf(relayerAccount.address)).to.equal(RELAY_FEE);
+    });
+
+    it("should take the relay fee off a claim before the delegators' share", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user2).delegate(provider1.address, STAKE_AMOUNT * 9n); // 90% of effective stake
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+
+      // Delegators' 90% of the gross payout plus the fee would exceed it
+      const rentalId = generateRentalId();
+      const amount = RELAY_FEE * 2n;
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline
+      );
+      const client = new TLPStakingClient(provider1, await staking.getAddress());
+      const request = await client.buildRelayedClaim(
+        await forwarder.getAddress(), rentalId, user1.address, tlpAddress, 0n, amount, deadline, SIGNER_EPOCH, signatures
+      );
+
+      const providerBefore = await tlpToken.balanceOf(provider1.address);
+      const delegatorReward = ((amount - RELAY_FEE) * 9n) / 10n;
+
+      await expect(relayer.relay(request))
+        .to.emit(staking, "DelegationRewardsAccrued")
+        .withArgs(provider1.address, delegatorReward);
+      expect(await tlpToken.balanceOf(provider1.address)).to.equal(providerBefore + amount - RELAY_FEE - delegatorReward);
+      expect(await tlpToken.balanceOf(relayerAccount.address)).to.equal(RELAY_FEE);
+    });
+
+    it("should reject a relayed claim whose payout does not cover the fee", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      // Trust the relayer account itself so the staking contract's revert reaches the test
+      await staking.connect(admin).setTrustedForwarder(relayerAccount.address);
+
+      const rentalId = generateRentalId();
+      const amount = RELAY_FEE / 2n;
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline
+      );
+      const data = staking.interface.encodeFunctionData("claim", [
+        rentalId, user1.address, tlpAddress, 0, amount, deadline, SIGNER_EPOCH, signatures
+      ]);
+
+      await expect(
+        relayerAccount.sendTransaction({ to: await staking.getAddress(), data: ethers.concat([data, provider1.address]) })
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
+
+    it("should fail a relayed held batch whose payouts do not cover the fee", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      await staking.connect(admin).setClaimChallengePeriod(86400);
+
+      const rentalId = generateRentalId();
+      const amount = RELAY_FEE / 2n;
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline
+      );
+      const claims = [{ rentalId, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: amount, deadline, epoch: SIGNER_EPOCH }];
+      const batches: [typeof claims, string[][]][] = [[[], []], [claims, [signatures]]];
+      const forwarderAddress = await forwarder.getAddress();
+      const stakingAddress = await staking.getAddress();
+      const poolBefore = await tlpToken.balanceOf(stakingAddress);
+
+      for (const [batch, sigs] of batches) {
+        const request = await signForwardRequest(provider1, forwarderAddress, {
+          to: stakingAddress,
+          data: staking.interface.encodeFunctionData("batchClaim", [batch, sigs]),
+        });
+        await expect(relayer.relay(request)).to.be.revertedWithCustomError(forwarder, "FailedCall");
+      }
+
+      expect(await tlpToken.balanceOf(stakingAddress)).to.equal(poolBefore);
+      expect(await tlpToken.balanceOf(relayerAccount.address)).to.equal(0);
+    });
+
+    it("should reject a relayed held claim whose payout does not cover the fee", async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(admin).setRelayFee(RELAY_FEE, relayerAccount.address);
+      await staking.connect(admin).setClaimChallengePeriod(86400);
+      // Trust the relayer account itself so the staking contract's revert reaches the test
+      await staking.connect(admin).setTrustedForwarder(relayerAccount.address);
+
+      const rentalId = generateRentalId();
+      const amount = RELAY_FEE / 2n;
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline
+      );
+      const data = staking.interface.encodeFunctionData("claim", [
+        rentalId, user1.address, tlpAddress, 0, amount, deadline, SIGNER_EPOCH, signatures
+      ]);
+
+      await expect(
+        relayerAccount.sendTransaction({ to: await staking.getAddress(), data: ethers.concat([data, provider1.address]) })
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should reject requests once the forwarder is no longer trusted", async function () {
+      const request = await buildWithdrawal(ethers.parseEther("100"));
+      await staking.connect(admin).setTrustedForwarder(ethers.ZeroAddress);
+
+      expect(await relayer.verify(request)).to.equal(false);
+      await expect(forwarder.execute(request))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771UntrustfulTarget");
+    });
+
+    it("should only allow admin to configure relaying", async function () {
+      await expect(
+        staking.connect(user1).setTrustedForwarder(user1.address)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+      await expect(
+        staking.connect(user1).setRelayFee(RELAY_FEE, user1.address)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+      await expect(
+        staking.connect(admin).setRelayFee(RELAY_FEE, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+    });
+
+    it("should cap the relay fee", async function () {
+      const maxFee = await staking.MAX_RELAY_FEE();
+
+      await expect(
+        staking.connect(admin).setRelayFee(maxFee + 1n, relayerAccount.address)
+      ).to.be.revertedWithCustomError(staking, "RelayFeeTooHigh");
+      await expect(staking.connect(admin).setRelayFee(maxFee, relayerAccount.address))
+        .to.emit(staking, "RelayFeeUpdated")
+        .withArgs(maxFee, relayerAccount.address);
+    });
+  });
+
+  describe("Rental Escrow", function () {
+    const LOCK_AMOUNT = ethers.parseEther("300");
+    let rentalId: string;
+    let expiresAt: bigint;
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(provider2).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      rentalId = generateRentalId();
+      expiresAt = BigInt(await time.latest()) + 86400n;
+      await staking.connect(user1).openRental(rentalId, provider1.address, LOCK_AMOUNT, expiresAt);
+    });
+
+    async function claimRental(
+      provider: HardhatEthersSigner,
+      user: string,
+      amount: bigint,
+      id: string = rentalId
+    ) {
+      const deadline = await getDeadline(2 * 86400);
+      const signatures = await signClaim([signer1, signer2], id, user, provider.address, amount, deadline);
+      return staking.connect(provider).claim(id, user, tlpAddress, 0, amount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    it("should move locked funds out of the user's balance", async function () {
+      const id = generateRentalId();
+      await expect(staking.connect(user1).openRental(id, provider2.address, LOCK_AMOUNT, expiresAt))
+        .to.emit(staking, "RentalOpened")
+        .withArgs(id, user1.address, provider2.address, LOCK_AMOUNT, expiresAt);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - LOCK_AMOUNT * 2n);
+      expect(await staking.lockedBalances(user1.address)).to.equal(LOCK_AMOUNT * 2n);
+
+      const lock = await staking.getRentalLock(id, user1.address);
+      expect(lock.user).to.equal(user1.address);
+      expect(lock.provider).to.equal(provider2.address);
+      expect(lock.amount).to.equal(LOCK_AMOUNT);
+      expect(lock.claimed).to.equal(0);
+      expect(lock.closed).to.equal(false);
+    });
+
+    it("should reject invalid rental locks", async function () {
+      await expect(
+        staking.connect(user1).openRental(rentalId, provider1.address, LOCK_AMOUNT, expiresAt)
+      ).to.be.revertedWithCustomError(staking, "RentalAlreadyExists");
+      await expect(
+        staking.connect(user1).openRental(generateRentalId(), ethers.ZeroAddress, LOCK_AMOUNT, expiresAt)
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+      await expect(
+        staking.connect(user1).openRental(generateRentalId(), provider1.address, 0, expiresAt)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+      await expect(
+        staking.connect(user1).openRental(generateRentalId(), provider1.address, LOCK_AMOUNT, await time.latest())
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+      await expect(
+        staking.connect(user1).openRental(generateRentalId(), provider1.address, DEPOSIT_AMOUNT, expiresAt)
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
+
+    it("should cap claims at the locked amount", async function () {
+      await expect(claimRental(provider1, user1.address, ethers.parseEther("200")))
+        .to.emit(staking, "Claimed");
+      await claimRental(provider1, user1.address, LOCK_AMOUNT);
+
+      await expect(
+        claimRental(provider1, user1.address, LOCK_AMOUNT + 1n)
+      ).to.be.revertedWithCustomError(staking, "RentalCapExceeded");
+
+      const lock = await staking.getRentalLock(rentalId, user1.address);
+      expect(lock.claimed).to.equal(LOCK_AMOUNT);
+      expect(await staking.lockedBalances(user1.address)).to.equal(0);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - LOCK_AMOUNT);
+    });
+
+    it("should only let the rental's provider claim against the lock", async function () {
+      await expect(
+        claimRental(provider2, user1.address, ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(staking, "RentalMismatch");
+
+      // The lock only covers its own user; claims for others draw on their balance
+      await staking.connect(user2).deposit(DEPOSIT_AMOUNT);
+      await claimRental(provider1, user2.address, ethers.parseEther("100"));
+      expect(await staking.getUserBalance(user2.address)).to.equal(DEPOSIT_AMOUNT - ethers.parseEther("100"));
+      expect((await staking.getRentalLock(rentalId, user1.address)).claimed).to.equal(0);
+    });
+
+    it("should not let a lock on someone else's rentalId block its claims", async function () {
+      const victimRental = generateRentalId();
+      await staking.connect(user2).deposit(DEPOSIT_AMOUNT);
+      await claimRental(provider1, user2.address, ethers.parseEther("100"), victimRental);
+
+      // An attacker locks the rentalId already in use, naming itself as the provider
+      await staking.connect(user1).openRental(victimRental, user1.address, 1n, expiresAt);
+
+      await expect(claimRental(provider1, user2.address, ethers.parseEther("300"), victimRental))
+        .to.emit(staking, "Claimed")
+        .withArgs(victimRental, user2.address, provider1.address, tlpAddress, ethers.parseEther("200"), 0, 0);
+      expect(await staking.getUserBalance(user2.address)).to.equal(DEPOSIT_AMOUNT - ethers.parseEther("300"));
+      expect((await staking.getRentalLock(victimRental, user2.address)).user).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should keep locked funds out of reach of unlocked claims", async function () {
+      await expect(
+        claimRental(provider2, user1.address, DEPOSIT_AMOUNT - LOCK_AMOUNT + 1n, generateRentalId())
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+    });
+
+    it("should reject claims after expiry", async function () {
+      await time.increaseTo(expiresAt + 1n);
+
+      await expect(
+        claimRental(provider1, user1.address, ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(staking, "RentalInactive");
+    });
+
+    it("should enforce the lock in batch claims", async function () {
+      const amount = ethers.parseEther("200");
+      const deadline = await getDeadline();
+      const claims = [
+        { rentalId, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: amount, deadline, epoch: SIGNER_EPOCH },
+        { rentalId, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: amount * 2n, deadline, epoch: SIGNER_EPOCH }
+      ];
+      const signatures = [
+        await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, amount, deadline),
+        await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, amount * 2n, deadline)
+      ];
+
+      await expect(
+        staking.connect(provider1).batchClaim(claims, signatures)
+      ).to.be.revertedWithCustomError(staking, "RentalCapExceeded");
+    });
+
+    it("should return the remainder to the user after expiry", async function () {
+      await claimRental(provider1, user1.address, ethers.parseEther("100"));
+
+      await expect(
+        staking.connect(user2).closeRental(rentalId, user1.address)
+      ).to.be.revertedWithCustomError(staking, "RentalNotExpired");
+
+      await time.increaseTo(expiresAt + 1n);
+      await expect(staking.connect(user2).closeRental(rentalId, user1.address))
+        .to.emit(staking, "RentalClosed")
+        .withArgs(rentalId, user1.address, ethers.parseEther("200"));
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - ethers.parseEther("100"));
+      expect(await staking.lockedBalances(user1.address)).to.equal(0);
+      expect((await staking.getRentalLock(rentalId, user1.address)).closed).to.equal(true);
+
+      await expect(
+        staking.connect(user1).closeRental(rentalId, user1.address)
+      ).to.be.revertedWithCustomError(staking, "RentalNotFound");
+    });
+
+    it("should let the provider release a rental early", async function () {
+      await expect(staking.connect(provider1).closeRental(rentalId, user1.address))
+        .to.emit(staking, "RentalClosed")
+        .withArgs(rentalId, user1.address, LOCK_AMOUNT);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+      await expect(
+        claimRental(provider1, user1.address, 1n)
+      ).to.be.revertedWithCustomError(staking, "RentalInactive");
+      await expect(
+        staking.connect(user1).openRental(rentalId, provider1.address, LOCK_AMOUNT, expiresAt)
+      ).to.be.revertedWithCustomError(staking, "RentalAlreadyExists");
+    });
+
+    it("should reject closing an unknown rental", async function () {
+      await expect(
+        staking.connect(user1).closeRental(generateRentalId(), user1.address)
+      ).to.be.revertedWithCustomError(staking, "RentalNotFound");
+    });
+  });
+
+  describe("Disputes and Refunds", function () {
+    const CHALLENGE_PERIOD = 86400n;
+    const CLAIM_AMOUNT = ethers.parseEther("100");
+    let rentalId: string;
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(admin).setClaimChallengePeriod(CHALLENGE_PERIOD);
+      rentalId = generateRentalId();
+    });
+
+    async function claimRental(cumulativeAmount: bigint, id: string = rentalId) {
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], id, user1.address, provider1.address, cumulativeAmount, deadline);
+      return staking.connect(provider1).claim(id, user1.address, tlpAddress, 0, cumulativeAmount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    async function refund(cumulativeAmount: bigint, id: string = rentalId) {
+      const deadline = await getDeadline();
+      const signatures = await signRefund([signer1, signer2], id, user1.address, provider1.address, cumulativeAmount, deadline);
+      return staking.connect(user1).refund(
+        id, user1.address, provider1.address, tlpAddress, cumulativeAmount, deadline, SIGNER_EPOCH, signatures
+      );
+    }
+
+    async function dismissalSignatures(claimedAmount: bigint, deadline: bigint): Promise<string[]> {
+      const domain = await getDomain();
+      const types = {
+        DisputeDismissal: [
+          { name: "rentalId", type: "bytes32" },
+          { name: "provider", type: "address" },
+          { name: "claimedAmount", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+          { name: "epoch", type: "uint256" }
+        ]
+      };
+      const value = { rentalId, provider: provider1.address, claimedAmount, deadline, epoch: SIGNER_EPOCH };
+      return [await signer1.signTypedData(domain, types, value), await signer2.signTypedData(domain, types, value)];
+    }
+
+    it("should update the challenge period", async function () {
+      await expect(staking.connect(admin).setClaimChallengePeriod(3600))
+        .to.emit(staking, "ClaimChallengePeriodUpdated")
+        .withArgs(CHALLENGE_PERIOD, 3600);
+      await expect(
+        staking.connect(user1).setClaimChallengePeriod(0)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should hold claim payouts for the challenge period", async function () {
+      await staking.connect(admin).setCommission(1000);
+
+      const tx = claimRental(CLAIM_AMOUNT);
+      await expect(tx).to.changeTokenBalances(
+        tlpToken, [provider1, treasury], [0, CLAIM_AMOUNT / 10n]
+      );
+      const releaseTime = BigInt(await time.latest()) + CHALLENGE_PERIOD;
+      await expect(tx)
+        .to.emit(staking, "ClaimHeld")
+        .withArgs(rentalId, user1.address, provider1.address, (CLAIM_AMOUNT * 9n) / 10n, releaseTime);
+
+      const pending = await staking.getPendingClaim(rentalId, provider1.address);
+      expect(pending.user).to.equal(user1.address);
+      expect(pending.amount).to.equal((CLAIM_AMOUNT * 9n) / 10n);
+      expect(pending.releaseTime).to.equal(releaseTime);
+      expect(pending.disputed).to.equal(false);
+    });
+
+    it("should release held payouts after the challenge period", async function () {
+      await claimRental(CLAIM_AMOUNT);
+
+      await expect(
+        staking.connect(user2).releaseClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "ChallengePeriodActive");
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(
+        staking.connect(user2).releaseClaim(rentalId, provider1.address)
+      ).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT);
+
+      expect((await staking.getPendingClaim(rentalId, provider1.address)).amount).to.equal(0);
+      await expect(
+        staking.connect(user2).releaseClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "NoPendingClaim");
+    });
+
+    it("should account released payouts like immediate ones", async function () {
+      const relayerAccount = (await ethers.getSigners())[10];
+      const relayFee = ethers.parseEther("1");
+      await staking.connect(user2).delegate(provider1.address, STAKE_AMOUNT); // half the effective stake
+      await staking.connect(admin).setRelayFee(relayFee, relayerAccount.address);
+      // Trust the relayer account itself as the forwarder to relay the claim
+      await staking.connect(admin).setTrustedForwarder(relayerAccount.address);
+
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline);
+      const data = staking.interface.encodeFunctionData("claim", [
+        rentalId, user1.address, tlpAddress, 0, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, signatures
+      ]);
+      await relayerAccount.sendTransaction({ to: await staking.getAddress(), data: ethers.concat([data, provider1.address]) });
+
+      const pending = await staking.getPendingClaim(rentalId, provider1.address);
+      expect(pending.amount).to.equal(CLAIM_AMOUNT);
+      expect(pending.fee).to.equal(relayFee);
+
+      await time.increase(CHALLENGE_PERIOD);
+      const delegatorReward = (CLAIM_AMOUNT - relayFee) / 2n;
+      const tx = staking.connect(user2).releaseClaim(rentalId, provider1.address);
+      await expect(tx)
+        .to.emit(staking, "DelegationRewardsAccrued")
+        .withArgs(provider1.address, delegatorReward);
+      await expect(tx).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT - relayFee - delegatorReward);
+      expect((await staking.getPendingClaim(rentalId, provider1.address)).fee).to.equal(0);
+    });
+
+    it("should return a banned provider's held payout to the user", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      await staking.connect(user1).disputeClaim(rentalId, provider1.address);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+
+      await expect(staking.connect(user2).releaseClaim(rentalId, provider1.address))
+        .to.emit(staking, "ClaimReturned")
+        .withArgs(rentalId, user1.address, provider1.address, CLAIM_AMOUNT);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+      const pending = await staking.getPendingClaim(rentalId, provider1.address);
+      expect(pending.amount).to.equal(0);
+      expect(pending.disputed).to.equal(false);
+      await expect(
+        staking.connect(user2).releaseClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "NoPendingClaim");
+    });
+
+    it("should hold each rental's payout in batch claims", async function () {
+      const otherRental = generateRentalId();
+      const deadline = await getDeadline();
+      const claims = [
+        { rentalId, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: CLAIM_AMOUNT, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: otherRental, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: CLAIM_AMOUNT * 2n, deadline, epoch: SIGNER_EPOCH }
+      ];
+      const signatures = [
+        await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline),
+        await signClaim([signer1, signer2], otherRental, user1.address, provider1.address, CLAIM_AMOUNT * 2n, deadline)
+      ];
+
+      await expect(
+        staking.connect(provider1).batchClaim(claims, signatures)
+      ).to.changeTokenBalance(tlpToken, provider1, 0);
+
+      expect((await staking.getPendingClaim(rentalId, provider1.address)).amount).to.equal(CLAIM_AMOUNT);
+      expect((await staking.getPendingClaim(otherRental, provider1.address)).amount).to.equal(CLAIM_AMOUNT * 2n);
+    });
+
+    it("should let the user dispute a held payout during the challenge period", async function () {
+      await expect(
+        staking.connect(user1).disputeClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "NoPendingClaim");
+
+      await claimRental(CLAIM_AMOUNT);
+      await expect(
+        staking.connect(user2).disputeClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "NotClaimUser");
+
+      await expect(staking.connect(user1).disputeClaim(rentalId, provider1.address))
+        .to.emit(staking, "ClaimDisputed")
+        .withArgs(rentalId, user1.address, provider1.address);
+      await expect(
+        staking.connect(user1).disputeClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "ClaimUnderDispute");
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(
+        staking.connect(provider1).releaseClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "ClaimUnderDispute");
+    });
+
+    it("should reject disputes after the challenge period", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      await time.increase(CHALLENGE_PERIOD);
+
+      await expect(
+        staking.connect(user1).disputeClaim(rentalId, provider1.address)
+      ).to.be.revertedWithCustomError(staking, "ChallengePeriodEnded");
+    });
+
+    it("should let signers dismiss a dispute for the current claimed total only", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      await staking.connect(user1).disputeClaim(rentalId, provider1.address);
+
+      const deadline = await getDeadline(2 * 86400);
+      const stale = await dismissalSignatures(CLAIM_AMOUNT / 2n, deadline);
+      await expect(
+        staking.connect(provider1).dismissDispute(rentalId, provider1.address, deadline, SIGNER_EPOCH, stale)
+      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+
+      const signatures = await dismissalSignatures(CLAIM_AMOUNT, deadline);
+      await expect(staking.connect(provider1).dismissDispute(rentalId, provider1.address, deadline, SIGNER_EPOCH, signatures))
+        .to.emit(staking, "DisputeDismissed")
+        .withArgs(rentalId, provider1.address);
+      await expect(
+        staking.connect(provider1).dismissDispute(rentalId, provider1.address, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "ClaimNotDisputed");
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(
+        staking.connect(provider1).releaseClaim(rentalId, provider1.address)
+      ).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT);
+    });
+
+    it("should refund from the held payout and resolve the dispute", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      await staking.connect(user1).disputeClaim(rentalId, provider1.address);
+
+      const refundAmount = ethers.parseEther("40");
+      await expect(refund(refundAmount))
+        .to.emit(staking, "Refunded")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, refundAmount, 0);
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - CLAIM_AMOUNT + refundAmount);
+      const pending = await staking.getPendingClaim(rentalId, provider1.address);
+      expect(pending.amount).to.equal(CLAIM_AMOUNT - refundAmount);
+      expect(pending.disputed).to.equal(false);
+      expect(await staking.refundedAmounts(rentalId, provider1.address)).to.equal(refundAmount);
+
+      await time.increase(CHALLENGE_PERIOD);
+      await expect(
+        staking.connect(provider1).releaseClaim(rentalId, provider1.address)
+      ).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT - refundAmount);
+    });
+
+    it("should take refunds beyond the held payout from the provider's stake", async function () {
+      await claimRental(CLAIM_AMOUNT);
+
+      const refundAmount = CLAIM_AMOUNT * 3n;
+      await expect(refund(refundAmount))
+        .to.emit(staking, "Refunded")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, refundAmount, refundAmount - CLAIM_AMOUNT);
+
+      expect((await staking.getProviderInfo(provider1.address)).stakeAmount).to.equal(
+        STAKE_AMOUNT - (refundAmount - CLAIM_AMOUNT)
+      );
+      expect((await staking.getPendingClaim(rentalId, provider1.address)).amount).to.equal(0);
+    });
+
+    it("should refund already released claims from stake", async function () {
+      await staking.connect(admin).setClaimChallengePeriod(0);
+      await claimRental(CLAIM_AMOUNT);
+
+      await expect(refund(CLAIM_AMOUNT))
+        .to.emit(staking, "Refunded")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, CLAIM_AMOUNT, CLAIM_AMOUNT);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+    });
+
+    it("should pay only the refund delta and reject replays", async function () {
+      await refund(CLAIM_AMOUNT);
+      await expect(refund(CLAIM_AMOUNT)).to.be.revertedWithCustomError(staking, "RefundAlreadySettled");
+      await expect(refund(CLAIM_AMOUNT / 2n)).to.be.revertedWithCustomError(staking, "RefundAlreadySettled");
+
+      await expect(refund(CLAIM_AMOUNT * 2n))
+        .to.emit(staking, "Refunded")
+        .withArgs(rentalId, user1.address, provider1.address, tlpAddress, CLAIM_AMOUNT, CLAIM_AMOUNT);
+      await expect(refund(STAKE_AMOUNT * 2n)).to.be.revertedWithCustomError(staking, "InsufficientStake");
+    });
+
+    it("should run disputes and refunds through the client library", async function () {
+      const stakingAddress = await staking.getAddress();
+      const signers = [
+        await TLPStakingSigner.fromSigner(signer1, stakingAddress),
+        await TLPStakingSigner.fromSigner(signer2, stakingAddress)
+      ];
+      const userClient = new TLPStakingClient(user1, stakingAddress);
+      const providerClient = new TLPStakingClient(provider1, stakingAddress);
+      expect(await userClient.getClaimChallengePeriod()).to.equal(CHALLENGE_PERIOD);
+
+      const claimReceipt = await (await claimRental(CLAIM_AMOUNT)).wait();
+      expect(userClient.parseClaimHeldEvent(claimReceipt!.logs)?.amount).to.equal(CLAIM_AMOUNT);
+
+      await userClient.disputeClaim(rentalId, provider1.address);
+      expect((await userClient.getPendingClaim(rentalId, provider1.address)).disputed).to.equal(true);
+
+      const deadline = await getDeadline();
+      const dismissal = await TLPStakingSigner.collectSignatures(signers, (s) =>
+        s.signDisputeDismissal({ rentalId, provider: provider1.address, deadline })
+      );
+      await providerClient.dismissDispute(rentalId, provider1.address, deadline, SIGNER_EPOCH, dismissal);
+
+      const refundAmount = ethers.parseEther("10");
+      const refundSignatures = await TLPStakingSigner.collectSignatures(signers, (s) =>
+        s.signRefund({
+          rentalId,
+          user: user1.address,
+          provider: provider1.address,
+          token: tlpAddress,
+          cumulativeAmount: refundAmount,
+          deadline
+        })
+      );
+      const receipt = await (
+        await userClient.refund(rentalId, user1.address, provider1.address, tlpAddress, refundAmount, deadline, SIGNER_EPOCH, refundSignatures)
+      ).wait();
+      expect(userClient.parseRefundedEvent(receipt!.logs)?.amount).to.equal(refundAmount);
+      expect(await userClient.getRefundedAmount(rentalId, provider1.address)).to.equal(refundAmount);
+
+      await time.increase(CHALLENGE_PERIOD);
+      await providerClient.releaseClaim(rentalId, provider1.address);
+    });
+  });
+
+  describe("Payment Streams", function () {
+    const RATE = ethers.parseEther("0.01");
+    const MAX_DURATION = 3600n;
+    let streamId: string;
+    let startTime: bigint;
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+
+      streamId = generateRentalId();
+      await openStream(streamId);
+      startTime = BigInt(await time.latest());
+    });
+
+    async function openStream(id: string, ratePerSecond: bigint = RATE, maxDuration: bigint = MAX_DURATION) {
+      const deadline = await getDeadline();
+      const signatures = await signStream(
+        [signer1, signer2], id, user1.address, provider1.address, ratePerSecond, maxDuration, deadline
+      );
+      return staking.connect(provider1).openStream(
+        id, user1.address, provider1.address, ratePerSecond, maxDuration, deadline, SIGNER_EPOCH, signatures
+      );
+    }
+
+    it("should lock the maximum stream amount from the user's balance", async function () {
+      const id = generateRentalId();
+      const tx = openStream(id);
+      await expect(tx).to.emit(staking, "StreamOpened");
+
+      const stream = await staking.getStream(id);
+      expect(stream.user).to.equal(user1.address);
+      expect(stream.provider).to.equal(provider1.address);
+      expect(stream.ratePerSecond).to.equal(RATE);
+      expect(stream.endTime - stream.startTime).to.equal(MAX_DURATION);
+      expect(stream.withdrawn).to.equal(0);
+
+      expect(await staking.lockedBalances(user1.address)).to.equal(RATE * MAX_DURATION * 2n);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - RATE * MAX_DURATION * 2n);
+    });
+
+    it("should reject invalid streams", async function () {
+      await expect(openStream(streamId)).to.be.revertedWithCustomError(staking, "StreamAlreadyExists");
+      await expect(openStream(generateRentalId(), 0n)).to.be.revertedWithCustomError(staking, "ZeroAmount");
+      await expect(openStream(generateRentalId(), RATE, 0n)).to.be.revertedWithCustomError(staking, "InvalidDuration");
+      await expect(
+        openStream(generateRentalId(), DEPOSIT_AMOUNT, MAX_DURATION)
+      ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
+
+      const id = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signStream(
+        [signer1, signer2], id, user1.address, provider1.address, RATE, MAX_DURATION, deadline
+      );
+      await expect(
+        staking.connect(provider1).openStream(
+          id, user1.address, provider1.address, RATE * 2n, MAX_DURATION, deadline, SIGNER_EPOCH, signatures
+        )
+      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+      await expect(
+        staking.connect(provider1).openStream(
+          id, user1.address, provider1.address, RATE, MAX_DURATION, deadline, SIGNER_EPOCH, signatures.slice(0, 1)
+        )
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+    });
+
+    it("should let the provider withdraw accrued amounts at any time", async function () {
+      await time.increaseTo(startTime + 100n);
+      expect((await staking.getStreamBalance(streamId)).withdrawable).to.equal(RATE * 100n);
+
+      await time.setNextBlockTimestamp(startTime + 200n);
+      await expect(staking.connect(provider1).withdrawFromStream(streamId))
+        .to.emit(staking, "StreamWithdrawn")
+        .withArgs(streamId, provider1.address, RATE * 200n, 0);
+
+      await time.setNextBlockTimestamp(startTime + 250n);
+      await expect(staking.connect(provider1).withdrawFromStream(streamId))
+        .to.emit(staking, "StreamWithdrawn")
+        .withArgs(streamId, provider1.address, RATE * 50n, 0);
+
+      expect((await staking.getStream(streamId)).withdrawn).to.equal(RATE * 250n);
+      expect(await staking.lockedBalances(user1.address)).to.equal(RATE * (MAX_DURATION - 250n));
+    });
+
+    it("should charge commission on stream withdrawals", async function () {
+      await staking.connect(admin).setCommission(1000);
+
+      await time.setNextBlockTimestamp(startTime + 100n);
+      await expect(
+        staking.connect(provider1).withdrawFromStream(streamId)
+      ).to.changeTokenBalances(tlpToken, [provider1, treasury], [RATE * 90n, RATE * 10n]);
+    });
+
+    it("should only let the stream's provider withdraw", async function () {
+      await time.increase(100);
+
+      await expect(
+        staking.connect(provider2).withdrawFromStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "NotStreamParty");
+      await expect(
+        staking.connect(provider1).withdrawFromStream(generateRentalId())
+      ).to.be.revertedWithCustomError(staking, "StreamNotFound");
+
+      await staking.connect(admin).pause(4n, ethers.ZeroHash);
+      await expect(
+        staking.connect(provider1).withdrawFromStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "OperationPaused");
+    });
+
+    it("should stop accruing at the maximum duration", async function () {
+      await time.increaseTo(startTime + MAX_DURATION + 1000n);
+
+      const balance = await staking.getStreamBalance(streamId);
+      expect(balance.accrued).to.equal(RATE * MAX_DURATION);
+
+      await staking.connect(provider1).withdrawFromStream(streamId);
+      expect(await staking.lockedBalances(user1.address)).to.equal(0);
+      await expect(
+        staking.connect(provider1).withdrawFromStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+      await expect(
+        staking.connect(user1).stopStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "StreamNotActive");
+    });
+
+    it("should let the user stop a stream and refund the remainder", async function () {
+      await time.setNextBlockTimestamp(startTime + 600n);
+      await expect(staking.connect(user1).stopStream(streamId))
+        .to.emit(staking, "StreamStopped")
+        .withArgs(streamId, user1.address, RATE * 600n, RATE * (MAX_DURATION - 600n));
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - RATE * 600n);
+      expect(await staking.lockedBalances(user1.address)).to.equal(RATE * 600n);
+
+      await time.increase(1000);
+      await expect(staking.connect(provider1).withdrawFromStream(streamId))
+        .to.emit(staking, "StreamWithdrawn")
+        .withArgs(streamId, provider1.address, RATE * 600n, 0);
+      expect(await staking.lockedBalances(user1.address)).to.equal(0);
+
+      await expect(
+        staking.connect(provider1).stopStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "StreamNotActive");
+    });
+
+    it("should return accrued funds to the user when the provider is banned", async function () {
+      await time.setNextBlockTimestamp(startTime + 100n);
+      await staking.connect(provider1).withdrawFromStream(streamId);
+      await time.increaseTo(startTime + 500n);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+
+      // slashAndBan takes the whole stake
+      await expect(
+        staking.connect(provider1).withdrawFromStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+
+      await time.setNextBlockTimestamp(startTime + 600n);
+      await expect(staking.connect(user1).stopStream(streamId))
+        .to.emit(staking, "StreamStopped")
+        .withArgs(streamId, user1.address, RATE * 600n, RATE * (MAX_DURATION - 100n));
+
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - RATE * 100n);
+      expect(await staking.lockedBalances(user1.address)).to.equal(0);
+      expect((await staking.getStream(streamId)).withdrawn).to.equal(RATE * 600n);
+    });
+
+    it("should return accrued funds after the end while the provider is below the minimum stake", async function () {
+      await time.increaseTo(startTime + MAX_DURATION + 100n);
+      await staking.connect(admin).setMinProviderStake(STAKE_AMOUNT * 2n);
+
+      await expect(
+        staking.connect(provider1).withdrawFromStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "StakeBelowMinimum");
+
+      await expect(staking.connect(user1).stopStream(streamId))
+        .to.emit(staking, "StreamStopped")
+        .withArgs(streamId, user1.address, RATE * MAX_DURATION, RATE * MAX_DURATION);
+      expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT);
+
+      await expect(
+        staking.connect(user1).stopStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "StreamNotActive");
+    });
+
+    it("should let the provider stop a stream but not third parties", async function () {
+      await expect(
+        staking.connect(user2).stopStream(streamId)
+      ).to.be.revertedWithCustomError(staking, "NotStreamParty");
+
+      await expect(staking.connect(provider1).stopStream(streamId))
+        .to.emit(staking, "StreamStopped");
+    });
+
+    it("should let anyone stop a stream with signer approval", async function () {
+      const domain = await getDomain();
+      const types = {
+        StreamStop: [
+          { name: "streamId", type: "bytes32" },
+          { name: "deadline", type: "uint256" },
+          { name: "epoch", type: "uint256" }
+        ]
+      };
+      const deadline = await getDeadline();
+      const value = { streamId, deadline, epoch: SIGNER_EPOCH };
+      const signatures = [
+        await signer1.signTypedData(domain, types, value),
+        await signer2.signTypedData(domain, types, value)
+      ];
+
+      await expect(
+        staking.connect(user2).stopStreamWithSignatures(streamId, deadline, SIGNER_EPOCH, signatures.slice(0, 1))
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+
+      await time.setNextBlockTimestamp(startTime + 60n);
+      await expect(staking.connect(user2).stopStreamWithSignatures(streamId, deadline, SIGNER_EPOCH, signatures))
+        .to.emit(staking, "StreamStopped")
+        .withArgs(streamId, user2.address, RATE * 60n, RATE * (MAX_DURATION - 60n));
+    });
+
+    it("should manage streams through the client library", async function () {
+      const stakingAddress = await staking.getAddress();
+      const signers = [
+        await TLPStakingSigner.fromSigner(signer1, stakingAddress),
+        await TLPStakingSigner.fromSigner(signer2, stakingAddress)
+      ];
+      const client = new TLPStakingClient(provider1, stakingAddress);
+
+      const id = generateRentalId();
+      const deadline = await getDeadline();
+      const data = {
+        streamId: id,
+        user: user1.address,
+        provider: provider1.address,
+        ratePerSecond: RATE,
+        maxDuration: MAX_DURATION,
+        deadline
+      };
+      const signatures = await TLPStakingSigner.collectSignatures(signers, (s) => s.signStream(data));
+      const receipt = await (
+        await client.openStream(id, user1.address, provider1.address, RATE, MAX_DURATION, deadline, SIGNER_EPOCH, signatures)
+      ).wait();
+      expect(client.parseStreamOpenedEvent(receipt!.logs)?.streamId).to.equal(id);
+
+      await time.increase(120);
+      const stream = await client.getStream(id);
+      const balance = await client.getStreamBalance(id);
+      expect(calculateStreamAccrued(stream, BigInt(await time.latest()))).to.equal(balance.accrued);
+      expect(calculateStreamAccrued(stream, stream.startTime - 10n)).to.equal(0);
+      expect(calculateStreamAccrued(stream, stream.endTime + 10n)).to.equal(RATE * MAX_DURATION);
+
+      const stopSignatures = await TLPStakingSigner.collectSignatures(signers, (s) =>
+        s.signStreamStop({ streamId: id, deadline })
+      );
+      await client.stopStreamWithSignatures(id, deadline, SIGNER_EPOCH, stopSignatures);
+
+      const withdrawal = await (await client.withdrawFromStream(id)).wait();
+      expect(client.parseStreamWithdrawnEvent(withdrawal!.logs)?.amount).to.equal(
+        (await client.getStream(id)).withdrawn
+      );
+    });
+  });
+
+  describe("Earnings Holdback", function () {
+    const HOLDBACK_BPS = 2000n;
+    const VESTING_PERIOD = 30n * 86400n;
+    const CLAIM_AMOUNT = ethers.parseEther("100");
+    const HELD = (CLAIM_AMOUNT * HOLDBACK_BPS) / 10000n;
+    let rentalId: string;
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(admin).setHoldback(HOLDBACK_BPS, VESTING_PERIOD);
+      rentalId = generateRentalId();
+    });
+
+    async function claimRental(cumulativeAmount: bigint) {
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, cumulativeAmount, deadline);
+      return staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, cumulativeAmount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    it("should update the holdback settings", async function () {
+      await expect(staking.connect(admin).setHoldback(1000, 86400))
+        .to.emit(staking, "HoldbackUpdated")
+        .withArgs(1000, 86400);
+      expect(await staking.holdbackBps()).to.equal(1000);
+      expect(await staking.holdbackVestingPeriod()).to.equal(86400);
+
+      await expect(
+        staking.connect(admin).setHoldback(10001, 86400)
+      ).to.be.revertedWithCustomError(staking, "InvalidHoldback");
+      await expect(
+        staking.connect(admin).setHoldback(1000, 0)
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+      await expect(
+        staking.connect(user1).setHoldback(0, 0)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should hold back a share of each claim", async function () {
+      const tx = claimRental(CLAIM_AMOUNT);
+      await expect(tx).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT - HELD);
+      const vestingEnd = BigInt(await time.latest()) + VESTING_PERIOD;
+      await expect(tx)
+        .to.emit(staking, "EarningsHeldBack")
+        .withArgs(provider1.address, HELD, vestingEnd);
+
+      const holdback = await staking.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(HELD);
+      expect(holdback.vested).to.equal(0);
+      expect(holdback.vestingEnd).to.equal(vestingEnd);
+    });
+
+    it("should vest held-back earnings linearly and release them", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      const start = BigInt(await time.latest());
+
+      await time.increaseTo(start + VESTING_PERIOD / 2n);
+      let holdback = await staking.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(HELD / 2n);
+      expect(holdback.vested).to.equal(HELD / 2n);
+
+      await time.increaseTo(start + VESTING_PERIOD);
+      await expect(staking.connect(provider1).releaseVested())
+        .to.emit(staking, "VestedEarningsReleased")
+        .withArgs(provider1.address, HELD);
+
+      holdback = await staking.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(0);
+      expect(holdback.vested).to.equal(0);
+      await expect(
+        staking.connect(provider1).releaseVested()
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+    });
+
+    it("should merge new holdbacks into the schedule by weighted vesting end", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      const start = BigInt(await time.latest());
+      const next = start + VESTING_PERIOD / 2n;
+
+      const deadline = next + 3600n;
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT * 2n, deadline
+      );
+      await time.setNextBlockTimestamp(next);
+      const tx = staking.connect(provider1).claim(
+        rentalId, user1.address, tlpAddress, 0, CLAIM_AMOUNT * 2n, deadline, SIGNER_EPOCH, signatures
+      );
+
+      // Half of the first holdback is still locked for half a period; the new one for a full period
+      const locked = HELD / 2n + HELD;
+      const vestingEnd = next + ((HELD / 2n) * (VESTING_PERIOD / 2n) + HELD * VESTING_PERIOD) / locked;
+      await expect(tx)
+        .to.emit(staking, "EarningsHeldBack")
+        .withArgs(provider1.address, HELD, vestingEnd);
+
+      const holdback = await staking.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(locked);
+      expect(holdback.vested).to.equal(HELD / 2n);
+    });
+
+    it("should hold back released claims too", async function () {
+      await staking.connect(admin).setClaimChallengePeriod(3600);
+      await claimRental(CLAIM_AMOUNT);
+      expect((await staking.getHoldback(provider1.address)).locked).to.equal(0);
+
+      await time.increase(3600);
+      await expect(
+        staking.connect(user2).releaseClaim(rentalId, provider1.address)
+      ).to.changeTokenBalance(tlpToken, provider1, CLAIM_AMOUNT - HELD);
+      expect((await staking.getHoldback(provider1.address)).locked).to.be.closeTo(HELD, HELD / 1000n);
+    });
+
+    it("should slash unvested earnings on slash and ban", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      await time.increase(VESTING_PERIOD / 2n - 1n);
+
+      const tx = staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx).to.changeTokenBalance(tlpToken, treasury, STAKE_AMOUNT + HELD / 2n);
+      await expect(tx)
+        .to.emit(staking, "HoldbackSlashed")
+        .withArgs(provider1.address, HELD / 2n);
+
+      // Earnings that vested before the slash stay with the provider
+      const holdback = await staking.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(0);
+      expect(holdback.vested).to.equal(HELD / 2n);
+      await expect(
+        staking.connect(provider1).releaseVested()
+      ).to.changeTokenBalance(tlpToken, provider1, HELD / 2n);
+    });
+
+    it("should slash unvested earnings before stake on partial slash", async function () {
+      await claimRental(CLAIM_AMOUNT);
+      const slashAmount = HELD / 4n;
+
+      const tx = staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx).to.changeTokenBalance(tlpToken, treasury, slashAmount);
+      await expect(tx)
+        .to.emit(staking, "HoldbackSlashed")
+        .withArgs(provider1.address, slashAmount);
+      await expect(tx)
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, 0, false, SLASH_REASON, EVIDENCE_HASH);
+
+      expect((await staking.getProviderInfo(provider1.address)).stakeAmount).to.equal(STAKE_AMOUNT);
+    });
+
+    it("should show vested and locked earnings through the client library", async function () {
+      const client = new TLPStakingClient(provider1, await staking.getAddress());
+      expect(await client.getHoldbackConfig()).to.deep.equal({
+        holdbackBps: HOLDBACK_BPS,
+        vestingPeriod: VESTING_PERIOD
+      });
+
+      await claimRental(CLAIM_AMOUNT);
+      await time.increase(VESTING_PERIOD);
+
+      const holdback = await client.getHoldback(provider1.address);
+      expect(holdback.locked).to.equal(0);
+      expect(holdback.vested).to.equal(HELD);
+
+      const receipt = await (await client.releaseVested()).wait();
+      expect(client.parseVestedEarningsReleasedEvent(receipt!.logs)?.amount).to.equal(HELD);
+    });
+  });
+
+  describe("Slashing - Type 1: Slash and Ban", function () {
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should slash all stake and ban provider", async function () {
+      const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
+
+      await expect(staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH))
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, STAKE_AMOUNT, true, SLASH_REASON, EVIDENCE_HASH);
+
+      const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
+      expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(STAKE_AMOUNT);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(0);
+      expect(info.isBanned).to.be.true;
+      expect(info.slashCount).to.equal(1);
+    });
+
+    it("should reject slash of non-provider", async function () {
+      await expect(
+        staking.connect(police).slashAndBan(user1.address, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+    });
+  });
+
+  describe("Slashing - Type 2: Partial Slash", function () {
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should slash partial stake without banning", async function () {
+      const slashAmount = STAKE_AMOUNT / 4n;
+      const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
+
+      await expect(staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH))
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, slashAmount, false, SLASH_REASON, EVIDENCE_HASH);
+
+      const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
+      expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal(slashAmount);
+
+      const info = await staking.getProviderInfo(provider1.address);
       expect(info.stakeAmount).to.equal(STAKE_AMOUNT - slashAmount);
       expect(info.isBanned).to.be.false;
-      expect(info.slashCount).to.equal(1);
+      expect(info.slashCount).to.equal(1);
+    });
+
+    it("should increment slashCount on multiple partial slashes", async function () {
+      const slashAmount = STAKE_AMOUNT / 10n;
+
+      // First slash
+      await staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      let info = await staking.getProviderInfo(provider1.address);
+      expect(info.slashCount).to.equal(1);
+
+      // Second slash
+      await staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      info = await staking.getProviderInfo(provider1.address);
+      expect(info.slashCount).to.equal(2);
+
+      // Third slash
+      await staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      info = await staking.getProviderInfo(provider1.address);
+      expect(info.slashCount).to.equal(3);
+
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT - (slashAmount * 3n));
+    });
+
+    it("should have slashCount of zero for new provider", async function () {
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.slashCount).to.equal(0);
+    });
+  });
+
+  describe("Slash History", function () {
+    const FRAUD_REASON = ethers.encodeBytes32String("FRAUD");
+    const FRAUD_EVIDENCE = ethers.id("fraud-report");
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should record every slash with its reason and evidence", async function () {
+      const slashAmount = ethers.parseEther("1000");
+      await staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      const partialTime = await time.latest();
+      await staking.connect(police).slashAndBan(provider1.address, FRAUD_REASON, FRAUD_EVIDENCE);
+      const banTime = await time.latest();
+
+      const history = await staking.getSlashHistory(provider1.address);
+      expect(history.length).to.equal((await staking.getProviderInfo(provider1.address)).slashCount);
+      expect(history[0]).to.deep.equal([SLASH_REASON, EVIDENCE_HASH, slashAmount, BigInt(partialTime), police.address, false]);
+      expect(history[1]).to.deep.equal([
+        FRAUD_REASON,
+        FRAUD_EVIDENCE,
+        STAKE_AMOUNT - slashAmount,
+        BigInt(banTime),
+        police.address,
+        true
+      ]);
+
+      const record = await staking.getSlashRecord(provider1.address, 1);
+      expect(record.reasonCode).to.equal(FRAUD_REASON);
+      expect(record.banned).to.equal(true);
+    });
+
+    it("should record the total including delegated stake", async function () {
+      const delegation = ethers.parseEther("10000");
+      await staking.connect(user1).delegate(provider1.address, delegation);
+
+      await staking.connect(police).slashAndBan(provider1.address, FRAUD_REASON, FRAUD_EVIDENCE);
+
+      expect((await staking.getSlashRecord(provider1.address, 0)).amount).to.equal(STAKE_AMOUNT + delegation);
+    });
+
+    it("should have an empty history for unslashed providers", async function () {
+      expect(await staking.getSlashHistory(provider1.address)).to.deep.equal([]);
+      await expect(staking.getSlashRecord(provider1.address, 0)).to.be.reverted;
+    });
+
+    it("should fetch the slash history through the client", async function () {
+      await staking.connect(police).slashPartial(provider1.address, 1n, SLASH_REASON, EVIDENCE_HASH);
+      const client = new TLPStakingClient(police, await staking.getAddress());
+
+      const receipt = await (
+        await client.slashPartial(provider1.address, 2n, FRAUD_REASON, FRAUD_EVIDENCE)
+      ).wait();
+      expect(client.parseProviderSlashedEvent(receipt!.logs)?.reasonCode).to.equal(FRAUD_REASON);
+
+      const history = await client.getSlashHistory(provider1.address);
+      expect(history.map((r) => r.reasonCode)).to.deep.equal([SLASH_REASON, FRAUD_REASON]);
+      expect(history[1]).to.include({ evidenceHash: FRAUD_EVIDENCE, amount: 2n, police: police.address, banned: false });
+    });
+  });
+
+  describe("Slash Governance", function () {
+    const APPEAL_WINDOW = 3 * 24 * 60 * 60; // 3 days
+    const SLASH_AMOUNT = ethers.parseEther("1000");
+
+    async function signSlashProposal(
+      policeList: HardhatEthersSigner[],
+      provider: string,
+      amount: bigint,
+      ban: boolean,
+      deadline: bigint
+    ): Promise<string[]> {
+      const domain = await getDomain();
+      const types = {
+        SlashProposal: [
+          { name: "provider", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "ban", type: "bool" },
+          { name: "reasonCode", type: "bytes32" },
+          { name: "evidenceHash", type: "bytes32" },
+          { name: "deadline", type: "uint256" }
+        ]
+      };
+      const value = { provider, amount, ban, reasonCode: SLASH_REASON, evidenceHash: EVIDENCE_HASH, deadline };
+
+      const signatures: string[] = [];
+      for (const signer of policeList) {
+        signatures.push(await signer.signTypedData(domain, types, value));
+      }
+      return signatures;
+    }
+
+    async function proposeSlash(amount: bigint, ban: boolean): Promise<string> {
+      const deadline = await getDeadline();
+      const signatures = await signSlashProposal([police, signer1], provider1.address, amount, ban, deadline);
+      const client = new TLPStakingClient(user1, await staking.getAddress());
+      const receipt = await (
+        await client.proposeSlash(provider1.address, amount, ban, SLASH_REASON, EVIDENCE_HASH, deadline, signatures)
+      ).wait();
+      return client.parseSlashProposedEvent(receipt!.logs)!.proposalId;
+    }
+
+    beforeEach(async function () {
+      await staking.connect(admin).grantRole(POLICE_ROLE, signer1.address);
+      await staking.connect(admin).setSlashGovernance(2, APPEAL_WINDOW);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should block direct slashing when several approvals are required", async function () {
+      await expect(
+        staking.connect(police).slashPartial(provider1.address, SLASH_AMOUNT, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "SlashApprovalsRequired");
+      await expect(
+        staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "SlashApprovalsRequired");
+    });
+
+    it("should block direct slashing while an appeal window is set", async function () {
+      await staking.connect(admin).setSlashGovernance(1, APPEAL_WINDOW);
+
+      await expect(
+        staking.connect(police).slashPartial(provider1.address, SLASH_AMOUNT, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "SlashApprovalsRequired");
+      await expect(
+        staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH)
+      ).to.be.revertedWithCustomError(staking, "SlashApprovalsRequired");
+
+      const deadline = await getDeadline();
+      const signatures = await signSlashProposal([police], provider1.address, SLASH_AMOUNT, false, deadline);
+      await expect(
+        staking
+          .connect(police)
+          .proposeSlash(provider1.address, SLASH_AMOUNT, false, SLASH_REASON, EVIDENCE_HASH, deadline, signatures)
+      ).to.emit(staking, "SlashProposed");
+    });
+
+    it("should execute a police-approved slash after the appeal window", async function () {
+      const deadline = await getDeadline();
+      const signatures = await signSlashProposal([police, signer1], provider1.address, SLASH_AMOUNT, false, deadline);
+
+      const tx = staking
+        .connect(user1)
+        .proposeSlash(provider1.address, SLASH_AMOUNT, false, SLASH_REASON, EVIDENCE_HASH, deadline, signatures);
+      await expect(tx).to.emit(staking, "SlashProposed");
+      const proposalId = new TLPStakingClient(user1, await staking.getAddress()).parseSlashProposedEvent(
+        (await (await tx).wait())!.logs
+      )!.proposalId;
+
+      const proposal = await staking.getSlashProposal(proposalId);
+      expect(proposal.provider).to.equal(provider1.address);
+      expect(proposal.executableAt).to.equal(BigInt(await time.latest()) + BigInt(APPEAL_WINDOW));
+
+      await expect(staking.executeSlash(proposalId)).to.be.revertedWithCustomError(staking, "AppealWindowActive");
+
+      await time.increase(APPEAL_WINDOW);
+      await expect(staking.connect(user2).executeSlash(proposalId))
+        .to.emit(staking, "SlashExecuted")
+        .withArgs(proposalId)
+        .and.to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, SLASH_AMOUNT, false, SLASH_REASON, EVIDENCE_HASH);
+
+      expect((await staking.getProviderInfo(provider1.address)).stakeAmount).to.equal(STAKE_AMOUNT - SLASH_AMOUNT);
+      expect((await staking.getSlashProposal(proposalId)).closed).to.equal(true);
+      await expect(staking.executeSlash(proposalId)).to.be.revertedWithCustomError(staking, "InvalidSlashProposalState");
+    });
+
+    it("should record the proposing police rather than the executor", async function () {
+      const deadline = await getDeadline();
+      const signatures = await signSlashProposal([signer1, police], provider1.address, 0n, true, deadline);
+      const client = new TLPStakingClient(user1, await staking.getAddress());
+      const receipt = await (
+        await client.proposeSlash(provider1.address, 0n, true, SLASH_REASON, EVIDENCE_HASH, deadline, signatures)
+      ).wait();
+      const proposalId = client.parseSlashProposedEvent(receipt!.logs)!.proposalId;
+      expect((await client.getSlashProposal(proposalId)).proposer).to.equal(signer1.address);
+
+      await time.increase(APPEAL_WINDOW);
+      await staking.connect(user2).executeSlash(proposalId);
+
+      const record = await staking.getSlashRecord(provider1.address, 0);
+      expect(record.police).to.equal(signer1.address);
+      expect(record.banned).to.equal(true);
+    });
+
+    it("should reject proposals without enough distinct police signatures", async function () {
+      const deadline = await getDeadline();
+      const propose = (signatures: string[]) =>
+        staking
+          .connect(user1)
+          .proposeSlash(provider1.address, SLASH_AMOUNT, false, SLASH_REASON, EVIDENCE_HASH, deadline, signatures);
+
+      await expect(
+        propose(await signSlashProposal([police], provider1.address, SLASH_AMOUNT, false, deadline))
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+      await expect(
+        propose(await signSlashProposal([police, police], provider1.address, SLASH_AMOUNT, false, deadline))
+      ).to.be.revertedWithCustomError(staking, "DuplicateSignature");
+      await expect(
+        propose(await signSlashProposal([police, signer2], provider1.address, SLASH_AMOUNT, false, deadline))
+      ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+
+      const signatures = await signSlashProposal([police, signer1], provider1.address, SLASH_AMOUNT, false, deadline);
+      await propose(signatures);
+      await expect(propose(signatures)).to.be.revertedWithCustomError(staking, "SlashProposalExists");
+    });
+
+    it("should let the provider appeal and the admin reject the slash", async function () {
+      const proposalId = await proposeSlash(0n, true);
+
+      await expect(staking.connect(provider2).appealSlash(proposalId)).to.be.revertedWithCustomError(
+        staking,
+        "NotSlashedProvider"
+      );
+      await expect(staking.connect(provider1).appealSlash(proposalId))
+        .to.emit(staking, "SlashAppealed")
+        .withArgs(proposalId, provider1.address);
+
+      await time.increase(APPEAL_WINDOW);
+      await expect(staking.executeSlash(proposalId)).to.be.revertedWithCustomError(staking, "InvalidSlashProposalState");
+      await expect(staking.connect(police).resolveSlashAppeal(proposalId, false)).to.be.reverted;
+
+      await expect(staking.connect(admin).resolveSlashAppeal(proposalId, false))
+        .to.emit(staking, "SlashAppealResolved")
+        .withArgs(proposalId, false);
+
+      await expect(staking.executeSlash(proposalId)).to.be.revertedWithCustomError(staking, "InvalidSlashProposalState");
+      expect((await staking.getProviderInfo(provider1.address)).isBanned).to.equal(false);
+    });
+
+    it("should execute an upheld appeal immediately", async function () {
+      const proposalId = await proposeSlash(0n, true);
+      await staking.connect(provider1).appealSlash(proposalId);
+      await staking.connect(admin).resolveSlashAppeal(proposalId, true);
+
+      await expect(staking.connect(provider1).appealSlash(proposalId)).to.be.revertedWithCustomError(
+        staking,
+        "AppealWindowEnded"
+      );
+      await expect(staking.executeSlash(proposalId))
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, STAKE_AMOUNT, true, SLASH_REASON, EVIDENCE_HASH);
+      expect((await staking.getProviderInfo(provider1.address)).isBanned).to.equal(true);
+    });
+
+    it("should reject appeals after the window ends", async function () {
+      const proposalId = await proposeSlash(SLASH_AMOUNT, false);
+      await time.increase(APPEAL_WINDOW);
+
+      await expect(staking.connect(provider1).appealSlash(proposalId)).to.be.revertedWithCustomError(
+        staking,
+        "AppealWindowEnded"
+      );
+    });
+
+    it("should only let the admin update slash governance", async function () {
+      await expect(staking.connect(police).setSlashGovernance(1, 0)).to.be.reverted;
+      await expect(staking.connect(admin).setSlashGovernance(0, 0)).to.be.revertedWithCustomError(
+        staking,
+        "InvalidRequiredSignatures"
+      );
+
+      await expect(staking.connect(admin).setSlashGovernance(1, 0))
+        .to.emit(staking, "SlashGovernanceUpdated")
+        .withArgs(1, 0);
+      await staking.connect(police).slashPartial(provider1.address, SLASH_AMOUNT, SLASH_REASON, EVIDENCE_HASH);
+    });
+
+    it("should propose and execute slashes through the client", async function () {
+      const stakingAddress = await staking.getAddress();
+      await staking.connect(admin).setSlashGovernance(2, 0);
+      const data = {
+        provider: provider1.address,
+        amount: SLASH_AMOUNT,
+        ban: false,
+        reasonCode: SLASH_REASON,
+        evidenceHash: EVIDENCE_HASH,
+        deadline: await getDeadline()
+      };
+      const signatures = await Promise.all(
+        [police, signer1].map(async (p) => (await TLPStakingSigner.fromSigner(p, stakingAddress)).signSlashProposal(data))
+      );
+
+      const client = new TLPStakingClient(user1, stakingAddress);
+      expect(await client.getRequiredSlashApprovals()).to.equal(2n);
+      const receipt = await (
+        await client.proposeSlash(data.provider, data.amount, data.ban, data.reasonCode, data.evidenceHash, data.deadline, signatures)
+      ).wait();
+      const proposalId = client.parseSlashProposedEvent(receipt!.logs)!.proposalId;
+
+      await client.executeSlash(proposalId);
+      expect(await client.getSlashProposal(proposalId)).to.include({ provider: provider1.address, amount: SLASH_AMOUNT, closed: true });
+    });
+  });
+
+  describe("Unban Provider", function () {
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+    });
+
+    it("should allow admin to unban provider", async function () {
+      await expect(staking.connect(admin).unbanProvider(provider1.address))
+        .to.emit(staking, "ProviderUnbanned")
+        .withArgs(provider1.address);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.isBanned).to.be.false;
+
+      // Provider should be able to stake again
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+  });
+
+  describe("Provider Suspension", function () {
+    const SUSPENSION = 7 * 24 * 60 * 60; // 7 days
+    const CLAIM_AMOUNT = ethers.parseEther("100");
+    let suspendedUntil: number;
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      suspendedUntil = (await time.latest()) + SUSPENSION;
+    });
+
+    it("should suspend a provider without touching its stake", async function () {
+      await expect(staking.connect(police).suspendProvider(provider1.address, suspendedUntil))
+        .to.emit(staking, "ProviderSuspended")
+        .withArgs(provider1.address, suspendedUntil);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT);
+      expect(info.isBanned).to.equal(false);
+      expect(info.suspendedUntil).to.equal(suspendedUntil);
+      expect(await staking.isProviderActive(provider1.address)).to.equal(false);
+    });
+
+    it("should block claims and batch claims while suspended", async function () {
+      await staking.connect(police).suspendProvider(provider1.address, suspendedUntil);
+
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline);
+
+      await expect(
+        staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, signatures)
+      )
+        .to.be.revertedWithCustomError(staking, "ProviderSuspendedUntil")
+        .withArgs(suspendedUntil);
+
+      const claims = [
+        { rentalId, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: CLAIM_AMOUNT, deadline, epoch: SIGNER_EPOCH }
+      ];
+      await expect(
+        staking.connect(provider1).batchClaim(claims, [signatures])
+      ).to.be.revertedWithCustomError(staking, "ProviderSuspendedUntil");
+    });
+
+    it("should block new rentals while suspended", async function () {
+      await staking.connect(police).suspendProvider(provider1.address, suspendedUntil);
+
+      await expect(
+        staking.connect(user1).openRental(generateRentalId(), provider1.address, CLAIM_AMOUNT, suspendedUntil + SUSPENSION)
+      ).to.be.revertedWithCustomError(staking, "ProviderSuspendedUntil");
+    });
+
+    it("should expire automatically", async function () {
+      await staking.connect(police).suspendProvider(provider1.address, suspendedUntil);
+      await time.increaseTo(suspendedUntil);
+
+      expect(await staking.isProviderActive(provider1.address)).to.equal(true);
+
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline);
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, signatures);
+    });
+
+    it("should let police lift a suspension early", async function () {
+      await staking.connect(police).suspendProvider(provider1.address, suspendedUntil);
+      await staking.connect(police).suspendProvider(provider1.address, 0);
+
+      expect(await staking.isProviderActive(provider1.address)).to.equal(true);
+    });
+
+    it("should only let police suspend staked providers", async function () {
+      await expect(
+        staking.connect(user1).suspendProvider(provider1.address, suspendedUntil)
+      ).to.be.reverted;
+      await expect(
+        staking.connect(police).suspendProvider(provider2.address, suspendedUntil)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+    });
+
+    it("should expose the suspension through the client", async function () {
+      const client = new TLPStakingClient(police, await staking.getAddress());
+      await client.suspendProvider(provider1.address, BigInt(suspendedUntil));
+
+      const info = await client.getProviderInfo(provider1.address);
+      expect(info.suspendedUntil).to.equal(BigInt(suspendedUntil));
+      expect(await client.isProviderActive(provider1.address)).to.equal(false);
+    });
+  });
+
+  describe("Re-entry Rules", function () {
+    const COOLDOWN = 14 * 24 * 60 * 60; // 14 days
+    const STAKE_PER_SLASH = ethers.parseEther("5000");
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+    });
+
+    it("should only let the admin set re-entry rules", async function () {
+      await expect(staking.connect(police).setReentryRules(COOLDOWN, STAKE_PER_SLASH, 3)).to.be.reverted;
+      await expect(staking.connect(admin).setReentryRules(COOLDOWN, STAKE_PER_SLASH, 3))
+        .to.emit(staking, "ReentryRulesUpdated")
+        .withArgs(COOLDOWN, STAKE_PER_SLASH, 3);
+      expect(await staking.reentryCooldown()).to.equal(COOLDOWN);
+    });
+
+    it("should enforce the cooling-off period after unban", async function () {
+      await staking.connect(admin).setReentryRules(COOLDOWN, 0, 0);
+      await staking.connect(admin).unbanProvider(provider1.address);
+      const availableAt = BigInt(await time.latest()) + BigInt(COOLDOWN);
+      expect(await staking.unbannedAt(provider1.address)).to.equal(availableAt - BigInt(COOLDOWN));
+
+      await expect(staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION))
+        .to.be.revertedWithCustomError(staking, "ReentryCooldownActive")
+        .withArgs(availableAt);
+
+      await time.increaseTo(availableAt);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should require a higher minimum stake per past slash", async function () {
+      await staking.connect(admin).setMinProviderStake(ethers.parseEther("1000"));
+      await staking.connect(admin).setReentryRules(0, STAKE_PER_SLASH, 0);
+      await staking.connect(admin).unbanProvider(provider1.address);
+
+      const minStake = ethers.parseEther("1000") + STAKE_PER_SLASH;
+      await expect(
+        staking.connect(provider1).stake(minStake - 1n, MIN_STAKE_DURATION)
+      ).to.be.revertedWithCustomError(staking, "StakeBelowMinimum");
+      await staking.connect(provider1).stake(minStake, MIN_STAKE_DURATION);
+
+      // Unslashed providers only need the base minimum
+      await staking.connect(provider2).stake(ethers.parseEther("1000"), MIN_STAKE_DURATION);
+    });
+
+    it("should report a ban before the stake minimum", async function () {
+      await staking.connect(admin).setReentryRules(0, STAKE_PER_SLASH, 0);
+
+      await expect(
+        staking.connect(provider1).stake(1n, MIN_STAKE_DURATION)
+      ).to.be.revertedWithCustomError(staking, "ProviderBanned");
+    });
+
+    it("should permanently blacklist after the maximum number of slashes", async function () {
+      await staking.connect(admin).setReentryRules(0, 0, 2);
+      await staking.connect(admin).unbanProvider(provider1.address);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+      await staking.connect(admin).unbanProvider(provider1.address);
+
+      expect((await staking.getReentryStatus(provider1.address)).eligible).to.equal(false);
+      await expect(
+        staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION)
+      ).to.be.revertedWithCustomError(staking, "ProviderBlacklisted");
+
+      // Raising the limit lets the provider back in
+      await staking.connect(admin).setReentryRules(0, 0, 0);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should report whether and when an address can re-stake through the client", async function () {
+      const client = new TLPStakingClient(admin, await staking.getAddress());
+      await client.setReentryRules({ cooldown: BigInt(COOLDOWN), stakePerSlash: STAKE_PER_SLASH, maxSlashCount: 0n });
+      expect(await client.getReentryRules()).to.deep.equal({
+        cooldown: BigInt(COOLDOWN),
+        stakePerSlash: STAKE_PER_SLASH,
+        maxSlashCount: 0n
+      });
+
+      expect(await client.getReentryStatus(provider1.address)).to.deep.equal({
+        eligible: false,
+        availableAt: 0n,
+        minStake: STAKE_PER_SLASH
+      });
+
+      await client.unbanProvider(provider1.address);
+      expect(await client.getReentryStatus(provider1.address)).to.deep.equal({
+        eligible: true,
+        availableAt: BigInt(await time.latest()) + BigInt(COOLDOWN),
+        minStake: STAKE_PER_SLASH
+      });
+    });
+  });
+
+  describe("Delegation", function () {
+    const UNBONDING_PERIOD = 7 * 24 * 60 * 60; // 7 days
+    const DELEGATION = ethers.parseEther("10000");
+    let delegator1: HardhatEthersSigner;
+    let delegator2: HardhatEthersSigner;
+
+    async function claimFor(provider: HardhatEthersSigner, user: HardhatEthersSigner, amount: bigint) {
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user.address, provider.address, amount, deadline
+      );
+      return staking.connect(provider).claim(rentalId, user.address, tlpAddress, 0, amount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    beforeEach(async function () {
+      [delegator1, delegator2] = (await ethers.getSigners()).slice(10, 12);
+      for (const delegator of [delegator1, delegator2]) {
+        await tlpToken.connect(admin).transfer(delegator.address, ethers.parseEther("100000"));
+        await tlpToken.connect(delegator).approve(await staking.getAddress(), ethers.MaxUint256);
+      }
+
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    });
+
+    it("should count delegated stake toward effective stake", async function () {
+      await expect(staking.connect(delegator1).delegate(provider1.address, DELEGATION))
+        .to.emit(staking, "Delegated")
+        .withArgs(delegator1.address, provider1.address, DELEGATION, DELEGATION);
+
+      expect(await staking.getEffectiveStake(provider1.address)).to.equal(STAKE_AMOUNT + DELEGATION);
+
+      const [amount] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(amount).to.equal(DELEGATION);
+
+      const [totalDelegated] = await staking.getDelegationPool(provider1.address);
+      expect(totalDelegated).to.equal(DELEGATION);
+    });
+
+    it("should reject delegation to non-providers and banned providers", async function () {
+      await expect(
+        staking.connect(delegator1).delegate(provider2.address, DELEGATION)
+      ).to.be.revertedWithCustomError(staking, "NotAProvider");
+
+      await expect(
+        staking.connect(delegator1).delegate(provider1.address, 0)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+    });
+
+    it("should share claim revenue with delegators after the provider fee", async function () {
+      await staking.connect(provider1).setDelegationFee(1000); // provider keeps 10%
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+
+      const claimAmount = ethers.parseEther("100");
+      // Half the effective stake is delegated: 50 attributed, 10% fee -> 45 to delegators
+      const delegatorReward = ethers.parseEther("45");
+
+      const providerBefore = await tlpToken.balanceOf(provider1.address);
+      await expect(claimFor(provider1, user1, claimAmount))
+        .to.emit(staking, "DelegationRewardsAccrued")
+        .withArgs(provider1.address, delegatorReward);
+
+      expect(await tlpToken.balanceOf(provider1.address) - providerBefore).to.equal(claimAmount - delegatorReward);
+
+      const [, rewards] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(rewards).to.equal(delegatorReward);
+
+      const delegatorBefore = await tlpToken.balanceOf(delegator1.address);
+      await expect(staking.connect(delegator1).claimDelegationRewards(provider1.address))
+        .to.emit(staking, "DelegationRewardsClaimed")
+        .withArgs(delegator1.address, provider1.address, delegatorReward);
+      expect(await tlpToken.balanceOf(delegator1.address) - delegatorBefore).to.equal(delegatorReward);
+
+      await expect(
+        staking.connect(delegator1).claimDelegationRewards(provider1.address)
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+    });
+
+    it("should split delegator revenue pro-rata between delegators", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, ethers.parseEther("15000"));
+      await staking.connect(delegator2).delegate(provider1.address, ethers.parseEther("5000"));
+
+      // 20000 of 30000 effective stake is delegated
+      await claimFor(provider1, user1, ethers.parseEther("300"));
+
+      const [, rewards1] = await staking.getDelegation(provider1.address, delegator1.address);
+      const [, rewards2] = await staking.getDelegation(provider1.address, delegator2.address);
+      expect(rewards1).to.equal(ethers.parseEther("150"));
+      expect(rewards2).to.equal(ethers.parseEther("50"));
+    });
+
+    it("should apply delegator revenue share to batch claims", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+      await staking.connect(user2).deposit(DEPOSIT_AMOUNT);
+
+      const claimAmount = ethers.parseEther("100");
+      const deadline = await getDeadline();
+      const rentalId1 = generateRentalId();
+      const rentalId2 = generateRentalId();
+      const sigs1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+      const sigs2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, deadline);
+
+      const providerBefore = await tlpToken.balanceOf(provider1.address);
+      await staking.connect(provider1).batchClaim(
+        [
+          { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+          { rentalId: rentalId2, user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
+        ],
+        [sigs1, sigs2]
+      );
+
+      expect(await tlpToken.balanceOf(provider1.address) - providerBefore).to.equal(claimAmount);
+      const [, rewards] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(rewards).to.equal(claimAmount);
+    });
+
+    it("should slash delegators pro-rata on partial slash", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+
+      const slashAmount = ethers.parseEther("4000");
+      const treasuryBefore = await tlpToken.balanceOf(treasury.address);
+
+      const tx = staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx)
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, slashAmount / 2n, false, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx)
+        .to.emit(staking, "DelegatorsSlashed")
+        .withArgs(provider1.address, slashAmount / 2n);
+
+      expect(await tlpToken.balanceOf(treasury.address) - treasuryBefore).to.equal(slashAmount);
+
+      const info = await staking.getProviderInfo(provider1.address);
+      expect(info.stakeAmount).to.equal(STAKE_AMOUNT - slashAmount / 2n);
+      const [amount] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(amount).to.equal(DELEGATION - slashAmount / 2n);
+    });
+
+    it("should keep undelegated stake slashable until released", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+
+      const undelegated = DELEGATION / 2n;
+      const tx = await staking.connect(delegator1).undelegate(provider1.address, undelegated);
+      const releaseTime = BigInt(await time.latest()) + BigInt(UNBONDING_PERIOD);
+      await expect(tx)
+        .to.emit(staking, "Undelegated")
+        .withArgs(delegator1.address, provider1.address, undelegated, releaseTime);
+
+      expect(await staking.getEffectiveStake(provider1.address)).to.equal(STAKE_AMOUNT + DELEGATION - undelegated);
+
+      // 20000 slashable, 10% slash
+      await staking.connect(police).slashPartial(provider1.address, ethers.parseEther("2000"), SLASH_REASON, EVIDENCE_HASH);
+
+      const [amount, , unbonding] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(amount).to.equal(ethers.parseEther("4500"));
+      expect(unbonding).to.equal(ethers.parseEther("4500"));
+
+      await expect(
+        staking.connect(delegator1).withdrawUndelegated(provider1.address)
+      ).to.be.revertedWithCustomError(staking, "WithdrawalNotReady");
+
+      await time.increase(UNBONDING_PERIOD);
+
+      const before = await tlpToken.balanceOf(delegator1.address);
+      await expect(staking.connect(delegator1).withdrawUndelegated(provider1.address))
+        .to.emit(staking, "UndelegationWithdrawn")
+        .withArgs(delegator1.address, provider1.address, ethers.parseEther("4500"));
+      expect(await tlpToken.balanceOf(delegator1.address) - before).to.equal(ethers.parseEther("4500"));
+    });
+
+    it("should reject undelegating more than delegated", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+
+      await expect(
+        staking.connect(delegator1).undelegate(provider1.address, DELEGATION + 1n)
+      ).to.be.revertedWithCustomError(staking, "InsufficientStake");
+
+      await expect(
+        staking.connect(delegator2).undelegate(provider1.address, 1n)
+      ).to.be.revertedWithCustomError(staking, "InsufficientStake");
+    });
+
+    it("should wipe delegations on slashAndBan but keep earned rewards", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+      await claimFor(provider1, user1, ethers.parseEther("100"));
+
+      const treasuryBefore = await tlpToken.balanceOf(treasury.address);
+      const tx = staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx)
+        .to.emit(staking, "ProviderSlashed")
+        .withArgs(provider1.address, STAKE_AMOUNT, true, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx)
+        .to.emit(staking, "DelegatorsSlashed")
+        .withArgs(provider1.address, DELEGATION);
+
+      expect(await tlpToken.balanceOf(treasury.address) - treasuryBefore).to.equal(STAKE_AMOUNT + DELEGATION);
+
+      const [amount, rewards, unbonding] = await staking.getDelegation(provider1.address, delegator1.address);
+      expect(amount).to.equal(0);
+      expect(unbonding).to.equal(0);
+      expect(rewards).to.equal(ethers.parseEther("50"));
+
+      await staking.connect(delegator1).claimDelegationRewards(provider1.address);
+    });
+
+    it("should not let wiped delegators share in new delegations", async function () {
+      await staking.connect(delegator1).delegate(provider1.address, DELEGATION);
+      await staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH);
+      await staking.connect(admin).unbanProvider(provider1.address);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+
+      await staking.connect(delegator2).delegate(provider1.address, DELEGATION);
+
+      const [amount1] = await staking.getDelegation(provider1.address, delegator1.address);
+      const [amount2] = await staking.getDelegation(provider1.address, delegator2.address);
+      expect(amount1).to.equal(0);
+      expect(amount2).to.equal(DELEGATION);
+
+      await expect(
+        staking.connect(delegator1).undelegate(provider1.address, 1n)
+      ).to.be.revertedWithCustomError(staking, "InsufficientStake");
+    });
+
+    it("should let providers set their delegation fee", async function () {
+      await expect(staking.connect(provider1).setDelegationFee(2500))
+        .to.emit(staking, "DelegationFeeUpdated")
+        .withArgs(provider1.address, 0, 2500);
+
+      const [, , feeBps] = await staking.getDelegationPool(provider1.address);
+      expect(feeBps).to.equal(2500);
+
+      await expect(
+        staking.connect(provider1).setDelegationFee(10001)
+      ).to.be.revertedWithCustomError(staking, "CommissionTooHigh");
+    });
+  });
+
+  describe("Minimum Stake, Tiers and Claim Caps", function () {
+    const BRONZE = ethers.encodeBytes32String("bronze");
+    const GOLD = ethers.encodeBytes32String("gold");
+
+    async function claimFor(provider: HardhatEthersSigner, user: HardhatEthersSigner, amount: bigint) {
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim(
+        [signer1, signer2], rentalId, user.address, provider.address, amount, deadline
+      );
+      return staking.connect(provider).claim(rentalId, user.address, tlpAddress, 0, amount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    beforeEach(async function () {
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+    });
+
+    it("should reject stakes below the minimum provider stake", async function () {
+      await expect(staking.connect(admin).setMinProviderStake(STAKE_AMOUNT))
+        .to.emit(staking, "MinProviderStakeUpdated")
+        .withArgs(0, STAKE_AMOUNT);
+
+      await expect(
+        staking.connect(provider1).stake(STAKE_AMOUNT - 1n, MIN_STAKE_DURATION)
+      ).to.be.revertedWithCustomError(staking, "StakeBelowMinimum");
+
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      expect(await staking.isProviderActive(provider1.address)).to.be.true;
+    });
+
+    it("should deactivate providers that fall below the minimum after a slash", async function () {
+      await staking.connect(admin).setMinProviderStake(STAKE_AMOUNT);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+
+      await staking.connect(police).slashPartial(provider1.address, ethers.parseEther("1"), SLASH_REASON, EVIDENCE_HASH);
+      expect(await staking.isProviderActive(provider1.address)).to.be.false;
+
+      await expect(
+        claimFor(provider1, user1, ethers.parseEther("10"))
+      ).to.be.revertedWithCustomError(staking, "StakeBelowMinimum");
+
+      // Topping up restores eligibility
+      await staking.connect(provider1).increaseStake(ethers.parseEther("1"));
+      expect(await staking.isProviderActive(provider1.address)).to.be.true;
+      await claimFor(provider1, user1, ethers.parseEther("10"));
+    });
+
+    it("should configure stake tiers and classify providers", async function () {
+      await expect(
+        staking.connect(admin).setStakeTiers([BRONZE, GOLD], [STAKE_AMOUNT, STAKE_AMOUNT * 5n], [1000, 0])
+      ).to.emit(staking, "StakeTiersUpdated").withArgs(2);
+
+      const tiers = await staking.getStakeTiers();
+      expect(tiers.length).to.equal(2);
+      expect(tiers[1].minStake).to.equal(STAKE_AMOUNT * 5n);
+
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      let [found, index, name] = await staking.getProviderTier(provider1.address);
+      expect(found).to.be.true;
+      expect(index).to.equal(0);
+      expect(name).to.equal(BRONZE);
+
+      await staking.connect(provider1).increaseStake(STAKE_AMOUNT * 4n);
+      [found, index, name] = await staking.getProviderTier(provider1.address);
+      expect(index).to.equal(1);
+      expect(name).to.equal(GOLD);
+    });
+
+    it("should require providers to meet the lowest tier", async function () {
+      await staking.connect(admin).setStakeTiers([BRONZE], [STAKE_AMOUNT * 2n], [0]);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+
+      expect(await staking.isProviderActive(provider1.address)).to.be.false;
+      await expect(
+        claimFor(provider1, user1, ethers.parseEther("10"))
+      ).to.be.revertedWithCustomError(staking, "StakeBelowMinimum");
     });
 
-    it("should increment slashCount on multiple partial slashes", async function () {
-      const slashAmount = STAKE_AMOUNT / 10n;
+    it("should reject unsorted or mismatched tier tables", async function () {
+      await expect(
+        staking.connect(admin).setStakeTiers([BRONZE, GOLD], [STAKE_AMOUNT, STAKE_AMOUNT], [0, 0])
+      ).to.be.revertedWithCustomError(staking, "InvalidStakeTiers");
+
+      await expect(
+        staking.connect(admin).setStakeTiers([BRONZE], [STAKE_AMOUNT, STAKE_AMOUNT * 2n], [0])
+      ).to.be.revertedWithCustomError(staking, "ArrayLengthMismatch");
+
+      await expect(
+        staking.connect(provider1).setStakeTiers([BRONZE], [STAKE_AMOUNT], [0])
+      ).to.be.reverted;
+    });
 
-      // First slash
-      await staking.connect(police).slashPartial(provider1.address, slashAmount);
-      let info = await staking.getProviderInfo(provider1.address);
-      expect(info.slashCount).to.equal(1);
+    it("should cap claims per window relative to effective stake", async function () {
+      const window = 24 * 60 * 60;
+      await expect(staking.connect(admin).setClaimCap(50, window)) // 0.5% of stake per day
+        .to.emit(staking, "ClaimCapUpdated")
+        .withArgs(50, window);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
 
-      // Second slash
-      await staking.connect(police).slashPartial(provider1.address, slashAmount);
-      info = await staking.getProviderInfo(provider1.address);
-      expect(info.slashCount).to.equal(2);
+      const cap = (STAKE_AMOUNT * 50n) / 10000n; // 50 TLP
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(cap);
 
-      // Third slash
-      await staking.connect(police).slashPartial(provider1.address, slashAmount);
-      info = await staking.getProviderInfo(provider1.address);
-      expect(info.slashCount).to.equal(3);
+      await claimFor(provider1, user1, ethers.parseEther("30"));
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(cap - ethers.parseEther("30"));
 
-      expect(info.stakeAmount).to.equal(STAKE_AMOUNT - (slashAmount * 3n));
-    });
+      await expect(
+        claimFor(provider1, user1, ethers.parseEther("30"))
+      ).to.be.revertedWithCustomError(staking, "ClaimCapExceeded");
 
-    it("should have slashCount of zero for new provider", async function () {
-      const info = await staking.getProviderInfo(provider1.address);
-      expect(info.slashCount).to.equal(0);
+      // Capacity resets in the next window
+      await time.increase(window);
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(cap);
+      await claimFor(provider1, user1, ethers.parseEther("30"));
     });
-  });
 
-  describe("Unban Provider", function () {
-    beforeEach(async function () {
+    it("should apply the cap to the batch total", async function () {
+      await staking.connect(admin).setClaimCap(50, 24 * 60 * 60);
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
-      await staking.connect(police).slashAndBan(provider1.address);
+
+      const claimAmount = ethers.parseEther("30");
+      const deadline = await getDeadline();
+      const rentalId1 = generateRentalId();
+      const rentalId2 = generateRentalId();
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider1.address, claimAmount, deadline);
+
+      const claims = [
+        { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+        { rentalId: rentalId2, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
+      ];
+
+      await expect(
+        staking.connect(provider1).batchClaim(claims, [signatures1, signatures2])
+      ).to.be.revertedWithCustomError(staking, "ClaimCapExceeded");
     });
 
-    it("should allow admin to unban provider", async function () {
-      await expect(staking.connect(admin).unbanProvider(provider1.address))
-        .to.emit(staking, "ProviderUnbanned")
-        .withArgs(provider1.address);
+    it("should use the tier cap and count delegated stake", async function () {
+      const [delegator] = (await ethers.getSigners()).slice(10, 11);
+      await tlpToken.connect(admin).transfer(delegator.address, STAKE_AMOUNT);
+      await tlpToken.connect(delegator).approve(await staking.getAddress(), STAKE_AMOUNT);
 
-      const info = await staking.getProviderInfo(provider1.address);
-      expect(info.isBanned).to.be.false;
+      await staking.connect(admin).setStakeTiers([BRONZE, GOLD], [STAKE_AMOUNT, STAKE_AMOUNT * 2n], [50, 100]);
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(ethers.parseEther("50"));
 
-      // Provider should be able to stake again
+      await staking.connect(delegator).delegate(provider1.address, STAKE_AMOUNT);
+      const [, , name] = await staking.getProviderTier(provider1.address);
+      expect(name).to.equal(GOLD);
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(ethers.parseEther("200"));
+    });
+
+    it("should leave claims uncapped by default", async function () {
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      expect(await staking.getRemainingClaimCapacity(provider1.address)).to.equal(ethers.MaxUint256);
+
+      await expect(
+        staking.connect(admin).setClaimCap(50, 0)
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
     });
   });
 
@@ -1055,8 +4458,8 @@ describe("TLPStaking", function () {
       expect(await staking.getUserBalance(user2.address)).to.equal(0);
     });
 
-    it("should return nonce", async function () {
-      expect(await staking.getNonce(user1.address)).to.equal(0);
+    it("should return nonce usage", async function () {
+      expect(await staking.isNonceUsed(user1.address, 0)).to.equal(false);
     });
 
     it("should return domain separator", async function () {
@@ -1117,14 +4520,13 @@ describe("TLPStaking", function () {
         await staking.connect(admin).setCommission(COMMISSION_5_PERCENT);
 
         const rentalId = generateRentalId();
-        const nonce = await staking.getNonce(provider1.address);
         const deadline = await getDeadline();
-        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, nonce, deadline);
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
-        await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures);
+        await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
 
         const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
         const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
@@ -1140,14 +4542,13 @@ describe("TLPStaking", function () {
         await staking.connect(admin).setCommission(COMMISSION_10_PERCENT);
 
         const rentalId = generateRentalId();
-        const nonce = await staking.getNonce(provider1.address);
         const deadline = await getDeadline();
-        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, nonce, deadline);
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
-        await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures);
+        await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
 
         const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
         const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
@@ -1164,14 +4565,13 @@ describe("TLPStaking", function () {
         expect(await staking.commissionBps()).to.equal(0);
 
         const rentalId = generateRentalId();
-        const nonce = await staking.getNonce(provider1.address);
         const deadline = await getDeadline();
-        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, nonce, deadline);
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
-        await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures);
+        await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
 
         const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
         const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
@@ -1184,14 +4584,13 @@ describe("TLPStaking", function () {
         await staking.connect(admin).setCommission(10000n); // 100%
 
         const rentalId = generateRentalId();
-        const nonce = await staking.getNonce(provider1.address);
         const deadline = await getDeadline();
-        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, nonce, deadline);
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
-        await staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures);
+        await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures);
 
         const treasuryBalanceAfter = await tlpToken.balanceOf(treasury.address);
         const providerBalanceAfter = await tlpToken.balanceOf(provider1.address);
@@ -1204,15 +4603,14 @@ describe("TLPStaking", function () {
         await staking.connect(admin).setCommission(COMMISSION_5_PERCENT);
 
         const rentalId = generateRentalId();
-        const nonce = await staking.getNonce(provider1.address);
         const deadline = await getDeadline();
-        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, nonce, deadline);
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
 
         const expectedCommission = (claimAmount * COMMISSION_5_PERCENT) / 10000n;
 
-        await expect(staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures))
+        await expect(staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures))
           .to.emit(staking, "Claimed")
-          .withArgs(rentalId, user1.address, provider1.address, claimAmount, expectedCommission);
+          .withArgs(rentalId, user1.address, provider1.address, tlpAddress, claimAmount, expectedCommission, COMMISSION_5_PERCENT);
       });
     });
 
@@ -1224,18 +4622,16 @@ describe("TLPStaking", function () {
         const deadline = await getDeadline();
         const rentalId1 = generateRentalId();
         const rentalId2 = generateRentalId();
-        const nonce1 = await staking.getNonce(provider1.address);
-        const nonce2 = nonce1 + 1n;
 
-        const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
-        const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, nonce2, deadline);
+        const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+        const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
         const claims = [
-          { rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline },
-          { rentalId: rentalId2, user: user2.address, amount: claimAmount, deadline }
+          { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+          { rentalId: rentalId2, user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
         ];
 
         await staking.connect(provider1).batchClaim(claims, [signatures1, signatures2]);
@@ -1257,18 +4653,16 @@ describe("TLPStaking", function () {
         const deadline = await getDeadline();
         const rentalId1 = generateRentalId();
         const rentalId2 = generateRentalId();
-        const nonce1 = await staking.getNonce(provider1.address);
-        const nonce2 = nonce1 + 1n;
 
-        const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
-        const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, nonce2, deadline);
+        const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+        const signatures2 = await signClaim([signer1, signer2], rentalId2, user2.address, provider1.address, claimAmount, deadline);
 
         const treasuryBalanceBefore = await tlpToken.balanceOf(treasury.address);
         const providerBalanceBefore = await tlpToken.balanceOf(provider1.address);
 
         const claims = [
-          { rentalId: rentalId1, user: user1.address, amount: claimAmount, deadline },
-          { rentalId: rentalId2, user: user2.address, amount: claimAmount, deadline }
+          { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+          { rentalId: rentalId2, user: user2.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
         ];
 
         await staking.connect(provider1).batchClaim(claims, [signatures1, signatures2]);
@@ -1280,6 +4674,576 @@ describe("TLPStaking", function () {
         expect(providerBalanceAfter - providerBalanceBefore).to.equal(claimAmount * 2n);
       });
     });
+
+    describe("commission overrides and fee classes", function () {
+      const FEE_CLASS = 1n;
+      const COMMISSION_2_PERCENT = 200n;
+      const ONE_DAY = 86400n;
+
+      async function claimWithClass(feeClass: bigint, rentalId: string = generateRentalId()) {
+        const deadline = await getDeadline();
+        const signatures = await signClaim(
+          [signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline, SIGNER_EPOCH, tlpAddress, feeClass
+        );
+        return staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, feeClass, claimAmount, deadline, SIGNER_EPOCH, signatures);
+      }
+
+      beforeEach(async function () {
+        await staking.connect(admin).setCommission(COMMISSION_5_PERCENT);
+      });
+
+      it("should let admin set a provider override with an expiry", async function () {
+        const expiresAt = BigInt(await time.latest()) + ONE_DAY;
+
+        await expect(staking.connect(admin).setProviderCommission(provider1.address, COMMISSION_2_PERCENT, expiresAt))
+          .to.emit(staking, "ProviderCommissionUpdated")
+          .withArgs(provider1.address, COMMISSION_2_PERCENT, expiresAt);
+
+        expect(await staking.getProviderCommission(provider1.address)).to.deep.equal([COMMISSION_2_PERCENT, expiresAt]);
+        expect(await staking.getCommissionRate(provider1.address, 0)).to.equal(COMMISSION_2_PERCENT);
+        expect(await staking.getCommissionRate(provider2.address, 0)).to.equal(COMMISSION_5_PERCENT);
+      });
+
+      it("should reject invalid provider overrides", async function () {
+        const expiresAt = BigInt(await time.latest()) + ONE_DAY;
+
+        await expect(
+          staking.connect(admin).setProviderCommission(ethers.ZeroAddress, COMMISSION_2_PERCENT, expiresAt)
+        ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+        await expect(
+          staking.connect(admin).setProviderCommission(provider1.address, 10001n, expiresAt)
+        ).to.be.revertedWithCustomError(staking, "CommissionTooHigh");
+        await expect(
+          staking.connect(admin).setProviderCommission(provider1.address, COMMISSION_2_PERCENT, await time.latest())
+        ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+        await expect(
+          staking.connect(user1).setProviderCommission(provider1.address, COMMISSION_2_PERCENT, expiresAt)
+        ).to.be.reverted;
+      });
+
+      it("should charge the override rate until it expires", async function () {
+        const expiresAt = BigInt(await time.latest()) + ONE_DAY;
+        await staking.connect(admin).setProviderCommission(provider1.address, COMMISSION_2_PERCENT, expiresAt);
+
+        const rentalId = generateRentalId();
+        await expect(claimWithClass(0n, rentalId))
+          .to.emit(staking, "Claimed")
+          .withArgs(rentalId, user1.address, provider1.address, tlpAddress, claimAmount, claimAmount * COMMISSION_2_PERCENT / 10000n, COMMISSION_2_PERCENT);
+
+        await time.increaseTo(expiresAt);
+
+        const laterRental = generateRentalId();
+        await expect(claimWithClass(0n, laterRental))
+          .to.emit(staking, "Claimed")
+          .withArgs(laterRental, user1.address, provider1.address, tlpAddress, claimAmount, claimAmount * COMMISSION_5_PERCENT / 10000n, COMMISSION_5_PERCENT);
+      });
+
+      it("should let admin configure fee classes but not class 0", async function () {
+        await expect(staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, true))
+          .to.emit(staking, "FeeClassUpdated")
+          .withArgs(FEE_CLASS, COMMISSION_10_PERCENT, true);
+
+        expect(await staking.getFeeClass(FEE_CLASS)).to.deep.equal([COMMISSION_10_PERCENT, true]);
+
+        await expect(
+          staking.connect(admin).setFeeClass(0, COMMISSION_10_PERCENT, true)
+        ).to.be.revertedWithCustomError(staking, "InvalidFeeClass");
+        await expect(
+          staking.connect(admin).setFeeClass(FEE_CLASS, 10001n, true)
+        ).to.be.revertedWithCustomError(staking, "CommissionTooHigh");
+      });
+
+      it("should charge the fee class rate selected by the signed claim", async function () {
+        await staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, true);
+        const expectedCommission = claimAmount * COMMISSION_10_PERCENT / 10000n;
+        const treasuryBefore = await tlpToken.balanceOf(treasury.address);
+
+        const rentalId = generateRentalId();
+        await expect(claimWithClass(FEE_CLASS, rentalId))
+          .to.emit(staking, "Claimed")
+          .withArgs(rentalId, user1.address, provider1.address, tlpAddress, claimAmount, expectedCommission, COMMISSION_10_PERCENT);
+
+        expect(await tlpToken.balanceOf(treasury.address) - treasuryBefore).to.equal(expectedCommission);
+      });
+
+      it("should prefer an active provider override over the fee class", async function () {
+        await staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, true);
+        await staking.connect(admin).setProviderCommission(
+          provider1.address, COMMISSION_2_PERCENT, BigInt(await time.latest()) + ONE_DAY
+        );
+
+        expect(await staking.getCommissionRate(provider1.address, FEE_CLASS)).to.equal(COMMISSION_2_PERCENT);
+        await expect(claimWithClass(FEE_CLASS)).to.emit(staking, "Claimed");
+        expect(await tlpToken.balanceOf(treasury.address)).to.equal(claimAmount * COMMISSION_2_PERCENT / 10000n);
+      });
+
+      it("should preview the split a claim is paid out with", async function () {
+        await staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, true);
+        const client = new TLPStakingClient(provider1, await staking.getAddress());
+
+        const preview = await client.previewClaim(provider1.address, claimAmount, FEE_CLASS);
+        expect(preview.commissionBps).to.equal(COMMISSION_10_PERCENT);
+
+        const tx = claimWithClass(FEE_CLASS);
+        await expect(tx).to.changeTokenBalances(
+          tlpToken, [provider1, treasury], [preview.providerAmount, preview.commission]
+        );
+      });
+
+      it("should reject claims for an unknown or disabled fee class", async function () {
+        await expect(claimWithClass(FEE_CLASS)).to.be.revertedWithCustomError(staking, "InvalidFeeClass");
+
+        await staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, false);
+        await expect(claimWithClass(FEE_CLASS)).to.be.revertedWithCustomError(staking, "InvalidFeeClass");
+      });
+
+      it("should reject a fee class the signers did not sign", async function () {
+        await staking.connect(admin).setFeeClass(FEE_CLASS, 0n, true);
+
+        const rentalId = generateRentalId();
+        const deadline = await getDeadline();
+        const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, claimAmount, deadline);
+
+        await expect(
+          staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, FEE_CLASS, claimAmount, deadline, SIGNER_EPOCH, signatures)
+        ).to.be.revertedWithCustomError(staking, "InvalidSignature");
+      });
+
+      it("should report the rate applied to each claim in a batch", async function () {
+        await staking.connect(admin).setFeeClass(FEE_CLASS, COMMISSION_10_PERCENT, true);
+
+        const deadline = await getDeadline();
+        const rentalId1 = generateRentalId();
+        const rentalId2 = generateRentalId();
+        const claims = [
+          { rentalId: rentalId1, user: user1.address, token: tlpAddress, feeClass: 0, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH },
+          { rentalId: rentalId2, user: user1.address, token: tlpAddress, feeClass: FEE_CLASS, cumulativeAmount: claimAmount, deadline, epoch: SIGNER_EPOCH }
+        ];
+        const signatures = [
+          await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline),
+          await signClaim(
+            [signer1, signer2], rentalId2, user1.address, provider1.address, claimAmount, deadline, SIGNER_EPOCH, tlpAddress, FEE_CLASS
+          )
+        ];
+
+        const tx = await staking.connect(provider1).batchClaim(claims, signatures);
+        await expect(tx).to.emit(staking, "Claimed")
+          .withArgs(rentalId1, user1.address, provider1.address, tlpAddress, claimAmount, claimAmount * COMMISSION_5_PERCENT / 10000n, COMMISSION_5_PERCENT);
+        await expect(tx).to.emit(staking, "Claimed")
+          .withArgs(rentalId2, user1.address, provider1.address, tlpAddress, claimAmount, claimAmount * COMMISSION_10_PERCENT / 10000n, COMMISSION_10_PERCENT);
+      });
+    });
+  });
+
+  describe("Parameter Timelock", function () {
+    const DELAY = 2n * 86400n;
+
+    function changeId(setter: string, types: string[], values: unknown[]) {
+      const selector = staking.getFunction(setter).fragment.selector;
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(types, values);
+      return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["bytes4", "bytes"], [selector, data]));
+    }
+
+    beforeEach(async function () {
+      await staking.connect(admin).setParameterChangeDelay(DELAY);
+    });
+
+    it("should apply the first delay immediately and validate it", async function () {
+      expect(await staking.parameterChangeDelay()).to.equal(DELAY);
+
+      await expect(
+        staking.connect(admin).setParameterChangeDelay(31n * 86400n)
+      ).to.be.revertedWithCustomError(staking, "InvalidDuration");
+      await expect(
+        staking.connect(user1).setParameterChangeDelay(0)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should queue commission changes instead of applying them", async function () {
+      const id = changeId("setCommission", ["uint256"], [1000n]);
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1000n]);
+
+      const tx = await staking.connect(admin).setCommission(1000n);
+      const eta = BigInt(await time.latest()) + DELAY;
+      await expect(tx)
+        .to.emit(staking, "ParameterChangeQueued")
+        .withArgs(id, staking.interface.getFunction("setCommission")!.selector, data, eta);
+      await expect(tx).to.not.emit(staking, "CommissionUpdated");
+
+      expect(await staking.commissionBps()).to.equal(0);
+      const [ids, changes] = await staking.getPendingParameterChanges();
+      expect(ids).to.deep.equal([id]);
+      expect(changes[0].eta).to.equal(eta);
+    });
+
+    it("should queue relay fee and forwarder changes", async function () {
+      const fee = ethers.parseEther("1");
+      await expect(staking.connect(admin).setRelayFee(fee, user2.address))
+        .to.emit(staking, "ParameterChangeQueued")
+        .and.to.not.emit(staking, "RelayFeeUpdated");
+      await expect(staking.connect(admin).setTrustedForwarder(user2.address))
+        .to.emit(staking, "ParameterChangeQueued")
+        .and.to.not.emit(staking, "TrustedForwarderUpdated");
+      expect(await staking.relayFee()).to.equal(0);
+      expect(await staking.isTrustedForwarder(user2.address)).to.equal(false);
+
+      await time.increase(DELAY);
+      await expect(staking.executeParameterChange(changeId("setRelayFee", ["uint256", "address"], [fee, user2.address])))
+        .to.emit(staking, "RelayFeeUpdated")
+        .withArgs(fee, user2.address);
+      await expect(staking.executeParameterChange(changeId("setTrustedForwarder", ["address"], [user2.address])))
+        .to.emit(staking, "TrustedForwarderUpdated")
+        .withArgs(ethers.ZeroAddress, user2.address);
+      expect(await staking.relayFeeRecipient()).to.equal(user2.address);
+      expect(await staking.isTrustedForwarder(user2.address)).to.equal(true);
+    });
+
+    it("should queue holdback and challenge period changes", async function () {
+      const vestingPeriod = 30n * 86400n;
+      await expect(staking.connect(admin).setHoldback(2000n, vestingPeriod))
+        .to.emit(staking, "ParameterChangeQueued")
+        .and.to.not.emit(staking, "HoldbackUpdated");
+      await expect(staking.connect(admin).setClaimChallengePeriod(86400n))
+        .to.emit(staking, "ParameterChangeQueued")
+        .and.to.not.emit(staking, "ClaimChallengePeriodUpdated");
+      expect(await staking.holdbackBps()).to.equal(0);
+      expect(await staking.claimChallengePeriod()).to.equal(0);
+
+      await time.increase(DELAY);
+      await expect(staking.executeParameterChange(changeId("setHoldback", ["uint256", "uint256"], [2000n, vestingPeriod])))
+        .to.emit(staking, "HoldbackUpdated")
+        .withArgs(2000n, vestingPeriod);
+      await expect(staking.executeParameterChange(changeId("setClaimChallengePeriod", ["uint256"], [86400n])))
+        .to.emit(staking, "ClaimChallengePeriodUpdated")
+        .withArgs(0, 86400n);
+      expect(await staking.holdbackVestingPeriod()).to.equal(vestingPeriod);
+      expect(await staking.claimChallengePeriod()).to.equal(86400n);
+    });
+
+    it("should execute a queued change only after its ETA, by anyone", async function () {
+      await staking.connect(admin).setCommission(1000n);
+      const id = changeId("setCommission", ["uint256"], [1000n]);
+
+      await expect(
+        staking.connect(user1).executeParameterChange(id)
+      ).to.be.revertedWithCustomError(staking, "ParameterChangeNotReady");
+
+      await time.increase(DELAY);
+      await expect(staking.connect(user1).executeParameterChange(id))
+        .to.emit(staking, "CommissionUpdated").withArgs(0, 1000n)
+        .and.to.emit(staking, "ParameterChangeExecuted").withArgs(id);
+
+      expect(await staking.commissionBps()).to.equal(1000n);
+      const [ids] = await staking.getPendingParameterChanges();
+      expect(ids).to.deep.equal([]);
+      await expect(
+        staking.executeParameterChange(id)
+      ).to.be.revertedWithCustomError(staking, "NoQueuedParameterChange");
+    });
+
+    it("should let admin cancel a queued change", async function () {
+      await staking.connect(admin).setTreasury(user2.address);
+      const id = changeId("setTreasury", ["address"], [user2.address]);
+
+      await expect(
+        staking.connect(user1).cancelParameterChange(id)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+      await expect(staking.connect(admin).cancelParameterChange(id))
+        .to.emit(staking, "ParameterChangeCancelled").withArgs(id);
+
+      await time.increase(DELAY);
+      await expect(
+        staking.executeParameterChange(id)
+      ).to.be.revertedWithCustomError(staking, "NoQueuedParameterChange");
+      expect(await staking.treasury()).to.equal(treasury.address);
+    });
+
+    it("should reject queueing the same change twice", async function () {
+      await staking.connect(admin).setMinStakeDuration(MIN_STAKE_DURATION * 2);
+
+      await expect(
+        staking.connect(admin).setMinStakeDuration(MIN_STAKE_DURATION * 2)
+      ).to.be.revertedWithCustomError(staking, "ParameterChangeAlreadyQueued");
+    });
+
+    it("should timelock treasury, stake duration, fee class and provider commission changes", async function () {
+      const expiresAt = BigInt(await time.latest()) + 30n * 86400n;
+      await staking.connect(admin).setTreasury(user2.address);
+      await staking.connect(admin).setMinStakeDuration(MIN_STAKE_DURATION * 2);
+      await staking.connect(admin).setFeeClass(1, 300n, true);
+      await staking.connect(admin).setProviderCommission(provider1.address, 200n, expiresAt);
+
+      await time.increase(DELAY);
+      const [ids] = await staking.getPendingParameterChanges();
+      expect(ids.length).to.equal(4);
+      for (const id of ids) {
+        await staking.executeParameterChange(id);
+      }
+
+      expect(await staking.treasury()).to.equal(user2.address);
+      expect(await staking.minStakeDuration()).to.equal(MIN_STAKE_DURATION * 2);
+      expect(await staking.getFeeClass(1)).to.deep.equal([300n, true]);
+      expect(await staking.getProviderCommission(provider1.address)).to.deep.equal([200n, expiresAt]);
+    });
+
+    it("should timelock lowering the delay itself", async function () {
+      await staking.connect(admin).setParameterChangeDelay(0);
+      expect(await staking.parameterChangeDelay()).to.equal(DELAY);
+
+      await time.increase(DELAY);
+      await expect(staking.executeParameterChange(changeId("setParameterChangeDelay", ["uint256"], [0n])))
+        .to.emit(staking, "ParameterChangeDelayUpdated").withArgs(DELAY, 0);
+
+      await expect(staking.connect(admin).setCommission(500n))
+        .to.emit(staking, "CommissionUpdated").withArgs(0, 500n);
+    });
+
+    it("should list pending changes with decoded arguments through the client", async function () {
+      await staking.connect(admin).setCommission(1000n);
+      await time.increase(3600);
+      await staking.connect(admin).setTreasury(user2.address);
+
+      const client = new TLPStakingClient(admin, await staking.getAddress());
+      const pending = await client.getPendingParameterChanges();
+
+      expect(pending.map((c) => c.setter)).to.deep.equal(["setCommission", "setTreasury"]);
+      expect(pending[0].args).to.deep.equal([1000n]);
+      expect(pending[1].args).to.deep.equal([user2.address]);
+      expect(pending[1].eta - pending[0].eta).to.be.greaterThanOrEqual(3600n);
+    });
+  });
+
+  describe("Fee Splits", function () {
+    const CLAIM_AMOUNT = ethers.parseEther("100");
+
+    async function claimFromUser1() {
+      const rentalId = generateRentalId();
+      const deadline = await getDeadline();
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, CLAIM_AMOUNT, deadline);
+      return staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, CLAIM_AMOUNT, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+      await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
+      await staking.connect(admin).setCommission(1000n);
+    });
+
+    it("should let admin set commission and slash splits", async function () {
+      await expect(staking.connect(admin).setCommissionSplit([treasury.address, signer3.address], [3n, 1n]))
+        .to.emit(staking, "CommissionSplitUpdated")
+        .withArgs([treasury.address, signer3.address], [3n, 1n]);
+      await expect(staking.connect(admin).setSlashSplit([user2.address], [1n]))
+        .to.emit(staking, "SlashSplitUpdated")
+        .withArgs([user2.address], [1n]);
+
+      expect(await staking.getCommissionSplit()).to.deep.equal([[treasury.address, signer3.address], [3n, 1n]]);
+      expect(await staking.getSlashSplit()).to.deep.equal([[user2.address], [1n]]);
+    });
+
+    it("should reject invalid splits", async function () {
+      await expect(
+        staking.connect(admin).setCommissionSplit([treasury.address], [1n, 2n])
+      ).to.be.revertedWithCustomError(staking, "ArrayLengthMismatch");
+      await expect(
+        staking.connect(admin).setCommissionSplit([treasury.address], [0n])
+      ).to.be.revertedWithCustomError(staking, "InvalidFeeSplit");
+      await expect(
+        staking.connect(admin).setSlashSplit([ethers.ZeroAddress], [1n])
+      ).to.be.revertedWithCustomError(staking, "ZeroAddress");
+      await expect(
+        staking.connect(admin).setSlashSplit(Array(9).fill(treasury.address), Array(9).fill(1n))
+      ).to.be.revertedWithCustomError(staking, "InvalidFeeSplit");
+      await expect(
+        staking.connect(user1).setCommissionSplit([user1.address], [1n])
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should accrue commission by weight for recipients to withdraw", async function () {
+      await staking.connect(admin).setCommissionSplit([treasury.address, signer3.address], [2n, 1n]);
+      const commission = CLAIM_AMOUNT / 10n;
+      const signer3Share = commission / 3n;
+
+      await expect(claimFromUser1()).to.changeTokenBalance(tlpToken, treasury, 0);
+
+      // Rounding dust goes to the first recipient
+      expect(await staking.accruedFees(treasury.address, tlpAddress)).to.equal(commission - signer3Share);
+      expect(await staking.accruedFees(signer3.address, tlpAddress)).to.equal(signer3Share);
+
+      const tx = staking.connect(signer3).withdrawFees(tlpAddress);
+      await expect(tx).to.changeTokenBalance(tlpToken, signer3, signer3Share);
+      await expect(tx).to.emit(staking, "FeesWithdrawn").withArgs(signer3.address, tlpAddress, signer3Share);
+
+      expect(await staking.accruedFees(signer3.address, tlpAddress)).to.equal(0);
+      await expect(
+        staking.connect(signer3).withdrawFees(tlpAddress)
+      ).to.be.revertedWithCustomError(staking, "NothingToWithdraw");
+    });
+
+    it("should split slashed stake separately from commission", async function () {
+      await staking.connect(admin).setCommissionSplit([signer3.address], [1n]);
+      await staking.connect(admin).setSlashSplit([treasury.address, user2.address], [1n, 1n]);
+      const slashAmount = ethers.parseEther("1000");
+
+      await claimFromUser1();
+      await staking.connect(police).slashPartial(provider1.address, slashAmount, SLASH_REASON, EVIDENCE_HASH);
+
+      expect(await staking.accruedFees(signer3.address, tlpAddress)).to.equal(CLAIM_AMOUNT / 10n);
+      expect(await staking.accruedFees(treasury.address, tlpAddress)).to.equal(slashAmount / 2n);
+      expect(await staking.accruedFees(user2.address, tlpAddress)).to.equal(slashAmount / 2n);
+    });
+
+    it("should send to treasury again once a split is cleared", async function () {
+      await staking.connect(admin).setCommissionSplit([signer3.address], [1n]);
+      await staking.connect(admin).setCommissionSplit([], []);
+
+      await expect(claimFromUser1()).to.changeTokenBalance(tlpToken, treasury, CLAIM_AMOUNT / 10n);
+      expect(await staking.accruedFees(signer3.address, tlpAddress)).to.equal(0);
+    });
+
+    it("should queue split changes behind the parameter timelock", async function () {
+      await staking.connect(admin).setParameterChangeDelay(86400n);
+
+      await expect(staking.connect(admin).setCommissionSplit([signer3.address], [1n]))
+        .to.emit(staking, "ParameterChangeQueued");
+      expect(await staking.getCommissionSplit()).to.deep.equal([[], []]);
+    });
+
+    it("should read splits and accrued fees through the client", async function () {
+      await staking.connect(admin).setCommissionSplit([treasury.address, signer3.address], [1n, 1n]);
+      await claimFromUser1();
+
+      const client = new TLPStakingClient(signer3, await staking.getAddress());
+      expect(await client.getCommissionSplit()).to.deep.equal([
+        { recipient: treasury.address, weight: 1n },
+        { recipient: signer3.address, weight: 1n },
+      ]);
+      expect(await client.getAccruedFees(signer3.address, tlpAddress)).to.equal(CLAIM_AMOUNT / 20n);
+    });
+  });
+
+  describe("Insurance Pool", function () {
+    const SLASH_AMOUNT = ethers.parseEther("1000");
+    const INCIDENT_ID = ethers.id("incident-1");
+
+    async function payout(user: string, cumulativeAmount: bigint, incidentId: string = INCIDENT_ID) {
+      const deadline = await getDeadline();
+      const signatures = await signInsurancePayout([signer1, signer2], incidentId, user, cumulativeAmount, deadline);
+      return staking.payInsurance(incidentId, user, cumulativeAmount, deadline, SIGNER_EPOCH, signatures);
+    }
+
+    beforeEach(async function () {
+      await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
+    });
+
+    it("should let admin set the insurance share", async function () {
+      await expect(staking.connect(admin).setInsuranceShare(5000n))
+        .to.emit(staking, "InsuranceShareUpdated")
+        .withArgs(0n, 5000n);
+      expect(await staking.insuranceShareBps()).to.equal(5000n);
+
+      await expect(
+        staking.connect(admin).setInsuranceShare(10001n)
+      ).to.be.revertedWithCustomError(staking, "InvalidInsuranceShare");
+      await expect(
+        staking.connect(user1).setInsuranceShare(5000n)
+      ).to.be.revertedWithCustomError(staking, "AccessControlUnauthorizedAccount");
+    });
+
+    it("should route the insurance share of a slash into the pool", async function () {
+      await staking.connect(admin).setInsuranceShare(4000n);
+      const insured = (SLASH_AMOUNT * 4000n) / 10000n;
+
+      const tx = staking.connect(police).slashPartial(provider1.address, SLASH_AMOUNT, SLASH_REASON, EVIDENCE_HASH);
+      await expect(tx).to.emit(staking, "InsurancePoolFunded").withArgs(provider1.address, insured, insured);
+      await expect(tx).to.changeTokenBalance(tlpToken, treasury, SLASH_AMOUNT - insured);
+
+      expect(await staking.insurancePool()).to.equal(insured);
+    });
+
+    it("should send the rest of a slash through the slash split", async function () {
+      await staking.connect(admin).setInsuranceShare(10000n);
+      await staking.connect(admin).setSlashSplit([signer3.address], [1n]);
+
+      await expect(
+        staking.connect(police).slashAndBan(provider1.address, SLASH_REASON, EVIDENCE_HASH)
+      ).to.changeTokenBalance(tlpToken, treasury, 0);
+
+      expect(await staking.insurancePool()).to.equal(STAKE_AMOUNT);
+      expect(await staking.accruedFees(signer3.address, tlpAddress)).to.equal(0);
+    });
+
+    it("should accept contributions to the pool", async function () {
+      const amount = ethers.parseEther("50");
+
+      await expect(staking.connect(user2).fundInsurancePool(amount))
+        .to.emit(staking, "InsurancePoolFunded")
+        .withArgs(user2.address, amount, amount);
+      expect(await staking.insurancePool()).to.equal(amount);
+
+      await expect(
+        staking.connect(user2).fundInsurancePool(0)
+      ).to.be.revertedWithCustomError(staking, "ZeroAmount");
+    });
+
+    it("should credit signed payouts to user balances", async function () {
+      await staking.connect(admin).setInsuranceShare(10000n);
+      await staking.connect(police).slashPartial(provider1.address, SLASH_AMOUNT, SLASH_REASON, EVIDENCE_HASH);
+      const first = ethers.parseEther("300");
+      const total = ethers.parseEther("500");
+
+      await expect(payout(user1.address, first))
+        .to.emit(staking, "InsurancePaid")
+        .withArgs(INCIDENT_ID, user1.address, first, SLASH_AMOUNT - first);
+
+      // A later payout for the same incident pays only the delta
+      await expect(payout(user1.address, total))
+        .to.emit(staking, "InsurancePaid")
+        .withArgs(INCIDENT_ID, user1.address, total - first, SLASH_AMOUNT - total);
+
+      expect(await staking.userBalances(user1.address)).to.equal(total);
+      expect(await staking.insurancePool()).to.equal(SLASH_AMOUNT - total);
+      expect(await staking.insurancePayouts(INCIDENT_ID, user1.address)).to.equal(total);
+    });
+
+    it("should reject settled, oversized and under-signed payouts", async function () {
+      await staking.connect(user2).fundInsurancePool(ethers.parseEther("100"));
+      await payout(user1.address, ethers.parseEther("100"));
+
+      await expect(
+        payout(user1.address, ethers.parseEther("100"))
+      ).to.be.revertedWithCustomError(staking, "InsurancePayoutAlreadySettled");
+      await expect(
+        payout(user1.address, 1n, ethers.id("incident-2"))
+      ).to.be.revertedWithCustomError(staking, "InsufficientInsurancePool");
+
+      await staking.connect(user2).fundInsurancePool(ethers.parseEther("10"));
+      const deadline = await getDeadline();
+      const signatures = await signInsurancePayout([signer1], INCIDENT_ID, user2.address, 1n, deadline);
+      await expect(
+        staking.payInsurance(INCIDENT_ID, user2.address, 1n, deadline, SIGNER_EPOCH, signatures)
+      ).to.be.revertedWithCustomError(staking, "InsufficientSignatures");
+    });
+
+    it("should pay out through the client", async function () {
+      const stakingAddress = await staking.getAddress();
+      const userClient = new TLPStakingClient(user1, stakingAddress);
+      const amount = ethers.parseEther("20");
+      await staking.connect(user2).fundInsurancePool(amount);
+
+      const deadline = await getDeadline();
+      const signatures = await TLPStakingSigner.collectSignatures(
+        [await TLPStakingSigner.fromSigner(signer1, stakingAddress), await TLPStakingSigner.fromSigner(signer2, stakingAddress)],
+        (s) => s.signInsurancePayout({ incidentId: INCIDENT_ID, user: user1.address, cumulativeAmount: amount, deadline })
+      );
+      const receipt = await (
+        await userClient.payInsurance(INCIDENT_ID, user1.address, amount, deadline, SIGNER_EPOCH, signatures)
+      ).wait();
+
+      expect(userClient.parseInsurancePaidEvent(receipt!.logs)?.amount).to.equal(amount);
+      expect(await userClient.getInsurancePool()).to.equal(0);
+      expect(await userClient.getInsurancePayout(INCIDENT_ID, user1.address)).to.equal(amount);
+    });
   });
 
   describe("Migration Scenario", function () {
@@ -1295,46 +5259,43 @@ describe("TLPStaking", function () {
       // Provider 1 serves the user for some time, then claims
       const claim1Amount = ethers.parseEther("30");
       const rentalId1 = generateRentalId();
-      const nonce1 = await staking.getNonce(provider1.address);
       const deadline1 = await getDeadline();
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claim1Amount, nonce1, deadline1);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claim1Amount, deadline1);
 
-      await staking.connect(provider1).claim(rentalId1, user1.address, claim1Amount, deadline1, signatures1);
+      await staking.connect(provider1).claim(rentalId1, user1.address, tlpAddress, 0, claim1Amount, deadline1, SIGNER_EPOCH, signatures1);
 
       // Provider 1 goes down, backend migrates user to Provider 2
       // Provider 2 serves the user and claims
       const claim2Amount = ethers.parseEther("40");
       const rentalId2 = generateRentalId();
-      const nonce2 = await staking.getNonce(provider2.address);
       const deadline2 = await getDeadline();
-      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider2.address, claim2Amount, nonce2, deadline2);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider2.address, claim2Amount, deadline2);
 
-      await staking.connect(provider2).claim(rentalId2, user1.address, claim2Amount, deadline2, signatures2);
+      await staking.connect(provider2).claim(rentalId2, user1.address, tlpAddress, 0, claim2Amount, deadline2, SIGNER_EPOCH, signatures2);
 
       // Verify: User's remaining balance is correct
       const expectedRemaining = depositAmount - claim1Amount - claim2Amount;
       expect(await staking.getUserBalance(user1.address)).to.equal(expectedRemaining);
 
       // User can withdraw their remaining balance
-      const userNonce = await staking.getNonce(user1.address);
+      const userNonce = await nextNonce(user1.address);
       const userDeadline = await getDeadline();
       const withdrawSignatures = await signWithdrawal([signer1, signer2], user1.address, expectedRemaining, userNonce, userDeadline);
 
-      await staking.connect(user1).withdraw(expectedRemaining, userDeadline, withdrawSignatures);
+      await staking.connect(user1).withdraw(tlpAddress, expectedRemaining, userNonce, userDeadline, SIGNER_EPOCH, withdrawSignatures);
       expect(await staking.getUserBalance(user1.address)).to.equal(0);
     });
   });
 
   describe("Edge Cases", function () {
     it("should handle 3-of-3 signature requirement", async function () {
-      await staking.connect(admin).setRequiredSignatures(3);
+      await staking.connect(admin).setRequiredClaimSignatures(3);
       await staking.connect(provider1).stake(STAKE_AMOUNT, MIN_STAKE_DURATION);
       await staking.connect(user1).deposit(DEPOSIT_AMOUNT);
 
       // Claim with 3 signatures
       const rentalId = generateRentalId();
       const claimAmount = ethers.parseEther("100");
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
       const signatures = await signClaim(
         [signer1, signer2, signer3],
@@ -1342,11 +5303,10 @@ describe("TLPStaking", function () {
         user1.address,
         provider1.address,
         claimAmount,
-        nonce,
         deadline
       );
 
-      await expect(staking.connect(provider1).claim(rentalId, user1.address, claimAmount, deadline, signatures))
+      await expect(staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures))
         .to.emit(staking, "Claimed");
     });
 
@@ -1356,22 +5316,20 @@ describe("TLPStaking", function () {
 
       // Provider claims entire balance
       const rentalId = generateRentalId();
-      const nonce = await staking.getNonce(provider1.address);
       const deadline = await getDeadline();
-      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, DEPOSIT_AMOUNT, nonce, deadline);
+      const signatures = await signClaim([signer1, signer2], rentalId, user1.address, provider1.address, DEPOSIT_AMOUNT, deadline);
 
-      await staking.connect(provider1).claim(rentalId, user1.address, DEPOSIT_AMOUNT, deadline, signatures);
+      await staking.connect(provider1).claim(rentalId, user1.address, tlpAddress, 0, DEPOSIT_AMOUNT, deadline, SIGNER_EPOCH, signatures);
 
       expect(await staking.getUserBalance(user1.address)).to.equal(0);
 
       // Subsequent claim should fail
       const rentalId2 = generateRentalId();
-      const nonce2 = await staking.getNonce(provider1.address);
       const deadline2 = await getDeadline();
-      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider1.address, 1n, nonce2, deadline2);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider1.address, 1n, deadline2);
 
       await expect(
-        staking.connect(provider1).claim(rentalId2, user1.address, 1n, deadline2, signatures2)
+        staking.connect(provider1).claim(rentalId2, user1.address, tlpAddress, 0, 1n, deadline2, SIGNER_EPOCH, signatures2)
       ).to.be.revertedWithCustomError(staking, "InsufficientBalance");
     });
 
@@ -1385,16 +5343,14 @@ describe("TLPStaking", function () {
       // Both providers have valid claim signatures
       const rentalId1 = generateRentalId();
       const rentalId2 = generateRentalId();
-      const nonce1 = await staking.getNonce(provider1.address);
-      const nonce2 = await staking.getNonce(provider2.address);
       const deadline = await getDeadline();
 
-      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, nonce1, deadline);
-      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider2.address, claimAmount, nonce2, deadline);
+      const signatures1 = await signClaim([signer1, signer2], rentalId1, user1.address, provider1.address, claimAmount, deadline);
+      const signatures2 = await signClaim([signer1, signer2], rentalId2, user1.address, provider2.address, claimAmount, deadline);
 
       // Both claims should succeed
-      await staking.connect(provider1).claim(rentalId1, user1.address, claimAmount, deadline, signatures1);
-      await staking.connect(provider2).claim(rentalId2, user1.address, claimAmount, deadline, signatures2);
+      await staking.connect(provider1).claim(rentalId1, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures1);
+      await staking.connect(provider2).claim(rentalId2, user1.address, tlpAddress, 0, claimAmount, deadline, SIGNER_EPOCH, signatures2);
 
       expect(await staking.getUserBalance(user1.address)).to.equal(DEPOSIT_AMOUNT - claimAmount * 2n);
     });